@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { queryAuditLog } from '@/lib/audit-log'
+import { SESSION_COOKIE_NAME, createSessionToken } from '@/lib/auth/session'
+import type { Role } from '@/lib/permissions'
+import { GET } from './route'
+
+vi.mock('@/lib/audit-log', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/audit-log')>()),
+  queryAuditLog: vi.fn(),
+}))
+
+const AUTH_SECRET = 'test-secret'
+
+const ENTRY = {
+  timestamp: new Date('2026-10-19T08:00:00Z'),
+  action: 'UPDATE' as const,
+  tableName: 't_projects',
+  userId: 'u2',
+  ipAddress: '203.0.113.7',
+  result: 'SUCCESS' as const,
+}
+
+function auditRequest(role: Role, query = '') {
+  const token = createSessionToken({ id: 'u1', role }, { secret: AUTH_SECRET, ttlMs: 60_000 })
+  return new NextRequest(`http://localhost/api/audit${query}`, {
+    headers: { cookie: `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}` },
+  })
+}
+
+describe('GET /api/audit', () => {
+  beforeAll(() => {
+    vi.stubEnv('AUTH_SECRET', AUTH_SECRET)
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+  })
+
+  beforeEach(() => {
+    vi.mocked(queryAuditLog).mockReset()
+    vi.mocked(queryAuditLog).mockResolvedValue({ data: [ENTRY], error: null })
+  })
+
+  it('shows admins every entry with IP addresses', async () => {
+    const response = await GET(auditRequest('admin', '?table=t_projects'))
+    const body = await response.json()
+
+    expect(vi.mocked(queryAuditLog).mock.calls[0][0]).toEqual({ tableName: 't_projects' })
+    expect(body.entries[0]).toMatchObject({ userId: 'u2', ipAddress: '203.0.113.7' })
+  })
+
+  it.each<Role>(['viewer', 'disponent'])('limits %s to their own entries without IP addresses', async (role) => {
+    const response = await GET(auditRequest(role, '?table=t_projects'))
+    const body = await response.json()
+
+    expect(vi.mocked(queryAuditLog).mock.calls[0][0]).toEqual({ tableName: 't_projects', clientId: 'u1' })
+    expect(body.entries[0]).not.toHaveProperty('ipAddress')
+  })
+
+  it('refuses other clients for non-admins', async () => {
+    const response = await GET(auditRequest('viewer', '?client=u2'))
+
+    expect(response.status).toBe(403)
+    expect(queryAuditLog).not.toHaveBeenCalled()
+  })
+})
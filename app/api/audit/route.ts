@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  queryAuditLog,
+  redactAuditLogEntries,
+  scopeAuditLogQuery,
+  type AuditLogAction,
+  type AuditLogQuery,
+} from '@/lib/audit-log'
+import { authMiddleware } from '@/lib/auth'
+import { maskSensitiveData } from '@/lib/masking'
+import { ROLE_POLICIES } from '@/lib/permissions'
+import { rateLimitMiddleware } from '@/lib/rate-limit'
+
+const AUDIT_ACTIONS: AuditLogAction[] = ['INSERT', 'UPDATE', 'DELETE', 'QUERY']
+const AUDIT_RESULTS = ['SUCCESS', 'FAILURE'] as const
+const RECORD_PATTERN = /^([a-zA-Z_][a-zA-Z0-9_]*):(.+)$/
+
+function parseDate(value: string | null): Date | null | undefined {
+  if (!value) {
+    return undefined
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Search the audit log
+ * Query parameters: table, action, result, from, to (ISO dates), client (user id or IP),
+ * record (column:value of a touched row, e.g. project_id:42), limit (max 500)
+ * Only admins see every entry and IP addresses; other roles see their own writes.
+ */
+export async function GET(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  // Apply rate limiting
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/audit', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  const params = req.nextUrl.searchParams
+  const query: AuditLogQuery = {}
+
+  const table = params.get('table')
+  if (table) {
+    query.tableName = table
+  }
+
+  const action = params.get('action')?.toUpperCase()
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action as AuditLogAction)) {
+      return NextResponse.json(
+        { error: `Ungültige Aktion. Erlaubt: ${AUDIT_ACTIONS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    query.action = action as AuditLogAction
+  }
+
+  const result = params.get('result')?.toUpperCase()
+  if (result) {
+    if (!AUDIT_RESULTS.includes(result as AuditLogQuery['result'] & string)) {
+      return NextResponse.json(
+        { error: `Ungültiges Ergebnis. Erlaubt: ${AUDIT_RESULTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    query.result = result as AuditLogQuery['result']
+  }
+
+  const from = parseDate(params.get('from'))
+  const to = parseDate(params.get('to'))
+  if (from === null || to === null) {
+    return NextResponse.json(
+      { error: 'from und to müssen gültige Datumsangaben (ISO 8601) sein' },
+      { status: 400 }
+    )
+  }
+  query.from = from
+  query.to = to
+
+  const user = auth.user!
+  const client = params.get('client')
+  if (client) {
+    if (user.role !== 'admin' && client !== user.id) {
+      return NextResponse.json(
+        { error: `Als ${ROLE_POLICIES[user.role].label} kannst du nur deine eigenen Einträge im Audit-Log sehen.` },
+        { status: 403 }
+      )
+    }
+    query.clientId = client
+  }
+
+  const record = params.get('record')
+  if (record) {
+    const match = RECORD_PATTERN.exec(record)
+    if (!match) {
+      return NextResponse.json(
+        { error: 'record muss die Form spalte:wert haben, z.B. project_id:42' },
+        { status: 400 }
+      )
+    }
+    query.record = { [match[1]]: match[2] }
+  }
+
+  const limit = params.get('limit')
+  if (limit) {
+    const parsedLimit = Number(limit)
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1) {
+      return NextResponse.json(
+        { error: 'limit muss eine positive ganze Zahl sein' },
+        { status: 400 }
+      )
+    }
+    query.limit = parsedLimit
+  }
+
+  const { data, error } = await queryAuditLog(scopeAuditLogQuery(query, user))
+  if (error) {
+    return NextResponse.json({ error }, { status: 503 })
+  }
+
+  // Each entry scopes masking to its own table
+  const entries = maskSensitiveData(redactAuditLogEntries(data || [], user.role), user.role, [])
+  return NextResponse.json({ entries, count: entries.length })
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAuthAdapter, setSessionCookie } from '@/lib/auth'
+import { rateLimitMiddleware } from '@/lib/rate-limit'
+
+/**
+ * Log in with username (email for Supabase Auth) and password
+ */
+export async function POST(req: NextRequest) {
+  // Limited per client address to slow down password guessing
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/auth/login')
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const { username, password } = body
+
+    if (!username || typeof username !== 'string' || !password || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'Benutzername und Passwort sind erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getAuthAdapter().signIn(username.trim(), password)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Benutzername oder Passwort ist falsch.' },
+        { status: 401 }
+      )
+    }
+
+    const response = NextResponse.json({ user })
+    setSessionCookie(response, user)
+    return response
+  } catch (error) {
+    console.error('Login error:', error)
+    return NextResponse.json(
+      { error: 'Die Anmeldung ist derzeit nicht möglich. Bitte versuche es später erneut.' },
+      { status: 500 }
+    )
+  }
+}
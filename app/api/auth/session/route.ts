@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authMiddleware } from '@/lib/auth'
+
+/**
+ * Return the logged-in user, or 401 if there is no valid session
+ */
+export async function GET(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  return NextResponse.json({ user: auth.user }, { headers: { 'Cache-Control': 'no-store' } })
+}
@@ -0,0 +1,147 @@
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { SESSION_COOKIE_NAME, createSessionToken } from '@/lib/auth/session'
+import { createScriptedProvider, getLLMProvider, setLLMProvider } from '@/lib/llm'
+import { queryTable } from '@/lib/supabase-query'
+import { POST } from './route'
+
+vi.mock('@/lib/supabase-query', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase-query')>()),
+  queryTable: vi.fn(async () => ({ data: [], error: null })),
+}))
+
+const AUTH_SECRET = 'test-secret'
+const SCRIPT_PATH = path.resolve(__dirname, '../../../fixtures/chat-script.json')
+const FINAL_ANSWER = 'Übermorgen ist Mittwoch, der 21.10.2026.'
+
+function chatRequest(content: string, headers: Record<string, string> = {}) {
+  const token = createSessionToken({ id: 'dev', role: 'viewer' }, { secret: AUTH_SECRET, ttlMs: 60_000 })
+  return new NextRequest('http://localhost/api/chat', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      cookie: `${SESSION_COOKIE_NAME}=${encodeURIComponent(token)}`,
+      ...headers,
+    },
+    body: JSON.stringify({ messages: [{ role: 'user', content }] }),
+  })
+}
+
+/**
+ * Parsed events of a server-sent event stream
+ */
+async function readEvents(response: Response): Promise<any[]> {
+  const text = await response.text()
+  return text
+    .split('\n\n')
+    .filter((chunk) => chunk.startsWith('data: '))
+    .map((chunk) => JSON.parse(chunk.slice('data: '.length)))
+}
+
+describe('POST /api/chat with the scripted provider', () => {
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-10-19T08:00:00Z'))
+    vi.stubEnv('LLM_PROVIDER', 'scripted')
+    vi.stubEnv('LLM_SCRIPT_PATH', SCRIPT_PATH)
+    vi.stubEnv('AUTH_SECRET', AUTH_SECRET)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    // Every test replays the script from the first turn
+    setLLMProvider(null)
+  })
+
+  it('runs the scripted tool call and returns the final answer', async () => {
+    const complete = vi.spyOn(getLLMProvider(), 'complete')
+
+    const response = await POST(chatRequest('Welches Datum ist übermorgen?', { 'x-disable-streaming': 'true' }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.message).toEqual({ role: 'assistant', content: FINAL_ANSWER })
+    expect(complete).toHaveBeenCalledTimes(2)
+
+    const toolMessage: any = complete.mock.calls[1][0].messages.find((message) => message.role === 'tool')
+    expect(toolMessage?.tool_call_id).toBe('call_scripted_0_0')
+    expect(JSON.parse(toolMessage.content).expressions[0]).toMatchObject({
+      start: '2026-10-21',
+      end: '2026-10-21',
+    })
+  })
+
+  it('streams the tool call and the final answer', async () => {
+    const response = await POST(chatRequest('Welches Datum ist übermorgen?'))
+    const events = await readEvents(response)
+
+    expect(response.headers.get('content-type')).toBe('text/event-stream')
+    expect(events.find((event) => event.type === 'tool_call_started')).toMatchObject({ name: 'resolveDate' })
+    expect(events.find((event) => event.type === 'tool_call_result')).toBeDefined()
+    const answer = events
+      .filter((event) => event.type === 'token')
+      .map((event) => event.content)
+      .join('')
+    expect(answer).toBe(FINAL_ANSWER)
+    expect(events.at(-1)?.type).toBe('done')
+  })
+
+  describe('date ranges from the message', () => {
+    /**
+     * Filters queryTable receives when the model queries the table with the given filters
+     */
+    async function filtersFor(message: string, tableName: string, filters: Record<string, any>) {
+      vi.mocked(queryTable).mockClear()
+      setLLMProvider(
+        createScriptedProvider([
+          { toolCalls: [{ name: 'queryTable', arguments: { tableName, filters } }] },
+          { content: 'Fertig.' },
+        ])
+      )
+      await POST(chatRequest(message, { 'x-disable-streaming': 'true' }))
+      expect(queryTable).toHaveBeenCalledTimes(1)
+      return vi.mocked(queryTable).mock.calls[0][1]
+    }
+
+    it('adds the range when the model set no date filter', async () => {
+      expect(await filtersFor('Welche Einsätze gibt es am Freitag?', 't_morningplan', {})).toEqual({
+        plan_date: { type: 'between', value: ['2026-10-23', '2026-10-23'] },
+      })
+    })
+
+    it('keeps a date filter set by the model', async () => {
+      const filters = { plan_date: { type: 'eq', value: '2026-10-30' } }
+      expect(await filtersFor('Welche Einsätze gibt es am Freitag?', 't_morningplan', filters)).toEqual(filters)
+    })
+
+    it('reads a month in a question in the past tense as the last one', async () => {
+      expect(await filtersFor('Wie viele Einsätze hatte Jonas im November?', 't_morningplan', {})).toEqual({
+        plan_date: { type: 'between', value: ['2025-11-01', '2025-11-30'] },
+      })
+    })
+
+    it('does not narrow lookups by name to the date', async () => {
+      const filters = { name: { type: 'ilike', value: 'Umzug Meier' } }
+      expect(
+        await filtersFor('Trage Jonas am Freitag beim Projekt Umzug Meier ein', 't_projects', filters)
+      ).not.toHaveProperty('project_date')
+    })
+  })
+
+  it('rejects requests without a session', async () => {
+    const response = await POST(
+      new NextRequest('http://localhost/api/chat', {
+        method: 'POST',
+        body: JSON.stringify({ messages: [{ role: 'user', content: 'Hallo' }] }),
+      })
+    )
+    expect(response.status).toBe(401)
+  })
+})
@@ -1,423 +1,36 @@
 import { NextRequest, NextResponse } from 'next/server'
-import OpenAI from 'openai'
-import type { ChatCompletionTool } from 'openai/resources/chat/completions'
 import {
-  queryTable,
-  getTableNames,
-  getTableStructure,
-  queryTableWithJoin,
-  insertRow,
-  updateRow,
-  deleteRow
-} from '@/lib/supabase-query'
-import { INSERT_ALLOWED_TABLES } from '@/lib/constants'
-import { rateLimitMiddleware, getClientIdentifier } from '@/lib/rate-limit'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY is not set')
-}
-
-/**
- * System prompt that instructs the AI on how to handle database queries
- */
-const SYSTEM_PROMPT = `You are the "LiS Operations Assistant", an expert assistant for the company "Land in Sicht".
-
-Your role is to act as a friendly, competent internal helper for projects, employees, planning (MorningPlan), inspections, vehicles, materials and time tracking, based on a PostgreSQL database.
-
-The user usually writes in German, sometimes informally.
-
-Always answer in clear, natural **German**, unless the user explicitly asks for another language.
-
-You have access to a PostgreSQL database with tables AND pre-built VIEWS for complex queries.
-
-**IMPORTANT: Always prefer VIEWS over manual JOINs for complex data!**
-
-KEY VIEWS (use these for common queries):
-
-- **public.v_morningplan_full** ⭐ MOST IMPORTANT  
-  → Complete morning plan view with ALL JOINs already done  
-  → Columns: plan_id, plan_date, start_time, service_type, notes, project_code, project_name, project_ort, vehicle_nickname, vehicle_status, **staff_list** (employee names!)  
-  → USE THIS for: "Projekte mit Mitarbeitern", "Einsätze", "Wer ist eingeplant", etc.  
-  → Example: queryTable('v_morningplan_full', {plan_date: '2025-12-10'})
-
-- **public.v_project_full**  
-  → Complete project view with all related data
-
-- **public.v_employee_kpi**  
-  → Employee KPIs and statistics
-
-- **public.v_project_profit**  
-  → Project profitability calculations
-
-- **public.v_inspection_detail_complete**  
-  → Complete inspection details with all related data
-
-- **public.v_costs_by_phase**  
-  → Cost breakdowns by project phase
-
-- **public.v_time_pairs_enriched**  
-  → Enriched time tracking data
-
-- **public.v_employee_costs**  
-  → Employee cost calculations
-
-- **public.v_material_value**  
-  → Material inventory values
-
-BASE TABLES (for simple queries):
-
-- public.t_projects  
-  → Projekte: project_id, project_code, name, ort, dienstleistungen, status, project_date, project_time
-
-- public.t_employees  
-  → Mitarbeiter: employee_id, name, role, contract_type, hourly_rate, is_active
-
-- public.t_morningplan  
-  → Tagesplanung: plan_id, plan_date, project_id, vehicle_id, start_time, service_type
-
-- public.t_morningplan_staff  
-  → Mitarbeiter-Zuteilung: plan_id, employee_id, role, individual_start_time
-
-- public.t_vehicles  
-  → Fahrzeuge: vehicle_id, nickname, unit, status, is_deleted
-
-- public.t_materials / public.t_material_prices  
-  → Materialien + Preise (EK/VK)
-
-- public.t_services / public.t_service_prices  
-  → Dienstleistungen + Preise
-
-- public.t_inspections / public.t_inspection_items  
-  → Besichtigungen + Details
-
-- public.t_time_pairs  
-  → Zeiterfassung pro Projekt
-
---------------------------------------------------
-GENERAL BEHAVIOUR
---------------------------------------------------
-
-1. Always be freundlich, gelassen und praxisnah.
-   The user may say things like "Hey, hörst du mich?", "Bitte bitte", "Okay, ich warte" – interpret this as casual conversation. 
-   - For "Hörst du mich?": Respond like a voice assistant would, e.g.
-     "Ja, ich verstehe dich – ich arbeite im Hintergrund mit deiner Datenbank. Stell mir einfach eine Frage, z.B. zu Projekten, Mitarbeitern oder Einsätzen."
-
-2. When the user asks things like:
-   - "Was für Informationen hast du denn im Allgemeinen?"
-   - "Nennen wir mal n paar Beispiele bitte."
-   - "Ich brauche Daten über die Mitarbeiter."
-   
-   DO NOT just say "I need a specific question" or ask again and again.
-   Instead:
-   - Proactively describe what you can do with the data.
-   - Give 3–7 konkrete Beispiel-Fragen, die du beantworten kannst, z.B.:
-     - „Wie viele aktive Mitarbeiter haben wir?"
-     - „Welche Mitarbeiter sind intern/extern?"
-     - „Zeig mir alle Einsätze von heute mit Fahrzeug und Team."
-     - „Welche Besichtigungen sind nächste Woche geplant?"
-   - Wenn der Nutzer danach immer noch vage ist, schlage du eine sinnvolle Auswertung aktiv vor und führe sie aus.
-
-3. You are allowed to:
-   - Describe the schema and its possibilities **ohne** eine SQL-Query auszuführen (z.B. bei Meta-Fragen „Was kannst du?").
-   - Run simple default queries selbst, wenn die Frage grob ist, z.B.:
-     "Ich brauche Daten über die Mitarbeiter."
-     → Du darfst eine Abfrage wie  
-       SELECT name, contract_type, is_active, hourly_rate FROM public.t_employees ORDER BY name LIMIT 20;  
-       durchführen und das Ergebnis zusammenfassen.
-
-4. Never enter an endless loop of:
-   - "I need a specific question"  
-   If the user bleibt vage, du gehst einen Schritt auf ihn zu:
-   - Biete Beispiele an
-   - Schlage eine Erstauswertung vor („Ich zeige dir mal alle aktiven Mitarbeiter…")
-   - Und mache das dann.
-
---------------------------------------------------
-SQL USAGE RULES
---------------------------------------------------
-
-Your primary technical task is to:
-- Interpret a business question.
-- Map it to the right tables and columns.
-- Write one or more safe SQL **SELECT** queries.
-- Use their results to give a verständliche Antwort in German.
-
-Rules:
-
-1. **Default mode is READ-ONLY (SELECT).**
-   - Allowed: SELECT, WITH, JOIN, WHERE, GROUP BY, ORDER BY, LIMIT.
-   - You may CREATE, UPDATE, or DELETE data only if the user explicitly asks and clearly confirms.
-
-2. **Tools:**
-   - Use **insertRow** to create new rows.
-   - Use **updateRow** to modify existing rows.
-   - Use **deleteRow** to delete rows.
-   - To remove a single field value, use **updateRow** and set the field to null (never delete the whole row).
-
-3. **Confirmation:**
-   - When the user confirms with "ja", "ok", "bitte", or similar, immediately call the corresponding tool.
-   - Do NOT ask again after confirmation.
-   - Do NOT output SQL.
-
-4. **Safety:**
-   - Only operate on allowed tables.
-   - Never ALTER schema.
-   - Be precise, deterministic, and concise.
-
-5. **CRITICAL WORKFLOWS:**
-   - **INSERT - ABSOLUTE REQUIREMENT**: 
-     * **YOU MUST CALL insertRow TOOL IMMEDIATELY - DO NOT JUST SAY YOU WILL DO IT!**
-     * When user says "neues projekt", "projekt hinzufügen", "neuer Eintrag projekt", "projekt erstellen" or similar and provides ANY information (even just a name like "Grosser UMZUG" or "ZZZ"), you MUST:
-       1. IMMEDIATELY call the insertRow tool - do NOT just say you will create it, ACTUALLY CALL THE TOOL FUNCTION!
-       2. Look through ALL previous messages in the conversation to find ALL information the user has provided (name, ort, etc.)
-       3. Call insertRow with tableName='t_projects' and values containing ALL available information combined
-       4. Use sensible defaults for missing optional fields (ort can be null, status='geplant', project_code=auto-generate)
-       5. NEVER ask for more information - if you have at least a name, that's enough!
-       6. ALWAYS set confirm: true - the user has already provided the information
-       7. **CRITICAL**: The values object MUST contain at least the 'name' field. Example: {name: "Grosser UMZUG", ort: null, status: "geplant"}
-     * **CRITICAL**: You MUST actually call the insertRow tool function - do NOT just respond with text saying you will create it!
-     * **EXAMPLE**: If user says "neues projekt named ZZZ", you MUST call: insertRow(tableName='t_projects', values={name: 'ZZZ', ort: null, status: 'geplant'}, confirm=true)
-     * **EXAMPLE**: If user says "neuer Eintrag projekt namens Grosser UMZUG", you MUST call: insertRow(tableName='t_projects', values={name: 'Grosser UMZUG', ort: null, status: 'geplant'}, confirm=true)
-     * **EXAMPLE**: If user says "neues projekt named ZZZ" and then later says "Köln", you MUST combine both: call insertRow with {name: "ZZZ", ort: "Köln", confirm: true}
-     * **EXAMPLE**: If user says "neues projekt named ZZZ" and nothing else, call insertRow with {name: "ZZZ", ort: null, confirm: true} - ort can be null!
-     * For missing optional fields, use sensible defaults:
-       - For t_employees: is_active=true (default), role=null (if not specified), hourly_rate=0 (if not specified)
-       - For t_projects: status='geplant' (default), ort=null (if not specified - it's optional!), project_code=auto-generate if not provided (e.g., PRJ-YYYYMMDD-XXXXX)
-     * **CRITICAL**: ort (location) is OPTIONAL for t_projects - you can set it to null if not provided. Only name is required!
-     * **CRITICAL**: When user provides project information in multiple messages, COMBINE all information from the conversation history before calling insertRow.
-     * **CRITICAL**: DO NOT just say "Ich erstelle das Projekt" - you MUST actually call the insertRow tool function!
-     * **CRITICAL FOR EMPLOYEES**: 
-       - When user says "neu/neuer mitarbeiter/arbeiter/worker [Name]" with ANY information (even just a name), IMMEDIATELY call insertRow!
-       - Extract ALL available information from the message
-       - Use sensible defaults for missing fields:
-         * hourly_rate: 0 if not provided
-         * contract_type: null if not provided (or "Intern" if user says "intern")
-         * is_active: true (always)
-         * role: null (always, unless specified)
-       - NEVER ask for more information - if you have at least a name, that's enough!
-     * **EXAMPLE**: "neu mitarbeiter Jonas" → insertRow with {name: "Jonas", hourly_rate: 0, contract_type: null, is_active: true}
-     * **EXAMPLE**: "neuer arbeiter X 30 int" → insertRow with {name: "X", hourly_rate: 30, contract_type: "Intern", is_active: true}
-     * **EXAMPLE**: "mitarbeiter neu Rachid 50 euro intern" → insertRow with {name: "Rachid", hourly_rate: 50, contract_type: "Intern", is_active: true}
-     * DO NOT show JSON or ask again - just execute the insert with what you have.
-     * **CRITICAL FOR MATERIALS**: 
-       - When user says "neues material", "material hinzufügen", "material erstellen" or similar and provides ANY information (even just a name like "Styro"), IMMEDIATELY call insertRow!
-       - Extract ALL available information from the message (name, unit, category, etc.)
-       - Use sensible defaults for missing fields:
-         * material_id: auto-generate if not provided (format: M-[UPPERCASE_NAME]-[RANDOM])
-         * is_active: true (default)
-         * vat_rate: 19 (default, 19%)
-         * default_quantity: 1 (default)
-         * unit: null if not provided
-         * category: null if not provided
-       - NEVER ask for more information - if you have at least a name, that's enough!
-     * **EXAMPLE**: "neues material Styro" → insertRow with {name: "Styro", unit: null, category: null, vat_rate: 19, is_active: true, default_quantity: 1, material_id: auto-generate}
-     * **EXAMPLE**: "neues material Styro Kilogramm EK 10 VK 30" → 
-       1. First insertRow with tableName='t_materials' and {name: "Styro", unit: "Kilogramm", vat_rate: 19, is_active: true, default_quantity: 1, material_id: auto-generate}
-       2. Then insertRow with tableName='t_material_prices' and {material_id: [generated_material_id], purchase_price: 10, sale_price: 30}
-     * **CRITICAL FOR MATERIAL PRICES**: When user says "EK [price] VK [price]" or "Einkaufspreis [price] Verkaufspreis [price]" for a material:
-       - You MUST insert into t_material_prices table, NOT t_materials!
-       - First find the material_id by querying t_materials with the material name
-       - Then call insertRow with tableName='t_material_prices', values={material_id: [found_material_id], purchase_price: [EK], sale_price: [VK]}
-       - **EXAMPLE**: User says "10 ek 30 vk" for material "Styro":
-         1. Query t_materials: queryTable('t_materials', {name: 'Styro'}) to find material_id
-         2. Call insertRow: tableName='t_material_prices', values={material_id: [found_material_id], purchase_price: 10, sale_price: 30}
-   - **UPDATE**: 
-     * When user says "umbenennen", "ändern", "update", "setze", "aktualisiere", "rename", "change", "modify" or similar, you MUST:
-       1. Identify the row to update using unique identifiers (project_code, employee_id, name, etc.)
-       2. Extract the new values from the user's message
-       3. IMMEDIATELY call updateRow tool with filters and values
-     * **EXAMPLE**: If user says "projekt zzz umbenennen in aaaa", call updateRow with:
-       - tableName: 't_projects'
-       - filters: {name: 'ZZZ'} (to find the project)
-       - values: {name: 'AAAA'} (new name)
-     * **EXAMPLE**: If user says "ändere projekt ZZZ ort zu Köln", call updateRow with:
-       - tableName: 't_projects'
-       - filters: {name: 'ZZZ'}
-       - values: {ort: 'Köln'}
-     * **CRITICAL FOR EMPLOYEE START TIMES**: When user says "startzeit [EmployeeName] [Time]" or "startzeit [EmployeeName] [Time]" for a project:
-       - This refers to the **individual_start_time** field in **t_morningplan_staff**, NOT the start_time in t_morningplan!
-       - You MUST first find the correct row by:
-         1. Query t_morningplan to find plan_id where project name matches (use queryTable with filters on project name or project_id)
-         2. Query t_employees to find employee_id where name matches (use queryTable with filters on name)
-         3. Use both plan_id AND employee_id as filters in updateRow for t_morningplan_staff
-       - Then call updateRow with:
-         - tableName: 't_morningplan_staff'
-         - filters: {plan_id: [found_plan_id], employee_id: [found_employee_id]}
-         - values: {individual_start_time: '[Time]'} (format: "HH:MM:SS", e.g., "12:00:00")
-       - **EXAMPLE**: User says "startzeit jonas 12:00" for project "Umzug":
-         1. Query t_morningplan: queryTable('t_morningplan', {project_id: [found_project_id]}) or join with t_projects to find plan_id
-         2. Query t_employees: queryTable('t_employees', {name: 'Jonas'}) to find employee_id
-         3. Call updateRow: tableName='t_morningplan_staff', filters={plan_id: [found_plan_id], employee_id: [found_employee_id]}, values={individual_start_time: '12:00:00'}
-         - tableName: 't_morningplan_staff'
-         - filters: {plan_id: '...', employee_id: '...'} (both required!)
-         - values: {individual_start_time: 'HH:MM:SS'} (format as time string)
-       - **EXAMPLE**: "startzeit Jonas 12:00 für Umzug" → 
-         1. Query t_morningplan to find plan_id for project "Umzug"
-         2. Query t_employees to find employee_id for "Jonas"
-         3. Call updateRow(tableName='t_morningplan_staff', filters={plan_id: '...', employee_id: '...'}, values={individual_start_time: '12:00:00'})
-     * **CRITICAL**: Use the name field to find projects when user mentions a project name - filters: {name: "ProjectName"}
-     * **CRITICAL**: Do NOT create a new row - use updateRow to modify existing data!
-   - **DELETE**: When user asks to delete, show what will be deleted and ask for confirmation. When confirmed, IMMEDIATELY call deleteRow with filters.
-   - **DELETE FIELD**: When user asks to remove a field value (e.g., "lösche die Straße"), use updateRow with the field set to null.
-
-2. Respect the schema:
-   - Join using the defined foreign keys, e.g.:
-     - t_morningplan.project_id → t_projects.project_id
-     - t_morningplan_staff.plan_id → t_morningplan.plan_id
-     - t_morningplan_staff.employee_id → t_employees.employee_id
-     - t_inspections.project_id → t_projects.project_id
-     - t_inspection_items.inspection_id → t_inspections.inspection_id
-     - t_vehicle_rates.vehicle_id → t_vehicles.vehicle_id
-     - t_material_prices.material_id → t_materials.material_id
-     - t_time_pairs.project_id → t_projects.project_id
-     - t_project_note_media.project_id → t_projects.project_id
-
-3. Interpreting business terms:
-  - "Interne Mitarbeiter" → nutze Felder wie contract_type und is_active:
-    - Versuche z.B. contract_type IN ('intern', 'Intern', 'Fest') oder filtern nach is_active = true.
-    - Wenn unklar, sag kurz dazu, welche Annahme du verwendet hast.
-  - "Aktive Mitarbeiter" → is_active = true.
-  - **"Heute" / "Welchen Tag haben wir":**
-    - Nutze die bereitgestellte Systemzeit (siehe unten), um Datum/Uhrzeit direkt zu nennen.
-    - Keine Datumsrate oder Annäherung nötig: verwende die aktuelle Zeitangabe als Quelle.
-  - "Diese Woche" / "diese Kalenderwoche" → **immer** Wochenspanne Montag–Sonntag auf denselben Datumsfeldern (Berlin-Zeit) und nur Datensätze innerhalb dieses Bereichs zurückgeben.
-  - "Letzte X Tage/Wochen" → Zeitintervalle mit date ranges, vom aktuellen Datum aus berechnet.
-  - **"Nächster Einsatz" / "zukünftige Aufträge" / "noch nicht erledigt"** → IMMER filtere nach Datum >= heute (aktuelles Datum). Verwende z.B. {plan_date: {type: 'gte', value: 'YYYY-MM-DD'}} mit dem heutigen Datum.
-  - **"Vergangene" / "vergangen" / "erledigt"** → Filtere nach Datum < heute.
-  - **CRITICAL**: Wenn der Nutzer nach "zukünftigen", "nächsten" oder "noch nicht erledigten" Projekten/Einsätzen fragt, MUSS das Datum >= heute sein. Prüfe IMMER, ob das Datum in der Zukunft liegt, bevor du es als "zukünftig" bezeichnest.
-
-4. If a table might be empty or the filter returns nothing:
-   - Sag klar: „Es wurden keine passenden Datensätze gefunden."
-   - Und schlag ggf. alternative Filter vor (z.B. anderes Datum, Status etc.).
-
-5. If you get a SQL error:
-   - Do not show the raw error.
-   - Try to correct the query (e.g. wrong column name, missing cast).
-   - If still not fixable, sag z.B.:
-     „Ich konnte die Abfrage gerade nicht fehlerfrei ausführen. Wir können die Frage etwas anders formulieren, z.B. so: …"
-
-6. **CRITICAL: Data Consistency Rules**
-   - **NEVER give multiple different answers to the same question.**
-     - If the user asks "mit wem?" (with whom), give ONE correct answer based on the data.
-     - Do NOT change your answer when the user says "sicher?" (sure?) unless you made an actual error.
-   - **ALWAYS JOIN to get actual names, not IDs:**
-     - When showing employees in projects: JOIN t_morningplan_staff with t_employees to get employee names.
-     - NEVER show employee_id UUIDs to the user. Always resolve them to names.
-   - **When user asks for "details [Name]":**
-     - Filter by the 'name' column in t_projects WHERE name LIKE '%[Name]%'
-     - Do NOT accidentally return a different project
-   - **Current date awareness:**
-     - Du kennst das aktuelle Datum und die aktuelle Uhrzeit aus der Systeminformation (siehe weiter unten)
-     - Nutze diese Zeitangaben direkt für Aussagen zu „heute", "jetzt" oder "welcher Tag ist heute"
-     - Berechne auch relative Angaben wie „gestern", „morgen", „übermorgen", "letzte Woche" oder „nächste Woche" auf Basis dieser Systemzeit
-     - Wenn ein Zeitraum gemeint ist (z.B. "diese Woche"), leite ihn von diesem aktuellen Datum ab
-     - Nutze **Europa/Berlin** als Referenzzeitzone für relative Datumsangaben und nenne Datum/Uhrzeit explizit, falls hilfreich
-     - **Be honest about ambiguity:**
-      - If multiple projects match (e.g., multiple "Umzug" on same date), say so and ask which one.
-      - Do NOT guess or pick randomly.
-
-7. **CRITICAL: Always Use Pre-Built Views:**
-   - For "Projekte mit Mitarbeitern", "Welche Mitarbeiter sind eingeplant", "Einsätze":
-     **ALWAYS query v_morningplan_full** - it has everything pre-joined!
-   - **This view contains:**
-     * project_name, project_code, project_ort
-     * vehicle_nickname, vehicle_status
-     * **staff_list** (employee names, already formatted!)
-   - **Usage examples:**
-     * "Projekte am 10.12.2025 mit Mitarbeitern" → queryTable('v_morningplan_full', {plan_date: '2025-12-10'})
-     * "Mitarbeiter für Projekt Müller" → Use filters on project_name
-     * "Alle Einsätze heute" → queryTable('v_morningplan_full') with date filter
-   - **DO NOT use getProjectsWithStaff() - it's deprecated**
-   - **DO NOT manually JOIN tables - use the views!**
-   - **NEVER show UUIDs - the views already have names!**
-
---------------------------------------------------
-ANSWER STYLE
---------------------------------------------------
-
-When answering:
-
-1. Always in **German**, freundlich und praxisnah.
-
-2. Structure answers roughly like:
-   - 1–3 Sätze direkte Antwort auf die Frage.
-   - Danach eine kleine Auflistung oder Tabelle (in Textform) mit den wichtigsten Feldern:
-     - z.B. bei Mitarbeitern: Name, Rolle, contract_type, hourly_rate
-     - bei MorningPlan: Datum, Projekt, Fahrzeug, Mitarbeiter
-     - bei Projekten: project_code, name, ort, status, project_date
-
-3. If the question was vague, explain kurz, welche Annahmen du getroffen hast:
-   - „Ich habe hier nur aktive Mitarbeiter berücksichtigt."
-   - „Ich habe die letzten 30 Tage verwendet, weil kein Zeitraum angegeben wurde."
-
-4. **CONSISTENCY IS CRITICAL:**
-   - If the user challenges your answer with "sicher?" (sure?), "wirklich?" (really?), or similar:
-     - DO NOT change your answer unless you actually made an error.
-     - If you're confident: "Ja, das ist korrekt basierend auf den Daten."
-     - If you're unsure: "Lass mich nochmal prüfen..." and then verify with a fresh query.
-   - NEVER give contradictory answers to the same question in one conversation.
-   - If you realize you made an error, say so: "Entschuldige, ich habe einen Fehler gemacht. Die korrekte Antwort ist..."
-
-5. For conversational openers like:
-   - "Hey, hörst du mich?"
-   - "Verstehst du mich?"
-   
-   Answer human-like first, then gently steer:
-   - „Ja, ich verstehe dich 🙂 Ich arbeite mit deinen Daten in der Datenbank.  
-      Du kannst mich z.B. fragen:  
-      – Wie viele aktive Mitarbeiter haben wir?  
-      – Welche Einsätze stehen heute an?  
-      – Welche Besichtigungen sind diese Woche geplant?"
-
---------------------------------------------------
-WHAT YOU CAN ANSWER (EXAMPLES)
---------------------------------------------------
-
-Be ready to answer questions like:
-
-- Mitarbeiter:
-  - „Wie viele aktive Mitarbeiter haben wir und wie heißen sie?"
-  - „Welche Mitarbeiter haben den höchsten Stundensatz?"
-  - „Zeig mir alle Mitarbeiter mit Vertragsstunden und Stundensätzen."
-
-- Projekte:
-  - „Welche Projekte sind diese Woche geplant?"
-  - „Zeig mir alle offenen Projekte in [Ort]."
-
-- MorningPlan:
-  - „Welche Einsätze sind heute geplant, mit Fahrzeug und Mitarbeitern?"
-  - „Mit welchem Fahrzeug fahren wir morgen zu Projekt X?"
-
-- Besichtigung:
-  - „Welche Besichtigungen sind nächste Woche geplant?"
-  - „Zeig mir alle Besichtigungen für Kunde Müller."
-
-- Fahrzeuge:
-  - „Welche Fahrzeuge sind heute als 'bereit' markiert?"
-  - „Wie sind die Tagesraten (total_price_per_unit) je Fahrzeug?"
-
-- Materialien & Services:
-  - „Welche aktiven Materialien haben wir und wie sind EK/VK-Preise?"
-  - „Zeig mir alle Entsorgungsleistungen mit ihren Preisen."
-
-If a user asks very vaguely (e.g. „Ich brauche Daten über die Mitarbeiter"), you:
-- Antwortest NICHT mit „Ich brauche eine spezifische Frage."
-- Sondern:
-  - „Okay, hier ist ein Überblick über die Mitarbeiter, die aktuell im System sind: …"
-  - Führst eine sinnvolle Standardabfrage aus (z.B. aktive Mitarbeiter).
-  - Und bietest im Anschluss an: „Wenn du willst, kann ich das nach Rolle, Vertragstyp oder Stundensatz filtern."
-
---------------------------------------------------
-Your main goal:
-Act as an internal analytics & operations assistant for Land in Sicht:
-- verstehe auch unpräzise oder gesprochene Fragen,
-- gehe aktiv einen Schritt auf den Nutzer zu,
-- nutze die Datenbank sinnvoll,
-- antworte klar, freundlich und fachlich korrekt in German.`
+  getToolDefinitions,
+  describeToolCall,
+  executeToolCall,
+  summarizeToolResult,
+  type ToolContext,
+} from '@/lib/tools'
+import { getLLMProvider, type LLMProvider } from '@/lib/llm'
+import { authMiddleware } from '@/lib/auth'
+import { estimateTokens, fitMessagesToBudget } from '@/lib/context-manager'
+import { getSystemPrompt, isLiveColumnMissing } from '@/lib/prompt'
+import { getBerlinToday, parseGermanDates } from '@/lib/date-parser'
+import { buildDateRangeFilter, type DayRange } from '@/lib/date-fields'
+import { getFilterColumns } from '@/lib/filters'
+import { getDateField, getTableMetadata } from '@/lib/table-metadata'
+import { describeRolePermissions } from '@/lib/permissions'
+import { rateLimitMiddleware, getClientIdentifier, getClientIp } from '@/lib/rate-limit'
+import {
+  claimPendingAction,
+  discardPendingAction,
+  executePendingAction,
+  toConfirmationRequest,
+  type PendingActionSummary,
+} from '@/lib/pending-actions'
+import { getUndoAvailability, undoLastWrite } from '@/lib/undo'
+import { isCancellationCommand, isConfirmationCommand, isUndoCommand } from '@/lib/chat-commands'
+import type {
+  ChatStreamEvent,
+  UndoAvailability,
+  UsageEvent,
+  WriteCommittedEvent,
+} from '@/types/chat-events'
 
 interface Message {
   role: 'system' | 'user' | 'assistant' | 'function' | 'tool'
@@ -429,21 +42,14 @@ interface Message {
 
 interface ChatRequest {
   messages: Message[]
+  pendingActionId?: string
 }
 
-type DateRange = {
-  start: string
-  end: string
-}
-
-const DATE_RANGE_TABLE_FIELDS: Record<string, string> = {
-  v_morningplan_full: 'plan_date',
-  t_morningplan: 'plan_date',
-  v_project_full: 'project_date',
-  t_projects: 'project_date',
-}
+// User messages considered when picking the prompt's workflow sections
+const PROMPT_INTENT_MESSAGES = 3
 
-// INSERT_ALLOWED_TABLES is now imported from @/lib/constants
+// Who is making the request: the session user and their client address
+type RequestActor = Pick<ToolContext, 'clientId' | 'userId' | 'ipAddress' | 'role'>
 
 const PROJECT_FILTER_FIELDS: Record<
   string,
@@ -467,133 +73,6 @@ const normalizeText = (text: string) =>
     .replace(/\s+/g, ' ')
     .trim()
 
-const isConfirmationMessage = (text: string) => {
-  const normalized = normalizeText(text)
-  if (!normalized) {
-    return false
-  }
-
-  return includesAny(normalized, [
-    'ja',
-    'jap',
-    'jo',
-    'yes',
-    'ok',
-    'okay',
-    'klar',
-    'bitte',
-    'mach',
-    'machs',
-    'machs bitte',
-    'bitte eintragen',
-    'ja bitte',
-    'ja füge',
-    'füge das',
-    'füge hinzu',
-    'einfügen',
-    'erstellen',
-    'anlegen',
-    'hinzufügen',
-  ])
-}
-
-const normalizeInsertPayload = (payload: Record<string, any>) => {
-  if (payload.tableName && payload.values && typeof payload.values === 'object') {
-    return {
-      tableName: payload.tableName,
-      values: payload.values,
-    }
-  }
-
-  return {
-    tableName: payload.tableName,
-    values: payload,
-  }
-}
-
-const extractInsertPayload = (content: string) => {
-  // Try explicit INSERT_PAYLOAD markers first
-  const codeBlockMatch = content.match(/```json\s*INSERT_PAYLOAD\s*([\s\S]*?)```/i)
-  const inlineMatch = content.match(/INSERT_PAYLOAD:\s*({[\s\S]*?})/i)
-  const rawJson = codeBlockMatch?.[1] ?? inlineMatch?.[1]
-
-  if (rawJson) {
-    try {
-      const payload = JSON.parse(rawJson.trim())
-      if (!payload || typeof payload !== 'object') {
-        return null
-      }
-      return normalizeInsertPayload(payload)
-    } catch (error) {
-      console.error('Failed to parse INSERT_PAYLOAD JSON:', error)
-      return null
-    }
-  }
-
-  // Try to find JSON objects that look like insert payloads
-  // Look for objects with tableName or common table field names
-  const candidates: string[] = []
-  let depth = 0
-  let startIndex = -1
-  for (let i = 0; i < content.length; i++) {
-    const char = content[i]
-    if (char === '{') {
-      if (depth === 0) {
-        startIndex = i
-      }
-      depth += 1
-    } else if (char === '}') {
-      depth -= 1
-      if (depth === 0 && startIndex !== -1) {
-        candidates.push(content.slice(startIndex, i + 1))
-        startIndex = -1
-      }
-    }
-  }
-
-  // Try to find the most likely insert payload
-  // Prefer objects that have tableName or common project fields
-  for (const candidate of candidates) {
-    try {
-      const payload = JSON.parse(candidate.trim())
-      if (payload && typeof payload === 'object') {
-        // Check if this looks like an insert payload
-        const hasTableName = 'tableName' in payload
-        const hasProjectFields = 'project_code' in payload || 'name' in payload || 'project_date' in payload
-        const hasValues = 'values' in payload
-        
-        if (hasTableName || (hasProjectFields && !hasValues)) {
-        return normalizeInsertPayload(payload)
-        }
-        
-        // If it has values object, it might be the payload structure
-        if (hasValues && typeof payload.values === 'object') {
-          return normalizeInsertPayload(payload)
-        }
-        
-        // Last resort: if it looks like project data, try it
-        if (hasProjectFields) {
-          return normalizeInsertPayload(payload)
-        }
-      }
-    } catch (error) {
-      continue
-    }
-  }
-
-  return null
-}
-
-const inferInsertTable = (text: string) => {
-  const match = text.match(/\bt_[a-z0-9_]+\b/i)
-  if (!match) {
-    return null
-  }
-
-  const table = match[0]
-  return INSERT_ALLOWED_TABLES.has(table) ? table : null
-}
-
 const inferProjectName = (userText: string) => {
   const normalized = normalizeText(userText)
   if (!normalized) return null
@@ -667,84 +146,40 @@ const inferProjectIdentifier = (userText: string) => {
   }
 }
 
-const inferDateRange = ({
-  userText,
-  weekStart,
-  weekEnd,
-  berlinDateUtc,
-}: {
-  userText: string
-  weekStart: Date
-  weekEnd: Date
-  berlinDateUtc: Date
-}): DateRange | null => {
-  const text = userText.toLowerCase()
-  const hasWeek = text.includes('woche') || text.includes('week')
-  const hasMonth = text.includes('monat') || text.includes('month')
-
-  if (!hasWeek && !hasMonth) {
-    return null
-  }
-
-  if (hasMonth) {
-    const year = berlinDateUtc.getUTCFullYear()
-    const month = berlinDateUtc.getUTCMonth()
-    const currentStart = new Date(Date.UTC(year, month, 1))
-    const currentEnd = new Date(Date.UTC(year, month + 1, 0))
-    const nextStart = new Date(Date.UTC(year, month + 1, 1))
-    const nextEnd = new Date(Date.UTC(year, month + 2, 0))
-    const previousStart = new Date(Date.UTC(year, month - 1, 1))
-    const previousEnd = new Date(Date.UTC(year, month, 0))
-
-    if (includesAny(text, ['nächsten monat', 'naechsten monat', 'kommenden monat'])) {
-      return { start: formatIsoDate(nextStart), end: formatIsoDate(nextEnd) }
-    }
-
-    if (includesAny(text, ['letzten monat', 'vorigen monat', 'vergangenen monat'])) {
-      return { start: formatIsoDate(previousStart), end: formatIsoDate(previousEnd) }
-    }
-
-    if (includesAny(text, ['diesen monat', 'aktuellen monat', 'aktuell', 'jetzt', 'now'])) {
-      return { start: formatIsoDate(currentStart), end: formatIsoDate(currentEnd) }
-    }
-  }
-
-  if (hasWeek) {
-    const currentStart = weekStart
-    const currentEnd = weekEnd
-    const previousStart = new Date(weekStart)
-    previousStart.setUTCDate(previousStart.getUTCDate() - 7)
-    const previousEnd = new Date(weekEnd)
-    previousEnd.setUTCDate(previousEnd.getUTCDate() - 7)
-    const nextStart = new Date(weekStart)
-    nextStart.setUTCDate(nextStart.getUTCDate() + 7)
-    const nextEnd = new Date(weekEnd)
-    nextEnd.setUTCDate(nextEnd.getUTCDate() + 7)
-
-    if (includesAny(text, ['nächste woche', 'naechste woche', 'kommende woche'])) {
-      return { start: formatIsoDate(nextStart), end: formatIsoDate(nextEnd) }
-    }
-
-    if (includesAny(text, ['letzte woche', 'vorige woche', 'vergangene woche'])) {
-      return { start: formatIsoDate(previousStart), end: formatIsoDate(previousEnd) }
-    }
-
-    if (includesAny(text, ['diese woche', 'aktuelle woche', 'kalenderwoche', 'jetzt', 'now'])) {
-      return { start: formatIsoDate(currentStart), end: formatIsoDate(currentEnd) }
-    }
+/**
+ * Columns that pick particular rows (keys and names) rather than a period; foreign keys are left out
+ */
+const getRowLookupColumns = (tableName: string, dateColumn: string) => {
+  const metadata = getTableMetadata(tableName)
+  if (!metadata) {
+    return []
   }
-
-  return null
+  return [
+    ...metadata.primaryKey,
+    ...metadata.uniqueKeys.flat(),
+    ...metadata.lookupColumns.filter((column) => column !== dateColumn && !column.endsWith('_id')),
+  ]
 }
 
 const applyDateRangeFilters = (
   tableName: string,
   filters: Record<string, any>,
-  dateRange: DateRange | null,
+  dateRange: DayRange | null,
   userText?: string
 ) => {
-  const dateField = DATE_RANGE_TABLE_FIELDS[tableName]
-  if (!dateField) {
+  const field = getDateField(tableName)
+  // Never filter on a configured column the live schema does not have
+  if (!field || isLiveColumnMissing(tableName, field.dateColumn)) {
+    return filters
+  }
+
+  // A date filter set by the model wins, and lookups by key or name ("beim Projekt X") are not narrowed to the date
+  const filterColumns = getFilterColumns(filters)
+  const lookupColumns = getRowLookupColumns(tableName, field.dateColumn)
+  if (
+    filterColumns.includes(field.dateColumn) ||
+    filterColumns.some((column) => lookupColumns.includes(column))
+  ) {
     return filters
   }
 
@@ -757,33 +192,11 @@ const applyDateRangeFilters = (
                         lowerText.includes('kommend') ||
                         (lowerText.includes('einsatz') && (lowerText.includes('nächste') || lowerText.includes('zukünftig')))
 
-  if (isFutureQuery && !dateRange) {
-    // Add automatic future date filter
-    const today = new Date()
-    const berlinIsoDate = new Intl.DateTimeFormat('sv-SE', {
-      timeZone: 'Europe/Berlin',
-      year: 'numeric',
-      month: '2-digit',
-      day: '2-digit',
-    }).format(today)
-    
-    return {
-      ...filters,
-      [dateField]: {
-        type: 'gte',
-        value: berlinIsoDate,
-      },
-    }
-  }
-
-  if (dateRange) {
-  return {
-    ...filters,
-    [dateField]: {
-      type: 'between',
-      value: [dateRange.start, dateRange.end],
-    },
-  }
+  // Add automatic future date filter
+  const range = dateRange || (isFutureQuery ? { start: getBerlinToday(), end: null } : null)
+  const rangeFilter = range ? buildDateRangeFilter(tableName, range) : null
+  if (rangeFilter) {
+    return { ...filters, [rangeFilter.column]: rangeFilter.filter }
   }
 
   return filters
@@ -830,15 +243,21 @@ const applyProjectFilters = (
 }
 
 export async function POST(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+  const userId = auth.user!.id
+
   // Apply rate limiting
-  const rateLimitResult = rateLimitMiddleware(req, '/api/chat')
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/chat', userId)
   if (!rateLimitResult.allowed) {
     return rateLimitResult.response!
   }
 
   try {
     const body: ChatRequest = await req.json()
-    const { messages } = body
+    const { messages, pendingActionId } = body
 
     if (!messages || !Array.isArray(messages)) {
       return NextResponse.json(
@@ -849,323 +268,80 @@ export async function POST(req: NextRequest) {
 
     const lastUserMessage =
       [...messages].reverse().find((message) => message.role === 'user')?.content || ''
-    const lastAssistantMessage =
-      [...messages].reverse().find((message) => message.role === 'assistant')?.content || ''
-
-    // Check for recent insertRow, updateRow, or deleteRow tool calls in message history
-    const recentInsertToolCall = [...messages]
-      .reverse()
-      .find((message) => {
-        if (message.role !== 'assistant' || !message.tool_calls) return false
-        return message.tool_calls.some(
-          (tc: any) => tc.function?.name === 'insertRow'
-        )
-      })
+    const actor: RequestActor = {
+      clientId: getClientIdentifier(req, userId),
+      userId,
+      ipAddress: getClientIp(req),
+      role: auth.user!.role,
+    }
 
-    const recentUpdateToolCall = [...messages]
-      .reverse()
-      .find((message) => {
-        if (message.role !== 'assistant' || !message.tool_calls) return false
-        return message.tool_calls.some(
-          (tc: any) => tc.function?.name === 'updateRow'
-        )
-      })
+    const streamingDisabledEnv =
+      process.env.CHAT_STREAMING_DISABLED === 'true' ||
+      process.env.NEXT_PUBLIC_DISABLE_STREAMING === 'true'
 
-    const recentDeleteToolCall = [...messages]
-      .reverse()
-      .find((message) => {
-        if (message.role !== 'assistant' || !message.tool_calls) return false
-        return message.tool_calls.some(
-          (tc: any) => tc.function?.name === 'deleteRow'
-        )
+    const streamingDisabledRequest =
+      req.headers.get('x-disable-streaming') === 'true'
+
+    const streaming = !streamingDisabledEnv && !streamingDisabledRequest
+
+    // Only an explicit command undoes; questions about undoing go to the model
+    if (isUndoCommand(lastUserMessage)) {
+      const undoResult = await undoLastWrite(actor)
+      return fixedMessageResponse(undoResult.message, streaming, {
+        undo: getUndoAvailability(actor),
       })
+    }
 
-    if (isConfirmationMessage(lastUserMessage)) {
-      // Priority: delete > update > insert
-      // First, check for delete confirmation
-      if (recentDeleteToolCall?.tool_calls) {
-        const deleteToolCall = recentDeleteToolCall.tool_calls.find(
-          (tc: any) => tc.function?.name === 'deleteRow'
-        )
-        if (deleteToolCall) {
-          try {
-            const functionArgs = JSON.parse(deleteToolCall.function.arguments || '{}')
-            if (functionArgs.tableName && functionArgs.filters) {
-              if (!INSERT_ALLOWED_TABLES.has(functionArgs.tableName)) {
-                return NextResponse.json(
-                  {
-                    message: {
-                      role: 'assistant',
-                      content: `Löschung nicht möglich: Tabelle "${functionArgs.tableName}" ist nicht erlaubt.`,
-                    },
-                  },
-                  { headers: NO_CACHE_HEADERS }
-                )
-              }
-
-              console.log('Re-executing delete from tool call:', { 
-                table: functionArgs.tableName, 
-                filters: functionArgs.filters 
-              })
-              const clientId = getClientIdentifier(req)
-              const deleteResult = await deleteRow(functionArgs.tableName, functionArgs.filters, {
-                ipAddress: clientId,
-                requireSingleRow: true,
-              })
-
-              if (deleteResult.error) {
-                console.error('Delete error:', deleteResult.error)
-                return NextResponse.json(
-                  {
-                    message: {
-                      role: 'assistant',
-                      content: `Der Eintrag konnte nicht gelöscht werden: ${deleteResult.error}`,
-                    },
-                  },
-                  { headers: NO_CACHE_HEADERS }
-                )
-              }
-
-              const deletedCount = deleteResult.data?.deleted_count || 0
-              // Return immediately - don't check for update/insert if delete was found
-              return NextResponse.json(
-                {
-                  message: {
-                    role: 'assistant',
-                    content: deletedCount > 0 
-                      ? `Der Eintrag wurde erfolgreich gelöscht. ${deletedCount} Zeile(n) wurden entfernt.`
-                      : 'Keine Zeilen wurden gelöscht. Möglicherweise existiert der Eintrag nicht mehr.',
-                  },
-                },
-                { headers: NO_CACHE_HEADERS }
-              )
-            }
-          } catch (error) {
-            console.error('Error parsing delete tool call arguments:', error)
-          }
-          // Return here to prevent checking update/insert if delete was attempted
-          return
-        }
-      }
+    // Checked before confirmation so that "nein, bitte nicht" does not count as a yes
+    if (pendingActionId && isCancellationCommand(lastUserMessage)) {
+      discardPendingAction(pendingActionId, actor.clientId)
+      return fixedMessageResponse(
+        'Alles klar, ich habe die Änderung verworfen. Es wurde nichts gespeichert.',
+        streaming,
+        { resolvedActionId: pendingActionId }
+      )
+    }
 
-      // Then, check for update confirmation
-      if (recentUpdateToolCall?.tool_calls) {
-        const updateToolCall = recentUpdateToolCall.tool_calls.find(
-          (tc: any) => tc.function?.name === 'updateRow'
-        )
-        if (updateToolCall) {
-          try {
-            const functionArgs = JSON.parse(updateToolCall.function.arguments || '{}')
-            if (functionArgs.tableName && functionArgs.filters && functionArgs.values) {
-              if (!INSERT_ALLOWED_TABLES.has(functionArgs.tableName)) {
-                return NextResponse.json(
-                  {
-                    message: {
-                      role: 'assistant',
-                      content: `Update nicht möglich: Tabelle "${functionArgs.tableName}" ist nicht erlaubt.`,
-                    },
-                  },
-                  { headers: NO_CACHE_HEADERS }
-                )
-              }
-
-              console.log('Re-executing update from tool call:', { 
-                table: functionArgs.tableName, 
-                filters: functionArgs.filters,
-                values: functionArgs.values 
-              })
-              const clientId = getClientIdentifier(req)
-              const updateResult = await updateRow(
-                functionArgs.tableName, 
-                functionArgs.filters, 
-                functionArgs.values,
-                {
-                  requireSingleRow: true,
-                }
-              )
-
-              if (updateResult.error) {
-                console.error('Update error:', updateResult.error)
-                return NextResponse.json(
-                  {
-                    message: {
-                      role: 'assistant',
-                      content: `Der Eintrag konnte nicht aktualisiert werden: ${updateResult.error}`,
-                    },
-                  },
-                  { headers: NO_CACHE_HEADERS }
-                )
-              }
-
-              // Return immediately - don't check for insert if update was found
-              return NextResponse.json(
-                {
-                  message: {
-                    role: 'assistant',
-                    content: 'Der Eintrag wurde erfolgreich aktualisiert.',
-                  },
-                },
-                { headers: NO_CACHE_HEADERS }
-              )
-            }
-          } catch (error) {
-            console.error('Error parsing update tool call arguments:', error)
-          }
-          // Return here to prevent checking insert if update was attempted
-          return
-        }
-      }
+    // Writes are only executed from server-side pending actions, never from
+    // tool call arguments replayed by the client
+    if (pendingActionId && isConfirmationCommand(lastUserMessage)) {
+      const claim = claimPendingAction(pendingActionId, actor.clientId)
 
-      // Finally, try to use a recent insert tool call if available
-      if (recentInsertToolCall?.tool_calls) {
-        const insertToolCall = recentInsertToolCall.tool_calls.find(
-          (tc: any) => tc.function?.name === 'insertRow'
+      if (!claim.action) {
+        return fixedMessageResponse(
+          claim.error || 'Diese Aktion kann nicht bestätigt werden.',
+          streaming,
+          { resolvedActionId: pendingActionId }
         )
-        if (insertToolCall) {
-          try {
-            const functionArgs = JSON.parse(insertToolCall.function.arguments || '{}')
-            if (functionArgs.tableName && functionArgs.values) {
-              // Re-execute the insert with confirm: true
-              if (!INSERT_ALLOWED_TABLES.has(functionArgs.tableName)) {
-                return NextResponse.json(
-                  {
-                    message: {
-                      role: 'assistant',
-                      content: `Eintrag nicht möglich: Tabelle "${functionArgs.tableName}" ist nicht erlaubt.`,
-                    },
-                  },
-                  { headers: NO_CACHE_HEADERS }
-                )
-              }
-
-              console.log('Re-executing insert from tool call:', { 
-                table: functionArgs.tableName, 
-                values: functionArgs.values 
-              })
-              const clientId = getClientIdentifier(req)
-              const insertResult = await insertRow(functionArgs.tableName, functionArgs.values, {
-                ipAddress: clientId,
-              })
-
-              if (insertResult.error) {
-                console.error('Insert error:', insertResult.error)
-                return NextResponse.json(
-                  {
-                    message: {
-                      role: 'assistant',
-                      content: `Der Eintrag konnte nicht erstellt werden: ${insertResult.error}`,
-                    },
-                  },
-                  { headers: NO_CACHE_HEADERS }
-                )
-              }
-
-              return NextResponse.json(
-                {
-                  message: {
-                    role: 'assistant',
-                    content: 'Der Eintrag wurde erfolgreich erstellt. Soll ich dir die Details anzeigen?',
-                  },
-                },
-                { headers: NO_CACHE_HEADERS }
-              )
-            }
-          } catch (error) {
-            console.error('Error parsing tool call arguments:', error)
-          }
-        }
       }
 
-      // Fallback to extracting from assistant message text
-      if (lastAssistantMessage) {
-      const insertPayload = extractInsertPayload(lastAssistantMessage)
-      const inferredTable =
-        insertPayload?.tableName ||
-        inferInsertTable(lastAssistantMessage) ||
-        inferInsertTable(lastUserMessage)
-
-        // Handle case where payload has values nested
-        let insertValues = insertPayload?.values
-        
-        // If payload itself looks like values (has project fields but no tableName/values wrapper)
-        if (!insertValues && insertPayload && !insertPayload.tableName) {
-          // Check if the payload itself is the values object
-          if ('project_code' in insertPayload || 'name' in insertPayload) {
-            insertValues = insertPayload
-          }
-        }
-        
-        // If we have a table but no values, try to extract from the payload
-        if (inferredTable && !insertValues && insertPayload) {
-          // If payload has the values directly (not nested)
-          if (!insertPayload.tableName && !insertPayload.values) {
-            insertValues = insertPayload
-          }
-        }
-
-      if (inferredTable && insertValues) {
-        if (!INSERT_ALLOWED_TABLES.has(inferredTable)) {
-          return NextResponse.json(
-            {
-              message: {
-                role: 'assistant',
-                content: `Eintrag nicht möglich: Tabelle "${inferredTable}" ist nicht erlaubt.`,
-              },
-            },
-            { headers: NO_CACHE_HEADERS }
-          )
-        }
-
-          console.log('Attempting insert:', { table: inferredTable, values: insertValues })
-          const clientId = getClientIdentifier(req)
-          const insertResult = await insertRow(inferredTable, insertValues, {
-            ipAddress: clientId,
-          })
-
-        if (insertResult.error) {
-            console.error('Insert error:', insertResult.error)
-          return NextResponse.json(
-            {
-              message: {
-                role: 'assistant',
-                content: `Der Eintrag konnte nicht erstellt werden: ${insertResult.error}`,
-              },
-            },
-            { headers: NO_CACHE_HEADERS }
-          )
-        }
+      console.log('Executing confirmed pending action:', {
+        id: claim.action.id,
+        kind: claim.action.kind,
+        table: claim.action.tableName,
+      })
+      const executionResult = await executePendingAction(claim.action, {
+        userId: actor.userId,
+        ipAddress: actor.ipAddress,
+        role: actor.role,
+      })
 
-        return NextResponse.json(
-          {
-            message: {
-              role: 'assistant',
-                content: 'Der Eintrag wurde erfolgreich erstellt. Soll ich dir die Details anzeigen?',
-            },
-          },
-          { headers: NO_CACHE_HEADERS }
-        )
-      }
-        
-        // If we have payload but missing table or values, provide helpful error
-        if (insertPayload || inferredTable) {
-          console.log('Insert attempt failed:', { 
-            hasPayload: !!insertPayload, 
-            hasTable: !!inferredTable, 
-            hasValues: !!insertValues,
-            payload: insertPayload 
-          })
-        return NextResponse.json(
-          {
-            message: {
-              role: 'assistant',
-              content:
-                  'Ich habe eine Bestätigung erhalten, aber konnte die Eintragsdaten nicht vollständig erkennen. Bitte versuche es erneut oder gib die Details explizit an.',
-            },
-          },
-          { headers: NO_CACHE_HEADERS }
-        )
-        }
+      if (!executionResult.success) {
+        console.error('Pending action failed:', executionResult.message)
       }
+
+      return fixedMessageResponse(executionResult.message, streaming, {
+        resolvedActionId: pendingActionId,
+        undo: executionResult.success ? getUndoAvailability(actor) : null,
+        writeCommitted: {
+          type: 'write_committed',
+          actionId: claim.action.id,
+          kind: claim.action.kind,
+          tableName: claim.action.tableName,
+          success: executionResult.success,
+          message: executionResult.message,
+        },
+      })
     }
 
     const now = new Date()
@@ -1230,7 +406,14 @@ export async function POST(req: NextRequest) {
       hour12: false,
     }).format(now)
 
-    const systemPromptWithTime = `${SYSTEM_PROMPT}\n\nAKTUELLE SYSTEMZEIT:\n- ISO (UTC): ${now.toISOString()}\n- Europa/Berlin: ${berlinTime}\n- Berlin (ISO-ähnlich, Datum): ${berlinIsoDate}\n- Berlin (ISO-ähnlich, Datum+Zeit 24h): ${berlinIsoDateTime}\n- Berlin (ISO-Offset): ${berlinIsoDateTimeWithOffset}\n- Aktuelle Kalenderwoche (Mo-So, Berlin): ${berlinWeekRange}\n- HEUTE (für Filter): ${berlinIsoDate}\n\nNutze diese Angaben direkt, wenn nach dem aktuellen Datum oder der aktuellen Uhrzeit gefragt wird. Berechne relative Zeitangaben (z.B. gestern, morgen, übermorgen, letzte Woche, nächste Woche) ausschließlich auf Basis der Berlin-Zeit und filtere Woche/"Kalenderwoche"-Anfragen strikt auf ${berlinWeekRange}.\n\n**WICHTIG FÜR ZUKUNFTSFILTER**: Wenn der Nutzer nach "zukünftigen", "nächsten", "noch nicht erledigten" Projekten/Einsätzen fragt, verwende IMMER einen Filter mit plan_date >= '${berlinIsoDate}' oder project_date >= '${berlinIsoDate}'. Nur Datensätze mit Datum >= ${berlinIsoDate} sind zukünftig!`
+    // Workflows are picked from the recent user messages, so follow-ups like "in Köln" keep their context
+    const recentUserMessages = messages
+      .filter((message) => message.role === 'user')
+      .slice(-PROMPT_INTENT_MESSAGES)
+      .map((message) => message.content)
+    const systemPrompt = await getSystemPrompt(recentUserMessages)
+
+    const systemPromptWithTime = `${systemPrompt.content}\n\nAKTUELLE SYSTEMZEIT:\n- ISO (UTC): ${now.toISOString()}\n- Europa/Berlin: ${berlinTime}\n- Berlin (ISO-ähnlich, Datum): ${berlinIsoDate}\n- Berlin (ISO-ähnlich, Datum+Zeit 24h): ${berlinIsoDateTime}\n- Berlin (ISO-Offset): ${berlinIsoDateTimeWithOffset}\n- Aktuelle Kalenderwoche (Mo-So, Berlin): ${berlinWeekRange}\n- HEUTE (für Filter): ${berlinIsoDate}\n\nNutze diese Angaben direkt, wenn nach dem aktuellen Datum oder der aktuellen Uhrzeit gefragt wird. Berechne relative Zeitangaben (z.B. gestern, morgen, übermorgen, letzte Woche, nächste Woche) ausschließlich auf Basis der Berlin-Zeit und filtere Woche/"Kalenderwoche"-Anfragen strikt auf ${berlinWeekRange}.\n\n**WICHTIG FÜR ZUKUNFTSFILTER**: Wenn der Nutzer nach "zukünftigen", "nächsten", "noch nicht erledigten" Projekten/Einsätzen fragt, verwende IMMER einen Filter mit plan_date >= '${berlinIsoDate}' oder project_date >= '${berlinIsoDate}'. Nur Datensätze mit Datum >= ${berlinIsoDate} sind zukünftig!\n\nBERECHTIGUNGEN DES NUTZERS:\n- ${describeRolePermissions(actor.role)}`
 
     // Prepare messages for OpenAI
     const openaiMessages: any[] = [
@@ -1301,33 +484,38 @@ export async function POST(req: NextRequest) {
       openaiMessages.push(openaiMessage)
     }
 
-    const streamingDisabledEnv =
-      process.env.CHAT_STREAMING_DISABLED === 'true' ||
-      process.env.NEXT_PUBLIC_DISABLE_STREAMING === 'true'
-
-    const streamingDisabledRequest =
-      req.headers.get('x-disable-streaming') === 'true'
+    // Only a single date expression is applied automatically; with several, the model decides
+    const dateExpressions = parseGermanDates(lastUserMessage, { today: berlinIsoDate })
+    const requestedDateRange: DayRange | null =
+      dateExpressions.length === 1
+        ? { start: dateExpressions[0].start, end: dateExpressions[0].end }
+        : null
+    const requestedProjectIdentifiers = inferProjectIdentifier(lastUserMessage)
+    const provider = getLLMProvider()
 
-    const requestedDateRange = inferDateRange({
-      userText: lastUserMessage,
-      weekStart,
-      weekEnd,
-      berlinDateUtc,
+    // Keep long sessions within the model's context window; a scripted run has no turns to spare for summaries
+    const { messages: contextMessages } = await fitMessagesToBudget(openaiMessages, {
+      provider,
+      summarize: provider.name === 'scripted' ? false : undefined,
+      reservedTokens: estimateTokens(JSON.stringify(getToolDefinitions())),
     })
-    const requestedProjectIdentifiers = inferProjectIdentifier(lastUserMessage)
 
-    if (streamingDisabledEnv || streamingDisabledRequest) {
+    if (!streaming) {
       return await handleNonStreamingCompletion(
-        openaiMessages,
+        provider,
+        contextMessages,
         requestedDateRange,
-        requestedProjectIdentifiers
+        requestedProjectIdentifiers,
+        actor
       )
     }
 
     return handleStreamingCompletion(
-      openaiMessages,
+      provider,
+      contextMessages,
       requestedDateRange,
-      requestedProjectIdentifiers
+      requestedProjectIdentifiers,
+      actor
     )
   } catch (error) {
     console.error('Chat API error:', error)
@@ -1363,24 +551,23 @@ export async function POST(req: NextRequest) {
 }
 
 async function handleNonStreamingCompletion(
+  provider: LLMProvider,
   openaiMessages: any[],
-  requestedDateRange: DateRange | null,
+  requestedDateRange: DayRange | null,
   requestedProjectIdentifiers: {
     projectId: string | null
     projectCode: string | null
     projectName: string | null
-  } | null
+  } | null,
+  actor: RequestActor
 ) {
   // Create a completion with tools (function calling) for database queries
-  const completion = await openai.chat.completions.create({
-    model: 'gpt-4o',
+  const completion = await provider.complete({
     messages: openaiMessages,
     tools: getToolDefinitions(),
-    tool_choice: 'auto',
-    temperature: 0.3, // Lower temperature to reduce hallucinations and be more factual
   })
 
-  const responseMessage = completion.choices[0].message
+  const responseMessage = completion.message
 
   // Check if the model wants to call a tool
   if (responseMessage.tool_calls && responseMessage.tool_calls.length > 0) {
@@ -1389,22 +576,21 @@ async function handleNonStreamingCompletion(
       .filter((m: any) => m.role === 'user')
       .pop()?.content || ''
     
-    await handleToolCalls(
+    const { pendingActions } = await handleToolCalls(
       responseMessage,
       openaiMessages,
       requestedDateRange,
       requestedProjectIdentifiers,
+      actor,
       lastUserMsg
     )
 
-    // Get the final response from OpenAI after tool execution
-    const finalCompletion = await openai.chat.completions.create({
-      model: 'gpt-4o',
+    // Get the final response from the model after tool execution
+    const finalCompletion = await provider.complete({
       messages: openaiMessages,
-      temperature: 0.3, // Lower temperature to reduce hallucinations and be more factual
     })
 
-    const finalMessage = finalCompletion.choices[0].message
+    const finalMessage = finalCompletion.message
 
     return NextResponse.json(
       {
@@ -1412,6 +598,7 @@ async function handleNonStreamingCompletion(
           role: 'assistant',
           content: finalMessage.content || 'I processed your request, but got no response.',
         },
+        confirmation: latestConfirmation(pendingActions),
       },
       { headers: NO_CACHE_HEADERS }
     )
@@ -1429,207 +616,20 @@ async function handleNonStreamingCompletion(
   )
 }
 
-function getToolDefinitions(): ChatCompletionTool[] {
-  return [
-    {
-      type: 'function',
-      function: {
-        name: 'queryTable',
-        description:
-          'Query a table in the Supabase database with optional filters. Use this for simple queries on a single table. For future dates, use filters like {plan_date: {type: "gte", value: "YYYY-MM-DD"}} with today\'s date.',
-        parameters: {
-          type: 'object',
-          properties: {
-            tableName: {
-              type: 'string',
-              description: 'The name of the table to query',
-            },
-            filters: {
-              type: 'object',
-              description: 'Optional filters to apply. Can be simple key-value pairs (defaults to eq) or objects with type: "eq", "gte", "lte", "gt", "lt", "between", "like", "ilike", "in". For future dates, use {type: "gte", value: "YYYY-MM-DD"} with today\'s date.',
-              additionalProperties: true,
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results to return (default: 100)',
-              default: 100,
-            },
-            joins: {
-              type: 'array',
-              items: {
-                type: 'string',
-              },
-              description:
-                'Optional array of related tables to join. Use Supabase join syntax like ["prices(*)", "categories(*)"]',
-            },
-          },
-          required: ['tableName'],
-        },
-      },
-    },
-    {
-      type: 'function',
-      function: {
-        name: 'queryTableWithJoin',
-        description:
-          'Query a table with a join to a related table. Use this when data is spread across multiple tables. For "Einkaufspreise der Materialien", use queryTableWithJoin with t_materials and t_material_prices. The function automatically tries multiple join patterns, so you can call it directly without checking structure first.',
-        parameters: {
-          type: 'object',
-          properties: {
-            tableName: {
-              type: 'string',
-              description: 'The name of the main table to query (e.g., "t_materials", "materials")',
-            },
-            joinTable: {
-              type: 'string',
-              description:
-                'The name of the related table to join (e.g., "t_material_prices", "material_prices", "prices")',
-            },
-            joinColumn: {
-              type: 'string',
-              description:
-                'Optional: The foreign key column name. For materials/prices, typically "material_id". If not provided, the function will try to auto-detect.',
-            },
-            filters: {
-              type: 'object',
-              description: 'Optional filters to apply to the main table (key-value pairs)',
-              additionalProperties: true,
-            },
-            limit: {
-              type: 'number',
-              description: 'Maximum number of results to return (default: 100)',
-              default: 100,
-            },
-          },
-          required: ['tableName', 'joinTable'],
-        },
-      },
-    },
-    {
-      type: 'function',
-      function: {
-        name: 'getTableNames',
-        description: 'Get a list of available table names in the database',
-        parameters: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-    },
-    {
-      type: 'function',
-      function: {
-        name: 'getTableStructure',
-        description:
-          'Get the structure (column names) of a specific table or view. IMPORTANT: Many pre-built views exist (v_morningplan_full, v_project_full, v_employee_kpi, etc.) - check these first before manual JOINs!',
-        parameters: {
-          type: 'object',
-          properties: {
-            tableName: {
-              type: 'string',
-              description: 'The name of the table or view to get structure for (e.g., "v_morningplan_full", "t_employees")',
-            },
-          },
-          required: ['tableName'],
-        },
-      },
-    },
-    {
-      type: 'function',
-      function: {
-        name: 'insertRow',
-        description:
-          'Insert a single row into an allowed table. YOU MUST CALL THIS TOOL IMMEDIATELY - DO NOT JUST SAY YOU WILL DO IT! CRITICAL RULES: 1) When user says "neues projekt" or "projekt hinzufügen" or "neuer Eintrag projekt" or "projekt erstellen" and provides ANY information (even just a name), IMMEDIATELY CALL THIS TOOL with tableName="t_projects" and values MUST be a valid object with at least name field. 2) When user says "neu mitarbeiter" or "neuer arbeiter" or "worker" with ANY information (even just a name), IMMEDIATELY CALL THIS TOOL with tableName="t_employees" and values MUST be a valid object with at least name field. 3) When user says "neues material" or "material hinzufügen" or "material erstellen" and provides ANY information (even just a name), IMMEDIATELY CALL THIS TOOL with tableName="t_materials" and values MUST be a valid object with at least name field. The material_id will be auto-generated if not provided. 4) When user says "EK [price] VK [price]" or mentions Einkaufspreis/Verkaufspreis for a material, IMMEDIATELY CALL THIS TOOL with tableName="t_material_prices". First query t_materials to find material_id by name using queryTable, then call insertRow with values containing material_id, purchase_price (EK value), and sale_price (VK value). 5) NEVER ask for more information - if you have at least a name, call the tool immediately with defaults! 6) If user provides info in multiple messages, COMBINE all info from conversation history. 7) ALWAYS set confirm: true - user already provided the info. 8) Extract info from ALL previous messages. 9) YOU MUST ACTUALLY CALL THIS TOOL FUNCTION - do NOT just respond with text saying you will create it! 10) The values parameter MUST be a valid JSON object (not null, not undefined, not empty string) with at least the required fields (name for projects/employees/materials, material_id for material_prices).',
-        parameters: {
-          type: 'object',
-          properties: {
-            tableName: {
-              type: 'string',
-              description:
-                'Target table name (must be one of: t_projects, t_morningplan, t_morningplan_staff, t_vehicles, t_employees, t_services, t_materials).',
-            },
-            values: {
-              type: 'object',
-              description: 'Column/value pairs for the new row. CRITICAL: Extract ALL information from the ENTIRE conversation history, not just the last message! If user said "neues projekt named ZZZ" in one message and "Köln" in another, combine them: {name: "ZZZ", ort: "Köln"}. For t_projects: name is required, ort is OPTIONAL (can be null). Use defaults for missing optional fields: t_employees (is_active=true, role=null if not specified), t_projects (status="geplant", ort=null if not provided, project_code=auto-generate if missing). Always include at least the name field for projects.',
-              additionalProperties: true,
-            },
-            confirm: {
-              type: 'boolean',
-              description: 'MUST be true when user confirms with "ja", "ok", "bitte", "ja bitte", etc. Set to false only when showing preview data before confirmation.',
-            },
-          },
-          required: ['tableName', 'values', 'confirm'],
-        },
-      },
-    },
-    {
-      type: 'function',
-      function: {
-        name: 'updateRow',
-        description:
-          'Update existing row(s) in an allowed table. Use when user says "umbenennen", "ändern", "update", "setze", "aktualisiere", "rename", "change", "modify" or similar. CRITICAL: 1) Extract the identifier from user message (e.g., if user says "projekt zzz umbenennen", use filters: {name: "ZZZ"} to find the project). 2) Extract the new values (e.g., "in aaaa" means values: {name: "AAAA"}). 3) IMMEDIATELY call this tool with tableName, filters, and values. 4) For projects, use filters: {name: "ProjectName"} to find by name. 5) CRITICAL FOR EMPLOYEE START TIMES: When user says "startzeit [EmployeeName] [Time]" or mentions setting an employee start time for a project, you MUST update t_morningplan_staff table with individual_start_time field. First query to find plan_id (from t_morningplan using project name) and employee_id (from t_employees using employee name), then use both as filters: filters: {plan_id: "...", employee_id: "..."} and values: {individual_start_time: "HH:MM:SS"}. 6) Do NOT create a new row - this is for UPDATING existing data!',
-        parameters: {
-          type: 'object',
-          properties: {
-            tableName: {
-              type: 'string',
-              description:
-                'Target table name (must be one of: t_projects, t_morningplan, t_morningplan_staff, t_vehicles, t_employees, t_services, t_materials).',
-            },
-            filters: {
-              type: 'object',
-              description: 'Filters to identify which row(s) to update. CRITICAL: Extract the identifier from the user message! If user says "projekt zzz umbenennen", use filters: {name: "ZZZ"} to find the project. Use unique identifiers like project_code, employee_id, name, etc. Can be simple key-value pairs (defaults to eq) or objects with type: "eq", "in". Example: {name: "ZZZ"} to find project named "ZZZ", or {project_code: "PROJ123"}.',
-              additionalProperties: true,
-            },
-            values: {
-              type: 'object',
-              description: 'Column/value pairs to update. Only include fields that should be changed. Example: {hourly_rate: 10} or {strasse: "Beispielstreet 8"}.',
-              additionalProperties: true,
-            },
-          },
-          required: ['tableName', 'filters', 'values'],
-        },
-      },
-    },
-    {
-      type: 'function',
-      function: {
-        name: 'deleteRow',
-        description:
-          'Delete existing row(s) from an allowed table. Use ONLY when: 1) User explicitly asks to delete/remove data (e.g., "lösche", "entferne", "delete", "remove"), 2) User confirms the deletion, AND 3) You can identify the row(s) using unique identifiers (e.g., project_code, employee_id, name). **WARNING**: Deletion is permanent! Always ask for confirmation before deleting. IMMEDIATELY call this tool when user confirms deletion. Do NOT say you cannot delete - use this tool!',
-        parameters: {
-          type: 'object',
-          properties: {
-            tableName: {
-              type: 'string',
-              description:
-                'Target table name (must be one of: t_projects, t_morningplan, t_morningplan_staff, t_vehicles, t_employees, t_services, t_materials).',
-            },
-            filters: {
-              type: 'object',
-              description: 'Filters to identify which row(s) to delete. Use unique identifiers like project_code, employee_id, name, etc. Can be simple key-value pairs (defaults to eq) or objects with type: "eq", "in". Example: {name: "Alpha"} or {project_code: "PROJ123"}.',
-              additionalProperties: true,
-            },
-          },
-          required: ['tableName', 'filters'],
-        },
-      },
-    },
-  ]
-}
-
 async function handleToolCalls(
   responseMessage: any,
   openaiMessages: any[],
-  requestedDateRange: DateRange | null,
+  requestedDateRange: DayRange | null,
   requestedProjectIdentifiers: {
     projectId: string | null
     projectCode: string | null
     projectName: string | null
   } | null,
-  lastUserMessage?: string
-) {
+  actor: RequestActor,
+  lastUserMessage?: string,
+  onEvent?: (event: ChatStreamEvent) => void
+): Promise<{ pendingActions: PendingActionSummary[] }> {
+  const pendingActions: PendingActionSummary[] = []
   const content = responseMessage.content
   const lowerContent = content?.toLowerCase() || ''
   const isAnnouncement =
@@ -1668,189 +668,59 @@ async function handleToolCalls(
     tool_calls: responseMessage.tool_calls,
   })
 
-  for (const toolCall of responseMessage.tool_calls) {
-    const functionName = toolCall.function.name
-    const functionArgs = JSON.parse(toolCall.function.arguments || '{}')
-
-    let functionResult: any
-
-    if (functionName === 'queryTable') {
-      // Get the last user message for context
-      const userMsg = lastUserMessage || openaiMessages
-        .filter((m: any) => m.role === 'user')
-        .pop()?.content || ''
-      
-      let filtersWithRange = applyDateRangeFilters(
-        functionArgs.tableName,
-        functionArgs.filters || {},
+  const userMsg = lastUserMessage || openaiMessages
+    .filter((m: any) => m.role === 'user')
+    .pop()?.content || ''
+
+  const context: ToolContext = {
+    ...actor,
+    lastUserMessage: userMsg,
+    applyContextFilters: (tableName, filters) => {
+      const filtersWithRange = applyDateRangeFilters(
+        tableName,
+        filters,
         requestedDateRange,
         userMsg
       )
-      filtersWithRange = applyProjectFilters(
-        functionArgs.tableName,
-        filtersWithRange,
-        requestedProjectIdentifiers
-      )
-      const result = await queryTable(
-        functionArgs.tableName,
-        filtersWithRange,
-        functionArgs.limit || 100,
-        functionArgs.joins
-      )
-      functionResult = result
-    } else if (functionName === 'queryTableWithJoin') {
-      // Get the last user message for context
-      const userMsg = lastUserMessage || openaiMessages
-        .filter((m: any) => m.role === 'user')
-        .pop()?.content || ''
-      
-      let filtersWithRange = applyDateRangeFilters(
-        functionArgs.tableName,
-        functionArgs.filters || {},
-        requestedDateRange,
-        userMsg
-      )
-      filtersWithRange = applyProjectFilters(
-        functionArgs.tableName,
-        filtersWithRange,
-        requestedProjectIdentifiers
-      )
-      const result = await queryTableWithJoin(
-        functionArgs.tableName,
-        functionArgs.joinTable,
-        functionArgs.joinColumn,
-        filtersWithRange,
-        functionArgs.limit || 100
-      )
-      functionResult = result
-    } else if (functionName === 'getTableNames') {
-      const result = await getTableNames()
-      functionResult = result
-    } else if (functionName === 'getTableStructure') {
-      const result = await getTableStructure(functionArgs.tableName)
-      functionResult = result
-    } else if (functionName === 'insertRow') {
-      if (!INSERT_ALLOWED_TABLES.has(functionArgs.tableName)) {
-        functionResult = {
-          error: `Insert not allowed for table: ${functionArgs.tableName}`,
-        }
-      } else if (!functionArgs.values || typeof functionArgs.values !== 'object') {
-        functionResult = { error: 'Missing values for insertRow.' }
-      } else {
-        // Apply sensible defaults for missing optional fields
-        const valuesWithDefaults = { ...functionArgs.values }
-        
-        if (functionArgs.tableName === 't_employees') {
-          // Defaults for employees
-          if (valuesWithDefaults.is_active === undefined) {
-            valuesWithDefaults.is_active = true
-          }
-          if (valuesWithDefaults.role === undefined && !valuesWithDefaults.role) {
-            valuesWithDefaults.role = null
-          }
-          if (valuesWithDefaults.hourly_rate === undefined) {
-            valuesWithDefaults.hourly_rate = 0
-          }
-          // Normalize contract_type: handle any variation (intern, int, extern, etc.)
-          if (valuesWithDefaults.contract_type !== null && valuesWithDefaults.contract_type !== undefined) {
-            const contractTypeLower = String(valuesWithDefaults.contract_type).toLowerCase().trim()
-            if (contractTypeLower.includes('intern') || contractTypeLower === 'int') {
-              valuesWithDefaults.contract_type = 'Intern'
-            } else if (contractTypeLower.includes('extern')) {
-              valuesWithDefaults.contract_type = 'Extern'
-            }
-          } else {
-            // If contract_type is undefined or null, leave it as null (don't set a default)
-            valuesWithDefaults.contract_type = null
-          }
-        } else if (functionArgs.tableName === 't_projects') {
-          // Defaults for projects
-          if (valuesWithDefaults.status === undefined) {
-            valuesWithDefaults.status = 'geplant'
-          }
-          // Auto-generate project_code if missing
-          if (!valuesWithDefaults.project_code) {
-            const now = new Date()
-            const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '')
-            const randomStr = Math.random().toString(36).substring(2, 7).toUpperCase()
-            valuesWithDefaults.project_code = `PRJ-${dateStr}-${randomStr}`
-          }
-        } else if (functionArgs.tableName === 't_materials') {
-          // Defaults for materials
-          if (valuesWithDefaults.is_active === undefined) {
-            valuesWithDefaults.is_active = true
-          }
-          if (valuesWithDefaults.vat_rate === undefined) {
-            valuesWithDefaults.vat_rate = 19
-          }
-          if (valuesWithDefaults.default_quantity === undefined) {
-            valuesWithDefaults.default_quantity = 1
-          }
-          // Auto-generate material_id if missing (format: M-[UPPERCASE_NAME])
-          if (!valuesWithDefaults.material_id && valuesWithDefaults.name) {
-            const nameUpper = String(valuesWithDefaults.name).toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, 10)
-            const randomStr = Math.random().toString(36).substring(2, 5).toUpperCase()
-            valuesWithDefaults.material_id = `M-${nameUpper}-${randomStr}`
-          }
-        }
-        
-        if (!functionArgs.confirm) {
-          // Preview mode - return the data that would be inserted without actually inserting
-          functionResult = {
-            preview: true,
-            tableName: functionArgs.tableName,
-            values: valuesWithDefaults,
-            message: 'Bitte bestätige, dass dieser Eintrag erstellt werden soll.',
-          }
-        } else {
-          // Note: We don't have access to req here, so we'll pass undefined for ipAddress
-          // In production, you might want to pass this through the function chain
-          const result = await insertRow(functionArgs.tableName, valuesWithDefaults)
-          functionResult = result
-        }
-      }
-    } else if (functionName === 'updateRow') {
-      if (!INSERT_ALLOWED_TABLES.has(functionArgs.tableName)) {
-        functionResult = {
-          error: `Update not allowed for table: ${functionArgs.tableName}`,
-        }
-      } else if (!functionArgs.filters || typeof functionArgs.filters !== 'object') {
-        functionResult = { error: 'Missing filters for updateRow. Filters are required to identify which row(s) to update.' }
-      } else if (!functionArgs.values || typeof functionArgs.values !== 'object') {
-        functionResult = { error: 'Missing values for updateRow.' }
-      } else {
-        // Note: We don't have access to req here, so we'll pass undefined for ipAddress
-        // In production, you might want to pass this through the function chain
-        const result = await updateRow(functionArgs.tableName, functionArgs.filters, functionArgs.values, {
-          requireSingleRow: true, // Require single row for safety
-        })
-        functionResult = result
-      }
-    } else if (functionName === 'deleteRow') {
-      if (!INSERT_ALLOWED_TABLES.has(functionArgs.tableName)) {
-        functionResult = {
-          error: `Delete not allowed for table: ${functionArgs.tableName}`,
-        }
-      } else if (!functionArgs.filters || typeof functionArgs.filters !== 'object') {
-        functionResult = { error: 'Missing filters for deleteRow. Filters are required to identify which row(s) to delete.' }
-      } else {
-        // Note: We don't have access to req here, so we'll pass undefined for ipAddress
-        // In production, you might want to pass this through the function chain
-        const result = await deleteRow(functionArgs.tableName, functionArgs.filters, {
-          requireSingleRow: true, // Require single row for safety
-        })
-        functionResult = result
-      }
-    } else {
-      functionResult = { error: `Unknown function: ${functionName}` }
+      return applyProjectFilters(tableName, filtersWithRange, requestedProjectIdentifiers)
+    },
+  }
+
+  for (const toolCall of responseMessage.tool_calls) {
+    onEvent?.({
+      type: 'tool_call_started',
+      toolCallId: toolCall.id,
+      name: toolCall.function.name,
+      label: describeToolCall(toolCall.function.name, toolCall.function.arguments),
+    })
+
+    const functionResult = await executeToolCall(
+      toolCall.function.name,
+      toolCall.function.arguments,
+      context
+    )
+
+    if (functionResult?.pendingAction) {
+      pendingActions.push(functionResult.pendingAction)
     }
 
+    const content = JSON.stringify(functionResult)
     openaiMessages.push({
       role: 'tool',
       tool_call_id: toolCall.id,
-      content: JSON.stringify(functionResult),
+      content,
+    })
+
+    onEvent?.({
+      type: 'tool_call_result',
+      toolCallId: toolCall.id,
+      name: toolCall.function.name,
+      content,
+      summary: summarizeToolResult(functionResult),
     })
   }
+
+  return { pendingActions }
 }
 
 const NO_CACHE_HEADERS = {
@@ -1868,33 +738,94 @@ function buildSseResponse(stream: ReadableStream<Uint8Array>) {
   })
 }
 
-function encodeSse(data: object) {
+function encodeSse(event: ChatStreamEvent) {
   const encoder = new TextEncoder()
-  return encoder.encode(`data: ${JSON.stringify(data)}\n\n`)
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+}
+
+/**
+ * Reply with a fixed assistant message (confirmation, cancellation, undo)
+ * Streaming clients get the same data as events, including write_committed for confirmed writes
+ */
+function fixedMessageResponse(
+  content: string,
+  streaming: boolean,
+  extra: {
+    resolvedActionId?: string
+    undo?: UndoAvailability | null
+    writeCommitted?: WriteCommittedEvent
+  } = {}
+) {
+  const { resolvedActionId, writeCommitted } = extra
+
+  if (!streaming) {
+    return NextResponse.json(
+      {
+        message: {
+          role: 'assistant',
+          content,
+        },
+        ...(resolvedActionId && { resolvedActionId }),
+        ...('undo' in extra && { undo: extra.undo }),
+      },
+      { headers: NO_CACHE_HEADERS }
+    )
+  }
+
+  const events: ChatStreamEvent[] = [
+    ...(writeCommitted ? [writeCommitted] : []),
+    { type: 'token', content },
+    {
+      type: 'done',
+      ...(resolvedActionId && { resolvedActionId }),
+      ...('undo' in extra && { undo: extra.undo }),
+    },
+  ]
+  const stream = new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      events.forEach((event) => controller.enqueue(encodeSse(event)))
+      controller.close()
+    },
+  })
+  return buildSseResponse(stream)
+}
+
+/**
+ * Confirmation card data for the latest proposed write of this turn, if any
+ */
+function latestConfirmation(pendingActions: PendingActionSummary[]) {
+  const latest = pendingActions[pendingActions.length - 1]
+  return latest ? toConfirmationRequest(latest) : undefined
 }
 
 async function handleStreamingCompletion(
+  provider: LLMProvider,
   openaiMessages: any[],
-  requestedDateRange: DateRange | null,
+  requestedDateRange: DayRange | null,
   requestedProjectIdentifiers: {
     projectId: string | null
     projectCode: string | null
     projectName: string | null
-  } | null
+  } | null,
+  actor: RequestActor
 ) {
   const stream = new ReadableStream<Uint8Array>({
     start: async (controller) => {
       try {
-        const initialStream = await openai.chat.completions.create({
-          model: 'gpt-4o',
+        const initialStream = provider.stream({
           messages: openaiMessages,
           tools: getToolDefinitions(),
-          tool_choice: 'auto',
-          temperature: 0.3,
-          stream: true,
         })
 
         let needsToolCall = false
+        let usage: UsageEvent['usage'] | null = null
+        const addUsage = (delta: UsageEvent['usage']) => {
+          usage = {
+            promptTokens: (usage?.promptTokens ?? 0) + delta.promptTokens,
+            completionTokens: (usage?.completionTokens ?? 0) + delta.completionTokens,
+            totalTokens: (usage?.totalTokens ?? 0) + delta.totalTokens,
+          }
+        }
         const toolCallMap = new Map<
           number,
           {
@@ -1906,32 +837,28 @@ async function handleStreamingCompletion(
           }
         >()
 
-        for await (const chunk of initialStream) {
-          const delta = chunk.choices[0]?.delta
-          if (!delta) continue
-
-          if (delta.tool_calls) {
+        for await (const delta of initialStream) {
+          if (delta.type === 'tool_call') {
             needsToolCall = true
-            for (const toolCall of delta.tool_calls) {
-              const index = toolCall.index ?? 0
-              const existing = toolCallMap.get(index) || {
-                id: toolCall.id,
-                function: { name: toolCall.function?.name, arguments: '' },
-              }
-
-              if (toolCall.id) existing.id = toolCall.id
-              if (toolCall.function?.name) existing.function.name = toolCall.function.name
-              if (toolCall.function?.arguments) {
-                existing.function.arguments += toolCall.function.arguments
-              }
-
-              toolCallMap.set(index, existing)
+            const existing = toolCallMap.get(delta.index) || {
+              id: delta.id,
+              function: { name: delta.name, arguments: '' },
             }
+
+            if (delta.id) existing.id = delta.id
+            if (delta.name) existing.function.name = delta.name
+            if (delta.arguments) {
+              existing.function.arguments += delta.arguments
+            }
+
+            toolCallMap.set(delta.index, existing)
             continue
           }
 
-          if (delta.content) {
+          if (delta.type === 'content') {
             controller.enqueue(encodeSse({ type: 'token', content: delta.content }))
+          } else if (delta.type === 'usage') {
+            addUsage(delta.usage)
           }
         }
 
@@ -1939,9 +866,9 @@ async function handleStreamingCompletion(
           const tool_calls = Array.from(toolCallMap.entries())
             .sort(([a], [b]) => a - b)
             .map(([, value]) => ({
-              id: value.id,
-              type: 'function',
-              function: value.function,
+              id: value.id || '',
+              type: 'function' as const,
+              function: { name: value.function.name || '', arguments: value.function.arguments },
             }))
 
           // Send tool calls to client so they can be preserved in message history
@@ -1952,46 +879,40 @@ async function handleStreamingCompletion(
             .filter((m: any) => m.role === 'user')
             .pop()?.content || ''
           
-          // Track how many tool messages exist before handleToolCalls
-          const toolMessageCountBefore = openaiMessages.filter((m: any) => m.role === 'tool').length
-
-          await handleToolCalls(
+          // Progress and results are streamed as each tool runs; the client keeps the
+          // results in its history
+          const { pendingActions } = await handleToolCalls(
             { tool_calls, content: null },
             openaiMessages,
             requestedDateRange,
             requestedProjectIdentifiers,
-            lastUserMsg
+            actor,
+            lastUserMsg,
+            (event) => controller.enqueue(encodeSse(event))
           )
 
-          // Send tool response messages to client so they can be preserved
-          // Get only the tool messages that were just added
-          const allToolMessages = openaiMessages.filter((m: any) => m.role === 'tool')
-          const newToolMessages = allToolMessages.slice(toolMessageCountBefore)
-          
-          for (const toolResponse of newToolMessages) {
-            controller.enqueue(encodeSse({ 
-              type: 'tool_response', 
-              tool_call_id: toolResponse.tool_call_id,
-              content: toolResponse.content 
-            }))
+          // Only the latest proposal can be confirmed by the next user message
+          const confirmation = latestConfirmation(pendingActions)
+          if (confirmation) {
+            controller.enqueue(encodeSse({ type: 'confirmation_required', confirmation }))
           }
 
-          const finalStream = await openai.chat.completions.create({
-            model: 'gpt-4o',
+          const finalStream = provider.stream({
             messages: openaiMessages,
-            temperature: 0.3,
-            stream: true,
           })
 
-          for await (const chunk of finalStream) {
-            const delta = chunk.choices[0]?.delta
-            if (!delta) continue
-            if (delta.content) {
+          for await (const delta of finalStream) {
+            if (delta.type === 'content') {
               controller.enqueue(encodeSse({ type: 'token', content: delta.content }))
+            } else if (delta.type === 'usage') {
+              addUsage(delta.usage)
             }
           }
         }
 
+        if (usage) {
+          controller.enqueue(encodeSse({ type: 'usage', usage }))
+        }
         controller.enqueue(encodeSse({ type: 'done' }))
         controller.close()
       } catch (error) {
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authMiddleware } from '@/lib/auth'
+import { APP_CONFIG } from '@/lib/constants'
+import { getConversationStore, parseMessages } from '@/lib/conversations'
+import { rateLimitMiddleware } from '@/lib/rate-limit'
+
+/**
+ * Replace the messages of a thread with the client's current history
+ */
+export async function PUT(req: NextRequest, { params }: { params: { id: string } }) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/conversations', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const messages = parseMessages(body.messages, APP_CONFIG.MAX_MESSAGES_TO_STORE)
+    if (!messages) {
+      return NextResponse.json(
+        { error: `Ungültige Nachrichten (maximal ${APP_CONFIG.MAX_MESSAGES_TO_STORE})` },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await getConversationStore().saveMessages(auth.user!.id, params.id, messages)
+    if (!conversation) {
+      return NextResponse.json({ error: 'Dieser Chat wurde nicht gefunden.' }, { status: 404 })
+    }
+    return NextResponse.json({ conversation })
+  } catch (error) {
+    console.error('Conversation save error:', error)
+    return NextResponse.json(
+      { error: 'Der Chat konnte nicht gespeichert werden.' },
+      { status: 500 }
+    )
+  }
+}
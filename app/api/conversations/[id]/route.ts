@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authMiddleware } from '@/lib/auth'
+import { getConversationStore, MAX_TITLE_LENGTH } from '@/lib/conversations'
+import { rateLimitMiddleware } from '@/lib/rate-limit'
+
+interface RouteParams {
+  params: { id: string }
+}
+
+const NOT_FOUND_MESSAGE = 'Dieser Chat wurde nicht gefunden.'
+
+/**
+ * Load a thread with its messages
+ */
+export async function GET(req: NextRequest, { params }: RouteParams) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/conversations', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const conversation = await getConversationStore().get(auth.user!.id, params.id)
+    if (!conversation) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 })
+    }
+    return NextResponse.json({ conversation }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('Conversation load error:', error)
+    return NextResponse.json(
+      { error: 'Der Chat konnte nicht geladen werden.' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Rename a thread
+ */
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/conversations', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Titel ist erforderlich' },
+        { status: 400 }
+      )
+    }
+
+    const conversation = await getConversationStore().rename(
+      auth.user!.id,
+      params.id,
+      title.slice(0, MAX_TITLE_LENGTH)
+    )
+    if (!conversation) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 })
+    }
+    return NextResponse.json({ conversation })
+  } catch (error) {
+    console.error('Conversation rename error:', error)
+    return NextResponse.json(
+      { error: 'Der Chat konnte nicht umbenannt werden.' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/conversations', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const deleted = await getConversationStore().delete(auth.user!.id, params.id)
+    if (!deleted) {
+      return NextResponse.json({ error: NOT_FOUND_MESSAGE }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Conversation delete error:', error)
+    return NextResponse.json(
+      { error: 'Der Chat konnte nicht gelöscht werden.' },
+      { status: 500 }
+    )
+  }
+}
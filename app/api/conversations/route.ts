@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authMiddleware } from '@/lib/auth'
+import { APP_CONFIG } from '@/lib/constants'
+import { deriveConversationTitle, getConversationStore, MAX_TITLE_LENGTH, parseMessages } from '@/lib/conversations'
+import { rateLimitMiddleware } from '@/lib/rate-limit'
+
+/**
+ * List the user's threads, optionally filtered by ?search=
+ */
+export async function GET(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/conversations', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const search = req.nextUrl.searchParams.get('search') || undefined
+    const conversations = await getConversationStore().list(auth.user!.id, { search })
+    return NextResponse.json({ conversations }, { headers: { 'Cache-Control': 'no-store' } })
+  } catch (error) {
+    console.error('Conversation list error:', error)
+    return NextResponse.json(
+      { error: 'Die Chats konnten nicht geladen werden.' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a thread, optionally with its first messages
+ */
+export async function POST(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/conversations', auth.user!.id)
+  if (!rateLimitResult.allowed) {
+    return rateLimitResult.response!
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}))
+    const messages = parseMessages(body.messages ?? [], APP_CONFIG.MAX_MESSAGES_TO_STORE)
+    if (!messages) {
+      return NextResponse.json(
+        { error: 'Ungültige Nachrichten' },
+        { status: 400 }
+      )
+    }
+
+    const title = typeof body.title === 'string' && body.title.trim()
+      ? body.title.trim().slice(0, MAX_TITLE_LENGTH)
+      : deriveConversationTitle(messages)
+
+    const conversation = await getConversationStore().create(auth.user!.id, { title, messages })
+    return NextResponse.json({ conversation }, { status: 201 })
+  } catch (error) {
+    console.error('Conversation create error:', error)
+    return NextResponse.json(
+      { error: 'Der Chat konnte nicht gespeichert werden.' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
+import { getLLMProvider } from '@/lib/llm'
 
 /**
  * Health check endpoint for monitoring
@@ -8,15 +9,12 @@ import { supabaseAdmin } from '@/lib/supabase'
 export async function GET() {
   const checks: Record<string, { status: 'ok' | 'error'; message?: string }> = {}
 
-  // Check OpenAI API Key
+  // Check LLM provider configuration (OpenAI by default)
   try {
-    if (!process.env.OPENAI_API_KEY) {
-      checks.openai = { status: 'error', message: 'API key not configured' }
-    } else {
-      checks.openai = { status: 'ok' }
-    }
+    const provider = getLLMProvider()
+    checks.llm = { status: 'ok', message: `${provider.name} (${provider.model})` }
   } catch (error) {
-    checks.openai = {
+    checks.llm = {
       status: 'error',
       message: error instanceof Error ? error.message : 'Unknown error',
     }
@@ -74,7 +72,7 @@ export async function GET() {
   }
 
   // Determine overall health
-  const criticalServices = ['openai', 'supabase']
+  const criticalServices = ['llm', 'supabase']
   const criticalStatus = criticalServices.every((service) => checks[service]?.status === 'ok')
   const overallStatus = criticalStatus ? 'healthy' : 'degraded'
 
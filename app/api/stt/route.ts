@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { rateLimitMiddleware } from '@/lib/rate-limit'
+import { authMiddleware } from '@/lib/auth'
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  rateLimitMiddleware,
+  recordRateLimitUsage,
+} from '@/lib/rate-limit'
 
 const DEEPGRAM_API_KEY = process.env.DEEPGRAM_API_KEY
 const MAX_AUDIO_SIZE = 10 * 1024 * 1024 // 10MB
@@ -56,12 +63,27 @@ function getDeepgramErrorMessage(status: number, errorText?: string): string {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
   // Apply rate limiting
-  const rateLimitResult = rateLimitMiddleware(req, '/api/stt')
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/stt', auth.user!.id)
   if (!rateLimitResult.allowed) {
     return rateLimitResult.response!
   }
 
+  // Audio minutes are counted after transcription, when the duration is known
+  const clientId = getClientIdentifier(req, auth.user!.id)
+  const audioBudget = await checkRateLimit('audio:stt', clientId, 0)
+  if (!audioBudget.allowed) {
+    return rateLimitExceededResponse(
+      audioBudget,
+      'Dein Kontingent für Spracheingabe ist vorerst aufgebraucht. Bitte nutze die Texteingabe oder versuche es später erneut.'
+    )
+  }
+
   try {
     const formData = await req.formData()
     const audioFile = formData.get('audio') as File | null
@@ -151,6 +173,11 @@ export async function POST(req: NextRequest) {
 
     const data = await response.json()
 
+    const durationSeconds = Number(data?.metadata?.duration)
+    if (Number.isFinite(durationSeconds) && durationSeconds > 0) {
+      await recordRateLimitUsage('audio:stt', clientId, Math.ceil(durationSeconds))
+    }
+
     // Extract transcript with better error handling
     const transcript =
       data?.results?.channels?.[0]?.alternatives?.[0]?.transcript || ''
@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { rateLimitMiddleware } from '@/lib/rate-limit'
+import { authMiddleware } from '@/lib/auth'
+import {
+  checkRateLimit,
+  getClientIdentifier,
+  rateLimitExceededResponse,
+  rateLimitMiddleware,
+} from '@/lib/rate-limit'
 
 const ELEVENLABS_API_KEY = process.env.ELEVENLABS_API_KEY
 const ELEVENLABS_VOICE_ID = process.env.ELEVENLABS_VOICE_ID || '21m00Tcm4TlvDq8ikWAM' // Default voice: Rachel
 const ELEVENLABS_API_URL = 'https://api.elevenlabs.io/v1/text-to-speech'
 const MAX_TEXT_LENGTH = 5000 // ElevenLabs character limit
+const SPOKEN_CHARS_PER_SECOND = 15 // Rough speaking rate, used to estimate audio minutes
 
 if (!ELEVENLABS_API_KEY) {
   throw new Error('ELEVENLABS_API_KEY is not set')
@@ -35,8 +42,13 @@ function getElevenLabsErrorMessage(status: number, errorText?: string): string {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = authMiddleware(req)
+  if (!auth.authenticated) {
+    return auth.response!
+  }
+
   // Apply rate limiting
-  const rateLimitResult = rateLimitMiddleware(req, '/api/tts')
+  const rateLimitResult = await rateLimitMiddleware(req, '/api/tts', auth.user!.id)
   if (!rateLimitResult.allowed) {
     return rateLimitResult.response!
   }
@@ -67,6 +79,15 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    const estimatedSeconds = Math.ceil(text.trim().length / SPOKEN_CHARS_PER_SECOND)
+    const audioBudget = await checkRateLimit('audio:tts', getClientIdentifier(req, auth.user!.id), estimatedSeconds)
+    if (!audioBudget.allowed) {
+      return rateLimitExceededResponse(
+        audioBudget,
+        'Dein Kontingent für Sprachausgabe ist vorerst aufgebraucht. Die Antworten werden weiterhin als Text angezeigt.'
+      )
+    }
+
     // Call ElevenLabs TTS API
     // ELEVENLABS_API_KEY is checked at module level, so it's safe to use here
     const headers: HeadersInit = {
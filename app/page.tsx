@@ -1,6 +1,5 @@
-import ChatInterface from '@/components/ChatInterface'
+import AuthGate from '@/components/AuthGate'
 
 export default function Home() {
-  return <ChatInterface />
+  return <AuthGate />
 }
-
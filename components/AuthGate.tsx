@@ -0,0 +1,63 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import ChatInterface from '@/components/ChatInterface'
+import LoginForm from '@/components/LoginForm'
+import type { AuthUser } from '@/lib/auth/types'
+
+/**
+ * Shows the login form until there is a valid session, then the chat
+ */
+export default function AuthGate() {
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [isChecking, setIsChecking] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch('/api/auth/session', { cache: 'no-store' })
+      .then(async (response) => {
+        const data = response.ok ? await response.json().catch(() => ({})) : {}
+        if (!cancelled) {
+          setUser(data.user || null)
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setUser(null)
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsChecking(false)
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const handleLogout = useCallback(async () => {
+    await fetch('/api/auth/logout', { method: 'POST' }).catch(() => undefined)
+    setUser(null)
+  }, [])
+
+  const handleSessionExpired = useCallback(() => {
+    setUser(null)
+  }, [])
+
+  if (isChecking) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-gray-50">
+        <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return <LoginForm onLogin={setUser} />
+  }
+
+  return <ChatInterface user={user} onLogout={handleLogout} onSessionExpired={handleSessionExpired} />
+}
@@ -1,10 +1,11 @@
 'use client'
 
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
-import { Mic, MicOff, Volume2, Send, Loader2, Copy, Check, Trash2, X } from 'lucide-react'
+import { Mic, MicOff, Volume2, Send, Loader2, Copy, Check, Trash2, X, Undo2, LogOut, PanelLeft } from 'lucide-react'
 import ReactMarkdown from 'react-markdown'
 import remarkGfm from 'remark-gfm'
-import { Message } from '@/types'
+import { ConfirmationRequest, ConversationSummary, Message } from '@/types'
+import type { ChatStreamEvent } from '@/types/chat-events'
 import { APP_CONFIG, AUDIO_CONFIG, ERROR_MESSAGES, UI_CONFIG } from '@/lib/constants'
 import {
   delay,
@@ -16,15 +17,58 @@ import {
   sanitizeInput,
 } from '@/lib/utils'
 import ConnectionStatus from '@/components/ConnectionStatus'
+import ConfirmationCard from '@/components/ConfirmationCard'
+import ConversationSidebar from '@/components/ConversationSidebar'
 import { showToast } from '@/lib/toast'
+import { isCancellationCommand, isConfirmationCommand } from '@/lib/chat-commands'
+import type { AuthUser } from '@/lib/auth/types'
+
+/**
+ * Restore Date objects for messages parsed from JSON
+ */
+function withDates(messages: Message[]): Message[] {
+  return messages.map((msg) => ({
+    ...msg,
+    timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date(),
+  }))
+}
+
+function toSummary(conversation: ConversationSummary): ConversationSummary {
+  const { id, title, createdAt, updatedAt, messageCount } = conversation
+  return { id, title, createdAt, updatedAt, messageCount }
+}
+
+/**
+ * Serialized form of the stored part of a history, used to detect unsynced changes
+ */
+function snapshotMessages(messages: Message[]): string {
+  return JSON.stringify(messages.slice(-APP_CONFIG.MAX_MESSAGES_TO_STORE))
+}
 
-export default function ChatInterface() {
+/**
+ * A tool call of the current turn, as shown in the progress bubble
+ */
+interface ToolProgress {
+  id: string
+  label: string
+  status: 'running' | 'done' | 'failed'
+  summary?: string
+}
+
+interface ChatInterfaceProps {
+  user?: AuthUser
+  onLogout?: () => void
+  /** Called when the server rejects a request because the session is no longer valid */
+  onSessionExpired?: () => void
+}
+
+export default function ChatInterface({ user, onLogout, onSessionExpired }: ChatInterfaceProps = {}) {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [isStreamingResponse, setIsStreamingResponse] = useState(false)
   const [showLoadingBubble, setShowLoadingBubble] = useState(false)
-  const [isQueryingDatabase, setIsQueryingDatabase] = useState(false)
+  const [toolProgress, setToolProgress] = useState<ToolProgress[]>([])
   const [isProcessingSTT, setIsProcessingSTT] = useState(false)
   const [isGeneratingTTS, setIsGeneratingTTS] = useState(false)
   const [isRecording, setIsRecording] = useState(false)
@@ -34,6 +78,8 @@ export default function ChatInterface() {
   const [isProcessingVoice, setIsProcessingVoice] = useState(false)
   const [audioLevel, setAudioLevel] = useState(0)
   const [silenceStartTime, setSilenceStartTime] = useState<number | null>(null)
+  const [pendingConfirmation, setPendingConfirmation] = useState<ConfirmationRequest | null>(null)
+  const [undoExpiresAt, setUndoExpiresAt] = useState<string | null>(null) // Last confirmed write can be undone until then
   const abortControllerRef = useRef<AbortController | null>(null)
   const streamTimeoutRef = useRef<number | null>(null)
   const loadingBubbleTimeoutRef = useRef<number | null>(null)
@@ -48,6 +94,17 @@ export default function ChatInterface() {
   const streamRef = useRef<MediaStream | null>(null)
   const silenceStartTimeRef = useRef<number | null>(null)
   const voiceOnlyModeRef = useRef<boolean>(false) // Use ref to track voice-only mode reliably
+  const pendingActionIdRef = useRef<string | null>(null) // Server-issued id of the write awaiting confirmation
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [isLoadingConversations, setIsLoadingConversations] = useState(false)
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false)
+  const [isHistoryReady, setIsHistoryReady] = useState(false) // Sync starts once the server history was checked
+  const conversationIdRef = useRef<string | null>(null)
+  const conversationSearchRef = useRef('')
+  const syncedSnapshotRef = useRef('') // Messages the server is known to have
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const threadGenerationRef = useRef(0) // Bumped on every thread switch so stale syncs are dropped
   const streamingDisabled = useMemo(
     () =>
       process.env.NEXT_PUBLIC_DISABLE_STREAMING === 'true' ||
@@ -55,27 +112,113 @@ export default function ChatInterface() {
     []
   )
 
-  // Load chat history from localStorage on mount
-  useEffect(() => {
+  const rememberConversationId = useCallback((id: string | null) => {
+    conversationIdRef.current = id
+    setConversationId(id)
     if (typeof window !== 'undefined') {
-      const savedMessages = localStorage.getItem(APP_CONFIG.CHAT_HISTORY_KEY)
-      if (savedMessages) {
+      if (id) {
+        localStorage.setItem(APP_CONFIG.CONVERSATION_ID_KEY, id)
+      } else {
+        localStorage.removeItem(APP_CONFIG.CONVERSATION_ID_KEY)
+      }
+    }
+  }, [])
+
+  const loadConversations = useCallback(async (search: string = conversationSearchRef.current) => {
+    conversationSearchRef.current = search
+    setIsLoadingConversations(true)
+    try {
+      const query = search ? `?search=${encodeURIComponent(search)}` : ''
+      const response = await fetch(`/api/conversations${query}`)
+      if (response.status === 401) {
+        onSessionExpired?.()
+        return
+      }
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(data.conversations || [])
+      }
+    } catch (error) {
+      console.warn('Failed to load conversations:', error)
+    } finally {
+      setIsLoadingConversations(false)
+    }
+  }, [onSessionExpired])
+
+  /**
+   * Fetch the messages of a thread; null if it no longer exists, throws when offline
+   */
+  const fetchConversationMessages = useCallback(async (id: string): Promise<Message[] | null> => {
+    const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`)
+    if (response.status === 401) {
+      onSessionExpired?.()
+    }
+    if (response.status === 404) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`Loading conversation failed with status ${response.status}`)
+    }
+    const data = await response.json()
+    return withDates(data.conversation.messages || [])
+  }, [onSessionExpired])
+
+  // Load chat history on mount: the localStorage cache first, then the server copy
+  useEffect(() => {
+    if (typeof window === 'undefined') {
+      return
+    }
+
+    let cancelled = false
+    let cachedMessages: Message[] = []
+    const savedMessages = localStorage.getItem(APP_CONFIG.CHAT_HISTORY_KEY)
+    if (savedMessages) {
+      try {
+        const parsed = JSON.parse(savedMessages)
+        // Limit stored messages to prevent localStorage overflow
+        cachedMessages = withDates(parsed.slice(-APP_CONFIG.MAX_MESSAGES_TO_STORE))
+        setMessages(cachedMessages)
+      } catch (e) {
+        console.error('Failed to load chat history:', e)
+      }
+    }
+
+    const cachedConversationId = localStorage.getItem(APP_CONFIG.CONVERSATION_ID_KEY)
+    conversationIdRef.current = cachedConversationId
+    setConversationId(cachedConversationId)
+
+    const hydrate = async () => {
+      if (cachedConversationId) {
         try {
-          const parsed = JSON.parse(savedMessages)
-          // Limit stored messages to prevent localStorage overflow
-          const limitedMessages = parsed.slice(-APP_CONFIG.MAX_MESSAGES_TO_STORE)
-          // Convert timestamp strings back to Date objects
-          const messagesWithDates = limitedMessages.map((msg: Message) => ({
-            ...msg,
-            timestamp: msg.timestamp ? new Date(msg.timestamp) : new Date(),
-          }))
-          setMessages(messagesWithDates)
-        } catch (e) {
-          console.error('Failed to load chat history:', e)
+          const serverMessages = await fetchConversationMessages(cachedConversationId)
+          if (cancelled) {
+            return
+          }
+          if (serverMessages === null) {
+            // Thread was deleted elsewhere; the cached messages are saved as a new one
+            rememberConversationId(null)
+          } else {
+            syncedSnapshotRef.current = snapshotMessages(serverMessages)
+            // The server copy wins unless the cache holds messages written while offline
+            if (serverMessages.length >= cachedMessages.length) {
+              setMessages(serverMessages)
+            }
+          }
+        } catch (error) {
+          console.warn('Using cached chat history, server unavailable:', error)
         }
       }
+      if (!cancelled) {
+        setIsHistoryReady(true)
+        void loadConversations()
+      }
     }
-  }, [])
+    void hydrate()
+
+    return () => {
+      cancelled = true
+    }
+  }, [fetchConversationMessages, loadConversations, rememberConversationId])
 
   // Save chat history to localStorage whenever messages change
   useEffect(() => {
@@ -86,6 +229,64 @@ export default function ChatInterface() {
     }
   }, [messages])
 
+  /**
+   * Save the history on the server, creating the thread on first save
+   * Runs queued so a thread is never created twice; failures leave the local cache in place.
+   */
+  const syncConversation = useCallback((messagesToSync: Message[]) => {
+    const generation = threadGenerationRef.current
+    syncQueueRef.current = syncQueueRef.current.then(async () => {
+      const snapshot = snapshotMessages(messagesToSync)
+      if (generation !== threadGenerationRef.current || snapshot === syncedSnapshotRef.current) {
+        return
+      }
+
+      const body = JSON.stringify({ messages: messagesToSync.slice(-APP_CONFIG.MAX_MESSAGES_TO_STORE) })
+      const createConversation = () =>
+        fetch('/api/conversations', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body })
+
+      try {
+        const id = conversationIdRef.current
+        let response = id
+          ? await fetch(`/api/conversations/${encodeURIComponent(id)}/messages`, {
+              method: 'PUT',
+              headers: { 'Content-Type': 'application/json' },
+              body,
+            })
+          : await createConversation()
+        if (id && response.status === 404) {
+          response = await createConversation()
+        }
+        if (response.status === 401) {
+          onSessionExpired?.()
+          return
+        }
+        if (!response.ok || generation !== threadGenerationRef.current) {
+          return
+        }
+
+        const data = await response.json()
+        const summary = toSummary(data.conversation)
+        syncedSnapshotRef.current = snapshot
+        if (summary.id !== conversationIdRef.current) {
+          rememberConversationId(summary.id)
+        }
+        setConversations((prev) => [summary, ...prev.filter((conversation) => conversation.id !== summary.id)])
+      } catch (error) {
+        console.warn('Chat history not synced, kept in local cache:', error)
+      }
+    })
+  }, [onSessionExpired, rememberConversationId])
+
+  // Sync finished turns to the server (debounced, not while a response is streaming)
+  useEffect(() => {
+    if (!isHistoryReady || isLoading || messages.length === 0) {
+      return
+    }
+    const timeoutId = window.setTimeout(() => syncConversation(messages), APP_CONFIG.CONVERSATION_SYNC_DELAY_MS)
+    return () => window.clearTimeout(timeoutId)
+  }, [messages, isLoading, isHistoryReady, syncConversation])
+
   // Scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -367,6 +568,10 @@ export default function ChatInterface() {
               if (candidate.ok) {
                 sttResponse = candidate
                 break
+              } else if (candidate.status === 401) {
+                onSessionExpired?.()
+                sttError = new Error('Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.')
+                break
               } else {
                 const errorData = await candidate.json().catch(() => ({}))
                 sttError = new Error(errorData.error || `STT-Fehler (${candidate.status})`)
@@ -536,6 +741,10 @@ export default function ChatInterface() {
           if (candidate.ok) {
             ttsResponse = candidate
             break
+          } else if (candidate.status === 401) {
+            onSessionExpired?.()
+            ttsError = new Error('Deine Sitzung ist abgelaufen. Bitte melde dich erneut an.')
+            break
           } else {
             const errorText = await candidate.text().catch(() => 'Unbekannter Fehler')
             ttsError = new Error(`TTS-Fehler (${candidate.status}): ${errorText}`)
@@ -919,15 +1128,119 @@ export default function ChatInterface() {
     }
   }, [])
 
-  const clearChat = useCallback(() => {
-    if (confirm('Möchtest du den gesamten Chatverlauf wirklich löschen?')) {
-      setMessages([])
-      if (typeof window !== 'undefined') {
-        localStorage.removeItem(APP_CONFIG.CHAT_HISTORY_KEY)
+  /**
+   * Show another thread (or an empty one for a new chat) and drop state tied to the previous one
+   */
+  const switchThread = useCallback((id: string | null, threadMessages: Message[]) => {
+    threadGenerationRef.current += 1
+    syncedSnapshotRef.current = threadMessages.length > 0 ? snapshotMessages(threadMessages) : ''
+    pendingActionIdRef.current = null
+    setPendingConfirmation(null)
+    setUndoExpiresAt(null)
+    rememberConversationId(id)
+    setMessages(threadMessages)
+    if (threadMessages.length === 0 && typeof window !== 'undefined') {
+      localStorage.removeItem(APP_CONFIG.CHAT_HISTORY_KEY)
+    }
+  }, [rememberConversationId])
+
+  const startNewConversation = useCallback(() => {
+    if (isLoading) {
+      return
+    }
+    switchThread(null, [])
+    setIsSidebarOpen(false)
+  }, [isLoading, switchThread])
+
+  const selectConversation = useCallback(async (id: string) => {
+    if (id === conversationIdRef.current) {
+      setIsSidebarOpen(false)
+      return
+    }
+    if (isLoading) {
+      showToast('Bitte warte, bis die aktuelle Antwort fertig ist.', 'info', 3000)
+      return
+    }
+
+    try {
+      const threadMessages = await fetchConversationMessages(id)
+      if (threadMessages === null) {
+        showToast('Dieser Chat wurde nicht gefunden.', 'error')
+        void loadConversations()
+        return
+      }
+      switchThread(id, threadMessages)
+      setIsSidebarOpen(false)
+    } catch (error) {
+      console.error('Failed to load conversation:', error)
+      showToast('Der Chat konnte nicht geladen werden. Bitte prüfe deine Verbindung.', 'error')
+    }
+  }, [isLoading, fetchConversationMessages, loadConversations, switchThread])
+
+  const renameConversation = useCallback(async (id: string, title: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      })
+      if (response.status === 401) {
+        onSessionExpired?.()
+        return
+      }
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        showToast(data.error || 'Der Chat konnte nicht umbenannt werden.', 'error')
+        return
+      }
+      const summary = toSummary(data.conversation)
+      setConversations((prev) => prev.map((conversation) => (conversation.id === id ? summary : conversation)))
+    } catch (error) {
+      console.error('Failed to rename conversation:', error)
+      showToast('Der Chat konnte nicht umbenannt werden. Bitte prüfe deine Verbindung.', 'error')
+    }
+  }, [onSessionExpired])
+
+  /**
+   * Delete a thread on the server; returns false if that failed
+   */
+  const deleteConversation = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      if (response.status === 401) {
+        onSessionExpired?.()
+        return false
       }
-      showToast('Chatverlauf wurde gelöscht', 'success', 3000)
+      if (!response.ok && response.status !== 404) {
+        showToast('Der Chat konnte nicht gelöscht werden.', 'error')
+        return false
+      }
+    } catch (error) {
+      console.error('Failed to delete conversation:', error)
+      showToast('Der Chat konnte nicht gelöscht werden. Bitte prüfe deine Verbindung.', 'error')
+      return false
     }
-  }, [])
+
+    setConversations((prev) => prev.filter((conversation) => conversation.id !== id))
+    if (id === conversationIdRef.current) {
+      switchThread(null, [])
+    }
+    return true
+  }, [onSessionExpired, switchThread])
+
+  const clearChat = useCallback(async () => {
+    if (!confirm('Möchtest du diesen Chat wirklich löschen?')) {
+      return
+    }
+    const id = conversationIdRef.current
+    if (id && !(await deleteConversation(id))) {
+      return
+    }
+    if (!id) {
+      switchThread(null, [])
+    }
+    showToast('Chat wurde gelöscht', 'success', 3000)
+  }, [deleteConversation, switchThread])
 
   const clearStreamTimeout = () => {
     if (streamTimeoutRef.current) {
@@ -996,63 +1309,125 @@ export default function ChatInterface() {
           .find((line) => line.startsWith('data:'))
         if (!dataLine) continue
 
+        let payload: ChatStreamEvent
         try {
-          const payload = JSON.parse(dataLine.replace(/^data:\s*/, ''))
-          if (payload.type === 'token' && payload.content) {
+          payload = JSON.parse(dataLine.replace(/^data:\s*/, ''))
+        } catch (err) {
+          console.error('SSE parsing error:', err)
+          continue
+        }
+
+        switch (payload.type) {
+          case 'token': {
+            if (!payload.content) break
+            const content = payload.content
             setIsStreamingResponse(true)
             setShowLoadingBubble(false)
-            assembledContent += payload.content
+            assembledContent += content
             setMessages((prev) =>
               prev.map((msg, idx) =>
                 idx === assistantIndex
-                  ? { ...msg, content: (msg.content || '') + payload.content, timestamp: assistantTimestamp }
+                  ? { ...msg, content: (msg.content || '') + content, timestamp: assistantTimestamp }
                   : msg
               )
             )
-          } else if (payload.type === 'tool_calls' && payload.tool_calls) {
+            break
+          }
+          case 'tool_calls': {
             // Preserve tool calls in the message
+            const toolCalls = payload.tool_calls
             setMessages((prev) =>
               prev.map((msg, idx) =>
                 idx === assistantIndex
-                  ? { ...msg, tool_calls: payload.tool_calls, timestamp: assistantTimestamp }
+                  ? { ...msg, tool_calls: toolCalls, timestamp: assistantTimestamp }
                   : msg
               )
             )
-          } else if (payload.type === 'tool_response' && payload.tool_call_id) {
-            // Preserve tool response messages
+            break
+          }
+          case 'tool_call_started': {
+            const { toolCallId, label } = payload
+            setIsStreamingResponse(false)
+            setShowLoadingBubble(true)
+            setToolProgress((prev) => [...prev, { id: toolCallId, label, status: 'running' }])
+            break
+          }
+          case 'tool_call_result': {
+            const { toolCallId, content, summary } = payload
+            setToolProgress((prev) =>
+              prev.map((entry) =>
+                entry.id === toolCallId
+                  ? { ...entry, status: summary.ok ? 'done' : 'failed', summary: summary.text }
+                  : entry
+              )
+            )
+            // Preserve tool results for the next request
             setMessages((prev) => [
               ...prev,
               {
                 role: 'tool',
-                content: payload.content,
-                tool_call_id: payload.tool_call_id,
+                content,
+                tool_call_id: toolCallId,
                 timestamp: new Date(),
               },
             ])
-          } else if (payload.type === 'done') {
+            break
+          }
+          case 'confirmation_required':
+            // Remember the proposed write so the next confirmation can reference it
+            pendingActionIdRef.current = payload.confirmation.actionId
+            setPendingConfirmation(payload.confirmation)
+            break
+          case 'write_committed':
+            // Failures are explained in the answer text that follows
+            if (payload.success) {
+              showToast('Änderung gespeichert', 'success', 3000)
+            }
+            break
+          case 'usage':
+            // Token usage is not shown in the UI
+            break
+          case 'done':
+            if (payload.resolvedActionId && payload.resolvedActionId === pendingActionIdRef.current) {
+              pendingActionIdRef.current = null
+              setPendingConfirmation(null)
+            }
+            if ('undo' in payload) {
+              setUndoExpiresAt(payload.undo?.expiresAt ?? null)
+            }
             if (speakResponse) {
               speakText(assembledContent).catch((error) => {
                 console.error('TTS error in streaming:', error)
               })
             }
             return
-          } else if (payload.type === 'error') {
+          case 'error':
             throw new Error(payload.message || 'Streaming-Fehler')
-          }
-        } catch (err) {
-          console.error('SSE parsing error:', err)
         }
       }
     }
   }
 
+  /**
+   * Send a message; the pending write's id goes along only when the message resolves it:
+   * from the confirmation card's buttons, or a message that is nothing but "ja" / "nein"
+   * (spoken answers in voice mode), so an unrelated follow-up never executes the write
+   */
   const startChatRequest = async (
     userMessage: Message,
-    { speakResponse }: { speakResponse?: boolean } = {}
+    { speakResponse, resolvesPendingAction }: { speakResponse?: boolean; resolvesPendingAction?: boolean } = {}
   ) => {
+    const pendingActionId =
+      pendingActionIdRef.current &&
+      (resolvesPendingAction ||
+        isConfirmationCommand(userMessage.content) ||
+        isCancellationCommand(userMessage.content))
+        ? pendingActionIdRef.current
+        : null
+
     setMessages((prev) => [...prev, userMessage])
     setIsLoading(true)
-    setIsQueryingDatabase(true)
+    setToolProgress([])
     setIsStreamingResponse(false)
     setShowLoadingBubble(false)
 
@@ -1100,11 +1475,17 @@ export default function ChatInterface() {
           'Content-Type': 'application/json',
           ...(streamingDisabled ? { 'X-Disable-Streaming': 'true' } : {}),
         },
-        body: JSON.stringify({ messages: conversationMessages }),
+        body: JSON.stringify({
+          messages: conversationMessages,
+          ...(pendingActionId && { pendingActionId }),
+        }),
         signal: controller.signal,
       })
 
       if (!response.ok) {
+        if (response.status === 401) {
+          onSessionExpired?.()
+        }
         const errorData = await response.json().catch(() => ({}))
         const errorMessage = errorData.error || 'Antwort konnte nicht geladen werden.'
         showToast(errorMessage, 'error', 5000)
@@ -1117,6 +1498,17 @@ export default function ChatInterface() {
         await readSseStream(response, assistantIndex, { speakResponse })
       } else {
         const data = await response.json()
+        if (data.resolvedActionId && data.resolvedActionId === pendingActionIdRef.current) {
+          pendingActionIdRef.current = null
+          setPendingConfirmation(null)
+        }
+        if (data.confirmation?.actionId) {
+          pendingActionIdRef.current = data.confirmation.actionId
+          setPendingConfirmation(data.confirmation)
+        }
+        if ('undo' in data) {
+          setUndoExpiresAt(data.undo?.expiresAt ?? null)
+        }
         setMessages((prev) =>
           prev.map((msg, idx) =>
             idx === assistantIndex
@@ -1139,7 +1531,6 @@ export default function ChatInterface() {
     } catch (error) {
       console.error('Error sending message:', error)
       setShowLoadingBubble(false)
-      setIsQueryingDatabase(false)
       const isAbort = error instanceof DOMException && error.name === 'AbortError'
       
       if (!isAbort) {
@@ -1164,7 +1555,7 @@ export default function ChatInterface() {
       setShowLoadingBubble(false)
       setIsStreamingResponse(false)
       setIsLoading(false)
-      setIsQueryingDatabase(false)
+      setToolProgress([])
     }
   }
 
@@ -1288,11 +1679,33 @@ export default function ChatInterface() {
 
   return (
     <div className="flex flex-col h-screen bg-white safe-area-inset">
+      <ConversationSidebar
+        open={isSidebarOpen}
+        conversations={conversations}
+        activeId={conversationId}
+        isLoading={isLoadingConversations}
+        onClose={() => setIsSidebarOpen(false)}
+        onSelect={selectConversation}
+        onCreate={startNewConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+        onSearch={loadConversations}
+      />
       {/* Header - Mobile optimized */}
       <div className={`${voiceOnlyMode ? 'bg-blue-600' : 'bg-white'} border-b ${voiceOnlyMode ? 'border-blue-700' : 'border-gray-100'} px-3 py-3 sm:px-4 sm:py-3 sticky top-0 z-10 safe-area-inset-top transition-colors`}>
         <div className="max-w-3xl mx-auto">
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2.5 min-w-0 flex-1">
+              {!voiceOnlyMode && (
+                <button
+                  onClick={() => setIsSidebarOpen(true)}
+                  className="p-2.5 sm:p-2 -ml-1 rounded-lg text-gray-500 active:text-blue-600 active:bg-blue-50 transition-colors touch-manipulation flex-shrink-0"
+                  title="Chats anzeigen"
+                  aria-label="Chats anzeigen"
+                >
+                  <PanelLeft className="h-5 w-5 sm:h-5 sm:w-5" />
+                </button>
+              )}
               <div className={`w-10 h-10 sm:w-10 sm:h-10 rounded-lg ${voiceOnlyMode ? 'bg-white' : 'bg-gradient-to-br from-blue-500 to-blue-600'} flex items-center justify-center shadow-sm flex-shrink-0`}>
                 <span className={`font-bold text-sm sm:text-base ${voiceOnlyMode ? 'text-blue-600' : 'text-white'}`}>LiS</span>
               </div>
@@ -1321,12 +1734,22 @@ export default function ChatInterface() {
                 <button
                   onClick={clearChat}
                   className="p-2.5 sm:p-2 rounded-lg text-gray-500 active:text-red-600 active:bg-red-50 transition-colors touch-manipulation flex-shrink-0"
-                  title="Chatverlauf löschen"
-                  aria-label="Chatverlauf löschen"
+                  title="Chat löschen"
+                  aria-label="Chat löschen"
                 >
                   <Trash2 className="h-5 w-5 sm:h-5 sm:w-5" />
                 </button>
               )}
+              {!voiceOnlyMode && onLogout && (
+                <button
+                  onClick={onLogout}
+                  className="p-2.5 sm:p-2 rounded-lg text-gray-500 active:text-blue-600 active:bg-blue-50 transition-colors touch-manipulation flex-shrink-0"
+                  title={user ? `Abmelden (${user.name || user.email || user.id})` : 'Abmelden'}
+                  aria-label="Abmelden"
+                >
+                  <LogOut className="h-5 w-5 sm:h-5 sm:w-5" />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1473,13 +1896,69 @@ export default function ChatInterface() {
             </div>
           ))}
 
+          {undoExpiresAt && !pendingConfirmation && new Date(undoExpiresAt).getTime() > Date.now() && (
+            <div className="flex justify-start">
+              <button
+                onClick={() =>
+                  startChatRequest({ role: 'user', content: 'Mach das rückgängig', timestamp: new Date() })
+                }
+                disabled={isLoading}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm hover:bg-gray-50 active:scale-95 transition disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+                title="Letzte Änderung rückgängig machen"
+                aria-label="Letzte Änderung rückgängig machen"
+              >
+                <Undo2 className="h-4 w-4" />
+                Rückgängig
+              </button>
+            </div>
+          )}
+
+          {pendingConfirmation && (
+            <ConfirmationCard
+              confirmation={pendingConfirmation}
+              disabled={isLoading}
+              onConfirm={() =>
+                startChatRequest(
+                  { role: 'user', content: 'Ja, bitte ausführen.', timestamp: new Date() },
+                  { resolvesPendingAction: true }
+                )
+              }
+              onCancel={() =>
+                startChatRequest(
+                  { role: 'user', content: 'Abbrechen', timestamp: new Date() },
+                  { resolvesPendingAction: true }
+                )
+              }
+            />
+          )}
+
           {isLoading && showLoadingBubble && !isStreamingResponse && (
             <div className="flex justify-start animate-in fade-in slide-in-from-bottom-2 duration-200">
               <div className="bg-white rounded-2xl sm:rounded-xl rounded-bl-sm px-4 py-3 sm:px-4 sm:py-2.5 border border-gray-200 shadow-sm">
-                <div className="flex items-center gap-2.5">
-                  <Loader2 className="animate-spin h-4 w-4 sm:h-4 sm:w-4 text-blue-600" />
-                  <span className="text-sm sm:text-sm text-gray-600">Denke nach...</span>
-                </div>
+                {toolProgress.length === 0 ? (
+                  <div className="flex items-center gap-2.5">
+                    <Loader2 className="animate-spin h-4 w-4 sm:h-4 sm:w-4 text-blue-600" />
+                    <span className="text-sm sm:text-sm text-gray-600">Denke nach...</span>
+                  </div>
+                ) : (
+                  <ul className="space-y-1.5">
+                    {toolProgress.map((entry) => (
+                      <li key={entry.id} className="flex items-center gap-2.5 text-sm text-gray-600">
+                        {entry.status === 'running' ? (
+                          <Loader2 className="animate-spin h-4 w-4 flex-shrink-0 text-blue-600" />
+                        ) : entry.status === 'done' ? (
+                          <Check className="h-4 w-4 flex-shrink-0 text-green-600" />
+                        ) : (
+                          <X className="h-4 w-4 flex-shrink-0 text-red-500" />
+                        )}
+                        <span>
+                          {entry.label}
+                          {entry.summary && <span className="text-gray-400"> · {entry.summary}</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </div>
           )}
@@ -0,0 +1,133 @@
+'use client'
+
+import { AlertTriangle, Check, X } from 'lucide-react'
+import type { ConfirmationRequest, WriteActionKind } from '@/types'
+
+interface ConfirmationCardProps {
+  confirmation: ConfirmationRequest
+  onConfirm: () => void
+  onCancel: () => void
+  disabled?: boolean
+}
+
+const KIND_LABELS: Record<WriteActionKind, string> = {
+  INSERT: 'Neuer Eintrag',
+  UPDATE: 'Änderung',
+  DELETE: 'Löschung',
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '—'
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Ja' : 'Nein'
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
+
+/**
+ * Shows exactly which rows and fields a proposed write will change,
+ * with buttons to confirm or cancel it
+ */
+export default function ConfirmationCard({
+  confirmation,
+  onConfirm,
+  onCancel,
+  disabled = false,
+}: ConfirmationCardProps) {
+  const { preview } = confirmation
+  const isExpired = new Date(confirmation.expiresAt).getTime() < Date.now()
+  const hiddenRows = preview.rowCount - preview.rows.length
+
+  return (
+    <div className="flex justify-start animate-in fade-in slide-in-from-bottom-2 duration-200">
+      <div className="w-full max-w-[90%] sm:max-w-[75%] bg-white rounded-2xl sm:rounded-xl rounded-bl-sm border border-amber-300 shadow-sm px-4 py-3">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <p className="text-sm font-semibold text-gray-900">
+            {KIND_LABELS[preview.kind]} in {preview.tableName}
+          </p>
+          <span className="text-xs text-gray-500">
+            {preview.rowCount === 1 ? '1 Zeile' : `${preview.rowCount} Zeilen`}
+          </span>
+        </div>
+
+        {preview.warnings && preview.warnings.length > 0 && (
+          <div className="mb-3 space-y-1 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2">
+            {preview.warnings.map((warning) => (
+              <p key={warning} className="flex items-start gap-1.5 text-xs text-amber-800">
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                {warning}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {preview.rows.map((row, rowIndex) => (
+            <div key={rowIndex}>
+              {row.label && <p className="text-xs text-gray-600 mb-1">{row.label}</p>}
+              {row.changes.length === 0 ? (
+                <p className="text-xs text-gray-500 italic">Keine Werte ändern sich.</p>
+              ) : (
+                <div className="overflow-x-auto rounded-lg border border-gray-200">
+                  <table className="min-w-full border-collapse text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-1.5 text-left text-xs font-semibold text-gray-700">Feld</th>
+                        <th className="px-3 py-1.5 text-left text-xs font-semibold text-gray-700">Vorher</th>
+                        <th className="px-3 py-1.5 text-left text-xs font-semibold text-gray-700">Nachher</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {row.changes.map((change) => (
+                        <tr key={change.column}>
+                          <td className="px-3 py-1.5 font-mono text-xs text-gray-700">{change.column}</td>
+                          <td className="px-3 py-1.5 text-red-700 line-through decoration-red-300">
+                            {formatValue(change.before)}
+                          </td>
+                          <td className="px-3 py-1.5 text-green-700">{formatValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+          {hiddenRows > 0 && (
+            <p className="text-xs text-gray-500">… und {hiddenRows} weitere Zeile(n)</p>
+          )}
+        </div>
+
+        {isExpired ? (
+          <p className="mt-3 text-xs text-gray-500">
+            Diese Bestätigung ist abgelaufen. Bitte stelle die Anfrage erneut.
+          </p>
+        ) : (
+          <div className="mt-3 flex gap-2">
+            <button
+              onClick={onConfirm}
+              disabled={disabled}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-blue-600 text-white text-sm font-medium hover:bg-blue-700 active:scale-95 transition disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+            >
+              <Check className="h-4 w-4" />
+              Bestätigen
+            </button>
+            <button
+              onClick={onCancel}
+              disabled={disabled}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50 active:scale-95 transition disabled:opacity-50 disabled:cursor-not-allowed touch-manipulation"
+            >
+              <X className="h-4 w-4" />
+              Abbrechen
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, MessageSquare, Pencil, Plus, Search, Trash2, X } from 'lucide-react'
+import type { ConversationSummary } from '@/types'
+
+interface ConversationSidebarProps {
+  open: boolean
+  conversations: ConversationSummary[]
+  activeId: string | null
+  isLoading?: boolean
+  onClose: () => void
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, title: string) => void
+  onDelete: (id: string) => void
+  onSearch: (query: string) => void
+}
+
+const SEARCH_DELAY_MS = 300
+
+function formatUpdatedAt(value: string): string {
+  const date = new Date(value)
+  const isToday = date.toDateString() === new Date().toDateString()
+  return isToday
+    ? date.toLocaleTimeString('de-DE', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: '2-digit' })
+}
+
+/**
+ * Drawer listing the user's chat threads
+ */
+export default function ConversationSidebar({
+  open,
+  conversations,
+  activeId,
+  isLoading = false,
+  onClose,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onSearch,
+}: ConversationSidebarProps) {
+  const [search, setSearch] = useState('')
+
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+    const timeoutId = window.setTimeout(() => onSearch(search.trim()), SEARCH_DELAY_MS)
+    return () => window.clearTimeout(timeoutId)
+  }, [search, open, onSearch])
+
+  if (!open) {
+    return null
+  }
+
+  const handleRename = (conversation: ConversationSummary) => {
+    const title = prompt('Neuer Name für diesen Chat:', conversation.title)
+    if (title && title.trim() && title.trim() !== conversation.title) {
+      onRename(conversation.id, title.trim())
+    }
+  }
+
+  const handleDelete = (conversation: ConversationSummary) => {
+    if (confirm(`Möchtest du den Chat „${conversation.title}“ wirklich löschen?`)) {
+      onDelete(conversation.id)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-30 flex">
+      <aside className="flex h-full w-72 max-w-[85vw] flex-col border-r border-gray-200 bg-white shadow-xl safe-area-inset-top">
+        <div className="flex items-center justify-between px-3 py-3 border-b border-gray-100">
+          <h2 className="text-base font-semibold text-gray-900">Chats</h2>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-lg text-gray-500 active:bg-gray-100 transition-colors touch-manipulation"
+            title="Schließen"
+            aria-label="Chatliste schließen"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="space-y-2 px-3 py-3">
+          <button
+            onClick={onCreate}
+            className="flex w-full items-center justify-center gap-2 rounded-lg bg-blue-600 px-3 py-2 text-sm font-medium text-white transition hover:bg-blue-700 active:scale-95 touch-manipulation"
+          >
+            <Plus className="h-4 w-4" />
+            Neuer Chat
+          </button>
+          <div className="relative">
+            <Search className="pointer-events-none absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+            <input
+              type="search"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+              placeholder="Chats durchsuchen"
+              className="w-full rounded-lg border border-gray-300 py-2 pl-8 pr-3 text-sm text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-2 pb-3 overscroll-contain">
+          {isLoading && conversations.length === 0 ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+            </div>
+          ) : conversations.length === 0 ? (
+            <p className="px-2 py-6 text-center text-sm text-gray-500">
+              {search.trim() ? 'Keine passenden Chats gefunden.' : 'Noch keine gespeicherten Chats.'}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {conversations.map((conversation) => {
+                const isActive = conversation.id === activeId
+                return (
+                  <li key={conversation.id}>
+                    <div
+                      className={`group flex items-center gap-2 rounded-lg px-2 py-2 ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                    >
+                      <button
+                        onClick={() => onSelect(conversation.id)}
+                        className="flex min-w-0 flex-1 items-center gap-2 text-left touch-manipulation"
+                      >
+                        <MessageSquare className={`h-4 w-4 flex-shrink-0 ${isActive ? 'text-blue-600' : 'text-gray-400'}`} />
+                        <span className="min-w-0 flex-1">
+                          <span className={`block truncate text-sm ${isActive ? 'font-medium text-blue-900' : 'text-gray-800'}`}>
+                            {conversation.title}
+                          </span>
+                          <span className="block text-[11px] text-gray-500">
+                            {formatUpdatedAt(conversation.updatedAt)} · {conversation.messageCount} Nachrichten
+                          </span>
+                        </span>
+                      </button>
+                      <button
+                        onClick={() => handleRename(conversation)}
+                        className="p-1.5 rounded text-gray-400 hover:text-gray-700 active:bg-gray-100 touch-manipulation"
+                        title="Umbenennen"
+                        aria-label="Chat umbenennen"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(conversation)}
+                        className="p-1.5 rounded text-gray-400 hover:text-red-600 active:bg-red-50 touch-manipulation"
+                        title="Löschen"
+                        aria-label="Chat löschen"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+        </div>
+      </aside>
+      <div className="flex-1 bg-black/30" onClick={onClose} aria-hidden="true" />
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, LogIn } from 'lucide-react'
+import type { AuthUser } from '@/lib/auth/types'
+
+interface LoginFormProps {
+  onLogin: (user: AuthUser) => void
+}
+
+export default function LoginForm({ onLogin }: LoginFormProps) {
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!username.trim() || !password || isSubmitting) {
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username: username.trim(), password }),
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok || !data.user) {
+        setError(data.error || 'Die Anmeldung ist fehlgeschlagen.')
+        return
+      }
+
+      setPassword('')
+      onLogin(data.user)
+    } catch {
+      setError('Der Server ist nicht erreichbar. Bitte prüfe deine Verbindung.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm rounded-xl border border-gray-200 bg-white p-6 shadow-sm"
+      >
+        <div className="mb-6 flex items-center gap-2.5">
+          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-gradient-to-br from-blue-500 to-blue-600 shadow-sm">
+            <span className="text-sm font-bold text-white">LiS</span>
+          </div>
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">Anmelden</h1>
+            <p className="text-xs text-gray-500">Melde dich an, um den Chatbot zu nutzen</p>
+          </div>
+        </div>
+
+        <label className="mb-1 block text-sm font-medium text-gray-700" htmlFor="login-username">
+          Benutzername oder E-Mail
+        </label>
+        <input
+          id="login-username"
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(event) => setUsername(event.target.value)}
+          className="mb-4 w-full rounded-lg border border-gray-300 px-3 py-2 text-base text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          required
+        />
+
+        <label className="mb-1 block text-sm font-medium text-gray-700" htmlFor="login-password">
+          Passwort
+        </label>
+        <input
+          id="login-password"
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          className="mb-4 w-full rounded-lg border border-gray-300 px-3 py-2 text-base text-gray-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-200"
+          required
+        />
+
+        {error && (
+          <p className="mb-4 rounded-lg bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">
+            {error}
+          </p>
+        )}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username.trim() || !password}
+          className="flex w-full items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white transition hover:bg-blue-700 active:scale-95 disabled:cursor-not-allowed disabled:opacity-50 touch-manipulation"
+        >
+          {isSubmitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogIn className="h-4 w-4" />}
+          Anmelden
+        </button>
+      </form>
+    </div>
+  )
+}
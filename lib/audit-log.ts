@@ -2,41 +2,57 @@
  * Audit logging for sensitive database operations
  */
 
-export type AuditLogAction = 'INSERT' | 'UPDATE' | 'DELETE' | 'QUERY'
-
-export interface AuditLogEntry {
-  timestamp: Date
-  action: AuditLogAction
-  tableName: string
-  userId?: string
-  ipAddress?: string
-  filters?: Record<string, any>
-  values?: Record<string, any>
-  result: 'SUCCESS' | 'FAILURE'
-  error?: string
-  metadata?: Record<string, any>
+import { getAuditSinks } from './audit'
+import { DEFAULT_AUDIT_QUERY_LIMIT } from './audit/query'
+import type { AuditLogAction, AuditLogEntry, AuditLogQuery, AuditSink } from './audit/types'
+import type { Role } from './permissions'
+
+export type { AuditLogAction, AuditLogEntry, AuditLogQuery } from './audit/types'
+
+const MAX_AUDIT_QUERY_LIMIT = 500
+
+export type AuditLogListener = (entry: AuditLogEntry) => void
+
+const auditLogListeners = new Set<AuditLogListener>()
+
+/**
+ * Register a listener that receives every audit entry (e.g. to keep undo history)
+ * Returns a function that removes the listener again
+ */
+export function onAuditLog(listener: AuditLogListener): () => void {
+  auditLogListeners.add(listener)
+  return () => {
+    auditLogListeners.delete(listener)
+  }
 }
 
 /**
- * Log audit entry (in production, this should write to a database or logging service)
+ * Log audit entry to all configured sinks (see lib/audit)
+ * Sink writes are not awaited so a slow or failing sink never blocks the operation
  */
 export function logAuditEntry(entry: AuditLogEntry): void {
-  // In development, log to console
-  // In production, this should write to a secure audit log database or service
-  if (process.env.NODE_ENV === 'development') {
-    console.log('[AUDIT]', JSON.stringify(entry, null, 2))
-  } else {
-    // TODO: Implement production audit logging
-    // Examples:
-    // - Write to Supabase audit_log table
-    // - Send to logging service (e.g., LogRocket, Sentry)
-    // - Write to secure file system
-    console.log('[AUDIT]', JSON.stringify({
-      ...entry,
-      // Sanitize sensitive data in production logs
-      values: entry.values ? '[REDACTED]' : undefined,
-      filters: entry.filters ? '[REDACTED]' : undefined,
-    }))
+  let sinks: AuditSink[]
+  try {
+    sinks = getAuditSinks()
+  } catch (error) {
+    console.error('Audit sinks could not be created:', error)
+    sinks = []
+  }
+
+  for (const sink of sinks) {
+    Promise.resolve()
+      .then(() => sink.write(entry))
+      .catch((error) => {
+        console.error(`Audit sink "${sink.name}" failed:`, error)
+      })
+  }
+
+  for (const listener of auditLogListeners) {
+    try {
+      listener(entry)
+    } catch (error) {
+      console.error('Audit log listener failed:', error)
+    }
   }
 }
 
@@ -52,6 +68,8 @@ export function createAuditLog(
     ipAddress?: string
     filters?: Record<string, any>
     values?: Record<string, any>
+    beforeRows?: Record<string, any>[]
+    afterRows?: Record<string, any>[]
     error?: string
     metadata?: Record<string, any>
   } = {}
@@ -68,3 +86,52 @@ export function createAuditLog(
   return entry
 }
 
+
+/**
+ * Audit search limited to what a user may see
+ * Admins search every entry; other roles only their own writes.
+ */
+export function scopeAuditLogQuery(query: AuditLogQuery, user: { id: string; role: Role }): AuditLogQuery {
+  return user.role === 'admin' ? query : { ...query, clientId: user.id }
+}
+
+/**
+ * Audit entries without IP addresses for every role but admin
+ */
+export function redactAuditLogEntries(entries: AuditLogEntry[], role: Role): AuditLogEntry[] {
+  if (role === 'admin') {
+    return entries
+  }
+  return entries.map((entry) => {
+    const { ipAddress: _ipAddress, ...rest } = entry
+    return rest
+  })
+}
+
+/**
+ * Search the audit log, newest entries first
+ * Uses the first configured sink that supports queries (database or file)
+ */
+export async function queryAuditLog(
+  query: AuditLogQuery
+): Promise<{ data: AuditLogEntry[] | null; error: string | null }> {
+  try {
+    const sink = getAuditSinks().find((candidate) => candidate.query)
+    if (!sink?.query) {
+      return {
+        data: null,
+        error: 'Das Audit-Log ist nicht durchsuchbar. Bitte AUDIT_SINKS um "database" oder "file" ergänzen.',
+      }
+    }
+
+    const limit = Math.min(Math.max(1, query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT), MAX_AUDIT_QUERY_LIMIT)
+    const data = await sink.query({ ...query, limit })
+    return { data, error: null }
+  } catch (error) {
+    console.error('Audit log query failed:', error)
+    return {
+      data: null,
+      error: error instanceof Error ? error.message : 'Audit log query failed',
+    }
+  }
+}
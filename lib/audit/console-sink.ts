@@ -0,0 +1,26 @@
+import type { AuditSink } from './types'
+
+/**
+ * Log audit entries to the console
+ * Values and row snapshots are redacted outside of development
+ */
+export function createConsoleAuditSink(): AuditSink {
+  return {
+    name: 'console',
+    write: (entry) => {
+      if (process.env.NODE_ENV === 'development') {
+        console.log('[AUDIT]', JSON.stringify(entry, null, 2))
+        return
+      }
+
+      console.log('[AUDIT]', JSON.stringify({
+        ...entry,
+        // Sanitize sensitive data in production logs
+        values: entry.values ? '[REDACTED]' : undefined,
+        filters: entry.filters ? '[REDACTED]' : undefined,
+        beforeRows: entry.beforeRows ? '[REDACTED]' : undefined,
+        afterRows: entry.afterRows ? '[REDACTED]' : undefined,
+      }))
+    },
+  }
+}
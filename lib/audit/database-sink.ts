@@ -0,0 +1,94 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { DEFAULT_AUDIT_QUERY_LIMIT, matchesAuditQuery } from './query'
+import type { AuditLogEntry, AuditSink } from './types'
+
+// Rows scanned when filtering by record, which happens after loading
+const RECORD_SCAN_LIMIT = 1000
+
+function toRow(entry: AuditLogEntry): Record<string, any> {
+  return {
+    created_at: entry.timestamp.toISOString(),
+    action: entry.action,
+    table_name: entry.tableName,
+    result: entry.result,
+    user_id: entry.userId ?? null,
+    ip_address: entry.ipAddress ?? null,
+    filters: entry.filters ?? null,
+    values: entry.values ?? null,
+    before_rows: entry.beforeRows ?? null,
+    after_rows: entry.afterRows ?? null,
+    error: entry.error ?? null,
+    metadata: entry.metadata ?? null,
+  }
+}
+
+function fromRow(row: Record<string, any>): AuditLogEntry {
+  return {
+    timestamp: new Date(row.created_at),
+    action: row.action,
+    tableName: row.table_name,
+    result: row.result,
+    userId: row.user_id ?? undefined,
+    ipAddress: row.ip_address ?? undefined,
+    filters: row.filters ?? undefined,
+    values: row.values ?? undefined,
+    beforeRows: row.before_rows ?? undefined,
+    afterRows: row.after_rows ?? undefined,
+    error: row.error ?? undefined,
+    metadata: row.metadata ?? undefined,
+  }
+}
+
+/**
+ * Write audit entries to a dedicated Supabase table (see README for the schema)
+ * Uses the client directly rather than insertRow, so audit writes are not audited themselves
+ */
+export function createDatabaseAuditSink(options: {
+  client: SupabaseClient | null
+  tableName: string
+}): AuditSink {
+  const requireClient = () => {
+    if (!options.client) {
+      throw new Error('Supabase admin client not initialized. Audit entries cannot be stored in the database.')
+    }
+    return options.client
+  }
+
+  return {
+    name: 'database',
+    write: async (entry) => {
+      const { error } = await requireClient().from(options.tableName).insert(toRow(entry))
+      if (error) {
+        throw new Error(`Failed to write audit entry: ${error.message}`)
+      }
+    },
+    query: async (query) => {
+      const limit = query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT
+      let builder = requireClient()
+        .from(options.tableName)
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(query.record ? Math.max(limit, RECORD_SCAN_LIMIT) : limit)
+
+      if (query.tableName) builder = builder.eq('table_name', query.tableName)
+      if (query.action) builder = builder.eq('action', query.action)
+      if (query.result) builder = builder.eq('result', query.result)
+      if (query.from) builder = builder.gte('created_at', query.from.toISOString())
+      if (query.to) builder = builder.lte('created_at', query.to.toISOString())
+      if (query.clientId) {
+        const clientId = JSON.stringify(query.clientId)
+        builder = builder.or(`user_id.eq.${clientId},ip_address.eq.${clientId}`)
+      }
+
+      const { data, error } = await builder
+      if (error) {
+        throw new Error(`Failed to read audit log: ${error.message}`)
+      }
+
+      return (data || [])
+        .map(fromRow)
+        .filter((entry) => matchesAuditQuery(entry, query))
+        .slice(0, limit)
+    },
+  }
+}
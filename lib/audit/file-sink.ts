@@ -0,0 +1,48 @@
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import { dirname } from 'path'
+import { DEFAULT_AUDIT_QUERY_LIMIT, matchesAuditQuery } from './query'
+import type { AuditLogEntry, AuditSink } from './types'
+
+/**
+ * Append audit entries to a JSON-lines file
+ * Note: On serverless hosts only /tmp is writable and not shared between instances
+ */
+export function createFileAuditSink(options: { path: string }): AuditSink {
+  let directoryReady: Promise<unknown> | null = null
+
+  return {
+    name: 'file',
+    write: async (entry) => {
+      directoryReady = directoryReady || mkdir(dirname(options.path), { recursive: true })
+      await directoryReady
+      await appendFile(options.path, `${JSON.stringify(entry)}\n`, 'utf8')
+    },
+    query: async (query) => {
+      let content = ''
+      try {
+        content = await readFile(options.path, 'utf8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return []
+        }
+        throw error
+      }
+
+      const entries: AuditLogEntry[] = []
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue
+        try {
+          const parsed = JSON.parse(line)
+          entries.push({ ...parsed, timestamp: new Date(parsed.timestamp) })
+        } catch {
+          // Skip partially written lines
+        }
+      }
+
+      return entries
+        .filter((entry) => matchesAuditQuery(entry, query))
+        .reverse()
+        .slice(0, query.limit ?? DEFAULT_AUDIT_QUERY_LIMIT)
+    },
+  }
+}
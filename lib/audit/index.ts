@@ -0,0 +1,68 @@
+/**
+ * Audit sink selection
+ *
+ * Configured via environment variables:
+ * - AUDIT_SINKS: comma-separated list of "console" (default), "database" and "file"
+ * - AUDIT_LOG_TABLE: table for the "database" sink (default: t_audit_log)
+ * - AUDIT_LOG_FILE: JSON-lines file for the "file" sink (default: ./logs/audit.jsonl)
+ */
+
+import { supabaseAdmin } from '@/lib/supabase'
+import { createConsoleAuditSink } from './console-sink'
+import { createDatabaseAuditSink } from './database-sink'
+import { createFileAuditSink } from './file-sink'
+import type { AuditSink } from './types'
+
+const DEFAULT_AUDIT_TABLE = 't_audit_log'
+const DEFAULT_AUDIT_FILE = './logs/audit.jsonl'
+
+let cachedSinks: AuditSink[] | null = null
+
+/**
+ * Create the sinks listed in the environment
+ */
+export function createAuditSinksFromEnv(env: NodeJS.ProcessEnv = process.env): AuditSink[] {
+  const names = (env.AUDIT_SINKS || 'console')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  return Array.from(new Set(names)).map((name) => {
+    switch (name) {
+      case 'console':
+        return createConsoleAuditSink()
+      case 'database':
+        return createDatabaseAuditSink({
+          client: supabaseAdmin,
+          tableName: env.AUDIT_LOG_TABLE || DEFAULT_AUDIT_TABLE,
+        })
+      case 'file':
+        return createFileAuditSink({ path: env.AUDIT_LOG_FILE || DEFAULT_AUDIT_FILE })
+      default:
+        throw new Error(`Unknown audit sink in AUDIT_SINKS: ${name}`)
+    }
+  })
+}
+
+/**
+ * Get the configured sinks (created once per server instance)
+ */
+export function getAuditSinks(): AuditSink[] {
+  if (!cachedSinks) {
+    cachedSinks = createAuditSinksFromEnv()
+  }
+  return cachedSinks
+}
+
+/**
+ * Replace the configured sinks, e.g. with an in-memory sink in tests
+ */
+export function setAuditSinks(sinks: AuditSink[] | null): void {
+  cachedSinks = sinks
+}
+
+export { createConsoleAuditSink } from './console-sink'
+export { createDatabaseAuditSink } from './database-sink'
+export { createFileAuditSink } from './file-sink'
+export { matchesAuditQuery } from './query'
+export type * from './types'
@@ -0,0 +1,33 @@
+/**
+ * In-memory matching of audit entries, used by sinks without server-side filtering
+ */
+
+import type { AuditLogEntry, AuditLogQuery } from './types'
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100
+
+/**
+ * Check whether an entry touched the row identified by the given column values
+ */
+function touchesRecord(entry: AuditLogEntry, record: Record<string, string | number>): boolean {
+  const matches = (row: Record<string, any> | undefined) =>
+    !!row && Object.entries(record).every(([column, value]) => row[column] !== undefined && String(row[column]) === String(value))
+
+  return (
+    matches(entry.filters) ||
+    matches(entry.values) ||
+    (entry.beforeRows || []).some(matches) ||
+    (entry.afterRows || []).some(matches)
+  )
+}
+
+export function matchesAuditQuery(entry: AuditLogEntry, query: AuditLogQuery): boolean {
+  if (query.tableName && entry.tableName !== query.tableName) return false
+  if (query.action && entry.action !== query.action) return false
+  if (query.result && entry.result !== query.result) return false
+  if (query.from && entry.timestamp < query.from) return false
+  if (query.to && entry.timestamp > query.to) return false
+  if (query.clientId && entry.userId !== query.clientId && entry.ipAddress !== query.clientId) return false
+  if (query.record && Object.keys(query.record).length > 0 && !touchesRecord(entry, query.record)) return false
+  return true
+}
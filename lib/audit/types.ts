@@ -0,0 +1,45 @@
+/**
+ * Audit log types shared by the sinks
+ */
+
+export type AuditLogAction = 'INSERT' | 'UPDATE' | 'DELETE' | 'QUERY'
+
+export interface AuditLogEntry {
+  timestamp: Date
+  action: AuditLogAction
+  tableName: string
+  userId?: string
+  ipAddress?: string
+  filters?: Record<string, any>
+  values?: Record<string, any>
+  /** Row state before a successful write (updated or deleted rows) */
+  beforeRows?: Record<string, any>[]
+  /** Row state after a successful write (inserted or updated rows) */
+  afterRows?: Record<string, any>[]
+  result: 'SUCCESS' | 'FAILURE'
+  error?: string
+  metadata?: Record<string, any>
+}
+
+export interface AuditLogQuery {
+  tableName?: string
+  action?: AuditLogAction
+  result?: AuditLogEntry['result']
+  from?: Date
+  to?: Date
+  /** User id or client identifier (IP address) */
+  clientId?: string
+  /** Column values identifying a row touched by the write, e.g. {project_id: '...'} */
+  record?: Record<string, string | number>
+  limit?: number
+}
+
+/**
+ * Destination for audit entries
+ * Sinks that can be searched implement query; results are newest first
+ */
+export interface AuditSink {
+  name: string
+  write(entry: AuditLogEntry): void | Promise<void>
+  query?(query: AuditLogQuery): Promise<AuditLogEntry[]>
+}
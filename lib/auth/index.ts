@@ -0,0 +1,149 @@
+/**
+ * Authentication
+ *
+ * Configured via environment variables:
+ * - AUTH_PROVIDER: "supabase" (default, Supabase Auth with email + password) or "local"
+ * - AUTH_LOCAL_USERS: "user:password" pairs for the "local" provider, comma-separated
+ * - AUTH_SECRET: secret used to sign session cookies (required in production)
+ * - AUTH_SESSION_TTL_HOURS: session lifetime (default: 12)
+ */
+
+import { randomBytes } from 'crypto'
+import type { NextResponse } from 'next/server'
+import { createLocalAuthAdapter, parseLocalUsers } from './local-adapter'
+import { SESSION_COOKIE_NAME, createSessionToken, verifySessionToken } from './session'
+import { createSupabaseAuthAdapter } from './supabase-adapter'
+import type { AuthAdapter, AuthUser } from './types'
+
+const DEFAULT_SESSION_TTL_HOURS = 12
+
+let cachedAdapter: AuthAdapter | null = null
+let cachedSecret: string | null = null
+
+/**
+ * Create an adapter from the environment
+ */
+export function createAuthAdapterFromEnv(env: NodeJS.ProcessEnv = process.env): AuthAdapter {
+  switch (env.AUTH_PROVIDER || 'supabase') {
+    case 'supabase':
+      return createSupabaseAuthAdapter({
+        url: env.NEXT_PUBLIC_SUPABASE_URL,
+        anonKey: env.NEXT_PUBLIC_SUPABASE_ANON_KEY,
+      })
+    case 'local':
+      return createLocalAuthAdapter(parseLocalUsers(env.AUTH_LOCAL_USERS))
+    default:
+      throw new Error(`Unknown AUTH_PROVIDER: ${env.AUTH_PROVIDER}`)
+  }
+}
+
+/**
+ * Get the configured adapter (created once per server instance)
+ */
+export function getAuthAdapter(): AuthAdapter {
+  if (!cachedAdapter) {
+    cachedAdapter = createAuthAdapterFromEnv()
+  }
+  return cachedAdapter
+}
+
+/**
+ * Replace the configured adapter, e.g. with a local adapter in tests
+ */
+export function setAuthAdapter(adapter: AuthAdapter | null): void {
+  cachedAdapter = adapter
+}
+
+function getSessionSecret(): string {
+  if (cachedSecret) {
+    return cachedSecret
+  }
+
+  if (process.env.AUTH_SECRET) {
+    cachedSecret = process.env.AUTH_SECRET
+  } else if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_SECRET is not set')
+  } else {
+    // Sessions end on every restart of the dev server
+    console.warn('AUTH_SECRET is not set, using a random secret for this process')
+    cachedSecret = randomBytes(32).toString('hex')
+  }
+  return cachedSecret
+}
+
+function getSessionTtlMs(): number {
+  const hours = Number(process.env.AUTH_SESSION_TTL_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get('cookie')
+  if (!header) {
+    return null
+  }
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=')
+    if (key === name) {
+      return decodeURIComponent(rest.join('='))
+    }
+  }
+  return null
+}
+
+/**
+ * Get the logged-in user of a request, if any
+ */
+export function getSessionUser(req: Request): AuthUser | null {
+  const token = readCookie(req, SESSION_COOKIE_NAME)
+  return token ? verifySessionToken(token, getSessionSecret()) : null
+}
+
+/**
+ * Auth middleware for Next.js API routes
+ */
+export function authMiddleware(req: Request): {
+  authenticated: boolean
+  user?: AuthUser
+  response?: Response
+} {
+  let user: AuthUser | null = null
+  try {
+    user = getSessionUser(req)
+  } catch (error) {
+    console.error('Session check failed:', error)
+  }
+
+  if (!user) {
+    return {
+      authenticated: false,
+      response: new Response(
+        JSON.stringify({ error: 'Nicht angemeldet. Bitte melde dich an.' }),
+        { status: 401, headers: { 'Content-Type': 'application/json' } }
+      ),
+    }
+  }
+
+  return { authenticated: true, user }
+}
+
+/**
+ * Start a session for the user by setting the session cookie
+ */
+export function setSessionCookie(response: NextResponse, user: AuthUser): void {
+  const ttlMs = getSessionTtlMs()
+  response.cookies.set(SESSION_COOKIE_NAME, createSessionToken(user, { secret: getSessionSecret(), ttlMs }), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.floor(ttlMs / 1000),
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', { httpOnly: true, path: '/', maxAge: 0 })
+}
+
+export { createLocalAuthAdapter, parseLocalUsers } from './local-adapter'
+export { createSupabaseAuthAdapter } from './supabase-adapter'
+export type * from './types'
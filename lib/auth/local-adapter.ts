@@ -0,0 +1,63 @@
+import { createHash, timingSafeEqual } from 'crypto'
+import { isRole, resolveRole, type Role } from '@/lib/permissions'
+import type { AuthAdapter } from './types'
+
+export interface LocalUser {
+  username: string
+  password: string
+  name?: string
+  role?: Role
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value, 'utf8').digest()
+}
+
+/**
+ * Parse "user:password[:role],user2:password2" from AUTH_LOCAL_USERS
+ */
+export function parseLocalUsers(value: string | undefined): LocalUser[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':')
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Invalid AUTH_LOCAL_USERS entry: ${entry.split(':')[0]}`)
+      }
+      const username = entry.slice(0, separator)
+      let password = entry.slice(separator + 1)
+      let role: Role | undefined
+
+      const roleSeparator = password.lastIndexOf(':')
+      const roleCandidate = password.slice(roleSeparator + 1)
+      if (roleSeparator > 0 && isRole(roleCandidate)) {
+        role = roleCandidate
+        password = password.slice(0, roleSeparator)
+      }
+      return { username, password, role }
+    })
+}
+
+/**
+ * Username/password store from configuration, meant for development and offline runs
+ */
+export function createLocalAuthAdapter(users: LocalUser[]): AuthAdapter {
+  if (users.length === 0) {
+    throw new Error('AUTH_LOCAL_USERS must contain at least one user for AUTH_PROVIDER=local')
+  }
+
+  return {
+    name: 'local',
+    signIn: async (username, password) => {
+      const user = users.find((candidate) => candidate.username.toLowerCase() === username.toLowerCase())
+      // Compare digests so the comparison takes the same time for every password length
+      const passwordMatches = timingSafeEqual(digest(password), digest(user?.password ?? ''))
+      if (!user || !passwordMatches) {
+        return null
+      }
+      return { id: `local:${user.username}`, name: user.name || user.username, role: resolveRole(user.role) }
+    },
+  }
+}
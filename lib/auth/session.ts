@@ -0,0 +1,51 @@
+/**
+ * Signed session tokens stored in an HTTP-only cookie
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 signature)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { resolveRole } from '@/lib/permissions'
+import type { AuthUser } from './types'
+
+export const SESSION_COOKIE_NAME = 'lis_session'
+
+interface SessionPayload {
+  user: AuthUser
+  exp: number
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url')
+}
+
+export function createSessionToken(user: AuthUser, options: { secret: string; ttlMs: number }): string {
+  const payload: SessionPayload = { user, exp: Date.now() + options.ttlMs }
+  const data = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url')
+  return `${data}.${sign(data, options.secret)}`
+}
+
+/**
+ * Return the user of a valid, unexpired token, otherwise null
+ */
+export function verifySessionToken(token: string, secret: string): AuthUser | null {
+  const [data, signature] = token.split('.')
+  if (!data || !signature) {
+    return null
+  }
+
+  const expected = Buffer.from(sign(data, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload: SessionPayload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'))
+    if (!payload.user?.id || typeof payload.exp !== 'number' || payload.exp < Date.now()) {
+      return null
+    }
+    return { ...payload.user, role: resolveRole(payload.user.role) }
+  } catch {
+    return null
+  }
+}
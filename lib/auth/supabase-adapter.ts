@@ -0,0 +1,36 @@
+import { createClient } from '@supabase/supabase-js'
+import { resolveRole } from '@/lib/permissions'
+import type { AuthAdapter } from './types'
+
+/**
+ * Verify logins with Supabase Auth (email + password)
+ * The role is read from app_metadata.role
+ */
+export function createSupabaseAuthAdapter(options: { url?: string; anonKey?: string }): AuthAdapter {
+  if (!options.url || !options.anonKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY are required for AUTH_PROVIDER=supabase')
+  }
+
+  // Separate client without session persistence, so sign-ins never share state between requests
+  const client = createClient(options.url, options.anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+
+  return {
+    name: 'supabase',
+    signIn: async (username, password) => {
+      const { data, error } = await client.auth.signInWithPassword({ email: username, password })
+      if (error || !data.user) {
+        return null
+      }
+
+      return {
+        id: data.user.id,
+        email: data.user.email,
+        name: typeof data.user.user_metadata?.name === 'string' ? data.user.user_metadata.name : undefined,
+        // app_metadata can only be changed with the service role, so users cannot grant themselves a role
+        role: resolveRole(data.user.app_metadata?.role),
+      }
+    },
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Authentication types shared by the adapters
+ */
+
+import type { Role } from '@/lib/permissions'
+
+export interface AuthUser {
+  id: string
+  email?: string
+  name?: string
+  role: Role
+}
+
+/**
+ * Checks credentials against a user store
+ * Sessions are issued by the app itself (see session.ts), so adapters only verify logins
+ */
+export interface AuthAdapter {
+  name: string
+  signIn(username: string, password: string): Promise<AuthUser | null>
+}
@@ -0,0 +1,70 @@
+/**
+ * Recognition of chat messages that are commands rather than questions
+ * Commands act without the model (undo, confirming or discarding a pending write), so only
+ * messages that consist of the command itself count; a question that merely mentions
+ * "rückgängig" or starts with "bitte" is passed on to the model.
+ */
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace
+ */
+export function normalizeCommand(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[.,!?/\\]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+const UNDO = '(?:rückgängig|rueckgaengig|ruckgangig)'
+
+const UNDO_COMMANDS = [
+  // "rückgängig", "undo", "rückgängig machen bitte"
+  new RegExp(`^(?:bitte )?(?:${UNDO}(?: machen)?|undo)(?: bitte)?$`),
+  // "mach das rückgängig", "bitte mach die letzte änderung rückgängig"
+  new RegExp(`^(?:bitte )?(?:mach|mache|mach mal) (?:das|es|die letzte änderung|den letzten eintrag)(?: bitte)? ${UNDO}(?: bitte)?$`),
+  // "nimm das zurück", "änderung zurücknehmen"
+  /^(?:bitte )?(?:nimm|nehm) (?:das|es|die letzte änderung)(?: bitte)? zurück(?: bitte)?$/,
+  /^(?:(?:die )?(?:letzte )?änderung )?(?:zurücknehmen|zuruecknehmen)(?: bitte)?$/,
+]
+
+/**
+ * Whether a message is an explicit request to undo the last write, e.g. "Mach das rückgängig"
+ */
+export function isUndoCommand(text: string): boolean {
+  const normalized = normalizeCommand(text)
+  return UNDO_COMMANDS.some((pattern) => pattern.test(normalized))
+}
+
+// A confirmation or cancellation consists only of these words and at least one keyword
+const CONFIRMATION_KEYWORDS = [
+  'ja', 'jap', 'jo', 'jawohl', 'yes', 'ok', 'okay', 'klar', 'genau', 'passt', 'gerne', 'gern', 'bitte',
+  'mach', 'mache', 'machs', 'ausführen', 'speichern', 'eintragen', 'anlegen', 'erstellen', 'hinzufügen',
+  'einfügen', 'füge', 'bestätigen', 'bestätigt',
+]
+const CONFIRMATION_FILLERS = ['das', 'es', 'so', 'hinzu', 'und', 'alles', 'richtig', 'danke', 'sehr', 'gut']
+
+const CANCELLATION_KEYWORDS = ['nein', 'ne', 'nee', 'no', 'stop', 'stopp', 'cancel', 'abbrechen', 'abbruch', 'verwerfen', 'nicht']
+const CANCELLATION_FILLERS = ['bitte', 'danke', 'doch', 'lieber', 'das', 'es', 'so', 'speichern', 'ausführen', 'mal']
+
+function consistsOf(text: string, keywords: string[], fillers: string[]): boolean {
+  const words = normalizeCommand(text).split(' ').filter(Boolean)
+  return (
+    words.some((word) => keywords.includes(word)) &&
+    words.every((word) => keywords.includes(word) || fillers.includes(word))
+  )
+}
+
+/**
+ * Whether a message only confirms the pending write, e.g. "Ja", "ok, mach das", "Ja, bitte ausführen."
+ */
+export function isConfirmationCommand(text: string): boolean {
+  return consistsOf(text, CONFIRMATION_KEYWORDS, CONFIRMATION_FILLERS)
+}
+
+/**
+ * Whether a message only discards the pending write, e.g. "Nein", "Abbrechen", "doch nicht speichern"
+ */
+export function isCancellationCommand(text: string): boolean {
+  return consistsOf(text, CANCELLATION_KEYWORDS, CANCELLATION_FILLERS)
+}
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { queryTable } from './supabase-query'
+import { findConflicts } from './conflicts'
+
+vi.mock('./supabase-query', () => ({ queryTable: vi.fn() }))
+
+const mockedQueryTable = vi.mocked(queryTable)
+
+/** A Monday */
+const DAY = '2026-10-19'
+
+function plans(count: number, offset = 0) {
+  return Array.from({ length: count }, (_, index) => ({
+    plan_id: `p${offset + index}`,
+    plan_date: DAY,
+    project_id: null,
+    vehicle_id: null,
+    start_time: '08:00:00',
+  }))
+}
+
+/**
+ * Serve t_morningplan from the given rows by offset; staff and labels from the given rows
+ */
+function serveTables(planRows: Record<string, any>[], staffRows: Record<string, any>[] = []) {
+  mockedQueryTable.mockImplementation(async (tableName, filters = {}, limit = 100, _joins, options = {}) => {
+    const offset = options.offset ?? 0
+    if (tableName === 't_morningplan') {
+      return { data: planRows.slice(offset, offset + limit), error: null } as any
+    }
+    if (tableName === 't_morningplan_staff') {
+      const ids: string[] = filters.plan_id.value
+      const rows = staffRows.filter((row) => ids.includes(row.plan_id))
+      return { data: rows.slice(offset, offset + limit), error: null } as any
+    }
+    return { data: [], error: null } as any
+  })
+}
+
+describe('findConflicts', () => {
+  beforeEach(() => {
+    mockedQueryTable.mockReset()
+  })
+
+  it('pages through all plans of the range', async () => {
+    const planRows = plans(1500)
+    serveTables(planRows, [
+      { plan_id: 'p0', employee_id: 'e1', individual_start_time: null },
+      { plan_id: 'p1499', employee_id: 'e1', individual_start_time: null },
+    ])
+
+    const result = await findConflicts({ start: DAY, end: DAY })
+
+    const planOffsets = mockedQueryTable.mock.calls
+      .filter(([tableName]) => tableName === 't_morningplan')
+      .map(([, , , , options]) => options?.offset)
+    expect(planOffsets).toEqual([0, 1000])
+    expect(result.truncated).toBeUndefined()
+    expect(result.data?.map((conflict) => conflict.planIds)).toEqual([['p0', 'p1499']])
+  })
+
+  it('looks up staff in chunks of plan ids', async () => {
+    serveTables(plans(450))
+
+    await findConflicts({ start: DAY, end: DAY })
+
+    const chunkSizes = mockedQueryTable.mock.calls
+      .filter(([tableName]) => tableName === 't_morningplan_staff')
+      .map(([, filters]) => filters?.plan_id.value.length)
+    expect(chunkSizes).toEqual([200, 200, 50])
+  })
+
+  it('reports truncation instead of silently dropping plans', async () => {
+    serveTables(plans(25000))
+
+    const result = await findConflicts({ start: DAY, end: DAY })
+
+    expect(result.truncated).toBe(true)
+    expect(mockedQueryTable.mock.calls.filter(([tableName]) => tableName === 't_morningplan')).toHaveLength(20)
+  })
+
+  it('returns the query error', async () => {
+    mockedQueryTable.mockResolvedValue({ data: null, error: 'Tabelle nicht gefunden' } as any)
+
+    expect(await findConflicts({ start: DAY, end: DAY })).toEqual({ data: null, error: 'Tabelle nicht gefunden' })
+  })
+})
@@ -0,0 +1,550 @@
+/**
+ * Conflict detection for morning plans
+ * Finds employees and vehicles planned twice at overlapping times on the same day,
+ * inactive employees, vehicles that are not ready or deleted, and plans on holidays.
+ * Plans have no end time, so each assignment is assumed to last PLAN_DURATION_HOURS
+ * from its start; an assignment without a start time overlaps every other one that day.
+ *
+ * Environment variables:
+ * - PLAN_DURATION_HOURS: assumed length of a plan in hours (default: 8)
+ * - VEHICLE_READY_STATUSES: vehicle statuses that count as ready, comma-separated (default: "bereit")
+ */
+
+import { describeNonWorkingDay } from './holidays'
+import { queryTable } from './supabase-query'
+
+export type ConflictKind =
+  | 'employee_overlap'
+  | 'vehicle_overlap'
+  | 'inactive_employee'
+  | 'vehicle_not_ready'
+  | 'non_working_day'
+
+export interface Conflict {
+  kind: ConflictKind
+  /** YYYY-MM-DD */
+  planDate: string
+  /** German description for the user */
+  message: string
+  /** Plans involved; NEW_PLAN_ID stands for a plan that is not saved yet */
+  planIds: string[]
+  employeeId?: string
+  vehicleId?: string
+}
+
+/**
+ * A planned change to check before it is written
+ * - a new plan: values with plan_date (and vehicle_id, start_time, project_id), staff rows
+ * - an existing plan: planId plus the plan columns that change and/or staff rows to add or change
+ */
+export interface PlanDraft {
+  planId?: string
+  values?: Record<string, any>
+  /** Staff rows; `replaces` is the employee_id of an existing row the row takes the place of */
+  staff?: Array<{ employee_id: string; individual_start_time?: string | null; replaces?: string }>
+}
+
+export const NEW_PLAN_ID = 'neu'
+export const DEFAULT_PLAN_DURATION_HOURS = 8
+export const DEFAULT_VEHICLE_READY_STATUSES = ['bereit']
+
+const PLAN_COLUMNS = ['plan_id', 'plan_date', 'project_id', 'vehicle_id', 'start_time']
+const STAFF_COLUMNS = ['plan_id', 'employee_id', 'individual_start_time']
+const PAGE_SIZE = 1000
+const MAX_ROWS = 20000
+// Keeps the "in" filters of id lookups within URL length limits
+const ID_CHUNK_SIZE = 200
+
+interface StaffSnapshot {
+  employeeId: string
+  startTime: string | null
+}
+
+interface PlanSnapshot {
+  planId: string
+  planDate: string
+  projectId: string | null
+  vehicleId: string | null
+  startTime: string | null
+  staff: StaffSnapshot[]
+}
+
+interface Assignment {
+  plan: PlanSnapshot
+  startTime: string | null
+}
+
+interface RowsResult {
+  data: Record<string, any>[] | null
+  error: string | null
+  /** More than MAX_ROWS rows matched; only the first MAX_ROWS were loaded */
+  truncated: boolean
+}
+
+interface ConflictLabels {
+  employees: Map<string, Record<string, any>>
+  vehicles: Map<string, Record<string, any>>
+  projects: Map<string, Record<string, any>>
+}
+
+/**
+ * Assumed length of a plan from PLAN_DURATION_HOURS
+ */
+export function getPlanDurationMinutes(env: NodeJS.ProcessEnv = process.env): number {
+  const hours = Number(env.PLAN_DURATION_HOURS)
+  return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_PLAN_DURATION_HOURS) * 60
+}
+
+/**
+ * Vehicle statuses that count as ready, lowercased, from VEHICLE_READY_STATUSES
+ */
+export function getVehicleReadyStatuses(env: NodeJS.ProcessEnv = process.env): string[] {
+  const statuses = (env.VEHICLE_READY_STATUSES || '')
+    .split(',')
+    .map((status) => status.trim().toLowerCase())
+    .filter(Boolean)
+  return statuses.length > 0 ? statuses : DEFAULT_VEHICLE_READY_STATUSES
+}
+
+function toMinutes(time: string | null): number | null {
+  const match = time?.match(/^(\d{1,2}):(\d{2})/)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+function formatTime(time: string | null): string {
+  return time ? time.slice(0, 5) : 'ohne Uhrzeit'
+}
+
+function formatGermanDay(isoDay: string): string {
+  const [year, month, day] = isoDay.split('-')
+  return `${day}.${month}.${year}`
+}
+
+function toPlanDate(value: unknown): string | null {
+  return typeof value === 'string' ? value.match(/^\d{4}-\d{2}-\d{2}/)?.[0] || null : null
+}
+
+/**
+ * All rows matching the filters, fetched page by page up to MAX_ROWS
+ */
+async function queryAllRows(
+  tableName: string,
+  filters: Record<string, any>,
+  columns: string[],
+  orderColumn: string
+): Promise<RowsResult> {
+  const rows: Record<string, any>[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await queryTable(tableName, filters, PAGE_SIZE, undefined, {
+      columns,
+      orderBy: [{ column: orderColumn }],
+      offset,
+    })
+    if (page.error || !page.data) {
+      return { data: null, error: page.error || `Could not load ${tableName}`, truncated: false }
+    }
+    rows.push(...(page.data as unknown as Record<string, any>[]))
+
+    if (page.data.length < PAGE_SIZE) {
+      return { data: rows, error: null, truncated: false }
+    }
+    if (rows.length >= MAX_ROWS) {
+      return { data: rows, error: null, truncated: true }
+    }
+  }
+}
+
+/**
+ * All rows whose idColumn is one of the ids, looked up in chunks
+ */
+async function queryRowsByIds(
+  tableName: string,
+  idColumn: string,
+  ids: string[],
+  columns: string[]
+): Promise<RowsResult> {
+  const rows: Record<string, any>[] = []
+  let truncated = false
+  for (let start = 0; start < ids.length; start += ID_CHUNK_SIZE) {
+    const chunk = ids.slice(start, start + ID_CHUNK_SIZE)
+    const result = await queryAllRows(tableName, { [idColumn]: { type: 'in', value: chunk } }, columns, idColumn)
+    if (!result.data) {
+      return result
+    }
+    rows.push(...result.data)
+    truncated = truncated || result.truncated
+  }
+  return { data: rows, error: null, truncated }
+}
+
+/**
+ * Plans matching the filters together with their staff
+ * truncated is set if more plans or staff rows matched than could be loaded.
+ */
+async function loadPlans(
+  filters: Record<string, any>
+): Promise<{ data: PlanSnapshot[] | null; error: string | null; truncated?: boolean }> {
+  const plans = await queryAllRows('t_morningplan', filters, PLAN_COLUMNS, 'plan_id')
+  if (!plans.data) {
+    return { data: null, error: plans.error }
+  }
+
+  const snapshots = new Map<string, PlanSnapshot>()
+  for (const row of plans.data) {
+    const planDate = toPlanDate(row.plan_date)
+    if (!planDate) {
+      continue
+    }
+    snapshots.set(String(row.plan_id), {
+      planId: String(row.plan_id),
+      planDate,
+      projectId: row.project_id ?? null,
+      vehicleId: row.vehicle_id ?? null,
+      startTime: row.start_time ?? null,
+      staff: [],
+    })
+  }
+  if (snapshots.size === 0) {
+    return { data: [], error: null, truncated: plans.truncated }
+  }
+
+  const staff = await queryRowsByIds('t_morningplan_staff', 'plan_id', Array.from(snapshots.keys()), STAFF_COLUMNS)
+  if (!staff.data) {
+    return { data: null, error: staff.error }
+  }
+  for (const row of staff.data) {
+    snapshots.get(String(row.plan_id))?.staff.push({
+      employeeId: String(row.employee_id),
+      startTime: row.individual_start_time ?? null,
+    })
+  }
+
+  return { data: Array.from(snapshots.values()), error: null, truncated: plans.truncated || staff.truncated }
+}
+
+async function loadById(
+  tableName: string,
+  idColumn: string,
+  columns: string[],
+  ids: string[]
+): Promise<{ data: Map<string, Record<string, any>>; error: string | null }> {
+  const rows = new Map<string, Record<string, any>>()
+  if (ids.length === 0) {
+    return { data: rows, error: null }
+  }
+  const result = await queryRowsByIds(tableName, idColumn, ids, columns)
+  if (!result.data) {
+    return { data: rows, error: result.error }
+  }
+  for (const row of result.data) {
+    rows.set(String(row[idColumn]), row)
+  }
+  return { data: rows, error: null }
+}
+
+/**
+ * Names and states of the employees, vehicles and projects of the plans
+ */
+async function loadLabels(plans: PlanSnapshot[]): Promise<{ data: ConflictLabels | null; error: string | null }> {
+  const unique = (values: Array<string | null>) => Array.from(new Set(values.filter((value): value is string => !!value)))
+  const [employees, vehicles, projects] = await Promise.all([
+    loadById('t_employees', 'employee_id', ['employee_id', 'name', 'is_active'], unique(
+      plans.flatMap((plan) => plan.staff.map((member) => member.employeeId))
+    )),
+    loadById('t_vehicles', 'vehicle_id', ['vehicle_id', 'nickname', 'status', 'is_deleted'], unique(
+      plans.map((plan) => plan.vehicleId)
+    )),
+    loadById('t_projects', 'project_id', ['project_id', 'name'], unique(plans.map((plan) => plan.projectId))),
+  ])
+
+  const error = employees.error || vehicles.error || projects.error
+  if (error) {
+    return { data: null, error }
+  }
+  return { data: { employees: employees.data, vehicles: vehicles.data, projects: projects.data }, error: null }
+}
+
+function planLabel(plan: PlanSnapshot, labels: ConflictLabels): string {
+  const project = plan.projectId ? labels.projects.get(plan.projectId)?.name : null
+  const name = project || (plan.planId === NEW_PLAN_ID ? 'neuer Einsatz' : `Einsatz ${plan.planId}`)
+  return plan.planId === NEW_PLAN_ID && project ? `${name} (neu)` : name
+}
+
+/**
+ * Pairs of assignments on the same day whose assumed time windows overlap
+ */
+function findOverlaps(assignments: Assignment[], durationMinutes: number): Array<[Assignment, Assignment]> {
+  const overlaps: Array<[Assignment, Assignment]> = []
+  for (let first = 0; first < assignments.length; first++) {
+    for (let second = first + 1; second < assignments.length; second++) {
+      const a = assignments[first]
+      const b = assignments[second]
+      if (a.plan.planDate !== b.plan.planDate || a.plan.planId === b.plan.planId) {
+        continue
+      }
+      const startA = toMinutes(a.startTime)
+      const startB = toMinutes(b.startTime)
+      if (startA === null || startB === null || Math.abs(startA - startB) < durationMinutes) {
+        overlaps.push([a, b])
+      }
+    }
+  }
+  return overlaps
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | null): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const value = key(item)
+    if (!value) {
+      continue
+    }
+    const group = groups.get(value)
+    if (group) {
+      group.push(item)
+    } else {
+      groups.set(value, [item])
+    }
+  }
+  return groups
+}
+
+/**
+ * All conflicts among the given plans
+ */
+function detectConflicts(plans: PlanSnapshot[], labels: ConflictLabels): Conflict[] {
+  const conflicts: Conflict[] = []
+  const durationMinutes = getPlanDurationMinutes()
+  const readyStatuses = getVehicleReadyStatuses()
+  const describeAssignment = (assignment: Assignment) =>
+    `${planLabel(assignment.plan, labels)} (${formatTime(assignment.startTime)})`
+
+  const staffAssignments = plans.flatMap((plan) =>
+    plan.staff.map((member) => ({ employeeId: member.employeeId, plan, startTime: member.startTime || plan.startTime }))
+  )
+  for (const [employeeId, assignments] of groupBy(staffAssignments, (assignment) => assignment.employeeId)) {
+    const name = labels.employees.get(employeeId)?.name || `Mitarbeiter ${employeeId}`
+    for (const [a, b] of findOverlaps(assignments, durationMinutes)) {
+      conflicts.push({
+        kind: 'employee_overlap',
+        planDate: a.plan.planDate,
+        message: `${name} ist am ${formatGermanDay(a.plan.planDate)} doppelt eingeplant: ${describeAssignment(a)} und ${describeAssignment(b)}.`,
+        planIds: [a.plan.planId, b.plan.planId],
+        employeeId,
+      })
+    }
+  }
+
+  const vehicleAssignments = plans.map((plan) => ({ plan, startTime: plan.startTime }))
+  for (const [vehicleId, assignments] of groupBy(vehicleAssignments, (assignment) => assignment.plan.vehicleId)) {
+    const name = labels.vehicles.get(vehicleId)?.nickname || vehicleId
+    for (const [a, b] of findOverlaps(assignments, durationMinutes)) {
+      conflicts.push({
+        kind: 'vehicle_overlap',
+        planDate: a.plan.planDate,
+        message: `Fahrzeug ${name} ist am ${formatGermanDay(a.plan.planDate)} doppelt verplant: ${describeAssignment(a)} und ${describeAssignment(b)}.`,
+        planIds: [a.plan.planId, b.plan.planId],
+        vehicleId,
+      })
+    }
+  }
+
+  for (const plan of plans) {
+    const day = formatGermanDay(plan.planDate)
+    for (const member of plan.staff) {
+      const employee = labels.employees.get(member.employeeId)
+      if (employee?.is_active === false) {
+        conflicts.push({
+          kind: 'inactive_employee',
+          planDate: plan.planDate,
+          message: `${employee.name} ist als inaktiv markiert, aber am ${day} für ${planLabel(plan, labels)} eingeplant.`,
+          planIds: [plan.planId],
+          employeeId: member.employeeId,
+        })
+      }
+    }
+
+    const vehicle = plan.vehicleId ? labels.vehicles.get(plan.vehicleId) : undefined
+    if (plan.vehicleId && (!vehicle || vehicle.is_deleted === true)) {
+      conflicts.push({
+        kind: 'vehicle_not_ready',
+        planDate: plan.planDate,
+        message: vehicle
+          ? `Fahrzeug ${vehicle.nickname} ist gelöscht, ist aber am ${day} für ${planLabel(plan, labels)} eingeplant.`
+          : `Das Fahrzeug für ${planLabel(plan, labels)} am ${day} existiert nicht mehr.`,
+        planIds: [plan.planId],
+        vehicleId: plan.vehicleId,
+      })
+    } else if (vehicle?.status && !readyStatuses.includes(String(vehicle.status).trim().toLowerCase())) {
+      conflicts.push({
+        kind: 'vehicle_not_ready',
+        planDate: plan.planDate,
+        message: `Fahrzeug ${vehicle.nickname} hat den Status „${vehicle.status}“, ist aber am ${day} für ${planLabel(plan, labels)} eingeplant.`,
+        planIds: [plan.planId],
+        vehicleId: plan.vehicleId!,
+      })
+    }
+  }
+
+  for (const [planDate, dayPlans] of groupBy(plans, (plan) => plan.planDate)) {
+    const reason = describeNonWorkingDay(planDate)
+    if (reason) {
+      conflicts.push({
+        kind: 'non_working_day',
+        planDate,
+        message: `${reason} Eingeplant: ${dayPlans.map((plan) => planLabel(plan, labels)).join(', ')}.`,
+        planIds: dayPlans.map((plan) => plan.planId),
+      })
+    }
+  }
+
+  return conflicts.sort((a, b) => a.planDate.localeCompare(b.planDate))
+}
+
+async function detectForPlans(plans: PlanSnapshot[]): Promise<{ data: Conflict[] | null; error: string | null }> {
+  const labels = await loadLabels(plans)
+  if (!labels.data) {
+    return { data: null, error: labels.error }
+  }
+  return { data: detectConflicts(plans, labels.data), error: null }
+}
+
+/**
+ * Conflicts among the saved plans of a day range (inclusive)
+ * truncated is set if the range had more plans than could be loaded, so conflicts may be missing.
+ */
+export async function findConflicts(range: { start: string; end: string }): Promise<{
+  data: Conflict[] | null
+  error: string | null
+  truncated?: boolean
+}> {
+  const plans = await loadPlans({ plan_date: { type: 'between', value: [range.start, range.end] } })
+  if (!plans.data) {
+    return { data: null, error: plans.error }
+  }
+  const conflicts = await detectForPlans(plans.data)
+  return plans.truncated ? { ...conflicts, truncated: true } : conflicts
+}
+
+/**
+ * Conflicts a planned change would cause or keep, checked against the saved plans of its day
+ * Only conflicts involving the changed plan are returned.
+ */
+export async function findDraftConflicts(draft: PlanDraft): Promise<{
+  data: Conflict[] | null
+  error: string | null
+  truncated?: boolean
+}> {
+  let existing: PlanSnapshot | undefined
+  if (draft.planId) {
+    const loaded = await loadPlans({ plan_id: draft.planId })
+    if (!loaded.data) {
+      return { data: null, error: loaded.error }
+    }
+    existing = loaded.data[0]
+    if (!existing) {
+      return { data: [], error: null }
+    }
+  }
+
+  const values = draft.values || {}
+  const planId = existing?.planId || NEW_PLAN_ID
+  const planDate = toPlanDate(values.plan_date) || existing?.planDate
+  if (!planDate) {
+    return { data: [], error: null }
+  }
+
+  const staff = (existing?.staff || []).filter(
+    (member) => !draft.staff?.some((row) => row.employee_id === member.employeeId || row.replaces === member.employeeId)
+  )
+  for (const row of draft.staff || []) {
+    staff.push({ employeeId: String(row.employee_id), startTime: row.individual_start_time ?? null })
+  }
+  const changed: PlanSnapshot = {
+    planId,
+    planDate,
+    projectId: 'project_id' in values ? values.project_id : existing?.projectId ?? null,
+    vehicleId: 'vehicle_id' in values ? values.vehicle_id : existing?.vehicleId ?? null,
+    startTime: 'start_time' in values ? values.start_time : existing?.startTime ?? null,
+    staff,
+  }
+
+  const sameDay = await loadPlans({ plan_date: planDate })
+  if (!sameDay.data) {
+    return { data: null, error: sameDay.error }
+  }
+  const plans = [...sameDay.data.filter((plan) => plan.planId !== planId), changed]
+
+  const conflicts = await detectForPlans(plans)
+  if (!conflicts.data) {
+    return conflicts
+  }
+  return {
+    data: conflicts.data.filter((conflict) => conflict.planIds.includes(planId)),
+    error: null,
+    ...(sameDay.truncated ? { truncated: true } : {}),
+  }
+}
+
+/**
+ * The plan drafts a write to t_morningplan or t_morningplan_staff amounts to
+ * rows are the matched rows of an update (from its dry run); empty for inserts.
+ */
+export function toPlanDrafts(
+  tableName: string,
+  values: Record<string, any>,
+  rows: Record<string, any>[] = []
+): PlanDraft[] {
+  if (tableName === 't_morningplan') {
+    return rows.length > 0 ? rows.map((row) => ({ planId: String(row.plan_id), values })) : [{ values }]
+  }
+  if (tableName !== 't_morningplan_staff') {
+    return []
+  }
+  if (rows.length === 0) {
+    if (!values.plan_id || !values.employee_id) {
+      return []
+    }
+    const staff = { employee_id: String(values.employee_id), individual_start_time: values.individual_start_time }
+    return [{ planId: String(values.plan_id), staff: [staff] }]
+  }
+  return rows.map((row) => {
+    const merged = { ...row, ...values }
+    return {
+      planId: String(merged.plan_id),
+      staff: [
+        {
+          employee_id: String(merged.employee_id),
+          individual_start_time: merged.individual_start_time ?? null,
+          replaces: String(row.employee_id),
+        },
+      ],
+    }
+  })
+}
+
+/**
+ * German warnings for a morning-plan write, run before the change is proposed
+ * Sundays and holidays are left out when the write sets plan_date, since getWorkdayWarnings
+ * already reports them. A failed lookup is reported as a warning instead of blocking the write.
+ */
+export async function getConflictWarnings(drafts: PlanDraft[]): Promise<string[]> {
+  const warnings: string[] = []
+  for (const draft of drafts) {
+    const result = await findDraftConflicts(draft)
+    if (!result.data) {
+      warnings.push(`Konflikte konnten nicht geprüft werden: ${result.error}`)
+      continue
+    }
+    if (result.truncated) {
+      warnings.push('Der Tag hat zu viele Einsätze, um alle auf Konflikte zu prüfen.')
+    }
+    for (const conflict of result.data) {
+      const reportedByWorkday = conflict.kind === 'non_working_day' && !!toPlanDate(draft.values?.plan_date)
+      if (!reportedByWorkday && !warnings.includes(conflict.message)) {
+        warnings.push(conflict.message)
+      }
+    }
+  }
+  return warnings
+}
@@ -6,6 +6,8 @@ export const APP_CONFIG = {
   MAX_INPUT_LENGTH: 2000,
   MAX_MESSAGES_TO_STORE: 1000,
   CHAT_HISTORY_KEY: 'chat-history',
+  CONVERSATION_ID_KEY: 'chat-conversation-id',
+  CONVERSATION_SYNC_DELAY_MS: 1000,
   LOADING_BUBBLE_DELAY_MS: 300,
   STREAM_TIMEOUT_MS: 60000,
   TTS_FALLBACK_DELAY_MS: 2500,
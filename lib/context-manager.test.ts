@@ -0,0 +1,187 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { LLMMessage, LLMProvider } from './llm'
+import {
+  CONVERSATION_SUMMARY_PREFIX,
+  type ConversationSummarizer,
+  compactToolResult,
+  fitMessagesToBudget,
+  getContextBudget,
+  parseContextBudgets,
+} from './context-manager'
+
+const SYSTEM: LLMMessage = { role: 'system', content: 'Du bist der LiS-Assistent.' }
+
+/**
+ * One turn: question, tool call, tool result with the given number of rows and the answer
+ */
+function turn(topic: string, index: number, rowCount: number): LLMMessage[] {
+  const rows = Array.from({ length: rowCount }, (_, row) => ({
+    project_id: `${topic}-${index}-${row}`,
+    project_name: `Baustelle ${topic} ${row}`,
+  }))
+  return [
+    { role: 'user', content: `Frage ${index} zu ${topic}` },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [
+        {
+          id: `call_${index}`,
+          type: 'function',
+          function: { name: 'queryTable', arguments: '{"tableName":"t_projects"}' },
+        },
+      ],
+    },
+    { role: 'tool', tool_call_id: `call_${index}`, content: JSON.stringify({ success: true, data: rows }) },
+    { role: 'assistant', content: `Antwort ${index} zu ${topic}` },
+  ]
+}
+
+function history(topic: string, turnCount: number, rowCount: number): LLMMessage[] {
+  return [SYSTEM, ...Array.from({ length: turnCount }, (_, index) => turn(topic, index, rowCount)).flat()]
+}
+
+function fakeProvider(): LLMProvider {
+  return {
+    name: 'fake',
+    model: 'fake',
+    complete: vi.fn(async () => ({ message: { role: 'assistant' as const, content: 'Zusammenfassung vom Modell' } })),
+    stream: vi.fn(),
+  }
+}
+
+describe('parseContextBudgets', () => {
+  it.each([
+    ['gpt-4o:60000,llama3:6000,*:16000', { 'gpt-4o': 60000, llama3: 6000, '*': 16000 }],
+    ['local:model:8000', { 'local:model': 8000 }],
+    [' gpt-4o : 1000 ', { 'gpt-4o': 1000 }],
+    ['gpt-4o:abc,llama3:0,:5000,llama3', {}],
+    [undefined, {}],
+  ])('parses %j', (value, expected) => {
+    expect(parseContextBudgets(value)).toEqual(expected)
+  })
+})
+
+describe('getContextBudget', () => {
+  it.each([
+    ['gpt-4o-mini', undefined, 60000],
+    ['gpt-4', undefined, 6000],
+    ['llama3', undefined, 16000],
+    ['llama3:8b', 'llama3:6000', 6000],
+    ['gpt-4o-mini', 'gpt-4o:30000,gpt-4o-mini:10000', 10000],
+    ['mistral', '*:9000', 9000],
+  ])('%s with LLM_CONTEXT_BUDGETS=%s', (model, value, expected) => {
+    expect(getContextBudget(model, { NODE_ENV: 'test', LLM_CONTEXT_BUDGETS: value })).toBe(expected)
+  })
+})
+
+describe('compactToolResult', () => {
+  it('keeps the row count, the columns and a sample', () => {
+    const rows = Array.from({ length: 50 }, (_, index) => ({ id: index, name: `Zeile ${index}` }))
+    const compacted = JSON.parse(compactToolResult(JSON.stringify({ success: true, data: rows })))
+
+    expect(compacted).toEqual({
+      success: true,
+      compacted: true,
+      data: { rowCount: 50, columns: ['id', 'name'], sample: rows.slice(0, 2) },
+    })
+  })
+
+  it('cuts text that is not JSON', () => {
+    expect(compactToolResult('x'.repeat(2000))).toBe(`${'x'.repeat(1500)}… [gekürzt]`)
+  })
+})
+
+describe('fitMessagesToBudget', () => {
+  it('compacts large tool results of older turns within the budget', async () => {
+    const messages = history('kompakt', 5, 60)
+    const provider = fakeProvider()
+
+    const result = await fitMessagesToBudget(messages, { provider, budget: 100000 })
+
+    expect(result.summarizedTurns).toBe(0)
+    expect(result.compactedToolResults).toBe(2)
+    expect(result.messages).toHaveLength(messages.length)
+    const toolResults = result.messages.filter((message) => message.role === 'tool')
+    expect(JSON.parse(toolResults[0].content!).data.rowCount).toBe(60)
+    expect(toolResults.slice(2).map((message) => message.content)).toEqual(
+      messages.filter((message) => message.role === 'tool').slice(2).map((message) => message.content)
+    )
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('folds the oldest turns into a summary when over budget', async () => {
+    const messages = history('budget', 8, 10)
+    const provider = fakeProvider()
+    const summarize = vi.fn<ConversationSummarizer>(async () => 'Zusammenfassung der frühen Fragen')
+
+    const result = await fitMessagesToBudget(messages, { provider, summarize, budget: 1600 })
+
+    expect(result.summarizedTurns).toBeGreaterThan(0)
+    expect(result.estimatedTokens).toBeLessThanOrEqual(1600)
+    expect(result.messages[0]).toBe(SYSTEM)
+    expect(result.messages[1]).toEqual({
+      role: 'system',
+      content: `${CONVERSATION_SUMMARY_PREFIX}\nZusammenfassung der frühen Fragen`,
+    })
+    expect(result.messages.slice(2)).toEqual(messages.slice(1 + result.summarizedTurns * 4))
+    expect(result.messages.at(-1)?.content).toBe('Antwort 7 zu budget')
+
+    expect(summarize).toHaveBeenCalledTimes(1)
+    const transcript = summarize.mock.calls[0][0].messages[1].content
+    expect(transcript).toContain('Nutzer: Frage 0 zu budget')
+    expect(transcript).not.toContain('BISHERIGE ZUSAMMENFASSUNG')
+    expect(provider.complete).not.toHaveBeenCalled()
+  })
+
+  it('asks the provider for the summary by default', async () => {
+    const provider = fakeProvider()
+
+    const result = await fitMessagesToBudget(history('anbieter', 8, 10), { provider, budget: 1600 })
+
+    expect(provider.complete).toHaveBeenCalledTimes(1)
+    expect(result.messages[1].content).toBe(`${CONVERSATION_SUMMARY_PREFIX}\nZusammenfassung vom Modell`)
+  })
+
+  it('reuses cached summaries and extends them with new turns', async () => {
+    const provider = fakeProvider()
+    const summarize = vi.fn<ConversationSummarizer>(async () => 'Zusammenfassung')
+    const messages = history('cache', 8, 10)
+
+    const first = await fitMessagesToBudget(messages, { provider, summarize, budget: 1600 })
+    const second = await fitMessagesToBudget(messages, { provider, summarize, budget: 1600 })
+
+    expect(second.messages).toEqual(first.messages)
+    expect(summarize).toHaveBeenCalledTimes(1)
+
+    const longer = [...messages, ...turn('cache', 8, 10), ...turn('cache', 9, 10)]
+    const third = await fitMessagesToBudget(longer, { provider, summarize, budget: 1600 })
+
+    expect(third.summarizedTurns).toBeGreaterThan(first.summarizedTurns)
+    expect(summarize).toHaveBeenCalledTimes(2)
+    const extension = summarize.mock.calls[1][0].messages[1].content
+    expect(extension).toContain('BISHERIGE ZUSAMMENFASSUNG:\nZusammenfassung')
+    expect(extension).not.toContain('Frage 0 zu cache')
+  })
+
+  it('uses a shortened transcript without a model call when summarising is skipped', async () => {
+    const provider = fakeProvider()
+
+    const result = await fitMessagesToBudget(history('skript', 8, 10), { provider, summarize: false, budget: 1600 })
+
+    expect(provider.complete).not.toHaveBeenCalled()
+    expect(result.messages[1].content).toContain('- Nutzer: Frage 0 zu skript\n- Assistent: Antwort 0 zu skript')
+  })
+
+  it('falls back to the shortened transcript when the summary fails', async () => {
+    const provider = fakeProvider()
+    const summarize = vi.fn(async () => {
+      throw new Error('timeout')
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const result = await fitMessagesToBudget(history('fehler', 8, 10), { provider, summarize, budget: 1600 })
+
+    expect(result.messages[1].content).toContain('- Nutzer: Frage 0 zu fehler')
+  })
+})
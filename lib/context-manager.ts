@@ -0,0 +1,349 @@
+/**
+ * Token-budgeted context for chat completions
+ * Keeps the system prompt and the most recent turns verbatim, shrinks large tool
+ * results of older turns and folds the oldest turns into a rolling summary once
+ * the history no longer fits the model's budget.
+ *
+ * Configured via environment variables:
+ * - LLM_CONTEXT_BUDGETS: prompt token budgets per model, e.g. "gpt-4o:60000,llama3:6000,*:16000"
+ *   (model names match by prefix, "*" applies to all other models)
+ *
+ * Note: Summaries are cached in memory per instance; a cache miss only costs one extra summary call
+ */
+
+import { createHash } from 'crypto'
+import type { LLMCompletionRequest, LLMMessage, LLMProvider } from './llm'
+
+// Default prompt budgets, leaving room for the answer and the tool results of the current turn
+const DEFAULT_CONTEXT_BUDGETS: Record<string, number> = {
+  'gpt-4o': 60000,
+  'gpt-4.1': 60000,
+  'gpt-4-turbo': 60000,
+  'gpt-4': 6000,
+  'gpt-3.5-turbo': 12000,
+  '*': 16000,
+}
+
+const CHARS_PER_TOKEN = 3.5 // Conservative for German text and JSON
+const MESSAGE_OVERHEAD_TOKENS = 4
+const MIN_RECENT_TURNS = 3 // Turns (user message with everything after it) kept verbatim
+const MAX_OLD_TOOL_RESULT_CHARS = 1500 // Older tool results above this size are compacted
+const COMPACT_SAMPLE_ROWS = 2
+const SUMMARY_TOKEN_ALLOWANCE = 700 // Room reserved for the summary message
+const MAX_TRANSCRIPT_CHARS = 24000
+const MAX_CACHED_SUMMARIES = 200
+
+export const CONVERSATION_SUMMARY_PREFIX = 'ZUSAMMENFASSUNG DES BISHERIGEN GESPRÄCHS:'
+
+const SUMMARY_INSTRUCTIONS = `Fasse den folgenden Ausschnitt eines Gesprächs zwischen einem Disponenten und dem LiS-Assistenten für den weiteren Verlauf zusammen.
+- Behalte alle konkreten Fakten: Projekte, Namen, Mitarbeiter, Fahrzeuge, Daten, IDs, Zahlen und getroffene Entscheidungen.
+- Nenne vorgeschlagene, bestätigte oder abgelehnte Änderungen an der Datenbank ausdrücklich.
+- Nenne offene Fragen und Aufgaben.
+- Schreibe knapp in Stichpunkten auf Deutsch, höchstens 250 Wörter.
+- Wenn eine bisherige Zusammenfassung vorhanden ist, ergänze sie um den neuen Ausschnitt.`
+
+interface Turn {
+  messages: LLMMessage[]
+  /** Hash chain over all turns up to and including this one */
+  fingerprint: string
+}
+
+/**
+ * Writes the summary for a summary request; null falls back to a shortened transcript
+ */
+export type ConversationSummarizer = (request: LLMCompletionRequest) => Promise<string | null>
+
+export interface ContextBudgetOptions {
+  provider: LLMProvider
+  /**
+   * Defaults to a completion of the provider; false skips the model call and uses a
+   * shortened transcript, e.g. for the scripted provider where every call consumes a turn
+   */
+  summarize?: ConversationSummarizer | false
+  /** Tokens used outside the messages, e.g. by the tool definitions */
+  reservedTokens?: number
+  budget?: number
+}
+
+export interface ContextBudgetResult {
+  messages: LLMMessage[]
+  estimatedTokens: number
+  budget: number
+  compactedToolResults: number
+  summarizedTurns: number
+}
+
+// Rolling summaries keyed by the fingerprint of the last folded turn
+const summaryCache = new Map<string, string>()
+
+/**
+ * Parse LLM_CONTEXT_BUDGETS ("model:tokens,...") into a budget table
+ */
+export function parseContextBudgets(value: string | undefined): Record<string, number> {
+  const budgets: Record<string, number> = {}
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.lastIndexOf(':')
+    const model = entry.slice(0, separator).trim()
+    const tokens = Number(entry.slice(separator + 1))
+    if (separator > 0 && model && Number.isInteger(tokens) && tokens > 0) {
+      budgets[model] = tokens
+    }
+  }
+  return budgets
+}
+
+/**
+ * Prompt token budget for a model; the longest matching prefix wins
+ */
+export function getContextBudget(model: string, env: NodeJS.ProcessEnv = process.env): number {
+  const budgets = { ...DEFAULT_CONTEXT_BUDGETS, ...parseContextBudgets(env.LLM_CONTEXT_BUDGETS) }
+  const match = Object.keys(budgets)
+    .filter((prefix) => prefix !== '*' && model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0]
+  return budgets[match ?? '*']
+}
+
+/**
+ * Rough token count; there is no tokenizer for every provider, so this errs on the high side
+ */
+export function estimateTokens(text: string | null | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0
+}
+
+export function estimateMessageTokens(message: LLMMessage): number {
+  return (
+    MESSAGE_OVERHEAD_TOKENS +
+    estimateTokens(message.content) +
+    (message.tool_calls ? estimateTokens(JSON.stringify(message.tool_calls)) : 0)
+  )
+}
+
+function estimateMessagesTokens(messages: LLMMessage[]): number {
+  return messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0)
+}
+
+/**
+ * Replace the rows of a large tool result with their count, columns and a small sample
+ */
+export function compactToolResult(content: string): string {
+  let parsed: any
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return `${content.slice(0, MAX_OLD_TOOL_RESULT_CHARS)}… [gekürzt]`
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return `${content.slice(0, MAX_OLD_TOOL_RESULT_CHARS)}… [gekürzt]`
+  }
+
+  const compacted: Record<string, any> = { ...parsed, compacted: true }
+  if (Array.isArray(parsed.data)) {
+    const firstRow = parsed.data.find((row: unknown) => row && typeof row === 'object')
+    compacted.data = {
+      rowCount: parsed.data.length,
+      columns: firstRow ? Object.keys(firstRow) : [],
+      sample: parsed.data.slice(0, COMPACT_SAMPLE_ROWS),
+    }
+  }
+
+  const serialized = JSON.stringify(compacted)
+  return serialized.length <= MAX_OLD_TOOL_RESULT_CHARS * 2
+    ? serialized
+    : `${serialized.slice(0, MAX_OLD_TOOL_RESULT_CHARS)}… [gekürzt]`
+}
+
+/**
+ * Split the history into turns; a turn starts with a user message, so tool calls
+ * always stay together with their results
+ */
+function splitTurns(history: LLMMessage[]): Turn[] {
+  const groups: LLMMessage[][] = []
+  for (const message of history) {
+    if (message.role === 'user' || groups.length === 0) {
+      groups.push([message])
+    } else {
+      groups[groups.length - 1].push(message)
+    }
+  }
+
+  let fingerprint = ''
+  return groups.map((messages) => {
+    fingerprint = createHash('sha256').update(fingerprint).update(JSON.stringify(messages)).digest('hex')
+    return { messages, fingerprint }
+  })
+}
+
+function compactTurn(turn: Turn): { turn: Turn; compacted: number } {
+  let compacted = 0
+  const messages = turn.messages.map((message) => {
+    if (message.role !== 'tool' || !message.content || message.content.length <= MAX_OLD_TOOL_RESULT_CHARS) {
+      return message
+    }
+    compacted++
+    return { ...message, content: compactToolResult(message.content) }
+  })
+  return { turn: { ...turn, messages }, compacted }
+}
+
+function renderTranscript(turns: Turn[]): string {
+  const lines: string[] = []
+  for (const message of turns.flatMap((turn) => turn.messages)) {
+    if (message.role === 'user') {
+      lines.push(`Nutzer: ${message.content || ''}`)
+    } else if (message.role === 'assistant') {
+      for (const toolCall of message.tool_calls || []) {
+        lines.push(`Assistent ruft ${toolCall.function.name} auf: ${toolCall.function.arguments}`)
+      }
+      if (message.content) {
+        lines.push(`Assistent: ${message.content}`)
+      }
+    } else if (message.role === 'tool' && message.content) {
+      lines.push(`Ergebnis: ${compactToolResult(message.content)}`)
+    }
+  }
+
+  const transcript = lines.join('\n')
+  // Keep the end of an oversized transcript; the previous summary covers what came before
+  return transcript.length > MAX_TRANSCRIPT_CHARS ? `…${transcript.slice(-MAX_TRANSCRIPT_CHARS)}` : transcript
+}
+
+/**
+ * Summary without the model: the user's requests and the assistant's answers, shortened
+ */
+function fallbackSummary(previousSummary: string | null, turns: Turn[]): string {
+  const lines = turns.flatMap((turn) =>
+    turn.messages
+      .filter((message) => (message.role === 'user' || message.role === 'assistant') && message.content)
+      .map((message) => {
+        const text = (message.content || '').replace(/\s+/g, ' ')
+        const shortened = text.length > 200 ? `${text.slice(0, 199)}…` : text
+        return `- ${message.role === 'user' ? 'Nutzer' : 'Assistent'}: ${shortened}`
+      })
+  )
+  const summary = [previousSummary, ...lines].filter(Boolean).join('\n')
+  const maxChars = SUMMARY_TOKEN_ALLOWANCE * CHARS_PER_TOKEN
+  return summary.length > maxChars ? `…${summary.slice(-maxChars)}` : summary
+}
+
+function rememberSummary(fingerprint: string, summary: string) {
+  summaryCache.delete(fingerprint)
+  summaryCache.set(fingerprint, summary)
+  if (summaryCache.size > MAX_CACHED_SUMMARIES) {
+    summaryCache.delete(summaryCache.keys().next().value as string)
+  }
+}
+
+/**
+ * Summary of the given turns, extending the cached summary of the longest already folded prefix
+ */
+async function summarizeTurns(turns: Turn[], summarize: ConversationSummarizer | false): Promise<string> {
+  const lastFingerprint = turns[turns.length - 1].fingerprint
+  const cached = summaryCache.get(lastFingerprint)
+  if (cached) {
+    return cached
+  }
+
+  let previousSummary: string | null = null
+  let start = 0
+  for (let i = turns.length - 2; i >= 0; i--) {
+    const prefixSummary = summaryCache.get(turns[i].fingerprint)
+    if (prefixSummary) {
+      previousSummary = prefixSummary
+      start = i + 1
+      break
+    }
+  }
+
+  const newTurns = turns.slice(start)
+  let summary = fallbackSummary(previousSummary, newTurns)
+  if (summarize) {
+    try {
+      const generated = await summarize({
+        messages: [
+          { role: 'system', content: SUMMARY_INSTRUCTIONS },
+          {
+            role: 'user',
+            content: `${previousSummary ? `BISHERIGE ZUSAMMENFASSUNG:\n${previousSummary}\n\n` : ''}NEUER AUSSCHNITT:\n${renderTranscript(newTurns)}`,
+          },
+        ],
+      })
+      summary = generated?.trim() || summary
+    } catch (error) {
+      console.error('Conversation summary failed, using a shortened transcript:', error)
+    }
+  }
+
+  rememberSummary(lastFingerprint, summary)
+  return summary
+}
+
+/**
+ * Fit the messages (system prompt first) into the model's prompt budget
+ */
+export async function fitMessagesToBudget(
+  messages: LLMMessage[],
+  options: ContextBudgetOptions
+): Promise<ContextBudgetResult> {
+  const budget = options.budget ?? getContextBudget(options.provider.model)
+  const reservedTokens = options.reservedTokens ?? 0
+  const systemMessages = messages[0]?.role === 'system' ? [messages[0]] : []
+  let turns = splitTurns(messages.slice(systemMessages.length))
+  let compactedToolResults = 0
+
+  // Older tool results are only kept in compact form, independent of the budget
+  const recentStart = Math.max(0, turns.length - MIN_RECENT_TURNS)
+  turns = turns.map((turn, index) => {
+    if (index >= recentStart) {
+      return turn
+    }
+    const result = compactTurn(turn)
+    compactedToolResults += result.compacted
+    return result.turn
+  })
+
+  const fixedTokens = reservedTokens + estimateMessagesTokens(systemMessages)
+  const turnTokens = turns.map((turn) => estimateMessagesTokens(turn.messages))
+  let total = fixedTokens + turnTokens.reduce((sum, tokens) => sum + tokens, 0)
+
+  // Fold the oldest turns until the rest fits next to the summary
+  let foldCount = 0
+  if (total > budget) {
+    total += SUMMARY_TOKEN_ALLOWANCE
+    while (foldCount < recentStart && total > budget) {
+      total -= turnTokens[foldCount]
+      foldCount++
+    }
+  }
+
+  // Still too large: compact the recent turns as well, except the current one
+  if (total > budget) {
+    turns = turns.map((turn, index) => {
+      if (index < recentStart || index === turns.length - 1) {
+        return turn
+      }
+      const result = compactTurn(turn)
+      compactedToolResults += result.compacted
+      return result.turn
+    })
+  }
+
+  const keptTurns = turns.slice(foldCount)
+  const resultMessages = [...systemMessages]
+  if (foldCount > 0) {
+    const summarize =
+      options.summarize ??
+      (async (request: LLMCompletionRequest) => (await options.provider.complete(request)).message.content)
+    const summary = await summarizeTurns(turns.slice(0, foldCount), summarize)
+    resultMessages.push({ role: 'system', content: `${CONVERSATION_SUMMARY_PREFIX}\n${summary}` })
+  }
+  resultMessages.push(...keptTurns.flatMap((turn) => turn.messages))
+
+  return {
+    messages: resultMessages,
+    estimatedTokens: reservedTokens + estimateMessagesTokens(resultMessages),
+    budget,
+    compactedToolResults,
+    summarizedTurns: foldCount,
+  }
+}
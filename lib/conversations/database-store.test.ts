@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createDatabaseConversationStore } from './database-store'
+
+type Call = [string, ...any[]]
+type Handler = (table: string, calls: Call[]) => { data?: any; error?: { message: string } | null }
+
+/**
+ * Supabase client double: records the builder calls of every request and answers them with the handler
+ */
+function fakeClient(handler: Handler) {
+  const requests: Array<{ table: string; calls: Call[] }> = []
+  const from = (table: string) => {
+    const calls: Call[] = []
+    requests.push({ table, calls })
+    const builder: any = new Proxy(
+      {},
+      {
+        get: (_target, method: string) => {
+          if (method === 'then') {
+            return (resolve: (value: any) => void) => resolve({ data: null, error: null, ...handler(table, calls) })
+          }
+          return (...args: any[]) => {
+            calls.push([method, ...args])
+            return builder
+          }
+        },
+      }
+    )
+    return builder
+  }
+  return { client: { from } as unknown as SupabaseClient, requests }
+}
+
+const has = (calls: Call[], method: string) => calls.some(([name]) => name === method)
+
+function createStore(client: SupabaseClient) {
+  return createDatabaseConversationStore({
+    client,
+    conversationsTable: 't_conversations',
+    messagesTable: 't_conversation_messages',
+  })
+}
+
+describe('database conversation store', () => {
+  it('searches messages only within the caller’s threads', async () => {
+    const { client, requests } = fakeClient((table, calls) => {
+      if (table === 't_conversation_messages') {
+        return { data: [{ conversation_id: 'c2' }] }
+      }
+      if (calls.some(([method, column]) => method === 'select' && column === 'id')) {
+        return { data: [{ id: 'c1' }, { id: 'c2' }] }
+      }
+      return { data: [{ id: 'c2', title: 'Umzug', message_count: 3 }] }
+    })
+
+    const result = await createStore(client).list('u1', { search: 'Sprinter' })
+
+    const messageSearch = requests.find((request) => request.table === 't_conversation_messages')!
+    expect(messageSearch.calls).toContainEqual(['in', 'conversation_id', ['c1', 'c2']])
+    expect(messageSearch.calls).toContainEqual(['ilike', 'content', '%Sprinter%'])
+    expect(requests[0].calls).toContainEqual(['eq', 'user_id', 'u1'])
+    expect(result.map((conversation) => conversation.id)).toEqual(['c2'])
+  })
+
+  it('does not search messages when the caller has no threads', async () => {
+    const { client, requests } = fakeClient(() => ({ data: [] }))
+
+    expect(await createStore(client).list('u1', { search: 'Sprinter' })).toEqual([])
+    expect(requests.some((request) => request.table === 't_conversation_messages')).toBe(false)
+  })
+
+  it('lists without a search in one request', async () => {
+    const { client, requests } = fakeClient(() => ({ data: [] }))
+
+    await createStore(client).list('u1')
+    expect(requests).toHaveLength(1)
+    expect(has(requests[0].calls, 'or')).toBe(false)
+  })
+})
+
+describe('saveMessages', () => {
+  const messages = [
+    { role: 'user' as const, content: 'Hallo' },
+    { role: 'assistant' as const, content: 'Hallo! Wie kann ich helfen?' },
+  ]
+  const owned = { data: { id: 'c1', title: 'Chat', message_count: 5 } }
+
+  it('upserts by position, then removes only rows past the new length', async () => {
+    const { client, requests } = fakeClient(() => owned)
+
+    await createStore(client).saveMessages('u1', 'c1', messages)
+
+    const messageRequests = requests.filter((request) => request.table === 't_conversation_messages')
+    expect(messageRequests).toHaveLength(2)
+    const [upsert, cleanup] = messageRequests.map((request) => request.calls)
+    expect(upsert[0][0]).toBe('upsert')
+    expect(upsert[0][1].map((row: any) => row.position)).toEqual([0, 1])
+    expect(upsert[0][2]).toEqual({ onConflict: 'conversation_id,position' })
+    expect(cleanup).toEqual([
+      ['delete'],
+      ['eq', 'conversation_id', 'c1'],
+      ['gte', 'position', 2],
+    ])
+  })
+
+  it('keeps the stored history when the upsert fails', async () => {
+    const { client, requests } = fakeClient((table, calls) =>
+      table === 't_conversation_messages' && has(calls, 'upsert') ? { error: { message: 'timeout' } } : owned
+    )
+
+    await expect(createStore(client).saveMessages('u1', 'c1', messages)).rejects.toThrow('timeout')
+    expect(requests.some((request) => has(request.calls, 'delete'))).toBe(false)
+    expect(requests.some((request) => has(request.calls, 'update'))).toBe(false)
+  })
+
+  it('reads messages only up to message_count', async () => {
+    const { client, requests } = fakeClient((table) => (table === 't_conversations' ? owned : { data: [] }))
+
+    await createStore(client).get('u1', 'c1')
+
+    const read = requests.find((request) => request.table === 't_conversation_messages')!
+    expect(read.calls).toContainEqual(['lt', 'position', 5])
+  })
+})
@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ConversationSummary, Message } from '@/types'
+import type { ConversationStore } from './types'
+
+// Most recent threads shown in the list and searched
+const LIST_LIMIT = 200
+
+function toSummary(row: Record<string, any>): ConversationSummary {
+  return {
+    id: row.id,
+    title: row.title,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messageCount: row.message_count ?? 0,
+  }
+}
+
+function toMessage(row: Record<string, any>): Message {
+  return {
+    role: row.role,
+    content: row.content ?? '',
+    timestamp: row.created_at ? new Date(row.created_at) : undefined,
+    tool_calls: row.tool_calls ?? undefined,
+    tool_call_id: row.tool_call_id ?? undefined,
+  }
+}
+
+/**
+ * Threads stored in Supabase (see README for the schema)
+ */
+export function createDatabaseConversationStore(options: {
+  client: SupabaseClient | null
+  conversationsTable: string
+  messagesTable: string
+}): ConversationStore {
+  const { conversationsTable, messagesTable } = options
+
+  const requireClient = () => {
+    if (!options.client) {
+      throw new Error('Supabase admin client not initialized. Conversations cannot be stored in the database.')
+    }
+    return options.client
+  }
+
+  const findOwned = async (userId: string, id: string) => {
+    const { data, error } = await requireClient()
+      .from(conversationsTable)
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+    if (error) {
+      throw new Error(`Failed to load conversation: ${error.message}`)
+    }
+    return data
+  }
+
+  const touch = async (id: string, values: Record<string, any>) => {
+    const { data, error } = await requireClient()
+      .from(conversationsTable)
+      .update({ ...values, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select('*')
+      .single()
+    if (error) {
+      throw new Error(`Failed to update conversation: ${error.message}`)
+    }
+    return toSummary(data)
+  }
+
+  /**
+   * Write the messages at their positions, replacing the rows already stored there
+   * A single upsert is one statement, so a failure leaves the previous history untouched.
+   */
+  const upsertMessages = async (conversationId: string, messages: Message[]) => {
+    if (messages.length === 0) {
+      return
+    }
+    const { error } = await requireClient()
+      .from(messagesTable)
+      .upsert(messages.map((message, position) => ({
+        conversation_id: conversationId,
+        position,
+        role: message.role,
+        content: message.content,
+        tool_calls: message.tool_calls ?? null,
+        tool_call_id: message.tool_call_id ?? null,
+        created_at: message.timestamp ? new Date(message.timestamp).toISOString() : new Date().toISOString(),
+      })), { onConflict: 'conversation_id,position' })
+    if (error) {
+      throw new Error(`Failed to save messages: ${error.message}`)
+    }
+  }
+
+  return {
+    name: 'database',
+    list: async (userId, listOptions = {}) => {
+      const client = requireClient()
+      let builder = client
+        .from(conversationsTable)
+        .select('*')
+        .eq('user_id', userId)
+        .order('updated_at', { ascending: false })
+        .limit(LIST_LIMIT)
+
+      const search = listOptions.search?.trim()
+      if (search) {
+        // Threads whose title or any message contains the search text. Messages are only
+        // searched within the caller's threads, so other users' matches cannot fill the limit.
+        const pattern = `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+        const { data: owned, error: ownedError } = await client
+          .from(conversationsTable)
+          .select('id')
+          .eq('user_id', userId)
+          .order('updated_at', { ascending: false })
+          .limit(LIST_LIMIT)
+        if (ownedError) {
+          throw new Error(`Failed to search conversations: ${ownedError.message}`)
+        }
+        const ownedIds = (owned || []).map((row) => row.id as string)
+        if (ownedIds.length === 0) {
+          return []
+        }
+        const { data: matches, error: searchError } = await client
+          .from(messagesTable)
+          .select('conversation_id')
+          .in('conversation_id', ownedIds)
+          .ilike('content', pattern)
+          .limit(1000)
+        if (searchError) {
+          throw new Error(`Failed to search conversations: ${searchError.message}`)
+        }
+        const ids = Array.from(new Set((matches || []).map((row) => row.conversation_id as string)))
+        builder = ids.length > 0
+          ? builder.or(`title.ilike.${JSON.stringify(pattern)},id.in.(${ids.join(',')})`)
+          : builder.ilike('title', pattern)
+      }
+
+      const { data, error } = await builder
+      if (error) {
+        throw new Error(`Failed to list conversations: ${error.message}`)
+      }
+      return (data || []).map(toSummary)
+    },
+    create: async (userId, input) => {
+      const { data, error } = await requireClient()
+        .from(conversationsTable)
+        .insert({ user_id: userId, title: input.title, message_count: input.messages?.length || 0 })
+        .select('*')
+        .single()
+      if (error) {
+        throw new Error(`Failed to create conversation: ${error.message}`)
+      }
+      await upsertMessages(data.id, input.messages || [])
+      return toSummary(data)
+    },
+    get: async (userId, id) => {
+      const conversation = await findOwned(userId, id)
+      if (!conversation) {
+        return null
+      }
+      const { data, error } = await requireClient()
+        .from(messagesTable)
+        .select('*')
+        .eq('conversation_id', id)
+        .lt('position', conversation.message_count ?? 0)
+        .order('position', { ascending: true })
+      if (error) {
+        throw new Error(`Failed to load messages: ${error.message}`)
+      }
+      return { ...toSummary(conversation), messages: (data || []).map(toMessage) }
+    },
+    rename: async (userId, id, title) => {
+      if (!(await findOwned(userId, id))) {
+        return null
+      }
+      return touch(id, { title })
+    },
+    saveMessages: async (userId, id, messages) => {
+      if (!(await findOwned(userId, id))) {
+        return null
+      }
+      await upsertMessages(id, messages)
+      const summary = await touch(id, { message_count: messages.length })
+      // Rows past the new length are no longer read (get stops at message_count), so a failed cleanup loses nothing
+      const { error } = await requireClient()
+        .from(messagesTable)
+        .delete()
+        .eq('conversation_id', id)
+        .gte('position', messages.length)
+      if (error) {
+        console.error(`Failed to remove old messages of conversation ${id}:`, error.message)
+      }
+      return summary
+    },
+    delete: async (userId, id) => {
+      if (!(await findOwned(userId, id))) {
+        return false
+      }
+      // Messages are removed by the foreign key's ON DELETE CASCADE
+      const { error } = await requireClient().from(conversationsTable).delete().eq('id', id)
+      if (error) {
+        throw new Error(`Failed to delete conversation: ${error.message}`)
+      }
+      return true
+    },
+  }
+}
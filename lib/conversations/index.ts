@@ -0,0 +1,102 @@
+/**
+ * Conversation storage selection
+ *
+ * Configured via environment variables:
+ * - CONVERSATION_STORE: "memory" (default) or "database"
+ * - CONVERSATIONS_TABLE / CONVERSATION_MESSAGES_TABLE: tables for the "database" store
+ *   (default: t_conversations / t_conversation_messages)
+ */
+
+import { supabaseAdmin } from '@/lib/supabase'
+import type { Message } from '@/types'
+import { createDatabaseConversationStore } from './database-store'
+import { createMemoryConversationStore } from './memory-store'
+import type { ConversationStore } from './types'
+
+export const MAX_TITLE_LENGTH = 80
+const MESSAGE_ROLES: Message['role'][] = ['user', 'assistant', 'tool']
+
+let cachedStore: ConversationStore | null = null
+
+/**
+ * Create a store from the environment
+ */
+export function createConversationStoreFromEnv(env: NodeJS.ProcessEnv = process.env): ConversationStore {
+  switch (env.CONVERSATION_STORE || 'memory') {
+    case 'memory':
+      return createMemoryConversationStore()
+    case 'database':
+      return createDatabaseConversationStore({
+        client: supabaseAdmin,
+        conversationsTable: env.CONVERSATIONS_TABLE || 't_conversations',
+        messagesTable: env.CONVERSATION_MESSAGES_TABLE || 't_conversation_messages',
+      })
+    default:
+      throw new Error(`Unknown CONVERSATION_STORE: ${env.CONVERSATION_STORE}`)
+  }
+}
+
+/**
+ * Get the configured store (created once per server instance)
+ */
+export function getConversationStore(): ConversationStore {
+  if (!cachedStore) {
+    cachedStore = createConversationStoreFromEnv()
+  }
+  return cachedStore
+}
+
+/**
+ * Replace the configured store, e.g. with a memory store in tests
+ */
+export function setConversationStore(store: ConversationStore | null): void {
+  cachedStore = store
+}
+
+/**
+ * Title for a new thread: the beginning of the first user message
+ */
+export function deriveConversationTitle(messages: Message[] = []): string {
+  const firstUserMessage = messages.find((message) => message.role === 'user')?.content.trim()
+  if (!firstUserMessage) {
+    return 'Neuer Chat'
+  }
+  const singleLine = firstUserMessage.replace(/\s+/g, ' ')
+  return singleLine.length > MAX_TITLE_LENGTH ? `${singleLine.slice(0, MAX_TITLE_LENGTH - 1)}…` : singleLine
+}
+
+function parseTimestamp(value: unknown): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Validate messages sent by the client; returns null if any message is malformed
+ */
+export function parseMessages(value: unknown, maxMessages: number): Message[] | null {
+  if (!Array.isArray(value) || value.length > maxMessages) {
+    return null
+  }
+
+  const messages: Message[] = []
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || !MESSAGE_ROLES.includes(item.role) || typeof item.content !== 'string') {
+      return null
+    }
+    messages.push({
+      role: item.role,
+      content: item.content,
+      timestamp: parseTimestamp(item.timestamp),
+      tool_calls: Array.isArray(item.tool_calls) ? item.tool_calls : undefined,
+      tool_call_id: typeof item.tool_call_id === 'string' ? item.tool_call_id : undefined,
+    })
+  }
+  return messages
+}
+
+export { createDatabaseConversationStore } from './database-store'
+export { createMemoryConversationStore } from './memory-store'
+export type * from './types'
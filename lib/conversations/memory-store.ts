@@ -0,0 +1,88 @@
+import { randomUUID } from 'crypto'
+import type { Conversation, ConversationSummary } from '@/types'
+import type { ConversationStore } from './types'
+
+type StoredConversation = Omit<Conversation, 'messageCount'> & { userId: string }
+
+function summarize(conversation: StoredConversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: conversation.messages.length,
+  }
+}
+
+/**
+ * Threads kept in server memory
+ * Note: Lost on restart and not shared between instances; use the database store in production
+ */
+export function createMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<string, StoredConversation>()
+
+  const find = (userId: string, id: string) => {
+    const conversation = conversations.get(id)
+    return conversation && conversation.userId === userId ? conversation : null
+  }
+
+  return {
+    name: 'memory',
+    list: async (userId, options = {}) => {
+      const search = options.search?.toLowerCase()
+      return Array.from(conversations.values())
+        .filter((conversation) => conversation.userId === userId)
+        .filter((conversation) =>
+          !search ||
+          conversation.title.toLowerCase().includes(search) ||
+          conversation.messages.some((message) => message.content.toLowerCase().includes(search))
+        )
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarize)
+    },
+    create: async (userId, input) => {
+      const now = new Date().toISOString()
+      const conversation: StoredConversation = {
+        id: randomUUID(),
+        userId,
+        title: input.title,
+        createdAt: now,
+        updatedAt: now,
+        messages: input.messages || [],
+      }
+      conversations.set(conversation.id, conversation)
+      return summarize(conversation)
+    },
+    get: async (userId, id) => {
+      const conversation = find(userId, id)
+      if (!conversation) {
+        return null
+      }
+      return { ...summarize(conversation), messages: conversation.messages }
+    },
+    rename: async (userId, id, title) => {
+      const conversation = find(userId, id)
+      if (!conversation) {
+        return null
+      }
+      conversation.title = title
+      conversation.updatedAt = new Date().toISOString()
+      return summarize(conversation)
+    },
+    saveMessages: async (userId, id, messages) => {
+      const conversation = find(userId, id)
+      if (!conversation) {
+        return null
+      }
+      conversation.messages = messages
+      conversation.updatedAt = new Date().toISOString()
+      return summarize(conversation)
+    },
+    delete: async (userId, id) => {
+      if (!find(userId, id)) {
+        return false
+      }
+      return conversations.delete(id)
+    },
+  }
+}
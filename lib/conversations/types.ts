@@ -0,0 +1,21 @@
+/**
+ * Conversation storage types
+ */
+
+import type { Conversation, ConversationSummary, Message } from '@/types'
+
+/**
+ * Stores chat threads per user
+ * Every method is scoped to the user, so one user can never read another user's threads
+ */
+export interface ConversationStore {
+  name: string
+  /** Threads of a user, most recently updated first; search matches titles and message text */
+  list(userId: string, options?: { search?: string }): Promise<ConversationSummary[]>
+  create(userId: string, input: { title: string; messages?: Message[] }): Promise<ConversationSummary>
+  get(userId: string, id: string): Promise<Conversation | null>
+  rename(userId: string, id: string, title: string): Promise<ConversationSummary | null>
+  /** Replace all messages of a thread */
+  saveMessages(userId: string, id: string, messages: Message[]): Promise<ConversationSummary | null>
+  delete(userId: string, id: string): Promise<boolean>
+}
@@ -0,0 +1,74 @@
+/**
+ * Date handling per table, driven by the date fields declared in table-metadata
+ * Builds range filters on the right column for a day range and adds the Berlin
+ * wall-clock time next to timestamp columns in tool results.
+ */
+
+import { formatBerlinDateTime, toBerlinTimestamp } from './date-parser'
+import { getDateField } from './table-metadata'
+
+export const LOCAL_TIME_SUFFIX = '_local'
+
+/**
+ * Inclusive day range (YYYY-MM-DD); end null for open ranges
+ */
+export interface DayRange {
+  start: string
+  end: string | null
+}
+
+export interface DateRangeFilter {
+  column: string
+  filter: { type: 'between'; value: [string, string] } | { type: 'gte'; value: string }
+}
+
+/**
+ * Filter on the date column of a table covering the given days; null for undated tables
+ * Timestamp columns get the UTC bounds of the Berlin days.
+ */
+export function buildDateRangeFilter(tableName: string, range: DayRange): DateRangeFilter | null {
+  const field = getDateField(tableName)
+  if (!field) {
+    return null
+  }
+
+  const isTimestamp = field.kind === 'timestamp'
+  const start = isTimestamp ? toBerlinTimestamp(range.start) : range.start
+  if (!range.end) {
+    return { column: field.dateColumn, filter: { type: 'gte', value: start } }
+  }
+  const end = isTimestamp ? toBerlinTimestamp(range.end, '23:59:59.999') : range.end
+  return { column: field.dateColumn, filter: { type: 'between', value: [start, end] } }
+}
+
+function localizeValue(value: any, columns: Set<string>): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => localizeValue(item, columns))
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value
+  }
+
+  const result: Record<string, any> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = localizeValue(entry, columns)
+    const local = columns.has(key) && typeof entry === 'string' ? formatBerlinDateTime(entry) : null
+    if (local) {
+      result[`${key}${LOCAL_TIME_SUFFIX}`] = local
+    }
+  }
+  return result
+}
+
+/**
+ * Add "<column>_local" with the Berlin time next to the timestamp date columns of the given tables
+ */
+export function addLocalTimes<T>(value: T, tables: string[]): T {
+  const columns = new Set(
+    tables
+      .map((tableName) => getDateField(tableName))
+      .filter((field) => field?.kind === 'timestamp')
+      .map((field) => field!.dateColumn)
+  )
+  return columns.size > 0 ? localizeValue(value, columns) : value
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { getBerlinToday, parseGermanDate, parseGermanDates, parseGermanTime } from './date-parser'
+
+/** A Monday */
+const TODAY = '2026-10-19'
+
+describe('parseGermanDate', () => {
+  const cases: Array<[string, string, string | null]> = [
+    ['heute', '2026-10-19', '2026-10-19'],
+    ['übermorgen', '2026-10-21', '2026-10-21'],
+    ['am Freitag', '2026-10-23', '2026-10-23'],
+    ['nächsten Dienstag', '2026-10-20', '2026-10-20'],
+    ['nächsten Montag', '2026-10-26', '2026-10-26'],
+    ['letzten Freitag', '2026-10-16', '2026-10-16'],
+    ['Freitag nächste Woche', '2026-10-30', '2026-10-30'],
+    ['KW 51', '2026-12-14', '2026-12-20'],
+    ['Kalenderwoche 2/2027', '2027-01-11', '2027-01-17'],
+    ['vom 3. bis 7. März', '2027-03-03', '2027-03-07'],
+    ['am 3. März', '2027-03-03', '2027-03-03'],
+    ['3.3.', '2027-03-03', '2027-03-03'],
+    ['3.11.', '2026-11-03', '2026-11-03'],
+    ['im Januar', '2027-01-01', '2027-01-31'],
+    ['im Oktober', '2026-10-01', '2026-10-31'],
+    ['Anfang März', '2027-03-01', '2027-03-10'],
+    ['2026-11-05', '2026-11-05', '2026-11-05'],
+    ['3. März 2026', '2026-03-03', '2026-03-03'],
+    ['Ende des Monats', '2026-10-31', '2026-10-31'],
+    ['Monatsende', '2026-10-31', '2026-10-31'],
+    ['Ende nächsten Monats', '2026-11-30', '2026-11-30'],
+    ['Ende März', '2027-03-21', '2027-03-31'],
+    ['zwischen dem 20. und 25.', '2026-10-20', '2026-10-25'],
+    ['zwischen dem 1. und 5.', '2026-11-01', '2026-11-05'],
+    ['zwischen dem 1. und 5. Dezember', '2026-12-01', '2026-12-05'],
+    ['nächste Woche', '2026-10-26', '2026-11-01'],
+    ['in zwei Wochen', '2026-11-02', '2026-11-08'],
+    ['nächster Werktag', '2026-10-20', '2026-10-20'],
+    ['ab Montag', '2026-10-19', null],
+  ]
+
+  it.each(cases)('%s', (text, start, end) => {
+    expect(parseGermanDate(text, { today: TODAY })).toMatchObject({ start, end })
+  })
+
+  it('returns the time of day together with the date', () => {
+    expect(parseGermanDate('morgen um halb acht', { today: TODAY })).toEqual({
+      text: 'morgen',
+      start: '2026-10-20',
+      end: '2026-10-20',
+      time: '07:30',
+    })
+  })
+
+  it('returns a time without a date for today', () => {
+    expect(parseGermanDate('um 8 Uhr', { today: TODAY })).toEqual({
+      text: 'um 8 Uhr',
+      start: '2026-10-19',
+      end: '2026-10-19',
+      time: '08:00',
+    })
+  })
+
+  it.each(['keine Ahnung', '31.2.'])('returns null for %s', (text) => {
+    expect(parseGermanDate(text, { today: TODAY })).toBeNull()
+  })
+})
+
+describe('past tense', () => {
+  const cases: Array<[string, string, string | null]> = [
+    ['Wie viele Einsätze hatte Jonas im November?', '2025-11-01', '2025-11-30'],
+    ['Wie viele Einsätze hat Jonas im November?', '2026-11-01', '2026-11-30'],
+    ['Was war am 3. März?', '2026-03-03', '2026-03-03'],
+    ['Wer hat am 24.12. gearbeitet?', '2025-12-24', '2025-12-24'],
+    ['Wer hat am 24.12. frei?', '2026-12-24', '2026-12-24'],
+    ['Was wurde zwischen dem 20. und 25. erledigt?', '2026-09-20', '2026-09-25'],
+    ['Was war im Oktober los?', '2026-10-01', '2026-10-31'],
+    ['seit 3. März', '2026-03-03', '2026-10-19'],
+  ]
+
+  it.each(cases)('%s', (text, start, end) => {
+    expect(parseGermanDate(text, { today: TODAY })).toMatchObject({ start, end })
+  })
+})
+
+describe('working days', () => {
+  const cases: Array<[string, string, string]> = [
+    // Friday → Monday
+    ['nächster Werktag', '2026-10-30', '2026-11-02'],
+    // New Year's Eve → skips Neujahr and the weekend
+    ['nächster Werktag', '2026-12-31', '2027-01-04'],
+  ]
+
+  it.each(cases)('%s from %s', (text, today, expected) => {
+    expect(parseGermanDate(text, { today })).toMatchObject({ start: expected, end: expected })
+  })
+})
+
+describe('year rollover', () => {
+  const cases: Array<[string, string, string, string]> = [
+    ['übermorgen', '2026-12-30', '2027-01-01', '2027-01-01'],
+    ['nächste Woche', '2026-12-30', '2027-01-04', '2027-01-10'],
+    ['KW 1', '2026-12-30', '2027-01-04', '2027-01-10'],
+    ['Ende des Monats', '2026-12-30', '2026-12-31', '2026-12-31'],
+    ['am 2. Januar', '2026-12-30', '2027-01-02', '2027-01-02'],
+    ['zwischen dem 1. und 5.', '2026-12-30', '2027-01-01', '2027-01-05'],
+  ]
+
+  it.each(cases)('%s from %s', (text, today, start, end) => {
+    expect(parseGermanDate(text, { today })).toMatchObject({ start, end })
+  })
+})
+
+describe('parseGermanDates', () => {
+  it('finds every expression in a sentence', () => {
+    expect(parseGermanDates('von morgen bis Freitag und am 3.11.', { today: TODAY })).toEqual([
+      { text: 'von morgen bis Freitag', start: '2026-10-20', end: '2026-10-23' },
+      { text: '3.11.', start: '2026-11-03', end: '2026-11-03' },
+    ])
+  })
+})
+
+describe('parseGermanTime', () => {
+  const cases: Array<[string, string | null]> = [
+    ['halb acht', '07:30'],
+    ['7:30', '07:30'],
+    ['um 8 Uhr', '08:00'],
+    ['irgendwann', null],
+  ]
+
+  it.each(cases)('%s', (text, expected) => {
+    expect(parseGermanTime(text)).toBe(expected)
+  })
+})
+
+describe('getBerlinToday', () => {
+  it('uses the Berlin calendar day', () => {
+    expect(getBerlinToday(new Date('2026-10-19T22:30:00Z'))).toBe('2026-10-20')
+    expect(getBerlinToday(new Date('2026-12-31T23:30:00Z'))).toBe('2027-01-01')
+  })
+})
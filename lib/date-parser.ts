@@ -0,0 +1,781 @@
+/**
+ * German date and time expressions resolved to calendar dates
+ * Understands e.g. "morgen", "nächsten Dienstag", "KW 51", "Ende des Monats",
+ * "in zwei Wochen", "vom 3. bis 7. März", "nächster Werktag" or "um 8 Uhr". Relative
+ * expressions are resolved against today in Europe/Berlin, working days against the
+ * holidays of the company's state.
+ */
+
+import { addWorkingDays } from './holidays'
+
+export const DATE_TIME_ZONE = 'Europe/Berlin'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * A recognized expression as an inclusive day range
+ */
+export interface ParsedDateExpression {
+  /** The expression as written in the text */
+  text: string
+  /** First day, YYYY-MM-DD */
+  start: string
+  /** Last day (inclusive), YYYY-MM-DD; equals start for a single day, null for open ranges ("ab Montag") */
+  end: string | null
+  /** Time of day, HH:MM, if one was given ("um 8 Uhr") */
+  time?: string
+}
+
+export interface DateParseOptions {
+  /** Reference day as YYYY-MM-DD (default: today in Europe/Berlin) */
+  today?: string
+}
+
+interface DayRange {
+  start: Date
+  end: Date | null
+}
+
+interface Matcher<T> {
+  pattern: RegExp
+  /** past: the sentence is in the past tense, so dates without a year lie behind today */
+  resolve: (match: RegExpMatchArray, today: Date, past: boolean) => T | null
+}
+
+interface Candidate<T> {
+  from: number
+  to: number
+  value: T
+}
+
+const WEEKDAYS: Record<string, number> = {
+  montag: 1,
+  dienstag: 2,
+  mittwoch: 3,
+  donnerstag: 4,
+  freitag: 5,
+  samstag: 6,
+  sonnabend: 6,
+  sonntag: 0,
+}
+
+const MONTHS: Record<string, number> = {
+  januar: 0,
+  jänner: 0,
+  jan: 0,
+  februar: 1,
+  feb: 1,
+  märz: 2,
+  maerz: 2,
+  mär: 2,
+  april: 3,
+  apr: 3,
+  mai: 4,
+  juni: 5,
+  jun: 5,
+  juli: 6,
+  jul: 6,
+  august: 7,
+  aug: 7,
+  september: 8,
+  sept: 8,
+  sep: 8,
+  oktober: 9,
+  okt: 9,
+  november: 10,
+  nov: 10,
+  dezember: 11,
+  dez: 11,
+}
+
+// Abbreviations are only accepted after a day number ("3. Dez")
+const FULL_MONTH_NAMES = [
+  'januar',
+  'jänner',
+  'februar',
+  'märz',
+  'maerz',
+  'april',
+  'mai',
+  'juni',
+  'juli',
+  'august',
+  'september',
+  'oktober',
+  'november',
+  'dezember',
+]
+
+const NUMBER_WORDS: Record<string, number> = {
+  ein: 1,
+  eine: 1,
+  einem: 1,
+  einen: 1,
+  einer: 1,
+  zwei: 2,
+  drei: 3,
+  vier: 4,
+  fünf: 5,
+  fuenf: 5,
+  sechs: 6,
+  sieben: 7,
+  acht: 8,
+  neun: 9,
+  zehn: 10,
+  elf: 11,
+  zwölf: 12,
+  zwoelf: 12,
+}
+
+const alternation = (words: string[]) => [...words].sort((a, b) => b.length - a.length).join('|')
+
+// Word boundaries that also work next to umlauts
+const B = '(?<![\\p{L}\\d])'
+const E = '(?![\\p{L}\\d])'
+
+const WEEKDAY = alternation(Object.keys(WEEKDAYS))
+const MONTH = alternation(Object.keys(MONTHS))
+const FULL_MONTH = alternation(FULL_MONTH_NAMES)
+const NUMBER = `\\d{1,3}|${alternation(Object.keys(NUMBER_WORDS))}`
+const QUALIFIER =
+  '(?:ü|ue)bern(?:ä|ae)chste[nmrs]?|n(?:ä|ae)chste[nmrs]?|kommende[nmrs]?|letzte[nmrs]?|vorige[nmrs]?|vergangene[nmrs]?|diese[nmrs]?|aktuelle[nmrs]?|laufende[nmrs]?'
+const DAY_PART = '(?:\\s+(?:morgen|fr(?:ü|ue)h|vormittag|mittag|nachmittag|abend|nacht))?'
+
+const RANGE_CONNECTOR = /^\s*(?:bis(?:\s+(?:zum|zur|einschlie(?:ß|ss)lich))?|und(?:\s+de[mn])?|-|–)\s*$/u
+const RANGE_PREFIX = /(?<![\p{L}\d])(?:vom|von|zwischen)(?:\s+de[mn])?\s+$/u
+const BETWEEN_PREFIX = /(?<![\p{L}\d])zwischen(?:\s+de[mn])?\s+$/u
+const OPEN_RANGE_PREFIX = /(?<![\p{L}\d])(bis|ab|seit)(?:\s+(?:zum|zur|de[mn]|einschlie(?:ß|ss)lich))?\s+$/u
+// "hatte", "war", "seit", or "hat … gemacht"
+const PAST_TENSE =
+  /(?<![\p{L}\d])(?:hatte[nst]?|hattet|war(?:en|st|t)?|wurde[nst]?|wurdet|gab(?:en)?|seit|gestern|vorgestern)(?![\p{L}\d])|(?<![\p{L}\d])(?:hat|haben|hast|habt)(?![\p{L}\d]).*(?<![\p{L}\d])(?:ab|an|auf|aus|ein|mit|nach|vor|zu|um|durch)?ge\p{L}{2,}(?:t|en)(?![\p{L}\d])/u
+
+const pattern = (source: string) => new RegExp(source, 'gu')
+
+function utcDay(year: number, monthIndex: number, date: number): Date {
+  return new Date(Date.UTC(year, monthIndex, date))
+}
+
+/**
+ * A day given by the user; null if it does not exist (e.g. 31.02.)
+ */
+function calendarDay(year: number, monthIndex: number, date: number): Date | null {
+  const value = utcDay(year, monthIndex, date)
+  return value.getUTCMonth() === monthIndex && value.getUTCDate() === date ? value : null
+}
+
+function addDays(value: Date, days: number): Date {
+  return new Date(value.getTime() + days * DAY_MS)
+}
+
+function addMonths(value: Date, months: number): Date {
+  const year = value.getUTCFullYear()
+  const month = value.getUTCMonth() + months
+  const lastDay = utcDay(year, month + 1, 0).getUTCDate()
+  return utcDay(year, month, Math.min(value.getUTCDate(), lastDay))
+}
+
+function startOfWeek(value: Date): Date {
+  return addDays(value, -((value.getUTCDay() + 6) % 7))
+}
+
+function weekRange(today: Date, offset: number): DayRange {
+  const start = addDays(startOfWeek(today), offset * 7)
+  return { start, end: addDays(start, 6) }
+}
+
+function monthRange(year: number, monthIndex: number): DayRange {
+  return { start: utcDay(year, monthIndex, 1), end: utcDay(year, monthIndex + 1, 0) }
+}
+
+function isoWeekStart(year: number, week: number): Date {
+  return addDays(startOfWeek(utcDay(year, 0, 4)), (week - 1) * 7)
+}
+
+function single(value: Date | null): DayRange | null {
+  return value ? { start: value, end: value } : null
+}
+
+function toIsoDay(value: Date): string {
+  return value.toISOString().slice(0, 10)
+}
+
+function readYear(value: string | undefined, today: Date): number {
+  if (!value) {
+    return today.getUTCFullYear()
+  }
+  const year = Number(value)
+  return value.length === 2 ? 2000 + year : year
+}
+
+/**
+ * A date written without a year (or month) at its next occurrence, or at its last one if the
+ * sentence is in the past tense; resolveAt gets the offset from the current year (or month)
+ */
+function nearestOccurrence(
+  resolveAt: (offset: number) => DayRange | null,
+  today: Date,
+  past: boolean
+): DayRange | null {
+  const range = resolveAt(0)
+  if (!range) {
+    return null
+  }
+  if (past && range.start > today) {
+    return resolveAt(-1)
+  }
+  if (!past && (range.end || range.start) < today) {
+    return resolveAt(1)
+  }
+  return range
+}
+
+function readNumber(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : NUMBER_WORDS[value]
+}
+
+/**
+ * Week offset of a qualifier: "übernächste" 2, "nächste"/"kommende" 1, "letzte" -1, otherwise 0
+ */
+function qualifierOffset(word: string | undefined): number {
+  if (!word) {
+    return 0
+  }
+  if (/^(?:ü|ue)bern/.test(word)) {
+    return 2
+  }
+  if (/^(?:n|kommend)/.test(word)) {
+    return 1
+  }
+  if (/^(?:letzt|vorig|vergangen)/.test(word)) {
+    return -1
+  }
+  return 0
+}
+
+/**
+ * Days of a range part: "Anfang" the first, "Mitte" the middle, "Ende" the last third
+ */
+function partOfRange(range: DayRange, part: string, unit: 'week' | 'month'): DayRange {
+  const start = range.start
+  const end = range.end || range.start
+  if (unit === 'week') {
+    if (part === 'anfang') return { start, end: addDays(start, 1) }
+    if (part === 'mitte') return { start: addDays(start, 2), end: addDays(start, 3) }
+    return { start: addDays(start, 4), end }
+  }
+  if (part === 'anfang') return { start, end: addDays(start, 9) }
+  if (part === 'mitte') return { start: addDays(start, 10), end: addDays(start, 19) }
+  return { start: addDays(start, 20), end }
+}
+
+/**
+ * Like partOfRange, but "Ende des Monats" and "Monatsende" mean the last day, unlike "Ende März"
+ */
+function partOfMonth(range: DayRange, part: string): DayRange {
+  const end = range.end || range.start
+  return part === 'ende' ? { start: end, end } : partOfRange(range, part, 'month')
+}
+
+const DATE_MATCHERS: Array<Matcher<DayRange>> = [
+  // 2025-12-12
+  {
+    pattern: pattern(`${B}(?<year>\\d{4})-(?<month>\\d{2})-(?<day>\\d{2})${E}`),
+    resolve: (match) => {
+      const { year, month, day } = match.groups!
+      return single(calendarDay(Number(year), Number(month) - 1, Number(day)))
+    },
+  },
+  // 12.12., 12.12.2025, Freitag, den 12.12.25
+  {
+    pattern: pattern(
+      `${B}(?:(?:${WEEKDAY}),?\\s+(?:den\\s+)?)?(?<day>\\d{1,2})\\.(?<month>\\d{1,2})\\.(?<year>\\d{4}|\\d{2})?(?!\\d)`
+    ),
+    resolve: (match, today, past) => {
+      const { year, month, day } = match.groups!
+      const resolveIn = (value: number) => single(calendarDay(value, Number(month) - 1, Number(day)))
+      return year
+        ? resolveIn(readYear(year, today))
+        : nearestOccurrence((offset) => resolveIn(today.getUTCFullYear() + offset), today, past)
+    },
+  },
+  // 3. März, 3. Dez. 2025
+  {
+    pattern: pattern(
+      `${B}(?:(?:${WEEKDAY}),?\\s+(?:den\\s+)?)?(?<day>\\d{1,2})\\.?\\s*(?<month>${MONTH})\\.?(?:\\s+(?<year>\\d{4}))?${E}`
+    ),
+    resolve: (match, today, past) => {
+      const { year, month, day } = match.groups!
+      const resolveIn = (value: number) => single(calendarDay(value, MONTHS[month], Number(day)))
+      return year
+        ? resolveIn(Number(year))
+        : nearestOccurrence((offset) => resolveIn(today.getUTCFullYear() + offset), today, past)
+    },
+  },
+  // 3. bis 7. März, 3.3.-7.3.2026, 1. und 5. Dezember
+  {
+    pattern: pattern(
+      `${B}(?<fromDay>\\d{1,2})\\.(?:(?<fromMonth>\\d{1,2})\\.)?\\s*(?:bis(?:\\s+zum)?|und(?:\\s+dem)?|-|–)\\s*(?<toDay>\\d{1,2})\\.(?:\\s*(?<toMonthName>${MONTH})\\.?|(?<toMonth>\\d{1,2})\\.)(?:\\s*(?<year>\\d{4}|\\d{2})(?!\\d))?${E}`
+    ),
+    resolve: (match, today, past) => {
+      const { fromDay, fromMonth, toDay, toMonthName, toMonth, year } = match.groups!
+      const endMonth = toMonthName ? MONTHS[toMonthName] : Number(toMonth) - 1
+      const resolveIn = (endYear: number): DayRange | null => {
+        const end = calendarDay(endYear, endMonth, Number(toDay))
+        let startMonth = fromMonth ? Number(fromMonth) - 1 : endMonth
+        if (!fromMonth && Number(fromDay) > Number(toDay)) {
+          startMonth -= 1
+        }
+        const startYear = endYear + Math.floor(startMonth / 12)
+        const start = calendarDay(startYear, (startMonth + 12) % 12, Number(fromDay))
+        if (!start || !end) {
+          return null
+        }
+        return start <= end ? { start, end } : { start, end: utcDay(endYear + 1, endMonth, Number(toDay)) }
+      }
+      return year
+        ? resolveIn(readYear(year, today))
+        : nearestOccurrence((offset) => resolveIn(today.getUTCFullYear() + offset), today, past)
+    },
+  },
+  // zwischen dem 1. und 5., vom 3. bis 7. (this month, or next month once the days have passed)
+  {
+    pattern: pattern(
+      `${B}(?:zwischen(?:\\s+de[mn])?|vom|von)\\s+(?<fromDay>\\d{1,2})\\.\\s*(?:bis(?:\\s+zum)?|und(?:\\s+dem)?|-|–)\\s*(?<toDay>\\d{1,2})\\.(?!\\d|\\s*(?:${MONTH})${E})`
+    ),
+    resolve: (match, today, past) => {
+      const { fromDay, toDay } = match.groups!
+      const resolveIn = (offset: number): DayRange | null => {
+        const month = addMonths(utcDay(today.getUTCFullYear(), today.getUTCMonth(), 1), offset)
+        const start = calendarDay(month.getUTCFullYear(), month.getUTCMonth(), Number(fromDay))
+        const end = calendarDay(month.getUTCFullYear(), month.getUTCMonth(), Number(toDay))
+        return start && end && start <= end ? { start, end } : null
+      }
+      return nearestOccurrence(resolveIn, today, past)
+    },
+  },
+  // heute, morgen früh, übermorgen, gestern abend
+  {
+    pattern: pattern(`${B}(?<word>vorgestern|gestern|heute|(?:ü|ue)bermorgen|morgen)${DAY_PART}${E}`),
+    resolve: (match, today) => {
+      const word = match.groups!.word
+      // "Guten Morgen" is a greeting
+      if (word === 'morgen' && /guten\s+$/.test(match.input!.slice(0, match.index))) {
+        return null
+      }
+      const offsets: Record<string, number> = { vorgestern: -2, gestern: -1, heute: 0, morgen: 1 }
+      return single(addDays(today, offsets[word] ?? 2))
+    },
+  },
+  // in 3 Tagen, in zwei Wochen, vor einem Monat
+  {
+    pattern: pattern(
+      `${B}(?<direction>in|vor)\\s+(?<amount>${NUMBER})\\s+(?<unit>tagen|tag|wochen|woche|monaten|monat|jahren|jahr)${E}`
+    ),
+    resolve: (match, today) => {
+      const { direction, amount, unit } = match.groups!
+      const count = readNumber(amount) * (direction === 'vor' ? -1 : 1)
+      if (unit.startsWith('tag')) {
+        return single(addDays(today, count))
+      }
+      if (unit.startsWith('woche')) {
+        return weekRange(today, count)
+      }
+      if (unit.startsWith('monat')) {
+        const target = addMonths(today, count)
+        return monthRange(target.getUTCFullYear(), target.getUTCMonth())
+      }
+      return { start: utcDay(today.getUTCFullYear() + count, 0, 1), end: utcDay(today.getUTCFullYear() + count, 11, 31) }
+    },
+  },
+  // nächster Werktag, am übernächsten Arbeitstag, letzter Werktag
+  {
+    pattern: pattern(`${B}(?<qualifier>${QUALIFIER})\\s+(?:werk|arbeits)tag(?:e|en)?${E}`),
+    resolve: (match, today) => {
+      const offset = qualifierOffset(match.groups!.qualifier)
+      return offset === 0 ? null : single(parseIsoDay(addWorkingDays(toIsoDay(today), offset)))
+    },
+  },
+  // in 3 Werktagen, vor zwei Arbeitstagen
+  {
+    pattern: pattern(`${B}(?<direction>in|vor)\\s+(?<amount>${NUMBER})\\s+(?:werk|arbeits)tagen${E}`),
+    resolve: (match, today) => {
+      const { direction, amount } = match.groups!
+      const count = readNumber(amount) * (direction === 'vor' ? -1 : 1)
+      return single(parseIsoDay(addWorkingDays(toIsoDay(today), count)))
+    },
+  },
+  // die nächsten 3 Tage, die letzten zwei Wochen
+  {
+    pattern: pattern(
+      `${B}(?:(?:die|in\\s+den)\\s+)?(?<qualifier>n(?:ä|ae)chsten|kommenden|letzten|vergangenen)\\s+(?<amount>${NUMBER})\\s+(?<unit>tagen|tage|wochen|monaten|monate)${E}`
+    ),
+    resolve: (match, today) => {
+      const { qualifier, amount, unit } = match.groups!
+      const count = readNumber(amount) * qualifierOffset(qualifier)
+      const other = unit.startsWith('monat')
+        ? addMonths(today, count)
+        : addDays(today, unit.startsWith('woche') ? count * 7 : count)
+      return count < 0 ? { start: other, end: today } : { start: today, end: other }
+    },
+  },
+  // Freitag nächste Woche, nächste Woche Dienstag
+  {
+    pattern: pattern(
+      `${B}(?<weekday>${WEEKDAY})\\s+(?:in\\s+der\\s+)?(?<qualifier>${QUALIFIER})\\s+woche${E}`
+    ),
+    resolve: (match, today) => {
+      const { weekday, qualifier } = match.groups!
+      return single(addDays(weekRange(today, qualifierOffset(qualifier)).start, (WEEKDAYS[weekday] + 6) % 7))
+    },
+  },
+  {
+    pattern: pattern(`${B}(?<qualifier>${QUALIFIER})\\s+woche,?\\s+(?:am\\s+)?(?<weekday>${WEEKDAY})${E}`),
+    resolve: (match, today) => {
+      const { weekday, qualifier } = match.groups!
+      return single(addDays(weekRange(today, qualifierOffset(qualifier)).start, (WEEKDAYS[weekday] + 6) % 7))
+    },
+  },
+  // am Freitag, nächsten Dienstag, letzten Montag
+  {
+    pattern: pattern(`${B}(?:(?<qualifier>am|${QUALIFIER})\\s+)?(?<weekday>${WEEKDAY})${E}`),
+    resolve: (match, today) => {
+      const { weekday, qualifier } = match.groups!
+      const target = WEEKDAYS[weekday]
+      const current = today.getUTCDay()
+      const offset = qualifierOffset(qualifier)
+      if (offset < 0) {
+        return single(addDays(today, -((current - target + 7) % 7 || 7)))
+      }
+      const ahead = (target - current + 7) % 7
+      // "nächsten Freitag" never means today
+      const days = offset === 0 ? ahead : (ahead || 7) + (offset - 1) * 7
+      return single(addDays(today, days))
+    },
+  },
+  // am Wochenende, nächstes Wochenende
+  {
+    pattern: pattern(`${B}(?:(?<qualifier>am|${QUALIFIER})\\s+)?wochenende${E}`),
+    resolve: (match, today) => {
+      const saturday = addDays(weekRange(today, qualifierOffset(match.groups!.qualifier)).start, 5)
+      return { start: saturday, end: addDays(saturday, 1) }
+    },
+  },
+  // KW 51, Kalenderwoche 2/2026, nächste Kalenderwoche
+  {
+    pattern: pattern(
+      `${B}(?:(?<qualifier>${QUALIFIER})\\s+)?(?:kalenderwoche|kw)(?:\\s*(?<week>\\d{1,2})(?:\\s*(?:\\/|\\s)\\s*(?<year>\\d{4}))?)?${E}`
+    ),
+    resolve: (match, today) => {
+      const { qualifier, week, year } = match.groups!
+      if (!week) {
+        return weekRange(today, qualifierOffset(qualifier))
+      }
+      const weekNumber = Number(week)
+      if (weekNumber < 1 || weekNumber > 53) {
+        return null
+      }
+      let start = isoWeekStart(readYear(year, today), weekNumber)
+      // Without a year, a week more than half a year ago means next year's week
+      if (!year && today.getTime() - start.getTime() > 183 * DAY_MS) {
+        start = isoWeekStart(today.getUTCFullYear() + 1, weekNumber)
+      }
+      return { start, end: addDays(start, 6) }
+    },
+  },
+  // diese Woche, nächste Woche, übernächste Woche
+  {
+    pattern: pattern(`${B}(?<qualifier>${QUALIFIER})\\s+woche${E}`),
+    resolve: (match, today) => weekRange(today, qualifierOffset(match.groups!.qualifier)),
+  },
+  // Ende des Monats, Anfang nächster Woche, Mitte nächsten Monats
+  {
+    pattern: pattern(
+      `${B}(?<part>anfang|mitte|ende)\\s+(?:(?:der|des)\\s+)?(?:(?<qualifier>${QUALIFIER})\\s+)?(?<unit>woche|monats|monat)${E}`
+    ),
+    resolve: (match, today) => {
+      const { part, qualifier, unit } = match.groups!
+      const offset = qualifierOffset(qualifier)
+      if (unit === 'woche') {
+        return partOfRange(weekRange(today, offset), part, 'week')
+      }
+      const target = addMonths(utcDay(today.getUTCFullYear(), today.getUTCMonth(), 1), offset)
+      return partOfMonth(monthRange(target.getUTCFullYear(), target.getUTCMonth()), part)
+    },
+  },
+  // Monatsende
+  {
+    pattern: pattern(`${B}monats(?<part>anfang|mitte|ende)${E}`),
+    resolve: (match, today) =>
+      partOfMonth(monthRange(today.getUTCFullYear(), today.getUTCMonth()), match.groups!.part),
+  },
+  // Anfang März, Ende Dezember 2025
+  {
+    pattern: pattern(`${B}(?<part>anfang|mitte|ende)\\s+(?<month>${FULL_MONTH})(?:\\s+(?<year>\\d{4}))?${E}`),
+    resolve: (match, today, past) => {
+      const { part, month, year } = match.groups!
+      const resolveIn = (value: number) => partOfRange(monthRange(value, MONTHS[month]), part, 'month')
+      return year
+        ? resolveIn(Number(year))
+        : nearestOccurrence((offset) => resolveIn(today.getUTCFullYear() + offset), today, past)
+    },
+  },
+  // diesen Monat, nächsten Monat, letzten Monat
+  {
+    pattern: pattern(`${B}(?<qualifier>${QUALIFIER})\\s+monats?${E}`),
+    resolve: (match, today) => {
+      const target = addMonths(utcDay(today.getUTCFullYear(), today.getUTCMonth(), 1), qualifierOffset(match.groups!.qualifier))
+      return monthRange(target.getUTCFullYear(), target.getUTCMonth())
+    },
+  },
+  // im März, Dezember 2025
+  {
+    pattern: pattern(`${B}(?<month>${FULL_MONTH})(?:\\s+(?<year>\\d{4}))?${E}`),
+    resolve: (match, today, past) => {
+      const { month, year } = match.groups!
+      const resolveIn = (value: number) => monthRange(value, MONTHS[month])
+      return year
+        ? resolveIn(Number(year))
+        : nearestOccurrence((offset) => resolveIn(today.getUTCFullYear() + offset), today, past)
+    },
+  },
+  // dieses Jahr, letztes Jahr, im Jahr 2025
+  {
+    pattern: pattern(`${B}(?<qualifier>${QUALIFIER})\\s+jahr(?:es)?${E}`),
+    resolve: (match, today) => {
+      const year = today.getUTCFullYear() + qualifierOffset(match.groups!.qualifier)
+      return { start: utcDay(year, 0, 1), end: utcDay(year, 11, 31) }
+    },
+  },
+  {
+    pattern: pattern(`${B}jahre?\\s+(?<year>\\d{4})${E}`),
+    resolve: (match) => {
+      const year = Number(match.groups!.year)
+      return { start: utcDay(year, 0, 1), end: utcDay(year, 11, 31) }
+    },
+  },
+]
+
+function formatTime(hour: number, minute: number): string | null {
+  if (hour > 23 || minute > 59) {
+    return null
+  }
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
+
+const TIME_MATCHERS: Array<Matcher<string>> = [
+  // 14:30, um 8:00 Uhr
+  {
+    pattern: pattern(`${B}(?:(?:um|ab|gegen)\\s+)?(?<hour>\\d{1,2}):(?<minute>\\d{2})(?:\\s*uhr)?${E}`),
+    resolve: (match) => formatTime(Number(match.groups!.hour), Number(match.groups!.minute)),
+  },
+  // um 8, um 8.30 Uhr
+  {
+    pattern: pattern(`${B}(?:um|ab|gegen)\\s+(?<hour>\\d{1,2})(?:\\.(?<minute>\\d{2}))?(?:\\s*uhr)?${E}`),
+    resolve: (match) => formatTime(Number(match.groups!.hour), Number(match.groups!.minute || 0)),
+  },
+  // 8 Uhr, 7.45 Uhr
+  {
+    pattern: pattern(`${B}(?<hour>\\d{1,2})(?:\\.(?<minute>\\d{2}))?\\s*uhr${E}`),
+    resolve: (match) => formatTime(Number(match.groups!.hour), Number(match.groups!.minute || 0)),
+  },
+  // halb 8, halb acht
+  {
+    pattern: pattern(`${B}halb\\s+(?<hour>${NUMBER})${E}`),
+    resolve: (match) => {
+      const hour = readNumber(match.groups!.hour)
+      return hour >= 1 ? formatTime(hour - 1, 30) : null
+    },
+  },
+]
+
+function findCandidates<T>(
+  source: string,
+  matchers: Array<Matcher<T>>,
+  today: Date,
+  past = false
+): Array<Candidate<T>> {
+  const candidates: Array<Candidate<T>> = []
+  for (const matcher of matchers) {
+    for (const match of source.matchAll(matcher.pattern)) {
+      const value = matcher.resolve(match, today, past)
+      if (value !== null && match.index !== undefined) {
+        candidates.push({ from: match.index, to: match.index + match[0].length, value })
+      }
+    }
+  }
+  return candidates
+}
+
+/**
+ * Non-overlapping candidates, preferring the longest match, in text order
+ */
+function selectLongest<T>(candidates: Array<Candidate<T>>, taken: Array<Candidate<unknown>> = []): Array<Candidate<T>> {
+  const selected: Array<Candidate<T>> = []
+  const sorted = [...candidates].sort((a, b) => b.to - b.from - (a.to - a.from) || a.from - b.from)
+  for (const candidate of sorted) {
+    const overlaps = [...taken, ...selected].some((other) => candidate.from < other.to && other.from < candidate.to)
+    if (!overlaps) {
+      selected.push(candidate)
+    }
+  }
+  return selected.sort((a, b) => a.from - b.from)
+}
+
+function parseIsoDay(value: string | undefined): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  return match ? calendarDay(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null
+}
+
+/**
+ * Today in Europe/Berlin as YYYY-MM-DD
+ */
+export function getBerlinToday(now: Date = new Date()): string {
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: DATE_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(now)
+}
+
+/**
+ * Offset of Europe/Berlin from UTC in minutes at the given instant
+ */
+function berlinOffsetMinutes(instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: DATE_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((entry) => entry.type === type)?.value)
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'))
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000)
+}
+
+/**
+ * A Berlin wall-clock time as a timestamp with offset, e.g. "2026-10-19T00:00:00+02:00"
+ */
+export function toBerlinTimestamp(isoDay: string, time = '00:00:00'): string {
+  const wallClock = Date.parse(`${isoDay}T${time}Z`)
+  const offset = berlinOffsetMinutes(wallClock - berlinOffsetMinutes(wallClock) * 60000)
+  const sign = offset < 0 ? '-' : '+'
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0')
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0')
+  return `${isoDay}T${time}${sign}${hours}:${minutes}`
+}
+
+/**
+ * A timestamp as Berlin wall-clock time, e.g. "2026-10-19 08:30"; null if it cannot be parsed
+ */
+export function formatBerlinDateTime(value: string): string | null {
+  const instant = new Date(value)
+  if (Number.isNaN(instant.getTime())) {
+    return null
+  }
+  return new Intl.DateTimeFormat('sv-SE', {
+    timeZone: DATE_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(instant)
+}
+
+/**
+ * All date expressions in a text, in order
+ * Two expressions joined by "bis" (or "zwischen … und …") become one range;
+ * "bis", "ab" and "seit" in front of an expression make it a range from or until today.
+ * Dates without a year mean the next occurrence, or the last one in a sentence in the past tense.
+ */
+export function parseGermanDates(text: string, options: DateParseOptions = {}): ParsedDateExpression[] {
+  const today = parseIsoDay(options.today) || parseIsoDay(getBerlinToday())!
+  const source = text.toLowerCase()
+  const dates = selectLongest(findCandidates(source, DATE_MATCHERS, today, PAST_TENSE.test(source)))
+  const times = selectLongest(findCandidates(source, TIME_MATCHERS, today), dates)
+
+  const expressions: Array<Candidate<DayRange> & { time?: string }> = []
+  for (let index = 0; index < dates.length; index++) {
+    const current = dates[index]
+    const next = dates[index + 1]
+    const before = source.slice(0, current.from)
+    let { from, to, value } = current
+
+    const connector = next ? source.slice(current.to, next.from) : ''
+    const joined =
+      next && RANGE_CONNECTOR.test(connector) && (!connector.includes('und') || BETWEEN_PREFIX.test(before))
+
+    if (joined) {
+      value = { start: current.value.start, end: next.value.end || next.value.start }
+      to = next.to
+      index++
+      from -= before.match(RANGE_PREFIX)?.[0].length || 0
+    } else {
+      const prefix = before.match(OPEN_RANGE_PREFIX)
+      if (prefix) {
+        const end = value.end || value.start
+        if (prefix[1] === 'bis') {
+          value = { start: value.start < today ? value.start : today, end }
+        } else if (prefix[1] === 'seit') {
+          value = { start: value.start, end: today > end ? today : end }
+        } else {
+          value = { start: value.start, end: null }
+        }
+        from -= prefix[0].length
+      } else if (value.end && value.end > value.start) {
+        from -= before.match(RANGE_PREFIX)?.[0].length || 0
+      }
+    }
+
+    if (value.end && value.end < value.start) {
+      value = { start: value.end, end: value.start }
+    }
+    expressions.push({ from, to, value })
+  }
+
+  // A time without a date ("um 8 Uhr") is today
+  if (expressions.length === 0 && times.length > 0) {
+    expressions.push({ from: times[0].from, to: times[0].to, value: single(today)! })
+  }
+
+  // A time belongs to the nearest expression before it ("morgen um 8"), else the first one
+  for (const time of times) {
+    const owner = [...expressions].reverse().find((expression) => expression.from <= time.from) || expressions[0]
+    if (owner && !owner.time) {
+      owner.time = time.value
+    }
+  }
+
+  return expressions.map((expression) => ({
+    text: text.slice(expression.from, expression.to),
+    start: toIsoDay(expression.value.start),
+    end: expression.value.end ? toIsoDay(expression.value.end) : null,
+    ...(expression.time ? { time: expression.time } : {}),
+  }))
+}
+
+/**
+ * A time of day as HH:MM, e.g. "7:30", "um 8", "8 Uhr" or "halb acht"; null if there is none
+ * A bare hour ("8") is accepted as well.
+ */
+export function parseGermanTime(text: string): string | null {
+  const source = text.trim().toLowerCase()
+  const bareHour = source.match(/^(\d{1,2})$/)
+  if (bareHour) {
+    return formatTime(Number(bareHour[1]), 0)
+  }
+  const today = parseIsoDay(getBerlinToday())!
+  return selectLongest(findCandidates(source, TIME_MATCHERS, today))[0]?.value || null
+}
+
+/**
+ * The first date expression in a text, or null if there is none
+ */
+export function parseGermanDate(text: string, options: DateParseOptions = {}): ParsedDateExpression | null {
+  return parseGermanDates(text, options)[0] || null
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { queryTable } from './supabase-query'
+import { colognePhonetic, foldUmlauts, resolveEntity, scoreEntityMatch } from './entity-resolver'
+
+vi.mock('./supabase-query', () => ({ queryTable: vi.fn() }))
+
+const mockedQueryTable = vi.mocked(queryTable)
+
+const TABLES: Record<string, Record<string, any>[]> = {
+  t_employees: [
+    { employee_id: 'e1', name: 'Jonas Müller', role: 'Monteur', is_active: true },
+    { employee_id: 'e2', name: 'Jonas Becker', role: 'Monteur', is_active: true },
+    { employee_id: 'e3', name: 'Anna Maier', role: 'Disponentin', is_active: true },
+    { employee_id: 'e4', name: 'Jörg Schmitt', role: 'Fahrer', is_active: true },
+  ],
+  t_projects: [
+    { project_id: 'p1', project_code: 'P-2026-017', name: 'Schulhof Köln-Süd', ort: 'Köln' },
+    { project_id: 'p2', project_code: 'P-2026-018', name: 'Rathaus Düren', ort: 'Düren' },
+  ],
+  t_vehicles: [
+    { vehicle_id: 'v1', nickname: 'Großer Kran', unit: 'LKW 7', is_deleted: false },
+    { vehicle_id: 'v2', nickname: 'Sprinter', unit: 'Transporter 2', is_deleted: true },
+  ],
+}
+
+beforeEach(() => {
+  mockedQueryTable.mockReset()
+  mockedQueryTable.mockImplementation(async (tableName) => ({ data: TABLES[tableName] ?? [], error: null }) as any)
+})
+
+describe('colognePhonetic', () => {
+  it.each([
+    ['Müller-Lüdenscheidt', '65752682'],
+    ['Meyer', '67'],
+    ['Maier', '67'],
+    ['Schmidt', '862'],
+    ['Schmitt', '862'],
+    ['Wikipedia', '3412'],
+    ['Breschnew', '17863'],
+    ['Christoph', '47823'],
+  ])('%s -> %s', (word, code) => {
+    expect(colognePhonetic(word)).toBe(code)
+  })
+})
+
+describe('foldUmlauts', () => {
+  it.each([
+    ['Müller', 'mueller'],
+    ['Mueller', 'mueller'],
+    ['Großer Kran', 'grosser kran'],
+    ['José', 'jose'],
+    ['Köln-Süd', 'koeln sued'],
+  ])('%s -> %s', (text, folded) => {
+    expect(foldUmlauts(text)).toBe(folded)
+  })
+})
+
+describe('scoreEntityMatch', () => {
+  it.each([
+    ['Jonas Müller', 'Jonas Müller', 'exact', 1],
+    ['jonas mueller', 'Jonas Müller', 'exact', 1],
+    ['Jonas Muller', 'Jonas Müller', 'exact', 1],
+    ['Müller', 'Jonas Müller', 'token', 0.88],
+    ['Jon', 'Jonas Müller', 'prefix', 0.8],
+    ['Meyer', 'Maier', 'phonetic', 0.85],
+    ['Anna Meier', 'Anna Maier', 'phonetic', 0.85],
+  ])('%s / %s -> %s', (query, label, matchedBy, score) => {
+    expect(scoreEntityMatch(query, label)).toEqual({ matchedBy, score: expect.closeTo(score, 5) })
+  })
+})
+
+describe('resolveEntity', () => {
+  it.each([
+    ['Jonas Müller', ['employee'], 'resolved', 'e1', 'exact'],
+    ['Jonas Mueller', ['employee'], 'resolved', 'e1', 'exact'],
+    ['Jonas Muller', ['employee'], 'resolved', 'e1', 'exact'],
+    ['Anna Meyer', ['employee'], 'resolved', 'e3', 'phonetic'],
+    ['Jörg Schmidt', ['employee'], 'resolved', 'e4', 'phonetic'],
+    ['Joerg Schmitt', ['employee'], 'resolved', 'e4', 'exact'],
+    ['Schulhof Koeln Sued', ['project'], 'resolved', 'p1', 'exact'],
+    ['P-2026-018', ['project'], 'resolved', 'p2', 'exact'],
+    ['Grosser Kran', ['vehicle'], 'resolved', 'v1', 'exact'],
+  ] as const)('%s in %j is %s as %s (%s)', async (query, types, status, id, matchedBy) => {
+    const { data, error } = await resolveEntity(query, [...types])
+
+    expect(error).toBeNull()
+    expect(data?.status).toBe(status)
+    expect(data?.match).toMatchObject({ id, matchedBy })
+  })
+
+  it('returns both candidates for an ambiguous first name', async () => {
+    const { data } = await resolveEntity('Jonas', ['employee'])
+
+    expect(data?.status).toBe('ambiguous')
+    expect(data?.match).toBeUndefined()
+    expect(data?.candidates.slice(0, 2).map((candidate) => candidate.id).sort()).toEqual(['e1', 'e2'])
+  })
+
+  it('reports unknown names as not found', async () => {
+    const { data } = await resolveEntity('Xaver Quast', ['employee'])
+
+    expect(data).toEqual({ query: 'Xaver Quast', status: 'not_found', candidates: [] })
+  })
+
+  it('skips deleted vehicles', async () => {
+    const { data } = await resolveEntity('Sprinter', ['vehicle'])
+
+    expect(data?.candidates.map((candidate) => candidate.id)).not.toContain('v2')
+  })
+
+  it('searches all entity types and keeps going when one table fails', async () => {
+    mockedQueryTable.mockImplementation(async (tableName) =>
+      tableName === 't_vehicles'
+        ? ({ data: null, error: 'permission denied' } as any)
+        : ({ data: TABLES[tableName] ?? [], error: null } as any)
+    )
+
+    const { data, error } = await resolveEntity('Rathaus Düren')
+
+    expect(error).toBeNull()
+    expect(data?.match).toMatchObject({ type: 'project', id: 'p2' })
+    expect(mockedQueryTable).toHaveBeenCalledTimes(3)
+  })
+
+  it('rejects an empty query', async () => {
+    expect(await resolveEntity('  ')).toEqual({ data: null, error: 'Query must be a non-empty string' })
+    expect(mockedQueryTable).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,323 @@
+/**
+ * Fuzzy resolution of employee, project and vehicle references
+ * Matches user wording ("Jonas", "Mueller", STT typos) against the base tables using
+ * normalized, umlaut-folded and phonetic (Kölner Phonetik) comparison
+ */
+
+import { queryTable } from './supabase-query'
+
+export type EntityType = 'employee' | 'project' | 'vehicle'
+
+export interface EntityCandidate {
+  type: EntityType
+  id: string
+  label: string
+  score: number
+  matchedBy: 'exact' | 'token' | 'prefix' | 'phonetic' | 'similarity'
+  details: Record<string, any>
+}
+
+export interface EntityResolution {
+  query: string
+  status: 'resolved' | 'ambiguous' | 'not_found'
+  match?: EntityCandidate
+  candidates: EntityCandidate[]
+}
+
+interface EntitySource {
+  tableName: string
+  idColumn: string
+  labelColumns: string[]
+  columns: string[]
+  isSelectable?: (row: Record<string, any>) => boolean
+}
+
+export const ENTITY_TYPES: EntityType[] = ['employee', 'project', 'vehicle']
+
+const ENTITY_SOURCES: Record<EntityType, EntitySource> = {
+  employee: {
+    tableName: 't_employees',
+    idColumn: 'employee_id',
+    labelColumns: ['name'],
+    columns: ['employee_id', 'name', 'role', 'is_active'],
+  },
+  project: {
+    tableName: 't_projects',
+    idColumn: 'project_id',
+    labelColumns: ['name', 'project_code'],
+    columns: ['project_id', 'project_code', 'name', 'ort', 'status', 'project_date'],
+  },
+  vehicle: {
+    tableName: 't_vehicles',
+    idColumn: 'vehicle_id',
+    labelColumns: ['nickname', 'unit'],
+    columns: ['vehicle_id', 'nickname', 'unit', 'status', 'is_deleted'],
+    isSelectable: (row) => row.is_deleted !== true,
+  },
+}
+
+const MIN_CANDIDATE_SCORE = 0.55
+const RESOLVED_SCORE = 0.85
+const RESOLVED_MARGIN = 0.1
+
+const UMLAUT_DIGRAPHS: Record<string, string> = {
+  ä: 'ae',
+  ö: 'oe',
+  ü: 'ue',
+  ß: 'ss',
+}
+
+/**
+ * Lowercase, strip punctuation and collapse whitespace
+ */
+export function normalizeEntityText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9äöüßà-ÿ\s-]+/g, ' ')
+    .replace(/[-\s]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Fold umlauts and accents to plain ASCII, e.g. "Müller" -> "mueller", "José" -> "jose"
+ * Written-out umlauts ("ue") are kept so "Mueller" and "Müller" fold to the same form
+ */
+export function foldUmlauts(text: string): string {
+  return normalizeEntityText(text)
+    .replace(/[äöüß]/g, (char) => UMLAUT_DIGRAPHS[char])
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Variant without written-out umlauts, so "Muller" (STT) also matches "Müller"
+ */
+function foldUmlautsToBase(text: string): string {
+  return normalizeEntityText(text)
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+}
+
+/**
+ * Kölner Phonetik code of a single word
+ */
+export function colognePhonetic(word: string): string {
+  const letters = word
+    .toUpperCase()
+    .replace(/Ä/g, 'A')
+    .replace(/Ö/g, 'O')
+    .replace(/Ü/g, 'U')
+    .replace(/ß/g, 'S')
+    .normalize('NFD')
+    .replace(/[^A-Z]/g, '')
+
+  let code = ''
+  for (let i = 0; i < letters.length; i++) {
+    const char = letters[i]
+    const prev = i > 0 ? letters[i - 1] : ''
+    const next = i < letters.length - 1 ? letters[i + 1] : ''
+
+    let digit = ''
+    if ('AEIJOUY'.includes(char)) {
+      digit = '0'
+    } else if (char === 'H') {
+      digit = ''
+    } else if (char === 'B') {
+      digit = '1'
+    } else if (char === 'P') {
+      digit = next === 'H' ? '3' : '1'
+    } else if (char === 'D' || char === 'T') {
+      digit = 'CSZ'.includes(next) && next ? '8' : '2'
+    } else if ('FVW'.includes(char)) {
+      digit = '3'
+    } else if ('GKQ'.includes(char)) {
+      digit = '4'
+    } else if (char === 'C') {
+      if (i === 0) {
+        digit = 'AHKLOQRUX'.includes(next) && next ? '4' : '8'
+      } else {
+        digit = 'AHKOQUX'.includes(next) && next && !'SZ'.includes(prev) ? '4' : '8'
+      }
+    } else if (char === 'X') {
+      digit = 'CKQ'.includes(prev) && prev ? '8' : '48'
+    } else if (char === 'L') {
+      digit = '5'
+    } else if (char === 'M' || char === 'N') {
+      digit = '6'
+    } else if (char === 'R') {
+      digit = '7'
+    } else if (char === 'S' || char === 'Z') {
+      digit = '8'
+    }
+    code += digit
+  }
+
+  // Collapse repeated digits, then drop vowels except at the start
+  const collapsed = code.replace(/(\d)\1+/g, '$1')
+  return collapsed.charAt(0) + collapsed.slice(1).replace(/0/g, '')
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a.length) return b.length
+  if (!b.length) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(current[j - 1] + 1, previous[j] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest
+}
+
+/**
+ * Score how well a query matches a label (0..1) and report which rule matched
+ */
+export function scoreEntityMatch(
+  query: string,
+  label: string
+): { score: number; matchedBy: EntityCandidate['matchedBy'] } | null {
+  const queryForms = [foldUmlauts(query), foldUmlautsToBase(query)]
+  const labelForms = [foldUmlauts(label), foldUmlautsToBase(label)]
+
+  let best: { score: number; matchedBy: EntityCandidate['matchedBy'] } | null = null
+  const consider = (score: number, matchedBy: EntityCandidate['matchedBy']) => {
+    if (!best || score > best.score) {
+      best = { score, matchedBy }
+    }
+  }
+
+  for (const queryForm of queryForms) {
+    for (const labelForm of labelForms) {
+      if (!queryForm || !labelForm) continue
+
+      if (queryForm === labelForm) {
+        consider(1, 'exact')
+        continue
+      }
+
+      const queryTokens = queryForm.split(' ')
+      const labelTokens = labelForm.split(' ')
+
+      // "Jonas" -> "Jonas Müller": every query word is a word of the label
+      if (queryTokens.every((token) => labelTokens.includes(token))) {
+        consider(0.9 - 0.02 * (labelTokens.length - queryTokens.length), 'token')
+      } else if (queryTokens.every((token) => labelTokens.some((labelToken) => labelToken.startsWith(token)))) {
+        consider(0.8, 'prefix')
+      }
+
+      // Phonetic match per word, e.g. "Maier" / "Meyer"
+      const labelCodes = labelTokens.map(colognePhonetic)
+      if (queryTokens.every((token) => {
+        const code = colognePhonetic(token)
+        return !!code && labelCodes.includes(code)
+      })) {
+        consider(queryTokens.length === labelTokens.length ? 0.85 : 0.78, 'phonetic')
+      }
+
+      // Typo tolerance on the whole string and on the best matching word
+      const wholeSimilarity = similarity(queryForm, labelForm)
+      const tokenSimilarity = Math.min(
+        ...queryTokens.map((token) => Math.max(...labelTokens.map((labelToken) => similarity(token, labelToken))))
+      )
+      consider(Math.max(wholeSimilarity, tokenSimilarity * 0.95) * 0.85, 'similarity')
+    }
+  }
+
+  return best
+}
+
+/**
+ * Rank rows of one entity type against the query
+ */
+async function findCandidates(type: EntityType, query: string): Promise<{ candidates: EntityCandidate[]; error?: string }> {
+  const source = ENTITY_SOURCES[type]
+  const result = await queryTable(source.tableName, {}, 1000, undefined, { columns: source.columns })
+  if (result.error || !result.data) {
+    return { candidates: [], error: result.error || `Could not load ${source.tableName}` }
+  }
+
+  const candidates: EntityCandidate[] = []
+  for (const row of result.data as unknown as Record<string, any>[]) {
+    if (source.isSelectable && !source.isSelectable(row)) {
+      continue
+    }
+
+    let best: { score: number; matchedBy: EntityCandidate['matchedBy']; label: string } | null = null
+    for (const column of source.labelColumns) {
+      const value = row[column]
+      if (typeof value !== 'string' || !value.trim()) continue
+      const match = scoreEntityMatch(query, value)
+      if (match && (!best || match.score > best.score)) {
+        best = { ...match, label: value }
+      }
+    }
+
+    if (best && best.score >= MIN_CANDIDATE_SCORE) {
+      candidates.push({
+        type,
+        id: String(row[source.idColumn]),
+        label: best.label,
+        score: Math.round(best.score * 100) / 100,
+        matchedBy: best.matchedBy,
+        details: row,
+      })
+    }
+  }
+
+  return { candidates }
+}
+
+/**
+ * Resolve a free-text reference to an employee, project or vehicle
+ * Returns "resolved" only for a clear winner; otherwise the ranked candidates are
+ * returned as "ambiguous" so the assistant can ask instead of guessing
+ */
+export async function resolveEntity(
+  query: string,
+  types: EntityType[] = ENTITY_TYPES,
+  limit: number = 5
+): Promise<{ data: EntityResolution | null; error: string | null }> {
+  const trimmedQuery = query.trim()
+  if (!trimmedQuery) {
+    return { data: null, error: 'Query must be a non-empty string' }
+  }
+
+  const results = await Promise.all(types.map((type) => findCandidates(type, trimmedQuery)))
+  const errors = results.map((result) => result.error).filter(Boolean)
+  if (errors.length === results.length) {
+    return { data: null, error: errors[0] || 'Entity lookup failed' }
+  }
+
+  const candidates = results
+    .flatMap((result) => result.candidates)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+
+  if (candidates.length === 0) {
+    return { data: { query: trimmedQuery, status: 'not_found', candidates }, error: null }
+  }
+
+  const [top, runnerUp] = candidates
+  const isClearWinner = top.score >= RESOLVED_SCORE && (!runnerUp || top.score - runnerUp.score >= RESOLVED_MARGIN)
+
+  return {
+    data: {
+      query: trimmedQuery,
+      status: isClearWinner ? 'resolved' : 'ambiguous',
+      match: isClearWinner ? top : undefined,
+      candidates,
+    },
+    error: null,
+  }
+}
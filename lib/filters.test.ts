@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import { applyFilters, compileFilterCondition, compileOrGroups, getFilterColumns } from './filters'
+
+/**
+ * Query builder double that records every call in order
+ */
+function recordingBuilder() {
+  const calls: Array<[string, ...any[]]> = []
+  const builder: any = new Proxy(
+    {},
+    {
+      get: (_target, method: string) => (...args: any[]) => {
+        calls.push([method, ...args])
+        return builder
+      },
+    }
+  )
+  return { builder, calls }
+}
+
+describe('compileFilterCondition', () => {
+  const cases: Array<[string, string, any, string | null]> = [
+    ['plain value', 'status', 'geplant', 'status.eq."geplant"'],
+    ['number', 'hourly_rate', 20, 'hourly_rate.eq.20'],
+    ['boolean', 'is_active', true, 'is_active.eq.true'],
+    ['eq', 'status', { type: 'eq', value: 'geplant' }, 'status.eq."geplant"'],
+    ['neq', 'status', { type: 'neq', value: 'storniert' }, 'status.neq."storniert"'],
+    ['gt', 'price', { type: 'gt', value: 10 }, 'price.gt.10'],
+    ['gte', 'plan_date', { type: 'gte', value: '2026-10-19' }, 'plan_date.gte."2026-10-19"'],
+    ['lt', 'price', { type: 'lt', value: 10 }, 'price.lt.10'],
+    ['lte', 'price', { type: 'lte', value: 10 }, 'price.lte.10'],
+    [
+      'between',
+      'plan_date',
+      { type: 'between', value: ['2026-10-01', '2026-10-31'] },
+      'and(plan_date.gte."2026-10-01",plan_date.lte."2026-10-31")',
+    ],
+    ['between with one bound', 'plan_date', { type: 'between', value: ['2026-10-01'] }, null],
+    ['like', 'name', { type: 'like', value: 'Müll' }, 'name.like."%Müll%"'],
+    ['ilike', 'name', { type: 'ilike', value: 'müll' }, 'name.ilike."%müll%"'],
+    ['in', 'ort', { type: 'in', value: ['Köln', 'Bonn'] }, 'ort.in.("Köln","Bonn")'],
+    ['in without list', 'ort', { type: 'in', value: 'Köln' }, null],
+    ['not_in', 'ort', { type: 'not_in', value: ['Köln', 'Bonn'] }, 'ort.not.in.("Köln","Bonn")'],
+    ['is_null', 'vehicle_id', { type: 'is_null' }, 'vehicle_id.is.null'],
+    ['not_null', 'vehicle_id', { type: 'not_null' }, 'vehicle_id.not.is.null'],
+    ['not eq', 'status', { type: 'not', value: 'storniert' }, 'status.not.eq."storniert"'],
+    ['not ilike', 'status', { type: 'not', value: { type: 'ilike', value: 'storniert' } }, 'status.not.ilike."%storniert%"'],
+    ['not is_null', 'vehicle_id', { type: 'not', value: { type: 'is_null' } }, 'vehicle_id.not.is.null'],
+    ['double not', 'status', { type: 'not', value: { type: 'not', value: 'x' } }, 'status.eq."x"'],
+    ['not between', 'price', { type: 'not', value: { type: 'between', value: [1, 2] } }, 'not.and(price.gte.1,price.lte.2)'],
+    ['quotes are escaped', 'name', 'Say "hi"', 'name.eq."Say \\"hi\\""'],
+    ['null', 'status', null, null],
+    ['undefined', 'status', undefined, null],
+  ]
+
+  it.each(cases)('%s', (_label, key, value, expected) => {
+    expect(compileFilterCondition(key, value)).toBe(expected)
+  })
+
+  it('matches configured columns case-insensitively without wildcards', () => {
+    const options = { caseInsensitiveColumns: ['name'] }
+    expect(compileFilterCondition('name', 'Jonas_M%', options)).toBe('name.ilike."Jonas\\\\_M\\\\%"')
+    expect(compileFilterCondition('ort', 'Köln', options)).toBe('ort.eq."Köln"')
+  })
+
+  it('compiles a nested or group', () => {
+    expect(compileFilterCondition('or', [{ status: 'geplant' }, { status: 'in Arbeit' }])).toBe(
+      'or(status.eq."geplant",status.eq."in Arbeit")'
+    )
+  })
+})
+
+describe('compileOrGroups', () => {
+  const cases: Array<[string, Record<string, any>[], string | null]> = [
+    ['single conditions', [{ status: 'geplant' }, { status: 'in Arbeit' }], 'status.eq."geplant",status.eq."in Arbeit"'],
+    [
+      'and inside an alternative',
+      [{ status: 'geplant', ort: 'Köln' }, { status: 'fertig' }],
+      'and(status.eq."geplant",ort.eq."Köln"),status.eq."fertig"',
+    ],
+    ['operators', [{ price: { type: 'gt', value: 5 } }, { vehicle_id: { type: 'is_null' } }], 'price.gt.5,vehicle_id.is.null'],
+    ['not', [{ status: { type: 'not', value: 'storniert' } }], 'status.not.eq."storniert"'],
+    ['empty alternatives are dropped', [{}, { status: null }, { status: 'geplant' }], 'status.eq."geplant"'],
+    ['nothing left', [{}, { status: undefined }], null],
+  ]
+
+  it.each(cases)('%s', (_label, groups, expected) => {
+    expect(compileOrGroups(groups)).toBe(expected)
+  })
+
+  it('applies case-insensitive columns inside groups', () => {
+    expect(compileOrGroups([{ name: 'jonas' }], { caseInsensitiveColumns: ['name'] })).toBe('name.ilike."jonas"')
+  })
+})
+
+describe('applyFilters', () => {
+  const cases: Array<[string, Record<string, any>, Array<[string, ...any[]]>]> = [
+    ['plain equality', { status: 'geplant' }, [['eq', 'status', 'geplant']]],
+    ['eq', { status: { type: 'eq', value: 'geplant' } }, [['eq', 'status', 'geplant']]],
+    ['neq', { status: { type: 'neq', value: 'x' } }, [['neq', 'status', 'x']]],
+    ['gt', { price: { type: 'gt', value: 1 } }, [['gt', 'price', 1]]],
+    ['gte', { price: { type: 'gte', value: 1 } }, [['gte', 'price', 1]]],
+    ['lt', { price: { type: 'lt', value: 1 } }, [['lt', 'price', 1]]],
+    ['lte', { price: { type: 'lte', value: 1 } }, [['lte', 'price', 1]]],
+    [
+      'between',
+      { plan_date: { type: 'between', value: ['2026-10-01', '2026-10-31'] } },
+      [
+        ['gte', 'plan_date', '2026-10-01'],
+        ['lte', 'plan_date', '2026-10-31'],
+      ],
+    ],
+    ['like', { name: { type: 'like', value: 'M' } }, [['like', 'name', '%M%']]],
+    ['ilike', { name: { type: 'ilike', value: 'm' } }, [['ilike', 'name', '%m%']]],
+    ['in', { ort: { type: 'in', value: ['Köln'] } }, [['in', 'ort', ['Köln']]]],
+    ['not_in', { ort: { type: 'not_in', value: ['Köln', 'Bonn'] } }, [['not', 'ort', 'in', '("Köln","Bonn")']]],
+    ['is_null', { vehicle_id: { type: 'is_null' } }, [['is', 'vehicle_id', null]]],
+    ['not_null', { vehicle_id: { type: 'not_null' } }, [['not', 'vehicle_id', 'is', null]]],
+    ['not', { status: { type: 'not', value: 'storniert' } }, [['or', 'status.not.eq."storniert"']]],
+    [
+      'or group',
+      { or: [{ status: 'geplant' }, { status: 'in Arbeit' }] },
+      [['or', 'status.eq."geplant",status.eq."in Arbeit"']],
+    ],
+    [
+      'several logical expressions are ANDed',
+      { or: [{ status: 'geplant' }, { status: 'fertig' }], ort: { type: 'not', value: 'Köln' } },
+      [['or', 'and(or(status.eq."geplant",status.eq."fertig"),or(ort.not.eq."Köln"))']],
+    ],
+    ['null values are skipped', { status: null, ort: undefined }, []],
+  ]
+
+  it.each(cases)('%s', (_label, filters, expected) => {
+    const { builder, calls } = recordingBuilder()
+    applyFilters(builder, filters)
+    expect(calls).toEqual(expected)
+  })
+
+  it('matches configured columns case-insensitively', () => {
+    const { builder, calls } = recordingBuilder()
+    applyFilters(builder, { name: 'jonas_m', ort: 'Köln' }, { caseInsensitiveColumns: ['name'] })
+    expect(calls).toEqual([
+      ['ilike', 'name', 'jonas\\_m'],
+      ['eq', 'ort', 'Köln'],
+    ])
+  })
+})
+
+describe('getFilterColumns', () => {
+  it('includes columns inside or groups', () => {
+    expect(getFilterColumns({ status: 'x', or: [{ ort: 'Köln' }, { name: 'y', ort: 'Bonn' }] })).toEqual([
+      'status',
+      'ort',
+      'name',
+    ])
+  })
+})
@@ -0,0 +1,258 @@
+/**
+ * Filter compiler shared by all queries against PostgREST
+ * Takes a sanitized filter object (see sanitizeFilters) and applies it to any
+ * select, count, update or delete builder, so every operator behaves the same everywhere
+ */
+
+export interface FilterOptions {
+  /**
+   * Columns whose simple string values match case-insensitively (exact match, no wildcards)
+   */
+  caseInsensitiveColumns?: string[]
+}
+
+/**
+ * Quote a value for use inside a PostgREST logical expression (or/and/not)
+ */
+function formatPostgrestValue(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null'
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function formatPostgrestList(values: any[]): string {
+  return `(${values.map(formatPostgrestValue).join(',')})`
+}
+
+function isFilterObject(value: any): value is { type: string; value?: any } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !!value.type
+}
+
+function isCaseInsensitiveMatch(key: string, value: any, options: FilterOptions): value is string {
+  return typeof value === 'string' && !!options.caseInsensitiveColumns?.includes(key)
+}
+
+/**
+ * Escape LIKE wildcards so that ilike performs an exact, case-insensitive match
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`)
+}
+
+/**
+ * Negate a compiled PostgREST condition, e.g. "status.eq.x" -> "status.not.eq.x"
+ */
+function negateCondition(condition: string): string {
+  const groupMatch = condition.match(/^(not\.)?(and|or)\(/)
+  if (groupMatch) {
+    return groupMatch[1] ? condition.slice(4) : `not.${condition}`
+  }
+
+  const dotIndex = condition.indexOf('.')
+  const column = condition.slice(0, dotIndex)
+  const rest = condition.slice(dotIndex + 1)
+  return rest.startsWith('not.') ? `${column}.${rest.slice(4)}` : `${column}.not.${rest}`
+}
+
+/**
+ * Compile a single filter into PostgREST logical-expression syntax
+ * Returns null for filters that do not constrain anything
+ */
+export function compileFilterCondition(key: string, value: any, options: FilterOptions = {}): string | null {
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  if (key === 'or' && Array.isArray(value)) {
+    const groups = compileOrGroups(value, options)
+    return groups ? `or(${groups})` : null
+  }
+
+  if (!isFilterObject(value)) {
+    if (isCaseInsensitiveMatch(key, value, options)) {
+      return `${key}.ilike.${formatPostgrestValue(escapeLikePattern(value))}`
+    }
+    return `${key}.eq.${formatPostgrestValue(value)}`
+  }
+
+  const filterValue = value.value
+  switch (value.type) {
+    case 'eq':
+    case 'neq':
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return `${key}.${value.type}.${formatPostgrestValue(filterValue)}`
+    case 'between':
+      if (Array.isArray(filterValue) && filterValue.length === 2) {
+        return `and(${key}.gte.${formatPostgrestValue(filterValue[0])},${key}.lte.${formatPostgrestValue(filterValue[1])})`
+      }
+      return null
+    case 'like':
+    case 'ilike':
+      return `${key}.${value.type}.${formatPostgrestValue(`%${filterValue}%`)}`
+    case 'in':
+      return Array.isArray(filterValue) ? `${key}.in.${formatPostgrestList(filterValue)}` : null
+    case 'not_in':
+      return Array.isArray(filterValue) ? `${key}.not.in.${formatPostgrestList(filterValue)}` : null
+    case 'is_null':
+      return `${key}.is.null`
+    case 'not_null':
+      return `${key}.not.is.null`
+    case 'not': {
+      const inner = compileFilterCondition(key, filterValue, options)
+      return inner ? negateCondition(inner) : null
+    }
+    default:
+      return `${key}.eq.${formatPostgrestValue(filterValue)}`
+  }
+}
+
+/**
+ * Compile the alternatives of an "or" filter; each alternative is a filter map whose
+ * entries are ANDed, e.g. [{status: 'geplant'}, {status: 'in Arbeit'}]
+ */
+export function compileOrGroups(groups: Record<string, any>[], options: FilterOptions = {}): string | null {
+  const alternatives = groups
+    .map((group) => {
+      const conditions = Object.entries(group)
+        .map(([key, value]) => compileFilterCondition(key, value, options))
+        .filter((condition): condition is string => !!condition)
+      if (conditions.length === 0) {
+        return null
+      }
+      return conditions.length === 1 ? conditions[0] : `and(${conditions.join(',')})`
+    })
+    .filter((alternative): alternative is string => !!alternative)
+
+  return alternatives.length > 0 ? alternatives.join(',') : null
+}
+
+/**
+ * Columns referenced by a filter map, including those inside "or" groups
+ */
+export function getFilterColumns(filters: Record<string, any>): string[] {
+  const columns = new Set<string>()
+  for (const [key, value] of Object.entries(filters)) {
+    if (key === 'or' && Array.isArray(value)) {
+      for (const group of value) {
+        if (group && typeof group === 'object') {
+          getFilterColumns(group).forEach((column) => columns.add(column))
+        }
+      }
+    } else {
+      columns.add(key)
+    }
+  }
+  return Array.from(columns)
+}
+
+/**
+ * Apply sanitized filters to a query builder
+ * Supports simple key-value pairs (defaults to eq), advanced filter objects,
+ * "or" groups and "not" wrappers. Logical expressions are combined into a single
+ * or() call so that several of them are ANDed together.
+ */
+export function applyFilters<T>(
+  builder: T,
+  sanitizedFilters: Record<string, any>,
+  options: FilterOptions = {}
+): T {
+  let query: any = builder
+  const logicalExpressions: string[] = []
+
+  for (const [key, value] of Object.entries(sanitizedFilters)) {
+    if (value === undefined || value === null) {
+      continue
+    }
+
+    if (key === 'or' && Array.isArray(value)) {
+      const groups = compileOrGroups(value, options)
+      if (groups) {
+        logicalExpressions.push(groups)
+      }
+      continue
+    }
+
+    // If value is an object with filter type, use it
+    if (isFilterObject(value)) {
+      const filterType = value.type
+      const filterValue = value.value
+
+      switch (filterType) {
+        case 'eq':
+          query = query.eq(key, filterValue)
+          break
+        case 'neq':
+          query = query.neq(key, filterValue)
+          break
+        case 'gt':
+          query = query.gt(key, filterValue)
+          break
+        case 'gte':
+          query = query.gte(key, filterValue)
+          break
+        case 'lt':
+          query = query.lt(key, filterValue)
+          break
+        case 'lte':
+          query = query.lte(key, filterValue)
+          break
+        case 'between':
+          if (Array.isArray(filterValue) && filterValue.length === 2) {
+            query = query.gte(key, filterValue[0]).lte(key, filterValue[1])
+          }
+          break
+        case 'like':
+          query = query.like(key, `%${filterValue}%`)
+          break
+        case 'ilike':
+          query = query.ilike(key, `%${filterValue}%`)
+          break
+        case 'in':
+          if (Array.isArray(filterValue)) {
+            query = query.in(key, filterValue)
+          }
+          break
+        case 'not_in':
+          if (Array.isArray(filterValue)) {
+            query = query.not(key, 'in', formatPostgrestList(filterValue))
+          }
+          break
+        case 'is_null':
+          query = query.is(key, null)
+          break
+        case 'not_null':
+          query = query.not(key, 'is', null)
+          break
+        case 'not': {
+          const condition = compileFilterCondition(key, value, options)
+          if (condition) {
+            logicalExpressions.push(condition)
+          }
+          break
+        }
+        default:
+          query = query.eq(key, filterValue)
+      }
+    } else if (isCaseInsensitiveMatch(key, value, options)) {
+      query = query.ilike(key, escapeLikePattern(value))
+    } else {
+      // Simple equality filter
+      query = query.eq(key, value)
+    }
+  }
+
+  if (logicalExpressions.length === 1) {
+    query = query.or(logicalExpressions[0])
+  } else if (logicalExpressions.length > 1) {
+    query = query.or(`and(${logicalExpressions.map((expression) => `or(${expression})`).join(',')})`)
+  }
+
+  return query
+}
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  addWorkingDays,
+  describeNonWorkingDay,
+  getCompanyState,
+  getEasterSunday,
+  getHoliday,
+  getHolidays,
+  getWorkdayWarnings,
+  isWorkingDay,
+  type GermanState,
+} from './holidays'
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('getEasterSunday', () => {
+  it.each([
+    [2024, '2024-03-31'],
+    [2025, '2025-04-20'],
+    [2026, '2026-04-05'],
+  ])('%i -> %s', (year, date) => {
+    expect(getEasterSunday(year).toISOString().slice(0, 10)).toBe(date)
+  })
+})
+
+describe('getHoliday', () => {
+  it.each([
+    ['2024-03-29', 'NW', 'Karfreitag'],
+    ['2025-06-09', 'NW', 'Pfingstmontag'],
+    ['2026-05-14', 'NW', 'Christi Himmelfahrt'],
+    ['2026-06-04', 'NW', 'Fronleichnam'],
+    ['2026-04-05', 'BB', 'Ostersonntag'],
+    ['2024-03-08', 'BE', 'Internationaler Frauentag'],
+    ['2025-03-08', 'MV', 'Internationaler Frauentag'],
+    ['2026-03-08', 'BE', 'Internationaler Frauentag'],
+    ['2024-09-20', 'TH', 'Weltkindertag'],
+    ['2026-09-20', 'TH', 'Weltkindertag'],
+    ['2024-10-31', 'SN', 'Reformationstag'],
+    ['2025-10-31', 'NI', 'Reformationstag'],
+    ['2026-10-31', 'HH', 'Reformationstag'],
+    ['2024-11-20', 'SN', 'Buß- und Bettag'],
+    ['2025-11-19', 'SN', 'Buß- und Bettag'],
+    ['2026-11-18', 'SN', 'Buß- und Bettag'],
+  ] as const)('%s in %s is %s', (day, state, name) => {
+    expect(getHoliday(day, state)?.name).toBe(name)
+  })
+
+  it.each([
+    ['2026-03-08', 'NW'],
+    ['2022-03-08', 'MV'],
+    ['2026-09-20', 'BE'],
+    ['2026-10-31', 'NW'],
+    ['2017-10-31', 'HH'],
+    ['2026-11-18', 'BY'],
+    ['2026-04-05', 'NW'],
+  ] as const)('%s is no holiday in %s', (day, state) => {
+    expect(getHoliday(day, state)).toBeNull()
+  })
+
+  it('lists the holidays of a year in date order', () => {
+    const holidays = getHolidays(2026, 'NW')
+
+    expect(holidays.map((holiday) => holiday.date)).toEqual([
+      '2026-01-01',
+      '2026-04-03',
+      '2026-04-06',
+      '2026-05-01',
+      '2026-05-14',
+      '2026-05-25',
+      '2026-06-04',
+      '2026-10-03',
+      '2026-11-01',
+      '2026-12-25',
+      '2026-12-26',
+    ])
+    expect(holidays.find((holiday) => holiday.name === 'Fronleichnam')?.nationwide).toBe(false)
+    expect(holidays.find((holiday) => holiday.name === 'Ostermontag')?.nationwide).toBe(true)
+  })
+})
+
+describe('working days', () => {
+  it.each([
+    ['2026-10-19', 'NW', true],
+    ['2026-10-17', 'NW', false],
+    ['2026-10-18', 'NW', false],
+    ['2026-06-04', 'NW', false],
+    ['2026-06-04', 'BE', true],
+  ] as const)('%s in %s is a working day: %s', (day, state, expected) => {
+    expect(isWorkingDay(day, state)).toBe(expected)
+  })
+
+  it.each([
+    ['2026-04-02', 1, '2026-04-07'],
+    ['2026-04-07', -1, '2026-04-02'],
+    ['2026-10-16', 1, '2026-10-19'],
+    ['2026-12-23', 2, '2026-12-28'],
+  ])('%s plus %i working days is %s', (day, count, expected) => {
+    expect(addWorkingDays(day, count, 'NW')).toBe(expected)
+  })
+})
+
+describe('describeNonWorkingDay', () => {
+  it('warns about a Sunday', () => {
+    expect(describeNonWorkingDay('2026-10-18', 'NW')).toBe('Der 18.10.2026 ist ein Sonntag.')
+  })
+
+  it('warns about a holiday only in the states observing it', () => {
+    expect(describeNonWorkingDay('2026-11-18', 'SN')).toBe(
+      'Der 18.11.2026 ist ein Feiertag in Sachsen (Buß- und Bettag).'
+    )
+    expect(describeNonWorkingDay('2026-11-18', 'NW')).toBeNull()
+  })
+
+  it('uses COMPANY_STATE by default', () => {
+    vi.stubEnv('COMPANY_STATE', 'th')
+
+    expect(describeNonWorkingDay('2025-09-20')).toBe(
+      'Der 20.09.2025 ist ein Feiertag in Thüringen (Weltkindertag).'
+    )
+  })
+})
+
+describe('getCompanyState', () => {
+  it.each([
+    ['BY', 'BY'],
+    [' sn ', 'SN'],
+    ['XX', 'NW'],
+    [undefined, 'NW'],
+  ] as const)('COMPANY_STATE=%s -> %s', (value, state: GermanState) => {
+    expect(getCompanyState({ NODE_ENV: 'test', COMPANY_STATE: value })).toBe(state)
+  })
+})
+
+describe('getWorkdayWarnings', () => {
+  it('warns for morning plans on a holiday', () => {
+    vi.stubEnv('COMPANY_STATE', 'NW')
+
+    expect(getWorkdayWarnings('t_morningplan', { plan_date: '2026-12-25' })).toEqual([
+      'Der 25.12.2026 ist ein Feiertag in Nordrhein-Westfalen (1. Weihnachtstag).',
+    ])
+  })
+
+  it('ignores other tables and working days', () => {
+    expect(getWorkdayWarnings('t_projects', { project_date: '2026-12-25' })).toEqual([])
+    expect(getWorkdayWarnings('t_morningplan', { plan_date: '2026-10-19' })).toEqual([])
+  })
+})
@@ -0,0 +1,247 @@
+/**
+ * German public holidays and working days
+ * Holidays are computed per year for every federal state, movable feasts from the
+ * Easter date, so no calendar data has to be fetched. Working days are Monday to
+ * Friday except holidays of the company's state.
+ *
+ * Environment variables:
+ * - COMPANY_STATE: federal state of the company, e.g. "NW" (default) or "BY"
+ */
+
+import { getDateField } from './table-metadata'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const GERMAN_STATES = {
+  BW: 'Baden-Württemberg',
+  BY: 'Bayern',
+  BE: 'Berlin',
+  BB: 'Brandenburg',
+  HB: 'Bremen',
+  HH: 'Hamburg',
+  HE: 'Hessen',
+  MV: 'Mecklenburg-Vorpommern',
+  NI: 'Niedersachsen',
+  NW: 'Nordrhein-Westfalen',
+  RP: 'Rheinland-Pfalz',
+  SL: 'Saarland',
+  SN: 'Sachsen',
+  ST: 'Sachsen-Anhalt',
+  SH: 'Schleswig-Holstein',
+  TH: 'Thüringen',
+} as const
+
+export type GermanState = keyof typeof GERMAN_STATES
+
+export const DEFAULT_COMPANY_STATE: GermanState = 'NW'
+
+export interface Holiday {
+  /** YYYY-MM-DD */
+  date: string
+  name: string
+  /** True if the holiday applies in every state */
+  nationwide: boolean
+}
+
+interface HolidayRule {
+  name: string
+  /** Day of the holiday; easter is Easter Sunday of the year */
+  date: (year: number, easter: Date) => Date
+  /** States observing the holiday; all states if omitted */
+  states?: GermanState[]
+  /** First year the holiday is observed */
+  since?: number
+}
+
+const fixed = (month: number, day: number) => (year: number) => new Date(Date.UTC(year, month - 1, day))
+const fromEaster = (days: number) => (_year: number, easter: Date) => new Date(easter.getTime() + days * DAY_MS)
+
+const HOLIDAY_RULES: HolidayRule[] = [
+  { name: 'Neujahr', date: fixed(1, 1) },
+  { name: 'Heilige Drei Könige', date: fixed(1, 6), states: ['BW', 'BY', 'ST'] },
+  { name: 'Internationaler Frauentag', date: fixed(3, 8), states: ['BE'], since: 2019 },
+  { name: 'Internationaler Frauentag', date: fixed(3, 8), states: ['MV'], since: 2023 },
+  { name: 'Karfreitag', date: fromEaster(-2) },
+  { name: 'Ostersonntag', date: fromEaster(0), states: ['BB'] },
+  { name: 'Ostermontag', date: fromEaster(1) },
+  { name: 'Tag der Arbeit', date: fixed(5, 1) },
+  { name: 'Christi Himmelfahrt', date: fromEaster(39) },
+  { name: 'Pfingstsonntag', date: fromEaster(49), states: ['BB'] },
+  { name: 'Pfingstmontag', date: fromEaster(50) },
+  { name: 'Fronleichnam', date: fromEaster(60), states: ['BW', 'BY', 'HE', 'NW', 'RP', 'SL'] },
+  { name: 'Mariä Himmelfahrt', date: fixed(8, 15), states: ['SL'] },
+  { name: 'Weltkindertag', date: fixed(9, 20), states: ['TH'], since: 2019 },
+  { name: 'Tag der Deutschen Einheit', date: fixed(10, 3) },
+  { name: 'Reformationstag', date: fixed(10, 31), states: ['BB', 'MV', 'SN', 'ST', 'TH'] },
+  { name: 'Reformationstag', date: fixed(10, 31), states: ['HB', 'HH', 'NI', 'SH'], since: 2018 },
+  { name: 'Allerheiligen', date: fixed(11, 1), states: ['BW', 'BY', 'NW', 'RP', 'SL'] },
+  // Wednesday before 23 November
+  {
+    name: 'Buß- und Bettag',
+    date: (year) => {
+      const reference = new Date(Date.UTC(year, 10, 22))
+      return new Date(reference.getTime() - ((reference.getUTCDay() + 4) % 7) * DAY_MS)
+    },
+    states: ['SN'],
+  },
+  { name: '1. Weihnachtstag', date: fixed(12, 25) },
+  { name: '2. Weihnachtstag', date: fixed(12, 26) },
+]
+
+// Tables whose date is a working day that should not fall on a Sunday or holiday
+const WORKDAY_TABLES = ['t_morningplan']
+
+const holidayCache = new Map<string, Holiday[]>()
+
+/**
+ * Easter Sunday of a year (Gregorian calendar, anonymous algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+export function isGermanState(value: string): value is GermanState {
+  return value in GERMAN_STATES
+}
+
+/**
+ * Federal state of the company from COMPANY_STATE; falls back to NW
+ */
+export function getCompanyState(env: NodeJS.ProcessEnv = process.env): GermanState {
+  const value = env.COMPANY_STATE?.trim().toUpperCase()
+  return value && isGermanState(value) ? value : DEFAULT_COMPANY_STATE
+}
+
+/**
+ * Public holidays of a year in a state, in date order
+ */
+export function getHolidays(year: number, state: GermanState = getCompanyState()): Holiday[] {
+  const key = `${state}:${year}`
+  const cached = holidayCache.get(key)
+  if (cached) {
+    return cached
+  }
+
+  const easter = getEasterSunday(year)
+  const holidays = HOLIDAY_RULES.filter(
+    (rule) => (!rule.states || rule.states.includes(state)) && (!rule.since || year >= rule.since)
+  )
+    .map((rule) => ({
+      date: rule.date(year, easter).toISOString().slice(0, 10),
+      name: rule.name,
+      nationwide: !rule.states,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  holidayCache.set(key, holidays)
+  return holidays
+}
+
+/**
+ * The holiday on a day (YYYY-MM-DD), or null
+ */
+export function getHoliday(isoDay: string, state: GermanState = getCompanyState()): Holiday | null {
+  return getHolidays(Number(isoDay.slice(0, 4)), state).find((holiday) => holiday.date === isoDay) || null
+}
+
+function weekday(isoDay: string): number {
+  return new Date(`${isoDay}T00:00:00Z`).getUTCDay()
+}
+
+function shiftDay(isoDay: string, days: number): string {
+  return new Date(Date.parse(`${isoDay}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Monday to Friday and not a holiday
+ */
+export function isWorkingDay(isoDay: string, state: GermanState = getCompanyState()): boolean {
+  const day = weekday(isoDay)
+  return day !== 0 && day !== 6 && !getHoliday(isoDay, state)
+}
+
+/**
+ * The working day `count` working days after (or, if negative, before) a day
+ * "nächster Werktag" is addWorkingDays(today, 1).
+ */
+export function addWorkingDays(isoDay: string, count: number, state: GermanState = getCompanyState()): string {
+  const step = count < 0 ? -1 : 1
+  let remaining = Math.abs(count)
+  let current = isoDay
+  while (remaining > 0) {
+    current = shiftDay(current, step)
+    if (isWorkingDay(current, state)) {
+      remaining--
+    }
+  }
+  return current
+}
+
+/**
+ * Working days and holidays between two days (inclusive)
+ */
+export function summarizeWorkingDays(
+  start: string,
+  end: string,
+  state: GermanState = getCompanyState()
+): { workingDays: number; holidays: Holiday[] } {
+  let workingDays = 0
+  const holidays: Holiday[] = []
+  for (let current = start; current <= end; current = shiftDay(current, 1)) {
+    const holiday = getHoliday(current, state)
+    if (holiday) {
+      holidays.push(holiday)
+    }
+    if (isWorkingDay(current, state)) {
+      workingDays++
+    }
+  }
+  return { workingDays, holidays }
+}
+
+function formatGermanDay(isoDay: string): string {
+  const [year, month, day] = isoDay.split('-')
+  return `${day}.${month}.${year}`
+}
+
+/**
+ * German warning if a day is a Sunday or a holiday in the state, else null
+ */
+export function describeNonWorkingDay(isoDay: string, state: GermanState = getCompanyState()): string | null {
+  const holiday = getHoliday(isoDay, state)
+  if (holiday) {
+    return `Der ${formatGermanDay(isoDay)} ist ein Feiertag in ${GERMAN_STATES[state]} (${holiday.name}).`
+  }
+  if (weekday(isoDay) === 0) {
+    return `Der ${formatGermanDay(isoDay)} ist ein Sonntag.`
+  }
+  return null
+}
+
+/**
+ * Warnings for a write whose date lands on a Sunday or holiday (morning plans only)
+ */
+export function getWorkdayWarnings(tableName: string, values: Record<string, any>): string[] {
+  const field = getDateField(tableName)
+  if (!field || !WORKDAY_TABLES.includes(tableName)) {
+    return []
+  }
+  const value = values[field.dateColumn]
+  const isoDay = typeof value === 'string' ? value.match(/^\d{4}-\d{2}-\d{2}/)?.[0] : undefined
+  const warning = isoDay ? describeNonWorkingDay(isoDay) : null
+  return warning ? [warning] : []
+}
@@ -0,0 +1,88 @@
+/**
+ * LLM provider selection
+ *
+ * Configured via environment variables:
+ * - LLM_PROVIDER: "openai" (default), "openai-compatible" or "scripted"
+ * - LLM_MODEL: model name (default: gpt-4o)
+ * - LLM_TEMPERATURE: sampling temperature (default: 0.3)
+ * - LLM_BASE_URL / LLM_API_KEY: endpoint of an OpenAI-compatible server
+ * - LLM_STREAM_USAGE: "true" to request token usage in streamed responses of an OpenAI-compatible server
+ * - LLM_SCRIPT_PATH: JSON file with scripted turns for the "scripted" provider
+ */
+
+import { readFileSync } from 'fs'
+import { createOpenAIProvider, createOpenAICompatibleProvider } from './openai-provider'
+import { createScriptedProvider, type ScriptedTurn } from './scripted-provider'
+import type { LLMProvider } from './types'
+
+const DEFAULT_MODEL = 'gpt-4o'
+// Lower temperature to reduce hallucinations and be more factual
+const DEFAULT_TEMPERATURE = 0.3
+
+let cachedProvider: LLMProvider | null = null
+
+function loadScript(path: string | undefined): ScriptedTurn[] {
+  if (!path) {
+    throw new Error('LLM_SCRIPT_PATH is not set')
+  }
+
+  const parsed = JSON.parse(readFileSync(path, 'utf8'))
+  if (!Array.isArray(parsed)) {
+    throw new Error('LLM_SCRIPT_PATH must point to a JSON array of turns')
+  }
+  return parsed
+}
+
+/**
+ * Create a provider from the environment
+ */
+export function createLLMProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  const model = env.LLM_MODEL || DEFAULT_MODEL
+  const parsedTemperature = Number(env.LLM_TEMPERATURE)
+  const temperature = env.LLM_TEMPERATURE && Number.isFinite(parsedTemperature)
+    ? parsedTemperature
+    : DEFAULT_TEMPERATURE
+
+  switch (env.LLM_PROVIDER || 'openai') {
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+        model,
+        temperature,
+      })
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider({
+        apiKey: env.LLM_API_KEY,
+        baseURL: env.LLM_BASE_URL,
+        model,
+        temperature,
+        streamUsage: env.LLM_STREAM_USAGE === 'true',
+      })
+    case 'scripted':
+      return createScriptedProvider(loadScript(env.LLM_SCRIPT_PATH))
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${env.LLM_PROVIDER}`)
+  }
+}
+
+/**
+ * Get the configured provider (created once per server instance)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProviderFromEnv()
+  }
+  return cachedProvider
+}
+
+/**
+ * Replace the configured provider, e.g. with a scripted provider in tests
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  cachedProvider = provider
+}
+
+export { createOpenAIProvider, createOpenAICompatibleProvider } from './openai-provider'
+export { createScriptedProvider } from './scripted-provider'
+export type { ScriptedTurn } from './scripted-provider'
+export type * from './types'
@@ -0,0 +1,127 @@
+/**
+ * OpenAI chat completion provider
+ * Also used for self-hosted models behind an OpenAI-compatible API
+ */
+
+import OpenAI from 'openai'
+import type { LLMCompletionRequest, LLMProvider, LLMStreamDelta } from './types'
+
+export interface OpenAIProviderOptions {
+  apiKey?: string
+  baseURL?: string
+  model: string
+  temperature: number
+  /** Request token usage in streamed responses (stream_options); not every compatible server accepts it */
+  streamUsage?: boolean
+}
+
+function createProvider(name: string, client: OpenAI, options: OpenAIProviderOptions): LLMProvider {
+  const buildParams = (request: LLMCompletionRequest) => ({
+    model: options.model,
+    messages: request.messages as any[],
+    temperature: options.temperature,
+    ...(request.tools && request.tools.length > 0
+      ? { tools: request.tools, tool_choice: 'auto' as const }
+      : {}),
+  })
+
+  return {
+    name,
+    model: options.model,
+    complete: async (request) => {
+      const completion = await client.chat.completions.create(buildParams(request))
+      const message = completion.choices[0].message
+
+      return {
+        message: {
+          role: 'assistant',
+          content: message.content,
+          tool_calls: message.tool_calls?.map((toolCall) => ({
+            id: toolCall.id,
+            type: 'function' as const,
+            function: {
+              name: toolCall.function.name,
+              arguments: toolCall.function.arguments,
+            },
+          })),
+        },
+        usage: completion.usage
+          ? {
+              promptTokens: completion.usage.prompt_tokens,
+              completionTokens: completion.usage.completion_tokens,
+              totalTokens: completion.usage.total_tokens,
+            }
+          : undefined,
+      }
+    },
+    stream: async function* (request): AsyncIterable<LLMStreamDelta> {
+      const stream = await client.chat.completions.create({
+        ...buildParams(request),
+        stream: true,
+        ...(options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      })
+
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          yield {
+            type: 'usage',
+            usage: {
+              promptTokens: chunk.usage.prompt_tokens,
+              completionTokens: chunk.usage.completion_tokens,
+              totalTokens: chunk.usage.total_tokens,
+            },
+          }
+        }
+
+        const delta = chunk.choices[0]?.delta
+        if (!delta) continue
+
+        if (delta.tool_calls) {
+          for (const toolCall of delta.tool_calls) {
+            yield {
+              type: 'tool_call',
+              index: toolCall.index ?? 0,
+              id: toolCall.id,
+              name: toolCall.function?.name,
+              arguments: toolCall.function?.arguments,
+            }
+          }
+          continue
+        }
+
+        if (delta.content) {
+          yield { type: 'content', content: delta.content }
+        }
+      }
+    },
+  }
+}
+
+/**
+ * Provider for the hosted OpenAI API
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  if (!options.apiKey) {
+    throw new Error('OPENAI_API_KEY is not set')
+  }
+
+  return createProvider('openai', new OpenAI({ apiKey: options.apiKey }), { streamUsage: true, ...options })
+}
+
+/**
+ * Provider for self-hosted models with an OpenAI-compatible API (e.g. vLLM, Ollama, LM Studio)
+ * Many of these servers do not check the API key, so a placeholder is used when none is set,
+ * and stream_options is only sent when streamUsage is enabled
+ */
+export function createOpenAICompatibleProvider(options: OpenAIProviderOptions): LLMProvider {
+  if (!options.baseURL) {
+    throw new Error('LLM_BASE_URL is not set')
+  }
+
+  const client = new OpenAI({
+    apiKey: options.apiKey || 'not-needed',
+    baseURL: options.baseURL,
+  })
+
+  return createProvider('openai-compatible', client, options)
+}
@@ -0,0 +1,87 @@
+/**
+ * Deterministic stand-in provider that replays canned responses and tool calls
+ * Used to run the full chat pipeline offline and in automated tests
+ */
+
+import type { LLMCompletionResult, LLMProvider, LLMStreamDelta, LLMToolCall } from './types'
+
+/**
+ * One scripted assistant turn
+ * Turns are replayed in order; each completion request consumes one turn
+ */
+export interface ScriptedTurn {
+  content?: string
+  toolCalls?: Array<{
+    name: string
+    arguments: Record<string, any>
+  }>
+}
+
+const EXHAUSTED_RESPONSE = 'Das Testskript enthält keine weiteren Antworten.'
+
+/**
+ * Create a provider that replays the given turns in order
+ */
+export function createScriptedProvider(turns: ScriptedTurn[]): LLMProvider {
+  let position = 0
+
+  const nextResult = (): LLMCompletionResult => {
+    const turn = turns[position]
+    if (!turn) {
+      return { message: { role: 'assistant', content: EXHAUSTED_RESPONSE } }
+    }
+
+    const turnIndex = position
+    position += 1
+
+    const toolCalls: LLMToolCall[] | undefined = turn.toolCalls?.map((toolCall, index) => ({
+      id: `call_scripted_${turnIndex}_${index}`,
+      type: 'function',
+      function: {
+        name: toolCall.name,
+        arguments: JSON.stringify(toolCall.arguments || {}),
+      },
+    }))
+
+    return {
+      message: {
+        role: 'assistant',
+        content: turn.content ?? null,
+        tool_calls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+      },
+      usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+    }
+  }
+
+  return {
+    name: 'scripted',
+    model: 'scripted',
+    complete: async () => nextResult(),
+    stream: async function* (): AsyncIterable<LLMStreamDelta> {
+      const { message, usage } = nextResult()
+
+      if (message.tool_calls) {
+        for (const [index, toolCall] of message.tool_calls.entries()) {
+          yield {
+            type: 'tool_call',
+            index,
+            id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments,
+          }
+        }
+      }
+
+      if (message.content) {
+        // Emit word by word so the client sees a realistic token stream
+        for (const piece of message.content.match(/\S+\s*|\s+/g) || []) {
+          yield { type: 'content', content: piece }
+        }
+      }
+
+      if (usage) {
+        yield { type: 'usage', usage }
+      }
+    },
+  }
+}
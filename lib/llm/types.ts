@@ -0,0 +1,65 @@
+/**
+ * Provider-independent types for chat completions with tool calls
+ */
+
+export interface LLMToolCall {
+  id: string
+  type: 'function'
+  function: {
+    name: string
+    arguments: string
+  }
+}
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string | null
+  tool_calls?: LLMToolCall[]
+  tool_call_id?: string
+}
+
+export interface LLMToolDefinition {
+  type: 'function'
+  function: {
+    name: string
+    description: string
+    parameters: Record<string, unknown>
+  }
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMMessage[]
+  tools?: LLMToolDefinition[]
+}
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LLMCompletionResult {
+  message: {
+    role: 'assistant'
+    content: string | null
+    tool_calls?: LLMToolCall[]
+  }
+  usage?: LLMUsage
+}
+
+/**
+ * Incremental piece of a streamed completion
+ * Tool call deltas with the same index belong to the same call; their
+ * arguments must be concatenated
+ */
+export type LLMStreamDelta =
+  | { type: 'content'; content: string }
+  | { type: 'tool_call'; index: number; id?: string; name?: string; arguments?: string }
+  | { type: 'usage'; usage: LLMUsage }
+
+export interface LLMProvider {
+  name: string
+  model: string
+  complete: (request: LLMCompletionRequest) => Promise<LLMCompletionResult>
+  stream: (request: LLMCompletionRequest) => AsyncIterable<LLMStreamDelta>
+}
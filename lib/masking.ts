@@ -0,0 +1,48 @@
+/**
+ * Masking of sensitive columns in tool results
+ * Hidden values are replaced with a marker, so the assistant can tell the user a value
+ * is hidden rather than missing. Objects carrying a tableName (audit entries, pending
+ * actions) apply the rules of that table to their contents, and rows embedded under a
+ * relation key (joins such as "t_employees(*)") apply the rules of the related table.
+ */
+
+import { isColumnHidden, type Role } from './permissions'
+
+export const MASKED_VALUE = '[verborgen]'
+
+function maskValue(value: any, role: Role, tables: string[], masked: Set<string>): any {
+  if (Array.isArray(value)) {
+    return value.map((item) => maskValue(item, role, tables, masked))
+  }
+  if (!value || typeof value !== 'object' || value instanceof Date) {
+    return value
+  }
+
+  const scopedTables = typeof value.tableName === 'string' ? [...tables, value.tableName] : tables
+  const result: Record<string, any> = {}
+  for (const [key, entry] of Object.entries(value)) {
+    if (entry !== null && entry !== undefined && scopedTables.some((tableName) => isColumnHidden(role, tableName, key))) {
+      result[key] = MASKED_VALUE
+      masked.add(key)
+    } else {
+      // A nested object or list under a key is a relation named after its table
+      const nestedTables = entry && typeof entry === 'object' ? [...scopedTables, key] : scopedTables
+      result[key] = maskValue(entry, role, nestedTables, masked)
+    }
+  }
+  return result
+}
+
+/**
+ * Mask the columns of the given tables that the role may not see
+ * Adds maskedColumns to object results when anything was masked
+ */
+export function maskSensitiveData<T>(value: T, role: Role, tables: string[]): T {
+  const masked = new Set<string>()
+  const result = maskValue(value, role, tables, masked)
+
+  if (masked.size > 0 && result && typeof result === 'object' && !Array.isArray(result)) {
+    result.maskedColumns = Array.from(masked)
+  }
+  return result
+}
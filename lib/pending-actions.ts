@@ -0,0 +1,369 @@
+/**
+ * Server-side store for proposed write operations awaiting user confirmation
+ * Note: For production, use a shared store (e.g. Redis) so actions survive across instances
+ */
+
+import { randomUUID } from 'crypto'
+import type { ConfirmationRequest, WriteActionKind, WritePreview } from '@/types'
+import { checkPermission, type Role, type TableAction } from './permissions'
+import { insertRow, updateRow, deleteRow } from './supabase-query'
+import { getTableMetadata } from './table-metadata'
+import { discardUndoableBatch } from './undo'
+
+export type PendingActionKind = WriteActionKind
+
+/**
+ * A row inserted together with the main row of an INSERT, e.g. the staff of a morning plan
+ */
+export interface DependentInsert {
+  tableName: string
+  values: Record<string, any>
+  /** Columns filled from the inserted main row: dependent column → main row column */
+  parentKeys: Record<string, string>
+}
+
+export interface PendingAction {
+  id: string
+  kind: PendingActionKind
+  tableName: string
+  filters?: Record<string, any>
+  values?: Record<string, any>
+  expectedCount?: number
+  dependentInserts?: DependentInsert[]
+  previewRows: Record<string, any>[]
+  preview: WritePreview
+  clientId: string
+  createdAt: number
+  expiresAt: number
+  status: 'pending' | 'executed'
+}
+
+/**
+ * Summary of a pending action that is safe to send to the model and the client
+ */
+export interface PendingActionSummary {
+  id: string
+  kind: PendingActionKind
+  tableName: string
+  filters?: Record<string, any>
+  values?: Record<string, any>
+  expectedCount?: number
+  dependentInserts?: DependentInsert[]
+  previewRows: Record<string, any>[]
+  preview: WritePreview
+  expiresAt: string
+}
+
+export const PENDING_ACTION_TTL_MS = 5 * 60 * 1000 // 5 minutes
+
+const KIND_PERMISSIONS: Record<PendingActionKind, TableAction> = {
+  INSERT: 'insert',
+  UPDATE: 'update',
+  DELETE: 'delete',
+}
+
+// In-memory store (in production, use Redis or similar)
+const pendingActionStore = new Map<string, PendingAction>()
+
+/**
+ * Remove actions that are long past their expiry
+ * Executed and expired actions are kept for one extra TTL so that late
+ * confirmations get a precise error instead of "unknown action"
+ */
+function pruneExpiredActions(now: number) {
+  for (const [id, action] of pendingActionStore.entries()) {
+    if (action.expiresAt + PENDING_ACTION_TTL_MS < now) {
+      pendingActionStore.delete(id)
+    }
+  }
+}
+
+/**
+ * Store a proposed write and return it with its opaque id
+ */
+export function createPendingAction(input: {
+  kind: PendingActionKind
+  tableName: string
+  filters?: Record<string, any>
+  values?: Record<string, any>
+  expectedCount?: number
+  dependentInserts?: DependentInsert[]
+  previewRows?: Record<string, any>[]
+  preview: WritePreview
+  clientId: string
+}): PendingAction {
+  const now = Date.now()
+  pruneExpiredActions(now)
+
+  const action: PendingAction = {
+    id: randomUUID(),
+    kind: input.kind,
+    tableName: input.tableName,
+    filters: input.filters,
+    values: input.values,
+    expectedCount: input.expectedCount,
+    dependentInserts: input.dependentInserts,
+    previewRows: input.previewRows || [],
+    preview: input.preview,
+    clientId: input.clientId,
+    createdAt: now,
+    expiresAt: now + PENDING_ACTION_TTL_MS,
+    status: 'pending',
+  }
+
+  pendingActionStore.set(action.id, action)
+  return action
+}
+
+/**
+ * Convert a pending action into its public summary
+ */
+export function summarizePendingAction(action: PendingAction): PendingActionSummary {
+  return {
+    id: action.id,
+    kind: action.kind,
+    tableName: action.tableName,
+    filters: action.filters,
+    values: action.values,
+    expectedCount: action.expectedCount,
+    dependentInserts: action.dependentInserts,
+    previewRows: action.previewRows,
+    preview: action.preview,
+    expiresAt: new Date(action.expiresAt).toISOString(),
+  }
+}
+
+/**
+ * The part of a pending action the client needs to render a confirmation card
+ */
+export function toConfirmationRequest(summary: PendingActionSummary): ConfirmationRequest {
+  return {
+    actionId: summary.id,
+    expiresAt: summary.expiresAt,
+    preview: summary.preview,
+  }
+}
+
+/**
+ * Claim a pending action for execution
+ * Marks the action as executed before returning it, so a replayed id is rejected
+ */
+export function claimPendingAction(
+  id: string,
+  clientId: string
+): {
+  action?: PendingAction
+  error?: string
+} {
+  const action = pendingActionStore.get(id)
+
+  if (!action) {
+    return {
+      error: 'Diese Bestätigung bezieht sich auf keine bekannte Aktion. Bitte stelle die Anfrage erneut.',
+    }
+  }
+
+  if (action.clientId !== clientId) {
+    return {
+      error: 'Diese Aktion gehört zu einer anderen Sitzung und kann hier nicht bestätigt werden.',
+    }
+  }
+
+  if (action.status === 'executed') {
+    return {
+      error: 'Diese Aktion wurde bereits ausgeführt und kann nicht erneut bestätigt werden.',
+    }
+  }
+
+  if (action.expiresAt < Date.now()) {
+    return {
+      error: 'Die Bestätigung ist abgelaufen. Bitte stelle die Anfrage erneut, damit ich die Änderung neu vorbereiten kann.',
+    }
+  }
+
+  action.status = 'executed'
+  return { action }
+}
+
+/**
+ * Discard a pending action (e.g. when the user cancels)
+ */
+export function discardPendingAction(id: string, clientId: string): boolean {
+  const action = pendingActionStore.get(id)
+  if (!action || action.clientId !== clientId || action.status !== 'pending') {
+    return false
+  }
+
+  pendingActionStore.delete(id)
+  return true
+}
+
+/**
+ * Delete rows inserted by a failed batch again, newest first
+ */
+async function rollbackInserts(
+  inserted: Array<{ tableName: string; row: Record<string, any> }>,
+  options: { userId?: string; ipAddress?: string }
+): Promise<boolean> {
+  let complete = true
+  for (const { tableName, row } of [...inserted].reverse()) {
+    const primaryKey = getTableMetadata(tableName)?.primaryKey || []
+    const filters = Object.fromEntries(primaryKey.map((column) => [column, row[column]]))
+    if (primaryKey.length === 0 || Object.values(filters).some((value) => value === undefined || value === null)) {
+      complete = false
+      continue
+    }
+    const result = await deleteRow(tableName, filters, {
+      ...options,
+      expectedCount: 1,
+      auditMetadata: { rollback: true },
+    })
+    if (result.error) {
+      complete = false
+    }
+  }
+  return complete
+}
+
+/**
+ * Insert the main row and its dependent rows as one unit
+ * If any insert fails, the rows inserted so far are deleted again. All writes share a
+ * batch id so that "mach das rückgängig" reverts them together.
+ */
+async function executeInsertBatch(
+  action: PendingAction,
+  options: { userId?: string; ipAddress?: string }
+): Promise<{ success: boolean; message: string; data?: any }> {
+  const batchId = randomUUID()
+  const writeOptions = { ...options, auditMetadata: { batchId } }
+  const inserted: Array<{ tableName: string; row: Record<string, any> }> = []
+
+  const fail = async (error: string) => {
+    const rolledBack = await rollbackInserts(inserted, options)
+    discardUndoableBatch(batchId)
+    return {
+      success: false,
+      message: rolledBack
+        ? `Der Eintrag konnte nicht erstellt werden (${error}). Es wurde nichts gespeichert.`
+        : `Der Eintrag konnte nicht vollständig erstellt werden (${error}). Bereits gespeicherte Zeilen konnten nicht alle entfernt werden, bitte prüfe ${action.tableName}.`,
+    }
+  }
+
+  const main = await insertRow(action.tableName, action.values || {}, writeOptions)
+  if (main.error || !main.data) {
+    return fail(main.error || 'Keine Daten zurückgegeben.')
+  }
+  inserted.push({ tableName: action.tableName, row: main.data })
+
+  const dependents: Record<string, any>[] = []
+  for (const dependent of action.dependentInserts || []) {
+    const values = { ...dependent.values }
+    for (const [column, parentColumn] of Object.entries(dependent.parentKeys)) {
+      values[column] = main.data[parentColumn]
+    }
+    const result = await insertRow(dependent.tableName, values, writeOptions)
+    if (result.error || !result.data) {
+      return fail(result.error || 'Keine Daten zurückgegeben.')
+    }
+    inserted.push({ tableName: dependent.tableName, row: result.data })
+    dependents.push(result.data)
+  }
+
+  return {
+    success: true,
+    message: `Der Eintrag wurde zusammen mit ${dependents.length} zugehörigen Zeile(n) erfolgreich erstellt. Soll ich dir die Details anzeigen?`,
+    data: { ...main.data, dependents },
+  }
+}
+
+/**
+ * Execute a claimed pending action and return a German message for the user
+ * The role's permissions are checked again, so a confirmation never bypasses the policy
+ */
+export async function executePendingAction(
+  action: PendingAction,
+  actor: {
+    userId?: string
+    ipAddress?: string
+    role: Role
+  }
+): Promise<{ success: boolean; message: string; data?: any }> {
+  const { role, ...options } = actor
+  const permission = checkPermission(
+    role,
+    KIND_PERMISSIONS[action.kind],
+    action.tableName,
+    Object.keys(action.values || {})
+  )
+  if (!permission.allowed) {
+    return { success: false, message: permission.reason }
+  }
+  for (const dependent of action.dependentInserts || []) {
+    const dependentPermission = checkPermission(role, 'insert', dependent.tableName, [
+      ...Object.keys(dependent.values),
+      ...Object.keys(dependent.parentKeys),
+    ])
+    if (!dependentPermission.allowed) {
+      return { success: false, message: dependentPermission.reason }
+    }
+  }
+
+  switch (action.kind) {
+    case 'INSERT': {
+      if (action.dependentInserts?.length) {
+        return executeInsertBatch(action, options)
+      }
+      const result = await insertRow(action.tableName, action.values || {}, options)
+      if (result.error) {
+        return {
+          success: false,
+          message: `Der Eintrag konnte nicht erstellt werden: ${result.error}`,
+        }
+      }
+      return {
+        success: true,
+        message: 'Der Eintrag wurde erfolgreich erstellt. Soll ich dir die Details anzeigen?',
+        data: result.data,
+      }
+    }
+    case 'UPDATE': {
+      const result = await updateRow(action.tableName, action.filters || {}, action.values || {}, {
+        ...options,
+        expectedCount: action.expectedCount,
+      })
+      if (result.error) {
+        return {
+          success: false,
+          message: `Der Eintrag konnte nicht aktualisiert werden: ${result.error}`,
+        }
+      }
+      return {
+        success: true,
+        message: action.expectedCount && action.expectedCount > 1
+          ? `${action.expectedCount} Einträge wurden erfolgreich aktualisiert.`
+          : 'Der Eintrag wurde erfolgreich aktualisiert.',
+        data: result.data,
+      }
+    }
+    case 'DELETE': {
+      const result = await deleteRow(action.tableName, action.filters || {}, {
+        ...options,
+        expectedCount: action.expectedCount,
+      })
+      if (result.error) {
+        return {
+          success: false,
+          message: `Der Eintrag konnte nicht gelöscht werden: ${result.error}`,
+        }
+      }
+      const deletedCount = result.data?.deleted_count || 0
+      return {
+        success: deletedCount > 0,
+        message: deletedCount > 0
+          ? `Der Eintrag wurde erfolgreich gelöscht. ${deletedCount} Zeile(n) wurden entfernt.`
+          : 'Keine Zeilen wurden gelöscht. Möglicherweise existiert der Eintrag nicht mehr.',
+        data: result.data,
+      }
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Role-based permissions for tables, actions and columns
+ * Writes are additionally limited to INSERT_ALLOWED_TABLES, whatever the role
+ */
+
+import { INSERT_ALLOWED_TABLES } from './constants'
+
+export type Role = 'viewer' | 'disponent' | 'admin'
+
+export type TableAction = 'read' | 'insert' | 'update' | 'delete'
+
+export const ROLES: Role[] = ['viewer', 'disponent', 'admin']
+
+export interface TablePolicy {
+  actions: TableAction[]
+  /** Columns this role may read but not write */
+  readOnlyColumns?: string[]
+}
+
+export interface RolePolicy {
+  label: string
+  tables: Record<string, TablePolicy>
+  /** Policy for tables and views not listed above */
+  defaultTable: TablePolicy
+}
+
+const READ_ONLY: TablePolicy = { actions: ['read'] }
+const FULL_ACCESS: TablePolicy = { actions: ['read', 'insert', 'update', 'delete'] }
+
+export const ROLE_POLICIES: Record<Role, RolePolicy> = {
+  viewer: {
+    label: 'Betrachter',
+    tables: {},
+    defaultTable: READ_ONLY,
+  },
+  disponent: {
+    label: 'Disponent',
+    tables: {
+      t_projects: { actions: ['read', 'insert', 'update'] },
+      t_morningplan: FULL_ACCESS,
+      t_morningplan_staff: FULL_ACCESS,
+      t_vehicles: { actions: ['read', 'update'] },
+      t_employees: { actions: ['read', 'update'], readOnlyColumns: ['hourly_rate'] },
+    },
+    defaultTable: READ_ONLY,
+  },
+  admin: {
+    label: 'Administrator',
+    tables: {},
+    defaultTable: FULL_ACCESS,
+  },
+}
+
+/**
+ * Columns only some roles may see; hidden values are masked in tool results
+ * A rule lists columns by name or matches them by pattern (for views with computed columns)
+ */
+export interface SensitiveColumnRule {
+  tables: string[]
+  columns?: string[]
+  pattern?: RegExp
+  visibleTo: Role[]
+}
+
+export const SENSITIVE_COLUMN_RULES: SensitiveColumnRule[] = [
+  { tables: ['t_employees'], columns: ['hourly_rate'], visibleTo: ['admin'] },
+  {
+    tables: ['v_employee_costs', 'v_employee_kpi'],
+    pattern: /rate|cost|kosten|lohn|gehalt|salary|wage/i,
+    visibleTo: ['admin'],
+  },
+]
+
+const ACTION_LABELS: Record<TableAction, string> = {
+  read: 'lesen',
+  insert: 'anlegen',
+  update: 'ändern',
+  delete: 'löschen',
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && ROLES.includes(value as Role)
+}
+
+/**
+ * Role of a user, falling back to AUTH_DEFAULT_ROLE (default: viewer)
+ */
+export function resolveRole(value: unknown): Role {
+  if (isRole(value)) {
+    return value
+  }
+  const fallback = process.env.AUTH_DEFAULT_ROLE
+  return isRole(fallback) ? fallback : 'viewer'
+}
+
+/**
+ * Whether a column of a table is hidden from a role
+ */
+export function isColumnHidden(role: Role, tableName: string, column: string): boolean {
+  return SENSITIVE_COLUMN_RULES.some((rule) =>
+    !rule.visibleTo.includes(role) &&
+    rule.tables.includes(tableName) &&
+    (!!rule.columns?.includes(column) || !!rule.pattern?.test(column))
+  )
+}
+
+function getTablePolicy(role: Role, tableName: string): TablePolicy {
+  const policy = ROLE_POLICIES[role]
+  return policy.tables[tableName] || policy.defaultTable
+}
+
+/**
+ * Check whether a role may perform an action on a table (and the given columns)
+ * Returns a German explanation when it may not
+ */
+export function checkPermission(
+  role: Role,
+  action: TableAction,
+  tableName: string,
+  columns: string[] = []
+): { allowed: true } | { allowed: false; reason: string } {
+  const roleLabel = ROLE_POLICIES[role].label
+
+  if (action !== 'read' && !INSERT_ALLOWED_TABLES.has(tableName)) {
+    return { allowed: false, reason: `In der Tabelle ${tableName} darf niemand über den Chat Daten ${ACTION_LABELS[action]}.` }
+  }
+
+  const tablePolicy = getTablePolicy(role, tableName)
+  if (!tablePolicy.actions.includes(action)) {
+    return {
+      allowed: false,
+      reason: `Als ${roleLabel} darfst du in ${tableName} keine Daten ${ACTION_LABELS[action]}. Bitte wende dich an einen Administrator.`,
+    }
+  }
+
+  // Filtering, sorting or aggregating on a hidden column would reveal its values
+  if (action === 'read') {
+    const hiddenColumns = columns.filter((column) => isColumnHidden(role, tableName, column))
+    if (hiddenColumns.length > 0) {
+      return {
+        allowed: false,
+        reason: `Als ${roleLabel} darfst du ${hiddenColumns.join(', ')} in ${tableName} nicht einsehen, daher kann ich danach nicht filtern, sortieren oder auswerten.`,
+      }
+    }
+  }
+
+  if (action === 'insert' || action === 'update') {
+    const deniedColumns = columns.filter((column) => tablePolicy.readOnlyColumns?.includes(column))
+    if (deniedColumns.length > 0) {
+      return {
+        allowed: false,
+        reason: `Als ${roleLabel} darfst du ${deniedColumns.join(', ')} in ${tableName} nicht ändern. Das dürfen nur Administratoren.`,
+      }
+    }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * Short summary of what a role may change, for the system prompt
+ */
+export function describeRolePermissions(role: Role): string {
+  const writable = Array.from(INSERT_ALLOWED_TABLES)
+    .map((tableName) => {
+      const tablePolicy = getTablePolicy(role, tableName)
+      const actions = tablePolicy.actions.filter((action) => action !== 'read')
+      if (actions.length === 0) {
+        return null
+      }
+      const readOnly = tablePolicy.readOnlyColumns?.length ? ` (ohne ${tablePolicy.readOnlyColumns.join(', ')})` : ''
+      return `${tableName}: ${actions.map((action) => ACTION_LABELS[action]).join(', ')}${readOnly}`
+    })
+    .filter(Boolean)
+
+  return writable.length > 0
+    ? `Rolle ${ROLE_POLICIES[role].label} (${role}). Darf ändern: ${writable.join('; ')}. Alles andere nur lesen.`
+    : `Rolle ${ROLE_POLICIES[role].label} (${role}). Darf nur lesen, keine Daten ändern.`
+}
@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { PROMPT_SECTIONS, buildSystemPrompt, detectPromptIntents, getCatalogSchemaSnapshot } from './index'
+import { employeesWorkflowSection } from './sections/workflows/employees'
+import type { PromptIntent } from './types'
+
+const BASE_SECTIONS = ['role', 'schema', 'behavior', 'answer-style']
+
+function sectionIds(intents: PromptIntent[]): string[] {
+  const { version } = buildSystemPrompt({ schema: getCatalogSchemaSnapshot(), intents })
+  return version.split('+').map((entry) => entry.split('@')[0])
+}
+
+describe('detectPromptIntents', () => {
+  const cases: Array<[string[], PromptIntent[]]> = [
+    [['Welche Projekte laufen in Köln?'], ['projects']],
+    [['Wie hoch ist der Stundensatz von Jonas?'], ['employees']],
+    [['Was kostet das Material im EK?'], ['materials']],
+    [['Wer ist morgen eingeplant?'], ['morningplan']],
+    [['Ist ein Fahrzeug doppelt verplant?'], ['morningplan']],
+    [['Welche Mitarbeiter sind im Einsatz für den Umzug?'], ['projects', 'employees', 'morningplan']],
+    [['Zeig mir die Projekte', 'und die Mitarbeiter dazu'], ['projects', 'employees']],
+    [['Hallo, wie geht es dir?'], []],
+    [[], []],
+  ]
+
+  it.each(cases)('%j', (texts, expected) => {
+    expect(detectPromptIntents(texts)).toEqual(expected)
+  })
+})
+
+describe('buildSystemPrompt', () => {
+  const cases: Array<[PromptIntent[], string[]]> = [
+    [[], ['workflow-projects', 'workflow-employees', 'workflow-materials', 'workflow-morningplan']],
+    [['projects'], ['workflow-projects']],
+    [['employees'], ['workflow-employees']],
+    [['materials'], ['workflow-materials']],
+    [['morningplan'], ['workflow-morningplan']],
+    [['employees', 'morningplan'], ['workflow-employees', 'workflow-morningplan']],
+  ]
+
+  it.each(cases)('picks the workflows for %j', (intents, workflows) => {
+    expect(sectionIds(intents)).toEqual(['role', 'schema', 'behavior', ...workflows, 'answer-style'])
+  })
+
+  it('always includes the sections without intents', () => {
+    const alwaysIncluded = PROMPT_SECTIONS.filter((section) => !section.intents).map((section) => section.id)
+    expect(alwaysIncluded).toEqual(BASE_SECTIONS)
+  })
+
+  it('adds the workflows header once before the first workflow', () => {
+    const { content } = buildSystemPrompt({ schema: getCatalogSchemaSnapshot(), intents: ['projects', 'materials'] })
+    expect(content.match(/\nWORKFLOWS\n/g)).toHaveLength(1)
+  })
+
+  it('lists every included section with its version', () => {
+    const { version } = buildSystemPrompt({ schema: getCatalogSchemaSnapshot(), intents: ['employees'] })
+    const expected = PROMPT_SECTIONS.filter((section) => !section.intents || section.intents.includes('employees'))
+      .map((section) => `${section.id}@${section.version}`)
+      .join('+')
+    expect(version).toBe(expected)
+  })
+
+  describe('version', () => {
+    const originalVersion = employeesWorkflowSection.version
+
+    afterEach(() => {
+      employeesWorkflowSection.version = originalVersion
+    })
+
+    it('changes when an included section version changes', () => {
+      const schema = getCatalogSchemaSnapshot()
+      const before = buildSystemPrompt({ schema, intents: ['employees'] }).version
+      employeesWorkflowSection.version += 1
+      const after = buildSystemPrompt({ schema, intents: ['employees'] }).version
+
+      expect(after).not.toBe(before)
+      expect(after).toContain(`workflow-employees@${originalVersion + 1}`)
+    })
+
+    it('does not change when an excluded section version changes', () => {
+      const schema = getCatalogSchemaSnapshot()
+      const before = buildSystemPrompt({ schema, intents: ['projects'] }).version
+      employeesWorkflowSection.version += 1
+
+      expect(buildSystemPrompt({ schema, intents: ['projects'] }).version).toBe(before)
+    })
+  })
+})
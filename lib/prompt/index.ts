@@ -0,0 +1,79 @@
+/**
+ * System prompt assembled from versioned sections
+ * The schema section is generated from the database, and only the workflows
+ * matching the detected intent are included (all of them if it is unknown).
+ */
+
+import { detectPromptIntents } from './intents'
+import { loadSchemaSnapshot } from './schema'
+import { answerStyleSection } from './sections/answer-style'
+import { behaviorSection } from './sections/behavior'
+import { roleSection } from './sections/role'
+import { schemaSection } from './sections/schema'
+import { employeesWorkflowSection } from './sections/workflows/employees'
+import { materialsWorkflowSection } from './sections/workflows/materials'
+import { morningplanWorkflowSection } from './sections/workflows/morningplan'
+import { projectsWorkflowSection } from './sections/workflows/projects'
+import type { PromptContext, PromptIntent, PromptSection, SchemaSnapshot, SystemPrompt } from './types'
+
+const WORKFLOWS_HEADER = `--------------------------------------------------
+WORKFLOWS
+--------------------------------------------------`
+
+// Sections in prompt order
+export const PROMPT_SECTIONS: PromptSection[] = [
+  roleSection,
+  schemaSection,
+  behaviorSection,
+  projectsWorkflowSection,
+  employeesWorkflowSection,
+  materialsWorkflowSection,
+  morningplanWorkflowSection,
+  answerStyleSection,
+]
+
+function isIncluded(section: PromptSection, intents: PromptIntent[]): boolean {
+  return !section.intents || intents.length === 0 || section.intents.some((intent) => intents.includes(intent))
+}
+
+/**
+ * Render the system prompt for a schema snapshot and the detected intents
+ */
+export function buildSystemPrompt(context: PromptContext): SystemPrompt {
+  const sections = PROMPT_SECTIONS.filter((section) => isIncluded(section, context.intents))
+  const parts: string[] = []
+  let workflowsStarted = false
+
+  for (const section of sections) {
+    if (section.intents && !workflowsStarted) {
+      parts.push(WORKFLOWS_HEADER)
+      workflowsStarted = true
+    }
+    parts.push(section.render(context))
+  }
+
+  return {
+    content: parts.join('\n\n'),
+    version: sections.map((section) => `${section.id}@${section.version}`).join('+'),
+  }
+}
+
+/**
+ * System prompt for a chat request, based on the user's recent messages
+ */
+export async function getSystemPrompt(userMessages: string[]): Promise<SystemPrompt> {
+  const schema: SchemaSnapshot = await loadSchemaSnapshot()
+  return buildSystemPrompt({ schema, intents: detectPromptIntents(userMessages) })
+}
+
+export { detectPromptIntents } from './intents'
+export {
+  clearSchemaSnapshotCache,
+  getCatalogSchemaSnapshot,
+  isLiveColumnMissing,
+  loadSchemaSnapshot,
+  FOREIGN_KEYS,
+  TABLE_CATALOG,
+  VIEW_CATALOG,
+} from './schema'
+export type * from './types'
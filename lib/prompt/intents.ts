@@ -0,0 +1,21 @@
+/**
+ * Keyword-based intent detection for selecting workflow sections
+ */
+
+import type { PromptIntent } from './types'
+
+const INTENT_PATTERNS: Record<PromptIntent, RegExp> = {
+  projects: /projekt|auftr[aä]g|kunde|umzug|besichtigung|baustelle|\bort\b/i,
+  employees: /mitarbeiter|arbeiter|personal|angestellt|stundensatz|vertrag|\bintern\b|\bextern\b|worker|employee/i,
+  materials: /material|\bek\b|\bvk\b|einkaufspreis|verkaufspreis|dienstleistung|service|preis/i,
+  morningplan: /einsatz|eins[aä]tze|einsatzplan|morgenplan|morningplan|tagesplan|eingeplant|einplanen|\bplanen?\b|startzeit|fahrzeug|konflikt|doppelt|\bteam\b/i,
+}
+
+/**
+ * Intents mentioned in the given user messages, in a stable order
+ * An empty result means the intent is unknown and all workflows should be included.
+ */
+export function detectPromptIntents(texts: string[]): PromptIntent[] {
+  const text = texts.join('\n')
+  return (Object.keys(INTENT_PATTERNS) as PromptIntent[]).filter((intent) => INTENT_PATTERNS[intent].test(text))
+}
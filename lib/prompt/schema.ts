@@ -0,0 +1,156 @@
+/**
+ * Curated catalog of views and tables, and the live column lists for the schema section
+ * Descriptions are maintained here; columns are read from the database with
+ * getTableStructure and fall back to the catalog when a table is empty or unreachable.
+ */
+
+import { getTableStructure } from '@/lib/supabase-query'
+import type { SchemaSnapshot } from './types'
+
+const SCHEMA_CACHE_TTL_MS = 10 * 60 * 1000 // 10 minutes
+
+export interface CatalogEntry {
+  name: string
+  description: string
+  /** Typical questions the entry answers */
+  useFor?: string
+  /** Columns to show when they cannot be read from the database */
+  fallbackColumns?: string[]
+}
+
+export const VIEW_CATALOG: CatalogEntry[] = [
+  {
+    name: 'v_morningplan_full',
+    description: 'Complete morning plan view with ALL JOINs already done, incl. staff_list (employee names!)',
+    useFor: '"Projekte mit Mitarbeitern", "Einsätze", "Wer ist eingeplant"',
+    fallbackColumns: [
+      'plan_id',
+      'plan_date',
+      'start_time',
+      'service_type',
+      'notes',
+      'project_id',
+      'project_code',
+      'project_name',
+      'project_ort',
+      'vehicle_nickname',
+      'vehicle_status',
+      'staff_list',
+    ],
+  },
+  { name: 'v_project_full', description: 'Complete project view with all related data' },
+  { name: 'v_employee_kpi', description: 'Employee KPIs and statistics' },
+  { name: 'v_project_profit', description: 'Project profitability calculations' },
+  { name: 'v_inspection_detail_complete', description: 'Complete inspection details with all related data' },
+  { name: 'v_costs_by_phase', description: 'Cost breakdowns by project phase' },
+  { name: 'v_time_pairs_enriched', description: 'Enriched time tracking data' },
+  { name: 'v_employee_costs', description: 'Employee cost calculations' },
+  { name: 'v_material_value', description: 'Material inventory values' },
+]
+
+export const TABLE_CATALOG: CatalogEntry[] = [
+  {
+    name: 't_projects',
+    description: 'Projekte',
+    fallbackColumns: ['project_id', 'project_code', 'name', 'ort', 'dienstleistungen', 'status', 'project_date', 'project_time'],
+  },
+  {
+    name: 't_employees',
+    description: 'Mitarbeiter',
+    fallbackColumns: ['employee_id', 'name', 'role', 'contract_type', 'hourly_rate', 'is_active'],
+  },
+  {
+    name: 't_morningplan',
+    description: 'Tagesplanung',
+    fallbackColumns: ['plan_id', 'plan_date', 'project_id', 'vehicle_id', 'start_time', 'service_type'],
+  },
+  {
+    name: 't_morningplan_staff',
+    description: 'Mitarbeiter-Zuteilung',
+    fallbackColumns: ['plan_id', 'employee_id', 'role', 'individual_start_time'],
+  },
+  {
+    name: 't_vehicles',
+    description: 'Fahrzeuge',
+    fallbackColumns: ['vehicle_id', 'nickname', 'unit', 'status', 'is_deleted'],
+  },
+  { name: 't_vehicle_rates', description: 'Fahrzeug-Tagesraten' },
+  { name: 't_materials', description: 'Materialien' },
+  { name: 't_material_prices', description: 'Materialpreise (EK/VK)', fallbackColumns: ['material_id', 'purchase_price', 'sale_price'] },
+  { name: 't_services', description: 'Dienstleistungen' },
+  { name: 't_service_prices', description: 'Dienstleistungspreise' },
+  { name: 't_inspections', description: 'Besichtigungen' },
+  { name: 't_inspection_items', description: 'Besichtigungsdetails' },
+  { name: 't_time_pairs', description: 'Zeiterfassung pro Projekt' },
+]
+
+export const FOREIGN_KEYS: string[] = [
+  't_morningplan.project_id → t_projects.project_id',
+  't_morningplan_staff.plan_id → t_morningplan.plan_id',
+  't_morningplan_staff.employee_id → t_employees.employee_id',
+  't_inspections.project_id → t_projects.project_id',
+  't_inspection_items.inspection_id → t_inspections.inspection_id',
+  't_vehicle_rates.vehicle_id → t_vehicles.vehicle_id',
+  't_material_prices.material_id → t_materials.material_id',
+  't_time_pairs.project_id → t_projects.project_id',
+  't_project_note_media.project_id → t_projects.project_id',
+]
+
+let cachedSnapshot: { snapshot: SchemaSnapshot; loadedAt: number } | null = null
+
+/**
+ * Schema snapshot from the curated catalog only
+ */
+export function getCatalogSchemaSnapshot(): SchemaSnapshot {
+  const columns: Record<string, string[]> = {}
+  for (const entry of [...VIEW_CATALOG, ...TABLE_CATALOG]) {
+    if (entry.fallbackColumns) {
+      columns[entry.name] = entry.fallbackColumns
+    }
+  }
+  return { columns, liveTables: [] }
+}
+
+/**
+ * Read the columns of all catalog entries from the database (cached per instance)
+ */
+export async function loadSchemaSnapshot(): Promise<SchemaSnapshot> {
+  if (cachedSnapshot && Date.now() - cachedSnapshot.loadedAt < SCHEMA_CACHE_TTL_MS) {
+    return cachedSnapshot.snapshot
+  }
+
+  const snapshot = getCatalogSchemaSnapshot()
+  const entries = [...VIEW_CATALOG, ...TABLE_CATALOG]
+  const structures = await Promise.all(
+    entries.map((entry) => getTableStructure(entry.name).catch(() => null))
+  )
+
+  structures.forEach((structure, index) => {
+    if (structure && !structure.error && structure.columns.length > 0) {
+      snapshot.columns[entries[index].name] = structure.columns
+      snapshot.liveTables.push(entries[index].name)
+    }
+  })
+
+  cachedSnapshot = { snapshot, loadedAt: Date.now() }
+  return snapshot
+}
+
+/**
+ * Whether the last loaded snapshot shows that a table lacks a column
+ * False while nothing is loaded or the table could not be read.
+ */
+export function isLiveColumnMissing(tableName: string, column: string): boolean {
+  const snapshot = cachedSnapshot?.snapshot
+  if (!snapshot || !snapshot.liveTables.includes(tableName)) {
+    return false
+  }
+  return !snapshot.columns[tableName].includes(column)
+}
+
+/**
+ * Drop the cached snapshot, e.g. after a migration
+ */
+export function clearSchemaSnapshotCache(): void {
+  cachedSnapshot = null
+}
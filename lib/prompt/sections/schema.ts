@@ -0,0 +1,58 @@
+import { LOCAL_TIME_SUFFIX } from '@/lib/date-fields'
+import { getDateField, type DateFieldMetadata } from '@/lib/table-metadata'
+import { FOREIGN_KEYS, TABLE_CATALOG, VIEW_CATALOG, type CatalogEntry } from '../schema'
+import type { PromptSection, SchemaSnapshot } from '../types'
+
+const MAX_LISTED_COLUMNS = 40
+
+function formatColumns(entry: CatalogEntry, schema: SchemaSnapshot): string {
+  const columns = schema.columns[entry.name]
+  if (!columns || columns.length === 0) {
+    return 'columns: use getTableStructure'
+  }
+  const listed = columns.slice(0, MAX_LISTED_COLUMNS).join(', ')
+  return columns.length > MAX_LISTED_COLUMNS ? `${listed}, … (${columns.length} columns)` : listed
+}
+
+function formatDateField({ dateColumn, kind, timeColumn }: DateFieldMetadata): string {
+  if (kind === 'timestamp') {
+    return `${dateColumn} (timestamptz in UTC; results add ${dateColumn}${LOCAL_TIME_SUFFIX} in Berlin time – quote that one)`
+  }
+  return timeColumn ? `${dateColumn} (Berlin calendar day), time: ${timeColumn}` : `${dateColumn} (Berlin calendar day)`
+}
+
+function formatEntry(entry: CatalogEntry, schema: SchemaSnapshot): string {
+  const lines = [`- **public.${entry.name}** – ${entry.description}`, `  → ${formatColumns(entry, schema)}`]
+  if (entry.useFor) {
+    lines.push(`  → USE THIS for: ${entry.useFor}`)
+  }
+  const dateField = getDateField(entry.name)
+  if (dateField) {
+    lines.push(`  → date: ${formatDateField(dateField)}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Tables, views and their columns, generated from the schema snapshot
+ */
+export const schemaSection: PromptSection = {
+  id: 'schema',
+  version: 2,
+  render: ({ schema }) => `You have access to a PostgreSQL database with tables AND pre-built VIEWS for complex queries.
+
+**IMPORTANT: Always prefer VIEWS over manual JOINs for complex data!**
+
+KEY VIEWS (use these for common queries):
+
+${VIEW_CATALOG.map((entry) => formatEntry(entry, schema)).join('\n\n')}
+
+BASE TABLES (for simple queries):
+
+${TABLE_CATALOG.map((entry) => formatEntry(entry, schema)).join('\n\n')}
+
+Respect the schema – join using the defined foreign keys:
+${FOREIGN_KEYS.map((key) => `- ${key}`).join('\n')}
+
+Only use the columns listed here. If a table is not listed or you are unsure about a column, call getTableStructure first.`,
+}
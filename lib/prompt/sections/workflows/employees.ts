@@ -0,0 +1,29 @@
+import type { PromptSection } from '../../types'
+
+export const employeesWorkflowSection: PromptSection = {
+  id: 'workflow-employees',
+  version: 1,
+  intents: ['employees'],
+  render: () => `WORKFLOW: MITARBEITER
+
+- **INSERT**:
+  * When user says "neu/neuer mitarbeiter/arbeiter/worker [Name]" with ANY information (even just a name), IMMEDIATELY call insertRow!
+  * Extract ALL available information from the message
+  * Use sensible defaults for missing fields:
+    - hourly_rate: 0 if not provided
+    - contract_type: null if not provided (or "Intern" if user says "intern")
+    - is_active: true (always)
+    - role: null (always, unless specified)
+  * NEVER ask for more information - if you have at least a name, that's enough!
+  * **EXAMPLE**: "neu mitarbeiter Jonas" → insertRow with {name: "Jonas", hourly_rate: 0, contract_type: null, is_active: true}
+  * **EXAMPLE**: "neuer arbeiter X 30 int" → insertRow with {name: "X", hourly_rate: 30, contract_type: "Intern", is_active: true}
+  * **EXAMPLE**: "mitarbeiter neu Rachid 50 euro intern" → insertRow with {name: "Rachid", hourly_rate: 50, contract_type: "Intern", is_active: true}
+- **Interpreting business terms:**
+  * "Interne Mitarbeiter" → nutze Felder wie contract_type und is_active:
+    - Versuche z.B. contract_type IN ('intern', 'Intern', 'Fest') oder filtern nach is_active = true.
+    - Wenn unklar, sag kurz dazu, welche Annahme du verwendet hast.
+  * "Aktive Mitarbeiter" → is_active = true.
+- **Names, not IDs:**
+  * When showing employees in projects: use v_morningplan_full (staff_list) or JOIN t_morningplan_staff with t_employees to get employee names.
+  * NEVER show employee_id UUIDs to the user. Always resolve them to names.`,
+}
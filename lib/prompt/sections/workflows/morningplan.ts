@@ -0,0 +1,44 @@
+import type { PromptSection } from '../../types'
+
+export const morningplanWorkflowSection: PromptSection = {
+  id: 'workflow-morningplan',
+  version: 4,
+  intents: ['morningplan'],
+  render: () => `WORKFLOW: EINSATZPLANUNG (MORNINGPLAN)
+
+- **CRITICAL: Always Use Pre-Built Views:**
+  * For "Projekte mit Mitarbeitern", "Welche Mitarbeiter sind eingeplant", "Einsätze":
+    **ALWAYS query v_morningplan_full** - it has everything pre-joined, incl. **staff_list** (employee names, already formatted!)
+  * **Usage examples:**
+    - "Projekte am 10.12.2025 mit Mitarbeitern" → queryTable('v_morningplan_full', {plan_date: '2025-12-10'})
+    - "Mitarbeiter für Projekt Müller" → Use filters on project_name
+    - "Alle Einsätze heute" → queryTable('v_morningplan_full') with date filter
+    - "Die nächsten 5 Einsätze" → queryTable('v_morningplan_full', {plan_date: {type: 'gte', value: today}}, limit 5, orderBy [{column: 'plan_date'}, {column: 'start_time', nulls: 'last'}])
+    - "Einsätze ohne Fahrzeug" → filters {vehicle_nickname: {type: 'is_null'}}
+    - "Status geplant oder in Arbeit" → filters {or: [{status: 'geplant'}, {status: 'in Arbeit'}]}
+    - "Nicht in Köln oder Bonn" → filters {project_ort: {type: 'not_in', value: ['Köln', 'Bonn']}}; "nicht storniert" → {status: {type: 'not', value: 'storniert'}}
+    - Select only the columns you need (columns parameter) and use offset with pagination.hasMore for further pages
+    - "Wie viele Einsätze pro Projekt im Dezember?" → aggregateTable('v_morningplan_full', metrics [{function: 'count'}], groupBy ['project_name'], filters {plan_date: {type: 'between', value: ['2025-12-01', '2025-12-31']}})
+  * Writes to t_morningplan and t_morningplan_staff are checked for conflicts automatically. If updateRow or insertRow returns warnings (double booking, inactive employee, vehicle not ready, Sunday or holiday), repeat them in your confirmation question
+  * **DO NOT use getProjectsWithStaff() - it's deprecated**
+  * **DO NOT manually JOIN tables - use the views!**
+- **NEW EINSATZ**: "Plane morgen Umzug Meier mit Sprinter 2, Jonas und Ali, Start 7:30" →
+  * Call **createMorningPlan** once with the names exactly as the user said them: date ('morgen', 'nächster Werktag' or YYYY-MM-DD), project, vehicle, startTime, serviceType, employees [{name: 'Jonas'}, {name: 'Ali', startTime: '8:00'}]
+  * Do NOT look up ids first and do NOT use insertRow on t_morningplan or t_morningplan_staff for a new Einsatz – the tool resolves everything and saves plan and staff together
+  * If it returns unresolved with candidates, list them and ask which one is meant, then call it again with the exact name
+  * If it returns warnings (conflicts, Sunday or holiday), repeat them in your confirmation question
+- **EMPLOYEE START TIMES**: When user says "startzeit [EmployeeName] [Time]" for a project:
+  * This refers to the **individual_start_time** field in **t_morningplan_staff**, NOT the start_time in t_morningplan!
+  * You MUST first find the correct row by:
+    1. Resolve the project with resolveEntity(query: project name, entityType: 'project'), then query t_morningplan with its project_id to find plan_id
+    2. Resolve the employee with resolveEntity(query: employee name, entityType: 'employee') to get employee_id
+    3. Use both plan_id AND employee_id as filters in updateRow for t_morningplan_staff
+  * Then call updateRow with:
+    - tableName: 't_morningplan_staff'
+    - filters: {plan_id: [found_plan_id], employee_id: [found_employee_id]} (both required!)
+    - values: {individual_start_time: '[Time]'} (format: "HH:MM:SS", e.g., "12:00:00")
+  * **EXAMPLE**: "startzeit Jonas 12:00 für Umzug" →
+    1. resolveEntity('Umzug', 'project') → project_id, then queryTable('t_morningplan', {project_id: [found_project_id]}) to find plan_id
+    2. resolveEntity('jonas', 'employee') → employee_id (e.g. "Jonas Müller")
+    3. Call updateRow(tableName='t_morningplan_staff', filters={plan_id: '...', employee_id: '...'}, values={individual_start_time: '12:00:00'})`,
+}
@@ -0,0 +1,32 @@
+import type { PromptSection } from '../../types'
+
+export const projectsWorkflowSection: PromptSection = {
+  id: 'workflow-projects',
+  version: 1,
+  intents: ['projects'],
+  render: () => `WORKFLOW: PROJEKTE
+
+- **INSERT - ABSOLUTE REQUIREMENT**:
+  * **YOU MUST CALL insertRow TOOL IMMEDIATELY - DO NOT JUST SAY YOU WILL DO IT!**
+  * When user says "neues projekt", "projekt hinzufügen", "neuer Eintrag projekt", "projekt erstellen" or similar and provides ANY information (even just a name like "Grosser UMZUG" or "ZZZ"), you MUST:
+    1. IMMEDIATELY call the insertRow tool - do NOT just say you will create it, ACTUALLY CALL THE TOOL FUNCTION!
+    2. Look through ALL previous messages in the conversation to find ALL information the user has provided (name, ort, etc.)
+    3. Call insertRow with tableName='t_projects' and values containing ALL available information combined
+    4. Use sensible defaults for missing optional fields (ort can be null, status='geplant', project_code=auto-generate)
+    5. NEVER ask for more information - if you have at least a name, that's enough!
+    6. The tool only prepares the entry - the user confirms it afterwards
+    7. **CRITICAL**: The values object MUST contain at least the 'name' field. Example: {name: "Grosser UMZUG", ort: null, status: "geplant"}
+  * **EXAMPLE**: If user says "neues projekt named ZZZ", you MUST call: insertRow(tableName='t_projects', values={name: 'ZZZ', ort: null, status: 'geplant'})
+  * **EXAMPLE**: If user says "neuer Eintrag projekt namens Grosser UMZUG", you MUST call: insertRow(tableName='t_projects', values={name: 'Grosser UMZUG', ort: null, status: 'geplant'})
+  * **EXAMPLE**: If user says "neues projekt named ZZZ" and then later says "Köln", you MUST combine both: call insertRow with {name: "ZZZ", ort: "Köln"}
+  * Defaults for t_projects: status='geplant', ort=null (if not specified - it's optional!), project_code=auto-generate if not provided (e.g., PRJ-YYYYMMDD-XXXXX)
+  * **CRITICAL**: When user provides project information in multiple messages, COMBINE all information from the conversation history before calling insertRow.
+  * DO NOT show JSON or ask again - just execute the insert with what you have.
+- **UPDATE**:
+  * **EXAMPLE**: If user says "projekt zzz umbenennen in aaaa", call updateRow with tableName 't_projects', filters {name: 'ZZZ'} (to find the project) and values {name: 'AAAA'} (new name)
+  * **EXAMPLE**: If user says "ändere projekt ZZZ ort zu Köln", call updateRow with tableName 't_projects', filters {name: 'ZZZ'} and values {ort: 'Köln'}
+  * **CRITICAL**: Use the name field to find projects when user mentions a project name - filters: {name: "ProjectName"}
+- **When user asks for "details [Name]":**
+  * Filter by the 'name' column in t_projects WHERE name LIKE '%[Name]%'
+  * Do NOT accidentally return a different project`,
+}
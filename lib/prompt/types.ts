@@ -0,0 +1,41 @@
+/**
+ * Types for the modular system prompt
+ */
+
+/**
+ * Business domains with their own workflow instructions
+ */
+export type PromptIntent = 'projects' | 'employees' | 'materials' | 'morningplan'
+
+/**
+ * Column names per table or view, as used by the schema section
+ */
+export interface SchemaSnapshot {
+  columns: Record<string, string[]>
+  /** Tables whose columns came from the database rather than the curated catalog */
+  liveTables: string[]
+}
+
+export interface PromptContext {
+  schema: SchemaSnapshot
+  /** Detected intents; empty if unknown */
+  intents: PromptIntent[]
+}
+
+/**
+ * One section of the system prompt
+ * Bump the version whenever the rendered text changes meaningfully.
+ */
+export interface PromptSection {
+  id: string
+  version: number
+  /** Only included if one of these intents was detected or the intent is unknown */
+  intents?: PromptIntent[]
+  render: (context: PromptContext) => string
+}
+
+export interface SystemPrompt {
+  content: string
+  /** Included sections as "id@version", joined by "+" */
+  version: string
+}
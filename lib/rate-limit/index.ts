@@ -0,0 +1,185 @@
+/**
+ * Rate limiting with a sliding-window algorithm
+ *
+ * Configured via environment variables:
+ * - RATE_LIMIT_STORE: "memory" (default), "redis" or "upstash-rest"
+ * - REDIS_URL: Redis connection URL for the "redis" store, e.g. redis://localhost:6379
+ * - UPSTASH_REDIS_REST_URL / UPSTASH_REDIS_REST_TOKEN: endpoint of the Upstash REST API
+ *   (or a compatible proxy in front of Redis) for the "upstash-rest" store
+ *
+ * Limits are kept per identifier (user id, or IP address for anonymous requests)
+ * and per endpoint or budget.
+ */
+
+import { createMemoryRateLimitStore } from './memory-store'
+import { createRedisRateLimitStore } from './redis-store'
+import { createUpstashRestRateLimitStore } from './upstash-rest-store'
+import { consumeSlidingWindow } from './sliding-window'
+import type { RateLimitConfig, RateLimitResult, RateLimitStore } from './types'
+
+const KEY_PREFIX = 'rl'
+
+let cachedStore: RateLimitStore | null = null
+
+// Default rate limits per endpoint (requests) and budget (units of cost)
+export const RATE_LIMITS: Record<string, RateLimitConfig> = {
+  '/api/chat': { limit: 60, windowMs: 60000 }, // 60 requests per minute
+  '/api/stt': { limit: 30, windowMs: 60000 }, // 30 requests per minute
+  '/api/tts': { limit: 30, windowMs: 60000 }, // 30 requests per minute
+  '/api/audit': { limit: 30, windowMs: 60000 }, // 30 requests per minute
+  '/api/auth/login': { limit: 10, windowMs: 60000 }, // 10 attempts per minute
+  '/api/conversations': { limit: 120, windowMs: 60000 }, // 120 requests per minute (history sync)
+  'tool:write': { limit: 20, windowMs: 10 * 60000 }, // 20 proposed writes per 10 minutes
+  'audio:stt': { limit: 30 * 60, windowMs: 60 * 60000 }, // 30 minutes of audio (in seconds) per hour
+  'audio:tts': { limit: 30 * 60, windowMs: 60 * 60000 }, // 30 minutes of audio (in seconds) per hour
+}
+
+/**
+ * Create a store from the environment
+ */
+export function createRateLimitStoreFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  switch (env.RATE_LIMIT_STORE || 'memory') {
+    case 'memory':
+      return createMemoryRateLimitStore()
+    case 'redis':
+      return createRedisRateLimitStore({ url: env.REDIS_URL })
+    case 'upstash-rest':
+      return createUpstashRestRateLimitStore({
+        url: env.UPSTASH_REDIS_REST_URL,
+        token: env.UPSTASH_REDIS_REST_TOKEN,
+      })
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${env.RATE_LIMIT_STORE}`)
+  }
+}
+
+/**
+ * Get the configured store (created once per server instance)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!cachedStore) {
+    cachedStore = createRateLimitStoreFromEnv()
+  }
+  return cachedStore
+}
+
+/**
+ * Replace the configured store, e.g. with a fresh memory store in tests
+ */
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  cachedStore = store
+}
+
+/**
+ * Check a limit and consume `cost` units of it
+ * A cost of 0 only checks whether anything is left. If the store is unreachable the
+ * request is allowed, so an outage of Redis does not take the chat down with it.
+ */
+export async function checkRateLimit(
+  name: string,
+  identifier: string,
+  cost: number = 1
+): Promise<RateLimitResult> {
+  const config = RATE_LIMITS[name] || RATE_LIMITS['/api/chat']
+
+  try {
+    return await consumeSlidingWindow(getRateLimitStore(), `${KEY_PREFIX}:${name}:${identifier}`, config, cost)
+  } catch (error) {
+    console.error(`Rate limit check for ${name} failed:`, error)
+    return { allowed: true, limit: config.limit, remaining: config.limit, resetTime: Date.now() + config.windowMs }
+  }
+}
+
+/**
+ * Record usage that is only known afterwards (e.g. the duration of transcribed audio)
+ */
+export async function recordRateLimitUsage(name: string, identifier: string, amount: number): Promise<void> {
+  const config = RATE_LIMITS[name]
+  if (!config || amount <= 0) {
+    return
+  }
+
+  try {
+    const windowStart = Math.floor(Date.now() / config.windowMs) * config.windowMs
+    await getRateLimitStore().increment(
+      `${KEY_PREFIX}:${name}:${identifier}:${windowStart}`,
+      amount,
+      config.windowMs * 2
+    )
+  } catch (error) {
+    console.error(`Recording rate limit usage for ${name} failed:`, error)
+  }
+}
+
+/**
+ * Get the client address (IP) of a request
+ */
+export function getClientIp(req: Request): string {
+  // Try to get IP address from various headers
+  const forwarded = req.headers.get('x-forwarded-for')
+  const realIp = req.headers.get('x-real-ip')
+  return forwarded?.split(',')[0] || realIp || 'unknown'
+}
+
+/**
+ * Get client identifier from request
+ * Authenticated users are identified by their user id, so users behind the same
+ * NAT do not share limits; anonymous requests fall back to the IP address
+ */
+export function getClientIdentifier(req: Request, userId?: string): string {
+  return userId ? `user:${userId}` : getClientIp(req)
+}
+
+/**
+ * 429 response for an exceeded limit
+ */
+export function rateLimitExceededResponse(
+  result: RateLimitResult,
+  message: string = 'Rate limit exceeded. Please try again later.'
+): Response {
+  const resetSeconds = Math.max(1, Math.ceil((result.resetTime - Date.now()) / 1000))
+  return new Response(
+    JSON.stringify({
+      error: message,
+      retryAfter: resetSeconds,
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': resetSeconds.toString(),
+        'X-RateLimit-Limit': result.limit.toString(),
+        'X-RateLimit-Remaining': '0',
+        'X-RateLimit-Reset': result.resetTime.toString(),
+      },
+    }
+  )
+}
+
+/**
+ * Rate limit middleware for Next.js API routes
+ */
+export async function rateLimitMiddleware(
+  req: Request,
+  endpoint: string,
+  userId?: string
+): Promise<{
+  allowed: boolean
+  response?: Response
+}> {
+  const result = await checkRateLimit(endpoint, getClientIdentifier(req, userId))
+
+  if (!result.allowed) {
+    return {
+      allowed: false,
+      response: rateLimitExceededResponse(result),
+    }
+  }
+
+  return { allowed: true }
+}
+
+export { createMemoryRateLimitStore } from './memory-store'
+export { createRedisRateLimitStore } from './redis-store'
+export { createUpstashRestRateLimitStore } from './upstash-rest-store'
+export type * from './types'
@@ -0,0 +1,45 @@
+import type { RateLimitStore } from './types'
+
+const CLEANUP_INTERVAL_MS = 60 * 1000
+
+/**
+ * In-memory counters
+ * Note: Counters are per server instance and reset on cold starts; use the Redis store
+ * when running several instances
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { value: number; expiresAt: number }>()
+  let lastCleanup = Date.now()
+
+  const cleanup = (now: number) => {
+    if (now - lastCleanup < CLEANUP_INTERVAL_MS) {
+      return
+    }
+    lastCleanup = now
+    for (const [key, counter] of counters.entries()) {
+      if (counter.expiresAt <= now) {
+        counters.delete(key)
+      }
+    }
+  }
+
+  const read = (key: string, now: number) => {
+    const counter = counters.get(key)
+    return counter && counter.expiresAt > now ? counter.value : 0
+  }
+
+  return {
+    name: 'memory',
+    get: async (keys) => {
+      const now = Date.now()
+      cleanup(now)
+      return keys.map((key) => read(key, now))
+    },
+    increment: async (key, amount, ttlMs) => {
+      const now = Date.now()
+      const value = read(key, now) + amount
+      counters.set(key, { value, expiresAt: now + ttlMs })
+      return value
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { createRedisRateLimitStore, type RedisClient } from './redis-store'
+
+/**
+ * In-memory stand-in for the ioredis commands the store sends
+ */
+function fakeRedis() {
+  const values = new Map<string, number>()
+  const expiries = new Map<string, number>()
+  const client = {
+    mget: async (...keys: string[]) => keys.map((key) => (values.has(key) ? String(values.get(key)) : null)),
+    multi: () => {
+      const commands: Array<() => [Error | null, unknown]> = []
+      const transaction: any = {
+        incrby: (key: string, amount: number) => {
+          commands.push(() => {
+            values.set(key, (values.get(key) || 0) + amount)
+            return [null, values.get(key)]
+          })
+          return transaction
+        },
+        pexpire: (key: string, ttlMs: number) => {
+          commands.push(() => {
+            expiries.set(key, ttlMs)
+            return [null, 1]
+          })
+          return transaction
+        },
+        exec: async () => commands.map((command) => command()),
+      }
+      return transaction
+    },
+  }
+  return { client: client as unknown as RedisClient, values, expiries }
+}
+
+describe('createRedisRateLimitStore', () => {
+  it('increments counters and sets their expiry in one transaction', async () => {
+    const redis = fakeRedis()
+    const store = createRedisRateLimitStore({ client: redis.client })
+
+    expect(await store.increment('rl:a', 2, 60000)).toBe(2)
+    expect(await store.increment('rl:a', 3, 60000)).toBe(5)
+    expect(redis.expiries.get('rl:a')).toBe(60000)
+  })
+
+  it('reads missing counters as 0', async () => {
+    const redis = fakeRedis()
+    const store = createRedisRateLimitStore({ client: redis.client })
+    await store.increment('rl:a', 4, 60000)
+
+    expect(await store.get(['rl:a', 'rl:b'])).toEqual([4, 0])
+    expect(await store.get([])).toEqual([])
+  })
+
+  it('reports a failed command', async () => {
+    const redis = fakeRedis()
+    const client = {
+      ...redis.client,
+      multi: () => {
+        const transaction: any = {
+          incrby: () => transaction,
+          pexpire: () => transaction,
+          exec: async () => [[new Error('WRONGTYPE'), null], [null, 1]],
+        }
+        return transaction
+      },
+    } as unknown as RedisClient
+    const store = createRedisRateLimitStore({ client })
+
+    await expect(store.increment('rl:a', 1, 60000)).rejects.toThrow('WRONGTYPE')
+  })
+
+  it('requires REDIS_URL without a client', () => {
+    expect(() => createRedisRateLimitStore({})).toThrow('REDIS_URL')
+  })
+})
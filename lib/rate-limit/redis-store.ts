@@ -0,0 +1,47 @@
+import Redis from 'ioredis'
+import type { RateLimitStore } from './types'
+
+const COMMAND_TIMEOUT_MS = 2000
+
+/**
+ * The part of an ioredis client the store uses
+ */
+export type RedisClient = Pick<Redis, 'mget' | 'multi'>
+
+/**
+ * Counters in Redis, spoken to over the Redis protocol (ioredis)
+ * Needs a long-lived server process; on serverless hosting use the Upstash REST store instead.
+ */
+export function createRedisRateLimitStore(options: { url?: string; client?: RedisClient }): RateLimitStore {
+  if (!options.client && !options.url) {
+    throw new Error('REDIS_URL is required for RATE_LIMIT_STORE=redis')
+  }
+  // Fail fast while Redis is unreachable; checkRateLimit then lets the request through
+  const client: RedisClient = options.client || new Redis(options.url!, {
+    commandTimeout: COMMAND_TIMEOUT_MS,
+    maxRetriesPerRequest: 1,
+    enableOfflineQueue: false,
+  })
+
+  return {
+    name: 'redis',
+    get: async (keys) => {
+      if (keys.length === 0) {
+        return []
+      }
+      const values = await client.mget(...keys)
+      return values.map((value) => Number(value) || 0)
+    },
+    increment: async (key, amount, ttlMs) => {
+      const results = await client.multi().incrby(key, amount).pexpire(key, ttlMs).exec()
+      if (!results) {
+        throw new Error('Redis transaction was aborted')
+      }
+      const failed = results.find(([error]) => error)
+      if (failed) {
+        throw failed[0]
+      }
+      return Number(results[0][1])
+    },
+  }
+}
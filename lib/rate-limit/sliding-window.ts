@@ -0,0 +1,47 @@
+import type { RateLimitConfig, RateLimitResult, RateLimitStore } from './types'
+
+/**
+ * Sliding-window counter
+ * The count of the previous fixed window is weighted by how much of it still overlaps
+ * the sliding window, which avoids double bursts at window edges with two counters per key.
+ * A cost of 0 only checks whether any budget is left.
+ */
+export async function consumeSlidingWindow(
+  store: RateLimitStore,
+  key: string,
+  config: RateLimitConfig,
+  cost: number = 1
+): Promise<RateLimitResult> {
+  const now = Date.now()
+  const windowStart = Math.floor(now / config.windowMs) * config.windowMs
+  const windowEnd = windowStart + config.windowMs
+  const currentKey = `${key}:${windowStart}`
+  const previousKey = `${key}:${windowStart - config.windowMs}`
+
+  const [previous, current] = await store.get([previousKey, currentKey])
+  const previousWeight = 1 - (now - windowStart) / config.windowMs
+  const used = previous * previousWeight + current
+
+  const allowed = cost > 0 ? used + cost <= config.limit : used < config.limit
+  if (!allowed) {
+    // The previous window's share decays linearly; find when enough of it has expired
+    const available = config.limit - current - cost
+    const resetTime = previous > 0 && available >= 0
+      ? windowStart + Math.ceil(config.windowMs * (1 - available / previous))
+      : windowEnd
+    return { allowed: false, limit: config.limit, remaining: 0, resetTime }
+  }
+
+  let updatedCurrent = current
+  if (cost > 0) {
+    // Kept for two windows, as the counter is read again as "previous"
+    updatedCurrent = await store.increment(currentKey, cost, config.windowMs * 2)
+  }
+
+  return {
+    allowed: true,
+    limit: config.limit,
+    remaining: Math.max(0, Math.floor(config.limit - previous * previousWeight - updatedCurrent)),
+    resetTime: windowEnd,
+  }
+}
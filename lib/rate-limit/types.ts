@@ -0,0 +1,32 @@
+/**
+ * Rate limiting types shared by the stores
+ */
+
+/**
+ * Limit per identifier within a sliding window
+ * `limit` counts requests for endpoints, or units of cost for budgets (e.g. audio seconds)
+ */
+export interface RateLimitConfig {
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  /** Time (ms since epoch) when the request would be allowed again, or the current window ends */
+  resetTime: number
+}
+
+/**
+ * Counter storage used by the sliding-window algorithm
+ * Counters expire on their own after ttlMs
+ */
+export interface RateLimitStore {
+  name: string
+  /** Current values of the counters, 0 for missing keys */
+  get(keys: string[]): Promise<number[]>
+  /** Add amount to a counter and return the new value */
+  increment(key: string, amount: number, ttlMs: number): Promise<number>
+}
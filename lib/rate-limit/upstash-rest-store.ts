@@ -0,0 +1,55 @@
+import type { RateLimitStore } from './types'
+
+const REQUEST_TIMEOUT_MS = 2000
+
+/**
+ * Counters in Redis, accessed through the Upstash REST API (POST /pipeline with a bearer token)
+ * Plain HTTP keeps it usable from serverless functions without a persistent connection; for a
+ * Redis server reached over the Redis protocol use the redis store.
+ */
+export function createUpstashRestRateLimitStore(options: { url?: string; token?: string }): RateLimitStore {
+  if (!options.url || !options.token) {
+    throw new Error('UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN are required for RATE_LIMIT_STORE=upstash-rest')
+  }
+  const baseUrl = options.url.replace(/\/+$/, '')
+
+  const pipeline = async (commands: (string | number)[][]): Promise<any[]> => {
+    const response = await fetch(`${baseUrl}/pipeline`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${options.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(commands),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    })
+    if (!response.ok) {
+      throw new Error(`Upstash REST request failed with status ${response.status}`)
+    }
+
+    const results: Array<{ result?: any; error?: string }> = await response.json()
+    const failed = results.find((entry) => entry.error)
+    if (failed) {
+      throw new Error(`Upstash REST command failed: ${failed.error}`)
+    }
+    return results.map((entry) => entry.result)
+  }
+
+  return {
+    name: 'upstash-rest',
+    get: async (keys) => {
+      if (keys.length === 0) {
+        return []
+      }
+      const [values] = await pipeline([['MGET', ...keys]])
+      return (values as Array<string | null>).map((value) => Number(value) || 0)
+    },
+    increment: async (key, amount, ttlMs) => {
+      const [value] = await pipeline([
+        ['INCRBY', key, amount],
+        ['PEXPIRE', key, ttlMs],
+      ])
+      return Number(value)
+    },
+  }
+}
@@ -0,0 +1,77 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { aggregateTable } from './supabase-query'
+
+const state = vi.hoisted(() => ({
+  rows: [] as Record<string, any>[],
+  orders: [] as string[][],
+}))
+
+/**
+ * Minimal PostgREST double: without .order() every request sees the rows in a different order
+ */
+vi.mock('./supabase', () => {
+  let requests = 0
+  const from = () => {
+    const order: string[] = []
+    let range: [number, number] = [0, Number.MAX_SAFE_INTEGER]
+    const builder: any = {
+      select: () => builder,
+      order: (column: string) => {
+        order.push(column)
+        return builder
+      },
+      range: (from: number, to: number) => {
+        range = [from, to]
+        return builder
+      },
+      then: (resolve: (value: any) => void) => {
+        requests += 1
+        state.orders.push([...order])
+        const rows = order.length > 0
+          ? [...state.rows].sort((a, b) => {
+              for (const column of order) {
+                if (a[column] !== b[column]) return a[column] < b[column] ? -1 : 1
+              }
+              return 0
+            })
+          : [...state.rows.slice(requests * 7), ...state.rows.slice(0, requests * 7)]
+        resolve({ data: rows.slice(range[0], range[1] + 1), error: null })
+      },
+    }
+    return builder
+  }
+  return { supabase: null, supabaseAdmin: { from } }
+})
+
+describe('aggregateTable paging', () => {
+  beforeEach(() => {
+    state.orders = []
+    state.rows = Array.from({ length: 1500 }, (_, index) => ({
+      plan_id: `p${String(index).padStart(4, '0')}`,
+      employee_id: `e${index % 3}`,
+      hours: 1,
+    }))
+  })
+
+  it('orders pages by the primary key so every row is counted once', async () => {
+    const result = await aggregateTable('t_morningplan_staff', [{ fn: 'sum', column: 'hours' }], {
+      groupBy: ['employee_id'],
+    })
+
+    expect(state.orders).toEqual([
+      ['plan_id', 'employee_id'],
+      ['plan_id', 'employee_id'],
+    ])
+    expect(result.data?.rows).toEqual([
+      { employee_id: 'e0', sum_hours: 500 },
+      { employee_id: 'e1', sum_hours: 500 },
+      { employee_id: 'e2', sum_hours: 500 },
+    ])
+  })
+
+  it('orders views without a declared key by the selected columns', async () => {
+    await aggregateTable('v_morningplan_full', [{ fn: 'max', column: 'hours' }], { groupBy: ['employee_id'] })
+
+    expect(state.orders[0]).toEqual(['employee_id', 'hours'])
+  })
+})
@@ -4,6 +4,14 @@ import { createAuditLog } from './audit-log'
 import { INSERT_ALLOWED_TABLES } from './constants'
 import { retrySupabaseOperation } from './retry'
 import { getUserFriendlyErrorMessage } from './error-messages'
+import { applyFilters, type FilterOptions } from './filters'
+import { describeRow, getTableMetadata } from './table-metadata'
+import { buildWritePreview } from './write-preview'
+
+const COLUMN_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_]*$/
+
+// Updates and deletes match names case-insensitively, for the row count and the write alike
+const WRITE_FILTER_OPTIONS: FilterOptions = { caseInsensitiveColumns: ['name'] }
 
 /**
  * Execute a read-only SQL query via Supabase REST API
@@ -196,16 +204,93 @@ export async function getTableStructure(tableName: string) {
   }
 }
 
+export interface OrderByClause {
+  column: string
+  direction?: 'asc' | 'desc'
+  nulls?: 'first' | 'last'
+}
+
+export interface QueryTableOptions {
+  columns?: string[]
+  orderBy?: OrderByClause[]
+  offset?: number
+}
+
+/**
+ * Check requested columns against the table structure
+ * Returns an error message listing the available columns, or null if all are known.
+ * Tables without rows cannot be inspected, so their columns are not checked.
+ */
+async function validateQueryColumns(tableName: string, columns: string[]): Promise<string | null> {
+  const invalidName = columns.find((column) => !COLUMN_NAME_PATTERN.test(column))
+  if (invalidName) {
+    return `Invalid column name: ${invalidName}`
+  }
+
+  const structure = await getTableStructure(tableName)
+  if (structure.error || structure.columns.length === 0) {
+    return null
+  }
+
+  const availableColumns: string[] = structure.columns
+  const unknownColumns = columns.filter((column) => !availableColumns.includes(column))
+  if (unknownColumns.length > 0) {
+    return `Unknown column(s) in ${tableName}: ${unknownColumns.join(', ')}. Available columns: ${availableColumns.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * A related table embedded in a select, e.g. "t_employees(*)" or "t_employees!fk(name, role)"
+ */
+/**
+ * Whether a table or column name is a plain identifier that is safe to put into a select string
+ */
+export function isIdentifier(name: string): boolean {
+  return COLUMN_NAME_PATTERN.test(name)
+}
+
+export interface JoinSelect {
+  tableName: string
+  /** Selected columns; empty for "*" */
+  columns: string[]
+}
+
+const JOIN_PATTERN = /^([a-zA-Z_][a-zA-Z0-9_]*)(?:![a-zA-Z0-9_]+)?\(([^()]*)\)$/
+
+/**
+ * Parse a join of the form "table(*)" or "table(column, ...)"; null for anything else
+ * Aliases ("rate:hourly_rate"), casts and nested relations are rejected.
+ */
+export function parseJoinSelect(join: string): JoinSelect | null {
+  const match = join.trim().match(JOIN_PATTERN)
+  if (!match) {
+    return null
+  }
+  const selected = match[2].split(',').map((column) => column.trim())
+  if (selected.length === 1 && selected[0] === '*') {
+    return { tableName: match[1], columns: [] }
+  }
+  if (selected.some((column) => !COLUMN_NAME_PATTERN.test(column))) {
+    return null
+  }
+  return { tableName: match[1], columns: selected }
+}
+
 /**
  * Query a specific table with filters and optional joins
- * Supports various filter types: eq, neq, gt, gte, lt, lte, like, ilike, in
+ * Supports various filter types: eq, neq, gt, gte, lt, lte, like, ilike, in, not_in,
+ * is_null, not_null, not wrappers and or groups
  * Supports joins using Supabase's relationship syntax: 'related_table(*)'
+ * Supports column selection, ordering and offset pagination via options
  */
 export async function queryTable(
   tableName: string,
   filters: Record<string, any> = {},
   limit: number = 100,
-  joins?: string[]
+  joins?: string[],
+  options: QueryTableOptions = {}
 ) {
   try {
     if (!supabaseAdmin) {
@@ -234,84 +319,69 @@ export async function queryTable(
       }
     }
 
-    // Build select statement with joins if provided
-    let selectStatement = '*'
-    if (joins && joins.length > 0) {
-      // Validate join syntax
-      const validJoins = joins.filter(join => /^[a-zA-Z_][a-zA-Z0-9_]*(\!?[a-zA-Z0-9_]*)?\([^)]*\)$/.test(join))
-      if (validJoins.length > 0) {
-        selectStatement = `*, ${validJoins.join(', ')}`
+    const offset = options.offset ?? 0
+    if (!Number.isInteger(offset) || offset < 0) {
+      return {
+        data: null,
+        error: 'Offset must be a non-negative integer'
       }
     }
 
-    let query = supabaseAdmin.from(tableName).select(selectStatement).limit(limit)
+    const columns = options.columns || []
+    const orderBy = options.orderBy || []
 
-    // Apply sanitized filters
-    // Support both simple key-value (defaults to eq) and advanced filter objects
-    for (const [key, value] of Object.entries(sanitizedFilters)) {
-      if (value === undefined || value === null) {
-        continue
+    // Validate requested and sort columns against the table structure
+    const referencedColumns = Array.from(new Set([...columns, ...orderBy.map((clause) => clause.column)]))
+    if (referencedColumns.length > 0) {
+      const columnError = await validateQueryColumns(tableName, referencedColumns)
+      if (columnError) {
+        return {
+          data: null,
+          error: columnError
+        }
       }
+    }
 
-      // If value is an object with filter type, use it
-      if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-        const filterType = value.type
-        const filterValue = value.value
-
-        switch (filterType) {
-          case 'eq':
-            query = query.eq(key, filterValue)
-            break
-          case 'neq':
-            query = query.neq(key, filterValue)
-            break
-          case 'gt':
-            query = query.gt(key, filterValue)
-            break
-          case 'gte':
-            query = query.gte(key, filterValue)
-            break
-          case 'lt':
-            query = query.lt(key, filterValue)
-            break
-          case 'lte':
-            query = query.lte(key, filterValue)
-            break
-          case 'between':
-            if (Array.isArray(filterValue) && filterValue.length === 2) {
-              query = query.gte(key, filterValue[0]).lte(key, filterValue[1])
-            }
-            break
-          case 'like':
-            query = query.like(key, `%${filterValue}%`)
-            break
-          case 'ilike':
-            query = query.ilike(key, `%${filterValue}%`)
-            break
-          case 'in':
-            if (Array.isArray(filterValue)) {
-              query = query.in(key, filterValue)
-            }
-            break
-          default:
-            query = query.eq(key, filterValue)
+    // Build select statement with joins if provided
+    let selectStatement = columns.length > 0 ? columns.join(', ') : '*'
+    if (joins && joins.length > 0) {
+      // Only plain relations are allowed, so a join cannot rename (and unmask) a column
+      const invalidJoin = joins.find((join) => !parseJoinSelect(join))
+      if (invalidJoin) {
+        return {
+          data: null,
+          error: `Invalid join: ${invalidJoin}. Use "related_table(*)" or "related_table(column1, column2)" without aliases.`
         }
-      } else {
-        // Simple equality filter
-        query = query.eq(key, value)
       }
+      selectStatement = `${selectStatement}, ${joins.join(', ')}`
     }
 
+    let query = supabaseAdmin
+      .from(tableName)
+      .select(selectStatement, { count: 'exact' })
+
+    // Apply sanitized filters
+    query = applyFilters(query, sanitizedFilters)
+
+    for (const clause of orderBy) {
+      query = query.order(clause.column, {
+        ascending: clause.direction !== 'desc',
+        ...(clause.nulls ? { nullsFirst: clause.nulls === 'first' } : {}),
+      })
+    }
+
+    const pagedQuery = query.range(offset, offset + limit - 1)
+
     // Retry query with exponential backoff for transient failures
     const result = await retrySupabaseOperation(async () => {
-    const { data, error } = await query
-    if (error) {
+      const { data, error, count } = await pagedQuery
+      if (error) {
         throw error
       }
-      return { data: data || [], error: null }
+      return { data: { rows: data || [], count }, error: null }
     })
 
-    if (result.error) {
+    if (result.error || !result.data) {
       const errorMessage = getUserFriendlyErrorMessage(result.error, 'QUERY', tableName)
       return {
         data: null,
@@ -319,7 +389,20 @@ export async function queryTable(
       }
     }
 
-    return result
+    const rows = result.data.rows
+    const total = result.data.count ?? null
+
+    return {
+      data: rows,
+      error: null,
+      pagination: {
+        offset,
+        limit,
+        returned: rows.length,
+        total,
+        hasMore: total !== null ? offset + rows.length < total : rows.length === limit,
+      }
+    }
   } catch (err) {
     return {
       data: null,
@@ -328,12 +411,356 @@ export async function queryTable(
   }
 }
 
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max'
+
+export interface AggregateMetric {
+  fn: AggregateFunction
+  column?: string
+  alias?: string
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max']
+const AGGREGATE_PAGE_SIZE = 1000
+const AGGREGATE_MAX_ROWS = 20000
+
+/**
+ * Name under which a metric is returned, e.g. "count" or "sum_hours"
+ */
+function getMetricAlias(metric: AggregateMetric): string {
+  if (metric.alias) {
+    return metric.alias
+  }
+  return metric.column ? `${metric.fn}_${metric.column}` : metric.fn
+}
+
+/**
+ * Round floating point results so the model can quote them exactly
+ */
+function roundAggregate(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function compareAggregateValues(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+  return String(a).localeCompare(String(b))
+}
+
+/**
+ * Compute one metric over the rows of a group
+ */
+function computeMetric(metric: AggregateMetric, rows: Record<string, any>[]): number | string | null {
+  if (metric.fn === 'count') {
+    if (!metric.column) {
+      return rows.length
+    }
+    return rows.filter((row) => row[metric.column!] !== null && row[metric.column!] !== undefined).length
+  }
+
+  const values = rows
+    .map((row) => row[metric.column!])
+    .filter((value) => value !== null && value !== undefined && value !== '')
+
+  if (metric.fn === 'min' || metric.fn === 'max') {
+    if (values.length === 0) {
+      return null
+    }
+    const sorted = [...values].sort(compareAggregateValues)
+    return metric.fn === 'min' ? sorted[0] : sorted[sorted.length - 1]
+  }
+
+  const numbers = values.map((value) => Number(value)).filter((value) => Number.isFinite(value))
+  if (numbers.length === 0) {
+    return metric.fn === 'sum' ? 0 : null
+  }
+
+  const sum = numbers.reduce((total, value) => total + value, 0)
+  return roundAggregate(metric.fn === 'sum' ? sum : sum / numbers.length)
+}
+
+/**
+ * Count and list the rows an update or delete with these filters would touch
+ * Uses the same filter semantics as the write itself
+ */
+export async function findAffectedRows(
+  tableName: string,
+  filters: Record<string, any>,
+  limit: number = 20
+): Promise<{ count: number; rows: Record<string, any>[]; error: string | null }> {
+  if (!supabaseAdmin) {
+    return { count: 0, rows: [], error: 'Service role key not configured' }
+  }
+
+  const filtersValidation = sanitizeFilters(filters)
+  if (!filtersValidation.valid) {
+    return { count: 0, rows: [], error: filtersValidation.error || 'Invalid filters' }
+  }
+
+  const client = supabaseAdmin
+  const result = await retrySupabaseOperation(async () => {
+    const { data, error, count } = await applyFilters(
+      client.from(tableName).select('*', { count: 'exact' }).limit(limit),
+      filtersValidation.sanitized!,
+      WRITE_FILTER_OPTIONS
+    )
+    if (error) {
+      throw error
+    }
+    return { data: { rows: (data || []) as Record<string, any>[], count: count ?? 0 }, error: null }
+  })
+
+  if (result.error || !result.data) {
+    return { count: 0, rows: [], error: getUserFriendlyErrorMessage(result.error, 'QUERY', tableName) }
+  }
+
+  return { count: result.data.count, rows: result.data.rows, error: null }
+}
+
+/**
+ * German explanation when the filters match a different number of rows than expected,
+ * listing the matching rows so the user can pick one
+ */
+function describeCountMismatch(
+  tableName: string,
+  count: number,
+  expectedCount: number,
+  rows: Record<string, any>[]
+): string {
+  if (count === 0) {
+    return 'Keine Zeilen gefunden, die den Filtern entsprechen'
+  }
+
+  const rowList = rows.map((row) => `- ${describeRow(tableName, row)}`).join('\n')
+  const more = count > rows.length ? `\n… und ${count - rows.length} weitere` : ''
+
+  if (expectedCount === 1) {
+    return `Mehrere Zeilen gefunden (${count}). Bitte verwende spezifischere Filter, um genau eine Zeile zu identifizieren:\n${rowList}${more}`
+  }
+
+  return `Erwartet wurden ${expectedCount} Zeilen, gefunden wurden ${count}. Betroffene Zeilen:\n${rowList}${more}`
+}
+
+/**
+ * Aggregate a table with count, sum, avg, min and max, optionally grouped by columns
+ * Uses the same filter syntax as queryTable. Plain counts without grouping run as a
+ * head-only count query; everything else is aggregated from the matching rows.
+ */
+export async function aggregateTable(
+  tableName: string,
+  metrics: AggregateMetric[],
+  options: {
+    filters?: Record<string, any>
+    groupBy?: string[]
+    limit?: number
+  } = {}
+) {
+  try {
+    if (!supabaseAdmin) {
+      return {
+        data: null,
+        error: 'Service role key not configured. Please set SUPABASE_SERVICE_ROLE_KEY in your environment variables.'
+      }
+    }
+
+    if (!metrics || metrics.length === 0) {
+      return {
+        data: null,
+        error: 'At least one metric is required'
+      }
+    }
+
+    for (const metric of metrics) {
+      if (!AGGREGATE_FUNCTIONS.includes(metric.fn)) {
+        return {
+          data: null,
+          error: `Unsupported aggregate function: ${metric.fn}`
+        }
+      }
+      if (metric.fn !== 'count' && !metric.column) {
+        return {
+          data: null,
+          error: `Aggregate function ${metric.fn} requires a column`
+        }
+      }
+      if (metric.column && !COLUMN_NAME_PATTERN.test(metric.column)) {
+        return {
+          data: null,
+          error: `Invalid column name: ${metric.column}`
+        }
+      }
+    }
+
+    const groupBy = options.groupBy || []
+    const invalidGroupColumn = groupBy.find((column) => !COLUMN_NAME_PATTERN.test(column))
+    if (invalidGroupColumn) {
+      return {
+        data: null,
+        error: `Invalid group-by column: ${invalidGroupColumn}`
+      }
+    }
+
+    const limit = options.limit ?? 100
+    if (limit < 1 || limit > 1000) {
+      return {
+        data: null,
+        error: 'Limit must be between 1 and 1000'
+      }
+    }
+
+    const filtersValidation = sanitizeFilters(options.filters || {})
+    if (!filtersValidation.valid) {
+      return {
+        data: null,
+        error: filtersValidation.error || 'Invalid filters'
+      }
+    }
+
+    const sanitizedFilters = filtersValidation.sanitized!
+    const client = supabaseAdmin
+
+    // Fast path: plain row count without grouping
+    if (groupBy.length === 0 && metrics.every((metric) => metric.fn === 'count' && !metric.column)) {
+      const result = await retrySupabaseOperation(async () => {
+        const { count, error } = await applyFilters(
+          client.from(tableName).select('*', { count: 'exact', head: true }),
+          sanitizedFilters
+        )
+        if (error) {
+          throw error
+        }
+        return { data: count || 0, error: null }
+      })
+
+      if (result.error) {
+        return {
+          data: null,
+          error: getUserFriendlyErrorMessage(result.error, 'QUERY', tableName)
+        }
+      }
+
+      const row: Record<string, number> = {}
+      for (const metric of metrics) {
+        row[getMetricAlias(metric)] = result.data as number
+      }
+
+      return {
+        data: {
+          rows: [row],
+          groupCount: 1,
+          scannedRows: result.data as number,
+          truncated: false,
+        },
+        error: null
+      }
+    }
+
+    const columns = Array.from(new Set([
+      ...groupBy,
+      ...metrics.map((metric) => metric.column).filter((column): column is string => !!column),
+    ]))
+    const selectStatement = columns.length > 0 ? columns.join(', ') : '*'
+    // Pages need a stable order so they neither overlap nor skip rows. Views have no declared key;
+    // ordering by every selected column makes ties identical rows, which aggregate the same either way.
+    const orderColumns = getTableMetadata(tableName)?.primaryKey ?? columns
+
+    // Fetch matching rows page by page, up to a safety cap
+    const rows: Record<string, any>[] = []
+    let truncated = false
+    for (let offset = 0; ; offset += AGGREGATE_PAGE_SIZE) {
+      const result = await retrySupabaseOperation(async () => {
+        let query = client.from(tableName).select(selectStatement)
+        for (const column of orderColumns) {
+          query = query.order(column, { ascending: true })
+        }
+        const { data, error } = await applyFilters(
+          query.range(offset, offset + AGGREGATE_PAGE_SIZE - 1),
+          sanitizedFilters
+        )
+        if (error) {
+          throw error
+        }
+        return { data: (data || []) as unknown as Record<string, any>[], error: null }
+      })
+
+      if (result.error) {
+        return {
+          data: null,
+          error: getUserFriendlyErrorMessage(result.error, 'QUERY', tableName)
+        }
+      }
+
+      const page = result.data as Record<string, any>[]
+      rows.push(...page)
+
+      if (page.length < AGGREGATE_PAGE_SIZE) {
+        break
+      }
+      if (rows.length >= AGGREGATE_MAX_ROWS) {
+        truncated = true
+        break
+      }
+    }
+
+    // Group rows by the values of the group-by columns
+    const groups = new Map<string, Record<string, any>[]>()
+    for (const row of rows) {
+      const key = JSON.stringify(groupBy.map((column) => row[column] ?? null))
+      const group = groups.get(key)
+      if (group) {
+        group.push(row)
+      } else {
+        groups.set(key, [row])
+      }
+    }
+    if (groupBy.length === 0 && groups.size === 0) {
+      groups.set('[]', [])
+    }
+
+    const aggregated = Array.from(groups.values()).map((groupRows) => {
+      const result: Record<string, any> = {}
+      for (const column of groupBy) {
+        result[column] = groupRows[0]?.[column] ?? null
+      }
+      for (const metric of metrics) {
+        result[getMetricAlias(metric)] = computeMetric(metric, groupRows)
+      }
+      return result
+    })
+
+    // Largest groups first, by the first metric
+    const sortKey = getMetricAlias(metrics[0])
+    aggregated.sort((a, b) => {
+      if (a[sortKey] === null) return 1
+      if (b[sortKey] === null) return -1
+      return compareAggregateValues(b[sortKey], a[sortKey])
+    })
+
+    return {
+      data: {
+        rows: aggregated.slice(0, limit),
+        groupCount: aggregated.length,
+        scannedRows: rows.length,
+        truncated: truncated || aggregated.length > limit,
+      },
+      error: null
+    }
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err.message : 'Aggregation failed'
+    }
+  }
+}
+
 export async function insertRow(
   tableName: string,
   values: Record<string, any>,
   options?: {
     userId?: string
     ipAddress?: string
+    /** Extra metadata for the success audit entry (e.g. marking undo writes) */
+    auditMetadata?: Record<string, any>
   }
 ) {
   try {
@@ -419,6 +846,8 @@ export async function insertRow(
       userId: options?.userId,
       ipAddress: options?.ipAddress,
       values: sanitizedValues,
+      afterRows: insertResult.data ? [insertResult.data] : [],
+      metadata: options?.auditMetadata,
     })
 
     return { data: insertResult.data, error: null }
@@ -444,7 +873,12 @@ export async function updateRow(
   options?: {
     userId?: string
     ipAddress?: string
-    requireSingleRow?: boolean
+    /** Number of rows the filters must match (default: 1); set explicitly for multi-row writes */
+    expectedCount?: number
+    /** Validate and return the before/after preview without writing */
+    dryRun?: boolean
+    /** Extra metadata for the success audit entry (e.g. marking undo writes) */
+    auditMetadata?: Record<string, any>
   }
 ) {
   try {
@@ -487,21 +921,19 @@ export async function updateRow(
       }
     }
 
-    // Validate single row requirement if specified
-    if (options?.requireSingleRow !== false) {
-      const singleRowValidation = validateSingleRowFilters(filtersValidation.sanitized!)
-      if (!singleRowValidation.valid) {
-        createAuditLog('UPDATE', tableName, 'FAILURE', {
-          userId: options?.userId,
-          ipAddress: options?.ipAddress,
-          filters: filtersValidation.sanitized,
-          values,
-          error: singleRowValidation.error,
-        })
-        return {
-          data: null,
-          error: singleRowValidation.error || 'Filters must identify exactly one row'
-        }
+    // Filters must reference an identifying column of the table
+    const singleRowValidation = validateSingleRowFilters(tableName, filtersValidation.sanitized!)
+    if (!singleRowValidation.valid) {
+      createAuditLog('UPDATE', tableName, 'FAILURE', {
+        userId: options?.userId,
+        ipAddress: options?.ipAddress,
+        filters: filtersValidation.sanitized,
+        values,
+        error: singleRowValidation.error,
+      })
+      return {
+        data: null,
+        error: singleRowValidation.error || 'Filters must identify exactly one row'
       }
     }
 
@@ -531,64 +963,45 @@ export async function updateRow(
       }
     }
 
-    // First, check how many rows would be affected
-    let countQuery = supabaseAdmin.from(tableName).select('*', { count: 'exact', head: true })
-    
-    // Apply filters to count query
-    for (const [key, value] of Object.entries(sanitizedFilters)) {
-      if (value === undefined || value === null) {
-        continue
-      }
-      if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-        const filterType = value.type
-        const filterValue = value.value
-        switch (filterType) {
-          case 'eq':
-            countQuery = countQuery.eq(key, filterValue)
-            break
-          case 'neq':
-            countQuery = countQuery.neq(key, filterValue)
-            break
-          case 'in':
-            if (Array.isArray(filterValue)) {
-              countQuery = countQuery.in(key, filterValue)
-            }
-            break
-          default:
-            countQuery = countQuery.eq(key, filterValue)
-        }
-      } else {
-        countQuery = countQuery.eq(key, value)
-      }
-    }
-    
-    const { count } = await countQuery
+    // Count the matching rows against the table before writing
+    const expectedCount = options?.expectedCount ?? 1
+    const affected = await findAffectedRows(tableName, sanitizedFilters, Math.max(20, expectedCount))
 
-    if (count === 0) {
+    if (affected.error) {
       createAuditLog('UPDATE', tableName, 'FAILURE', {
         userId: options?.userId,
         ipAddress: options?.ipAddress,
         filters: sanitizedFilters,
         values: sanitizedValues,
-        error: 'No rows found matching filters',
+        error: affected.error,
       })
-      return {
-        data: null,
-        error: 'Keine Zeilen gefunden, die den Filtern entsprechen'
-      }
+      return { data: null, error: affected.error }
     }
 
-    if (options?.requireSingleRow !== false && count !== 1) {
+    if (affected.count !== expectedCount) {
       createAuditLog('UPDATE', tableName, 'FAILURE', {
         userId: options?.userId,
         ipAddress: options?.ipAddress,
         filters: sanitizedFilters,
         values: sanitizedValues,
-        error: `Expected 1 row, found ${count}`,
+        error: `Expected ${expectedCount} row(s), found ${affected.count}`,
       })
       return {
         data: null,
-        error: `Mehrere Zeilen gefunden (${count}). Bitte verwende spezifischere Filter, um genau eine Zeile zu identifizieren.`
+        error: describeCountMismatch(tableName, affected.count, expectedCount, affected.rows),
+        matchingRows: affected.rows,
+      }
+    }
+
+    // Dry run: report the matched rows and what would change, without writing
+    if (options?.dryRun) {
+      return {
+        data: {
+          dryRun: true,
+          rows: affected.rows,
+          preview: buildWritePreview('UPDATE', tableName, affected.rows, { rowCount: affected.count, values: sanitizedValues }),
+        },
+        error: null
       }
     }
 
@@ -596,45 +1009,11 @@ export async function updateRow(
     let query = supabaseAdmin.from(tableName).update(sanitizedValues)
 
     // Apply filters
-    for (const [key, value] of Object.entries(sanitizedFilters)) {
-      if (value === undefined || value === null) {
-        continue
-      }
-
-      // Support filter objects with type
-      if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-        const filterType = value.type
-        const filterValue = value.value
-
-        switch (filterType) {
-          case 'eq':
-            query = query.eq(key, filterValue)
-            break
-          case 'neq':
-            query = query.neq(key, filterValue)
-            break
-          case 'in':
-            if (Array.isArray(filterValue)) {
-              query = query.in(key, filterValue)
-            }
-            break
-          default:
-            query = query.eq(key, filterValue)
-        }
-      } else {
-        // Simple equality filter
-        // Use case-insensitive search for 'name' fields
-        if (key === 'name' && typeof value === 'string') {
-          query = query.ilike(key, value)
-        } else {
-          query = query.eq(key, value)
-        }
-      }
-    }
+    query = applyFilters(query, sanitizedFilters, WRITE_FILTER_OPTIONS)
 
     // Perform update with retry logic
     const updateResult = await retrySupabaseOperation(async () => {
-      const { data, error } = await query.select().single()
+      const { data, error } = expectedCount === 1 ? await query.select().single() : await query.select()
       if (error) {
         throw error
       }
@@ -659,6 +1038,9 @@ export async function updateRow(
       ipAddress: options?.ipAddress,
       filters: sanitizedFilters,
       values: sanitizedValues,
+      beforeRows: affected.rows,
+      afterRows: Array.isArray(updateResult.data) ? updateResult.data : updateResult.data ? [updateResult.data] : [],
+      metadata: options?.auditMetadata,
     })
 
     return { data: updateResult.data, error: null }
@@ -684,7 +1066,12 @@ export async function deleteRow(
   options?: {
     userId?: string
     ipAddress?: string
-    requireSingleRow?: boolean
+    /** Number of rows the filters must match (default: 1); set explicitly for multi-row writes */
+    expectedCount?: number
+    /** Validate and return the before/after preview without writing */
+    dryRun?: boolean
+    /** Extra metadata for the success audit entry (e.g. marking undo writes) */
+    auditMetadata?: Record<string, any>
   }
 ) {
   try {
@@ -725,81 +1112,60 @@ export async function deleteRow(
       }
     }
 
-    // Validate single row requirement if specified
-    if (options?.requireSingleRow !== false) {
-      const singleRowValidation = validateSingleRowFilters(filtersValidation.sanitized!)
-      if (!singleRowValidation.valid) {
-        createAuditLog('DELETE', tableName, 'FAILURE', {
-          userId: options?.userId,
-          ipAddress: options?.ipAddress,
-          filters: filtersValidation.sanitized,
-          error: singleRowValidation.error,
-        })
-        return {
-          data: null,
-          error: singleRowValidation.error || 'Filters must identify exactly one row'
-        }
+    // Filters must reference an identifying column of the table
+    const singleRowValidation = validateSingleRowFilters(tableName, filtersValidation.sanitized!)
+    if (!singleRowValidation.valid) {
+      createAuditLog('DELETE', tableName, 'FAILURE', {
+        userId: options?.userId,
+        ipAddress: options?.ipAddress,
+        filters: filtersValidation.sanitized,
+        error: singleRowValidation.error,
+      })
+      return {
+        data: null,
+        error: singleRowValidation.error || 'Filters must identify exactly one row'
       }
     }
 
     const sanitizedFilters = filtersValidation.sanitized!
 
-    // First, check how many rows would be affected
-    let countQuery = supabaseAdmin.from(tableName).select('*', { count: 'exact', head: true })
-    
-    // Apply filters to count query
-    for (const [key, value] of Object.entries(sanitizedFilters)) {
-      if (value === undefined || value === null) {
-        continue
-      }
-      if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-        const filterType = value.type
-        const filterValue = value.value
-        switch (filterType) {
-          case 'eq':
-            countQuery = countQuery.eq(key, filterValue)
-            break
-          case 'neq':
-            countQuery = countQuery.neq(key, filterValue)
-            break
-          case 'in':
-            if (Array.isArray(filterValue)) {
-              countQuery = countQuery.in(key, filterValue)
-            }
-            break
-          default:
-            countQuery = countQuery.eq(key, filterValue)
-        }
-      } else {
-        countQuery = countQuery.eq(key, value)
-      }
-    }
-    
-    const { count } = await countQuery
+    // Count the matching rows against the table before writing
+    const expectedCount = options?.expectedCount ?? 1
+    const affected = await findAffectedRows(tableName, sanitizedFilters, Math.max(20, expectedCount))
 
-    if (count === 0) {
+    if (affected.error) {
       createAuditLog('DELETE', tableName, 'FAILURE', {
         userId: options?.userId,
         ipAddress: options?.ipAddress,
         filters: sanitizedFilters,
-        error: 'No rows found matching filters',
+        error: affected.error,
       })
-      return {
-        data: null,
-        error: 'Keine Zeilen gefunden, die den Filtern entsprechen'
-      }
+      return { data: null, error: affected.error }
     }
 
-    if (options?.requireSingleRow !== false && count !== 1) {
+    if (affected.count !== expectedCount) {
       createAuditLog('DELETE', tableName, 'FAILURE', {
         userId: options?.userId,
         ipAddress: options?.ipAddress,
         filters: sanitizedFilters,
-        error: `Expected 1 row, found ${count}`,
+        error: `Expected ${expectedCount} row(s), found ${affected.count}`,
       })
       return {
         data: null,
-        error: `Mehrere Zeilen gefunden (${count}). Bitte verwende spezifischere Filter, um genau eine Zeile zu identifizieren.`
+        error: describeCountMismatch(tableName, affected.count, expectedCount, affected.rows),
+        matchingRows: affected.rows,
+      }
+    }
+
+    // Dry run: report the matched rows and what would change, without writing
+    if (options?.dryRun) {
+      return {
+        data: {
+          dryRun: true,
+          rows: affected.rows,
+          preview: buildWritePreview('DELETE', tableName, affected.rows, { rowCount: affected.count }),
+        },
+        error: null
       }
     }
 
@@ -807,41 +1173,7 @@ export async function deleteRow(
     let query = supabaseAdmin.from(tableName).delete()
 
     // Apply filters
-    for (const [key, value] of Object.entries(sanitizedFilters)) {
-      if (value === undefined || value === null) {
-        continue
-      }
-
-      // Support filter objects with type
-      if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-        const filterType = value.type
-        const filterValue = value.value
-
-        switch (filterType) {
-          case 'eq':
-            query = query.eq(key, filterValue)
-            break
-          case 'neq':
-            query = query.neq(key, filterValue)
-            break
-          case 'in':
-            if (Array.isArray(filterValue)) {
-              query = query.in(key, filterValue)
-            }
-            break
-          default:
-            query = query.eq(key, filterValue)
-        }
-      } else {
-        // Simple equality filter
-        // Use case-insensitive search for 'name' fields
-        if (key === 'name' && typeof value === 'string') {
-          query = query.ilike(key, value)
-        } else {
-          query = query.eq(key, value)
-        }
-      }
-    }
+    query = applyFilters(query, sanitizedFilters, WRITE_FILTER_OPTIONS)
 
     // Perform delete with retry logic
     const deleteResult = await retrySupabaseOperation(async () => {
@@ -870,7 +1202,8 @@ export async function deleteRow(
       userId: options?.userId,
       ipAddress: options?.ipAddress,
       filters: sanitizedFilters,
-      metadata: { deleted_count: deletedCount },
+      beforeRows: deleteResult.data || [],
+      metadata: { ...options?.auditMetadata, deleted_count: deletedCount },
     })
 
     return { 
@@ -915,6 +1248,26 @@ export async function queryTableWithJoin(
     }
   }
 
+  // Validate and sanitize filters
+  const filtersValidation = sanitizeFilters(filters)
+  if (!filtersValidation.valid) {
+    return {
+      data: null,
+      error: filtersValidation.error || 'Invalid filters'
+    }
+  }
+
+  const sanitizedFilters = filtersValidation.sanitized!
+
+  // The names go into the select string, so anything beyond a plain identifier could embed unchecked tables
+  const invalidName = [tableName, joinTable, ...(joinColumn ? [joinColumn] : [])].find((name) => !isIdentifier(name))
+  if (invalidName) {
+    return {
+      data: null,
+      error: `Invalid table or column name: ${invalidName}`
+    }
+  }
+
   // Try multiple join patterns
   const joinPatterns: string[] = []
   
@@ -956,57 +1309,7 @@ export async function queryTableWithJoin(
         .limit(limit)
 
       // Apply filters
-      for (const [key, value] of Object.entries(filters)) {
-        if (value === undefined || value === null) {
-          continue
-        }
-
-        if (typeof value === 'object' && !Array.isArray(value) && value.type) {
-          const filterType = value.type
-          const filterValue = value.value
-
-          switch (filterType) {
-            case 'eq':
-              query = query.eq(key, filterValue)
-              break
-            case 'neq':
-              query = query.neq(key, filterValue)
-              break
-            case 'gt':
-              query = query.gt(key, filterValue)
-              break
-            case 'gte':
-              query = query.gte(key, filterValue)
-              break
-            case 'lt':
-              query = query.lt(key, filterValue)
-              break
-            case 'lte':
-              query = query.lte(key, filterValue)
-              break
-            case 'between':
-              if (Array.isArray(filterValue) && filterValue.length === 2) {
-                query = query.gte(key, filterValue[0]).lte(key, filterValue[1])
-              }
-              break
-            case 'like':
-              query = query.like(key, `%${filterValue}%`)
-              break
-            case 'ilike':
-              query = query.ilike(key, `%${filterValue}%`)
-              break
-            case 'in':
-              if (Array.isArray(filterValue)) {
-                query = query.in(key, filterValue)
-              }
-              break
-            default:
-              query = query.eq(key, filterValue)
-          }
-        } else {
-          query = query.eq(key, value)
-        }
-      }
+      query = applyFilters(query, sanitizedFilters)
 
       const { data, error } = await query
 
@@ -0,0 +1,166 @@
+/**
+ * Schema configuration for the writable tables
+ * Declares how rows are identified so that updates and deletes can be checked
+ * against real keys instead of guessing from column names, and which column
+ * carries the date of each dated table or view
+ *
+ * Environment variables:
+ * - TABLE_DATE_FIELDS: date column overrides, e.g. "t_time_pairs:work_date,t_inspections:-"
+ */
+
+export interface TableMetadata {
+  /** Columns that together identify exactly one row */
+  primaryKey: string[]
+  /** Alternative unique keys (each entry is one key, possibly composite) */
+  uniqueKeys: string[][]
+  /** Columns users identify rows by that are not guaranteed to be unique (e.g. name) */
+  lookupColumns: string[]
+  /** Columns shown when listing candidate rows to the user */
+  labelColumns: string[]
+}
+
+export const TABLE_METADATA: Record<string, TableMetadata> = {
+  t_projects: {
+    primaryKey: ['project_id'],
+    uniqueKeys: [['project_code']],
+    lookupColumns: ['name'],
+    labelColumns: ['project_code', 'name', 'ort', 'project_date'],
+  },
+  t_employees: {
+    primaryKey: ['employee_id'],
+    uniqueKeys: [['employee_code']],
+    lookupColumns: ['name'],
+    labelColumns: ['name', 'role', 'is_active'],
+  },
+  t_vehicles: {
+    primaryKey: ['vehicle_id'],
+    uniqueKeys: [],
+    lookupColumns: ['nickname', 'unit'],
+    labelColumns: ['nickname', 'unit', 'status'],
+  },
+  t_morningplan: {
+    primaryKey: ['plan_id'],
+    uniqueKeys: [],
+    lookupColumns: ['plan_date', 'project_id'],
+    labelColumns: ['plan_date', 'start_time', 'service_type', 'project_id'],
+  },
+  t_morningplan_staff: {
+    primaryKey: ['plan_id', 'employee_id'],
+    uniqueKeys: [],
+    lookupColumns: ['plan_id', 'employee_id'],
+    labelColumns: ['plan_id', 'employee_id', 'role', 'individual_start_time'],
+  },
+  t_services: {
+    primaryKey: ['service_id'],
+    uniqueKeys: [],
+    lookupColumns: ['name'],
+    labelColumns: ['name'],
+  },
+  t_materials: {
+    primaryKey: ['material_id'],
+    uniqueKeys: [],
+    lookupColumns: ['name'],
+    labelColumns: ['name', 'unit', 'category'],
+  },
+  t_material_prices: {
+    primaryKey: ['material_id'],
+    uniqueKeys: [],
+    lookupColumns: ['material_id'],
+    labelColumns: ['material_id', 'purchase_price', 'sale_price'],
+  },
+}
+
+export function getTableMetadata(tableName: string): TableMetadata | undefined {
+  return TABLE_METADATA[tableName]
+}
+
+/**
+ * All columns that may be used to identify rows of a table for a write
+ */
+export function getIdentifyingColumns(tableName: string): string[] {
+  const metadata = getTableMetadata(tableName)
+  if (!metadata) {
+    return []
+  }
+  return Array.from(new Set([
+    ...metadata.primaryKey,
+    ...metadata.uniqueKeys.flat(),
+    ...metadata.lookupColumns,
+  ]))
+}
+
+/**
+ * Short human-readable description of a row, e.g. "project_code: P-12, name: Umzug"
+ */
+export function describeRow(tableName: string, row: Record<string, any>): string {
+  const metadata = getTableMetadata(tableName)
+  const columns = metadata
+    ? Array.from(new Set([...metadata.labelColumns, ...metadata.primaryKey]))
+    : Object.keys(row).slice(0, 4)
+
+  return columns
+    .filter((column) => row[column] !== undefined && row[column] !== null && row[column] !== '')
+    .map((column) => `${column}: ${row[column]}`)
+    .join(', ')
+}
+
+/**
+ * How a date column is stored
+ * - date: a calendar day (DATE), already meant in Europe/Berlin
+ * - timestamp: an instant (TIMESTAMPTZ); Berlin days are converted to UTC bounds
+ */
+export type DateColumnKind = 'date' | 'timestamp'
+
+/**
+ * The column that decides on which day a row of a table or view falls
+ */
+export interface DateFieldMetadata {
+  dateColumn: string
+  kind: DateColumnKind
+  /** Separate time-of-day column (local Berlin time), if any */
+  timeColumn?: string
+}
+
+const DATE_COLUMN_KINDS: DateColumnKind[] = ['date', 'timestamp']
+
+export const DEFAULT_DATE_FIELDS: Record<string, DateFieldMetadata> = {
+  t_morningplan: { dateColumn: 'plan_date', kind: 'date', timeColumn: 'start_time' },
+  v_morningplan_full: { dateColumn: 'plan_date', kind: 'date', timeColumn: 'start_time' },
+  t_projects: { dateColumn: 'project_date', kind: 'date', timeColumn: 'project_time' },
+  v_project_full: { dateColumn: 'project_date', kind: 'date', timeColumn: 'project_time' },
+  t_inspections: { dateColumn: 'inspection_date', kind: 'date', timeColumn: 'inspection_time' },
+  v_inspection_detail_complete: { dateColumn: 'inspection_date', kind: 'date', timeColumn: 'inspection_time' },
+  t_time_pairs: { dateColumn: 'start_time', kind: 'timestamp' },
+  v_time_pairs_enriched: { dateColumn: 'start_time', kind: 'timestamp' },
+}
+
+/**
+ * Parse TABLE_DATE_FIELDS ("table:column[:kind[:timeColumn]],...") into date field overrides
+ * A column of "-" switches date handling off for that table (null entry).
+ */
+export function parseDateFields(value: string | undefined): Record<string, DateFieldMetadata | null> {
+  const fields: Record<string, DateFieldMetadata | null> = {}
+  for (const entry of (value || '').split(',')) {
+    const [tableName, dateColumn, kind = 'date', timeColumn] = entry.split(':').map((part) => part.trim())
+    if (!tableName || !dateColumn) {
+      continue
+    }
+    if (dateColumn === '-') {
+      fields[tableName] = null
+    } else if (DATE_COLUMN_KINDS.includes(kind as DateColumnKind)) {
+      fields[tableName] = { dateColumn, kind: kind as DateColumnKind, ...(timeColumn ? { timeColumn } : {}) }
+    }
+  }
+  return fields
+}
+
+/**
+ * Date column of a table or view, with overrides from TABLE_DATE_FIELDS applied
+ */
+export function getDateField(tableName: string, env: NodeJS.ProcessEnv = process.env): DateFieldMetadata | undefined {
+  const overrides = parseDateFields(env.TABLE_DATE_FIELDS)
+  if (tableName in overrides) {
+    return overrides[tableName] || undefined
+  }
+  return DEFAULT_DATE_FIELDS[tableName]
+}
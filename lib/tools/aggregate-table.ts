@@ -0,0 +1,134 @@
+import { aggregateTable, type AggregateFunction, type AggregateMetric } from '@/lib/supabase-query'
+import { getFilterColumns } from '@/lib/filters'
+import { describeDateFilters, tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, readLimit, requireString } from './validators'
+
+interface AggregateTableArgs {
+  tableName: string
+  metrics: AggregateMetric[]
+  groupBy: string[]
+  filters: Record<string, any>
+  limit: number
+}
+
+const AGGREGATE_FUNCTIONS: AggregateFunction[] = ['count', 'sum', 'avg', 'min', 'max']
+
+export const aggregateTableTool: ToolDefinition<AggregateTableArgs> = {
+  name: 'aggregateTable',
+  description:
+    'Compute counts, sums, averages, minimum and maximum values on a table, optionally grouped by columns. Use this instead of queryTable whenever the user asks "wie viele", "Summe", "Durchschnitt" or "pro Projekt/Mitarbeiter" – never count or add up rows yourself. Accepts the same filters as queryTable.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description: 'The name of the table or view to aggregate',
+      },
+      metrics: {
+        type: 'array',
+        description: 'Metrics to compute. Use [{"function": "count"}] to count rows.',
+        items: {
+          type: 'object',
+          properties: {
+            function: {
+              type: 'string',
+              enum: AGGREGATE_FUNCTIONS,
+              description: 'Aggregate function',
+            },
+            column: {
+              type: 'string',
+              description: 'Column to aggregate (required for sum, avg, min, max; optional for count to count non-empty values)',
+            },
+            alias: {
+              type: 'string',
+              description: 'Optional name for the result field (default: "count" or "<function>_<column>")',
+            },
+          },
+          required: ['function'],
+        },
+      },
+      groupBy: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'Optional columns to group by, e.g. ["project_name"] or ["employee_name", "plan_date"]',
+      },
+      filters: {
+        type: 'object',
+        description: 'Optional filters, same syntax as queryTable: simple key-value pairs (eq) or objects with type: "eq", "neq", "gte", "lte", "gt", "lt", "between", "like", "ilike", "in", "not_in", "is_null", "not_null", "not", plus "or" groups.',
+        additionalProperties: true,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of groups to return, largest first (default: 100)',
+        default: 100,
+      },
+    },
+    required: ['tableName', 'metrics'],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    if (!tableName) {
+      return { valid: false, error: 'tableName is required for aggregateTable.' }
+    }
+    if (!Array.isArray(args.metrics) || args.metrics.length === 0) {
+      return { valid: false, error: 'metrics must be a non-empty array.' }
+    }
+
+    const metrics: AggregateMetric[] = []
+    for (const metric of args.metrics) {
+      if (!isPlainObject(metric) || !AGGREGATE_FUNCTIONS.includes(metric.function)) {
+        return {
+          valid: false,
+          error: `Each metric needs a function (${AGGREGATE_FUNCTIONS.join(', ')}).`,
+        }
+      }
+      metrics.push({
+        fn: metric.function,
+        column: requireString(metric, 'column') || undefined,
+        alias: requireString(metric, 'alias') || undefined,
+      })
+    }
+
+    if (args.groupBy !== undefined && !Array.isArray(args.groupBy)) {
+      return { valid: false, error: 'groupBy must be an array of column names.' }
+    }
+    if (args.filters !== undefined && !isPlainObject(args.filters)) {
+      return { valid: false, error: 'filters must be an object.' }
+    }
+
+    return {
+      valid: true,
+      args: {
+        tableName,
+        metrics,
+        groupBy: (args.groupBy || []).filter((column: unknown) => typeof column === 'string'),
+        filters: args.filters || {},
+        limit: readLimit(args),
+      },
+    }
+  },
+  access: (args) => [
+    {
+      tableName: args.tableName,
+      action: 'read',
+      columns: [
+        ...args.metrics.map((metric) => metric.column).filter((column): column is string => !!column),
+        ...args.groupBy,
+        ...getFilterColumns(args.filters),
+      ],
+    },
+  ],
+  describe: (args) => `Werte ${tableLabel(args.tableName)} aus${describeDateFilters(args.filters)}`,
+  execute: async (args, context) => {
+    const filters = context.applyContextFilters(args.tableName, args.filters)
+    return aggregateTable(args.tableName, args.metrics, {
+      filters,
+      groupBy: args.groupBy,
+      limit: args.limit,
+    })
+  },
+}
@@ -0,0 +1,102 @@
+import { findConflicts } from '@/lib/conflicts'
+import { getBerlinToday, parseGermanDate } from '@/lib/date-parser'
+import type { ToolDefinition } from './types'
+import { requireString } from './validators'
+
+interface CheckConflictsArgs {
+  expression?: string
+  start?: string
+  end?: string
+}
+
+const ISO_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_RANGE_DAYS = 62
+
+export const checkConflictsTool: ToolDefinition<CheckConflictsArgs> = {
+  name: 'checkConflicts',
+  description:
+    'Check the morning plans of a day or period for conflicts: employees or vehicles planned twice at overlapping times on the same day, inactive employees, vehicles that are not ready or deleted, and plans on Sundays or holidays. Use it for "Gibt es Konflikte morgen?" or "Ist nächste Woche jemand doppelt eingeplant?". Pass either a German expression ("morgen", "nächste Woche") or start and end (YYYY-MM-DD). Quote the returned messages; do not look for conflicts yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'German day or period, e.g. "morgen", "nächste Woche", "KW 51"',
+      },
+      start: {
+        type: 'string',
+        description: 'First day (YYYY-MM-DD), alternative to expression',
+      },
+      end: {
+        type: 'string',
+        description: 'Last day (YYYY-MM-DD, inclusive); defaults to start',
+      },
+    },
+    required: [],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const expression = requireString(args, 'expression')
+    const start = requireString(args, 'start')
+    const end = requireString(args, 'end')
+    if (!expression && !start) {
+      return { valid: false, error: 'Either expression or start is required for checkConflicts.' }
+    }
+    if ((start && !ISO_DAY_PATTERN.test(start)) || (end && !ISO_DAY_PATTERN.test(end))) {
+      return { valid: false, error: 'start and end must be dates in the format YYYY-MM-DD.' }
+    }
+    return {
+      valid: true,
+      args: {
+        ...(expression ? { expression } : {}),
+        ...(start ? { start, end: end || start } : {}),
+      },
+    }
+  },
+  access: () => [
+    { tableName: 't_morningplan', action: 'read' },
+    { tableName: 't_morningplan_staff', action: 'read' },
+    { tableName: 't_employees', action: 'read' },
+    { tableName: 't_vehicles', action: 'read' },
+    { tableName: 't_projects', action: 'read' },
+  ],
+  describe: (args) => `Prüfe Konflikte${args.expression ? ` für „${args.expression}“` : ''}`,
+  execute: async (args) => {
+    let start = args.start
+    let end = args.end
+    if (!start && args.expression) {
+      const parsed = parseGermanDate(args.expression, { today: getBerlinToday() })
+      if (!parsed) {
+        return { error: `Kein Zeitraum erkannt in „${args.expression}“.` }
+      }
+      start = parsed.start
+      end = parsed.end || parsed.start
+    }
+    if (!start || !end || end < start) {
+      return { error: 'Ungültiger Zeitraum.' }
+    }
+    if (Date.parse(end) - Date.parse(start) > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return { error: `Der Zeitraum darf höchstens ${MAX_RANGE_DAYS} Tage umfassen.` }
+    }
+
+    const result = await findConflicts({ start, end })
+    if (!result.data) {
+      return { error: `Konflikte konnten nicht geprüft werden: ${result.error}` }
+    }
+    if (result.truncated) {
+      return {
+        start,
+        end,
+        conflicts: result.data,
+        truncated: true,
+        message: 'Der Zeitraum enthält zu viele Einsätze; nur ein Teil wurde geprüft. Weitere Konflikte sind möglich, prüfe einen kürzeren Zeitraum.',
+      }
+    }
+    return {
+      start,
+      end,
+      conflicts: result.data,
+      ...(result.data.length === 0 ? { message: 'Keine Konflikte gefunden.' } : {}),
+    }
+  },
+}
@@ -0,0 +1,292 @@
+import { getConflictWarnings } from '@/lib/conflicts'
+import { getBerlinToday, parseGermanDate, parseGermanTime } from '@/lib/date-parser'
+import { resolveEntity, type EntityResolution, type EntityType } from '@/lib/entity-resolver'
+import { getWorkdayWarnings } from '@/lib/holidays'
+import { createPendingAction, summarizePendingAction } from '@/lib/pending-actions'
+import { buildWritePreview } from '@/lib/write-preview'
+import type { ToolDefinition } from './types'
+import { isPlainObject, requireString } from './validators'
+
+interface StaffAssignment {
+  name: string
+  startTime?: string
+}
+
+interface CreateMorningPlanArgs {
+  date: string
+  project: string
+  vehicle?: string
+  startTime?: string
+  serviceType?: string
+  employees: StaffAssignment[]
+}
+
+interface UnresolvedReference {
+  field: string
+  query: string
+  status: EntityResolution['status']
+  candidates: Array<{ id: string; label: string }>
+}
+
+const ISO_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_EMPLOYEES = 30
+
+const PLAN_TABLE = 't_morningplan'
+const STAFF_TABLE = 't_morningplan_staff'
+
+function formatGermanDay(isoDay: string): string {
+  const [year, month, day] = isoDay.split('-')
+  return `${day}.${month}.${year}`
+}
+
+/**
+ * A time as stored in the time columns (HH:MM:SS); undefined if none was given, null if invalid
+ */
+function toColumnTime(value: string | undefined): string | undefined | null {
+  if (!value) {
+    return undefined
+  }
+  const time = parseGermanTime(value)
+  return time ? `${time}:00` : null
+}
+
+/**
+ * The single day meant by a date argument (YYYY-MM-DD or a German expression)
+ */
+function resolvePlanDate(value: string): { day?: string; time?: string; error?: string } {
+  if (ISO_DAY_PATTERN.test(value)) {
+    return { day: value }
+  }
+  const parsed = parseGermanDate(value, { today: getBerlinToday() })
+  if (!parsed) {
+    return { error: `Kein Datum erkannt in „${value}“.` }
+  }
+  if (parsed.end !== parsed.start) {
+    return { error: `„${parsed.text}“ ist ein Zeitraum. Ein Einsatz braucht genau einen Tag.` }
+  }
+  return { day: parsed.start, time: parsed.time }
+}
+
+function toUnresolved(field: string, resolution: EntityResolution): UnresolvedReference {
+  return {
+    field,
+    query: resolution.query,
+    status: resolution.status,
+    candidates: resolution.candidates.map(({ id, label }) => ({ id, label })),
+  }
+}
+
+export const createMorningPlanTool: ToolDefinition<CreateMorningPlanArgs> = {
+  name: 'createMorningPlan',
+  description:
+    'Plan a job (Einsatz) in one step: creates the t_morningplan row and its t_morningplan_staff rows together. Pass the names as the user said them – the tool resolves project (name or project code), vehicle (nickname) and employees itself, converts German dates ("morgen", "nächster Werktag") and times ("halb acht"), and rejects the call with candidate lists if a name is unknown or ambiguous. Like insertRow it only prepares the change; after confirmation all rows are saved together, and if one of them fails nothing is saved. Use this instead of several insertRow calls for new Einsätze.',
+  parameters: {
+    type: 'object',
+    properties: {
+      date: {
+        type: 'string',
+        description: 'Day of the job: YYYY-MM-DD or the wording of the user, e.g. "morgen", "nächsten Dienstag"',
+      },
+      project: {
+        type: 'string',
+        description: 'Project name or project code as mentioned by the user',
+      },
+      vehicle: {
+        type: 'string',
+        description: 'Optional: vehicle nickname, e.g. "Sprinter 2"',
+      },
+      startTime: {
+        type: 'string',
+        description: 'Optional: start time of the job, e.g. "07:30" or "halb acht"',
+      },
+      serviceType: {
+        type: 'string',
+        description: 'Optional: service type, e.g. "Umzug"',
+      },
+      employees: {
+        type: 'array',
+        description: 'Employees assigned to the job',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'Employee name as mentioned by the user' },
+            startTime: { type: 'string', description: 'Optional: individual start time if it differs from the job' },
+          },
+          required: ['name'],
+        },
+      },
+    },
+    required: ['date', 'project', 'employees'],
+  },
+  permission: 'write',
+  validate: (args) => {
+    const date = requireString(args, 'date')
+    const project = requireString(args, 'project')
+    if (!date || !project) {
+      return { valid: false, error: 'date and project are required for createMorningPlan.' }
+    }
+    if (!Array.isArray(args.employees)) {
+      return { valid: false, error: 'employees must be a list of {name, startTime?} for createMorningPlan.' }
+    }
+    if (args.employees.length > MAX_EMPLOYEES) {
+      return { valid: false, error: `At most ${MAX_EMPLOYEES} employees can be assigned to one job.` }
+    }
+
+    const employees: StaffAssignment[] = []
+    for (const entry of args.employees) {
+      const name = typeof entry === 'string' ? entry.trim() : isPlainObject(entry) ? requireString(entry, 'name') : null
+      if (!name) {
+        return { valid: false, error: 'Every employee needs a name.' }
+      }
+      const startTime = isPlainObject(entry) ? requireString(entry, 'startTime') : null
+      employees.push({ name, ...(startTime ? { startTime } : {}) })
+    }
+
+    const vehicle = requireString(args, 'vehicle')
+    const startTime = requireString(args, 'startTime')
+    const serviceType = requireString(args, 'serviceType')
+    return {
+      valid: true,
+      args: {
+        date,
+        project,
+        ...(vehicle ? { vehicle } : {}),
+        ...(startTime ? { startTime } : {}),
+        ...(serviceType ? { serviceType } : {}),
+        employees,
+      },
+    }
+  },
+  access: (args) => [
+    {
+      tableName: PLAN_TABLE,
+      action: 'insert',
+      columns: [
+        'plan_date',
+        'project_id',
+        ...(args.vehicle ? ['vehicle_id'] : []),
+        'start_time',
+        ...(args.serviceType ? ['service_type'] : []),
+      ],
+    },
+    ...(args.employees.length > 0
+      ? [{ tableName: STAFF_TABLE, action: 'insert' as const, columns: ['plan_id', 'employee_id', 'individual_start_time'] }]
+      : []),
+  ],
+  describe: (args) => `Bereite Einsatz für ${args.project} vor`,
+  execute: async (args, context) => {
+    const date = resolvePlanDate(args.date)
+    if (!date.day) {
+      return { error: date.error }
+    }
+
+    const startTime = toColumnTime(args.startTime || date.time)
+    if (startTime === null) {
+      return { error: `Keine gültige Uhrzeit: „${args.startTime}“.` }
+    }
+    const staffTimes = args.employees.map((employee) => toColumnTime(employee.startTime))
+    const invalidIndex = staffTimes.findIndex((time) => time === null)
+    if (invalidIndex >= 0) {
+      const employee = args.employees[invalidIndex]
+      return { error: `Keine gültige Uhrzeit für ${employee.name}: „${employee.startTime}“.` }
+    }
+
+    const lookup = (query: string, type: EntityType) => resolveEntity(query, [type], 5)
+    const [project, vehicle, ...employees] = await Promise.all([
+      lookup(args.project, 'project'),
+      args.vehicle ? lookup(args.vehicle, 'vehicle') : Promise.resolve(null),
+      ...args.employees.map((employee) => lookup(employee.name, 'employee')),
+    ])
+
+    const lookupError = [project, vehicle, ...employees].find((result) => result?.error)?.error
+    if (lookupError) {
+      return { error: `Die Namen konnten nicht geprüft werden: ${lookupError}` }
+    }
+
+    const unresolved: UnresolvedReference[] = []
+    const references: Array<[string, EntityResolution | null | undefined]> = [
+      ['project', project.data],
+      ['vehicle', vehicle?.data],
+      ...employees.map((result, index): [string, EntityResolution | null | undefined] => [
+        `employees[${index}]`,
+        result?.data,
+      ]),
+    ]
+    for (const [field, resolution] of references) {
+      if (resolution && resolution.status !== 'resolved') {
+        unresolved.push(toUnresolved(field, resolution))
+      }
+    }
+    if (unresolved.length > 0) {
+      return {
+        error: 'Nicht alle Angaben konnten eindeutig zugeordnet werden. Zeige die Kandidaten und frage nach, wer bzw. was gemeint ist.',
+        unresolved,
+      }
+    }
+
+    const projectMatch = project.data!.match!
+    const vehicleMatch = vehicle?.data?.match
+    const employeeMatches = employees.map((result) => result!.data!.match!)
+
+    const duplicate = employeeMatches.find(
+      (match, index) => employeeMatches.findIndex((other) => other.id === match.id) !== index
+    )
+    if (duplicate) {
+      return { error: `${duplicate.label} ist mehrfach angegeben.` }
+    }
+
+    const planValues: Record<string, any> = {
+      plan_date: date.day,
+      project_id: projectMatch.id,
+      ...(vehicleMatch ? { vehicle_id: vehicleMatch.id } : {}),
+      ...(startTime ? { start_time: startTime } : {}),
+      ...(args.serviceType ? { service_type: args.serviceType } : {}),
+    }
+    const staffValues = employeeMatches.map((match, index) => ({
+      employee_id: match.id,
+      ...(staffTimes[index] ? { individual_start_time: staffTimes[index] } : {}),
+    }))
+
+    const warnings = [
+      ...getWorkdayWarnings(PLAN_TABLE, planValues),
+      ...(await getConflictWarnings([{ values: planValues, staff: staffValues }])),
+    ]
+    const planPreview = buildWritePreview('INSERT', PLAN_TABLE, [planValues])
+    const staffPreview = buildWritePreview('INSERT', STAFF_TABLE, staffValues)
+    const preview = {
+      ...planPreview,
+      rowCount: 1 + staffValues.length,
+      rows: [
+        { ...planPreview.rows[0], label: `Einsatz: ${projectMatch.label} am ${formatGermanDay(date.day)}` },
+        ...staffPreview.rows.map((row, index) => ({ ...row, label: `Mitarbeiter: ${employeeMatches[index].label}` })),
+      ],
+      ...(warnings.length > 0 ? { warnings } : {}),
+    }
+
+    const action = createPendingAction({
+      kind: 'INSERT',
+      tableName: PLAN_TABLE,
+      values: planValues,
+      dependentInserts: staffValues.map((values) => ({
+        tableName: STAFF_TABLE,
+        values,
+        parentKeys: { plan_id: 'plan_id' },
+      })),
+      previewRows: [planValues, ...staffValues],
+      preview,
+      clientId: context.clientId,
+    })
+
+    return {
+      pendingAction: summarizePendingAction(action),
+      resolved: {
+        date: date.day,
+        project: projectMatch.label,
+        ...(vehicleMatch ? { vehicle: vehicleMatch.label } : {}),
+        employees: employeeMatches.map((match) => match.label),
+      },
+      message: 'Der Einsatz wurde vorbereitet, aber noch nicht gespeichert. Bitte den Nutzer um Bestätigung.',
+      ...(warnings.length > 0 && { warnings }),
+    }
+  },
+}
@@ -0,0 +1,83 @@
+import { createPendingAction, summarizePendingAction } from '@/lib/pending-actions'
+import { deleteRow } from '@/lib/supabase-query'
+import { tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, isWritableTable, readExpectedCount, requireString } from './validators'
+
+interface DeleteRowArgs {
+  tableName: string
+  filters: Record<string, any>
+  expectedCount?: number
+}
+
+export const deleteRowTool: ToolDefinition<DeleteRowArgs> = {
+  name: 'deleteRow',
+  description:
+    'Prepare the deletion of existing row(s) from an allowed table. Use ONLY when: 1) User explicitly asks to delete/remove data (e.g., "lösche", "entferne", "delete", "remove"), AND 2) You can identify the row(s) using unique identifiers (e.g., project_code, employee_id, name). The deletion is NOT executed by this tool: it returns a pendingAction with the affected rows. Show these rows to the user and ask for confirmation - the server executes the deletion when the user confirms. Do NOT say you cannot delete - use this tool!',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description:
+          'Target table name (must be one of: t_projects, t_morningplan, t_morningplan_staff, t_vehicles, t_employees, t_services, t_materials).',
+      },
+      filters: {
+        type: 'object',
+        description: 'Filters to identify which row(s) to delete. Use unique identifiers like project_code, employee_id, name, etc. Can be simple key-value pairs (defaults to eq, names match case-insensitively) or filter objects as in queryTable. If several rows match, the tool returns them so you can ask the user which one is meant. Example: {name: "Alpha"} or {project_code: "PROJ123"}.',
+        additionalProperties: true,
+      },
+      expectedCount: {
+        type: 'number',
+        description: 'Only for intentional multi-row deletes: the exact number of rows the filters match (e.g. 3 for "alle drei Einsätze am Montag"). Omit for single-row deletes - then the filters must match exactly one row.',
+      },
+    },
+    required: ['tableName', 'filters'],
+  },
+  permission: 'write',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    if (!tableName || !isWritableTable(tableName)) {
+      return { valid: false, error: `Delete not allowed for table: ${args.tableName}` }
+    }
+    if (!isPlainObject(args.filters)) {
+      return { valid: false, error: 'Missing filters for deleteRow. Filters are required to identify which row(s) to delete.' }
+    }
+    const expectedCount = readExpectedCount(args)
+    if (expectedCount === null) {
+      return { valid: false, error: 'expectedCount must be a positive integer.' }
+    }
+    return { valid: true, args: { tableName, filters: args.filters, expectedCount } }
+  },
+  access: (args) => [{ tableName: args.tableName, action: 'delete' }],
+  describe: (args) => `Bereite Löschen in ${tableLabel(args.tableName)} vor`,
+  execute: async (args, context) => {
+    // Dry run: same validation and row count check as the real write, nothing is changed
+    const dryRun = await deleteRow(args.tableName, args.filters, {
+      expectedCount: args.expectedCount,
+      userId: context.userId,
+      ipAddress: context.ipAddress,
+      dryRun: true,
+    })
+    if (dryRun.error || !dryRun.data?.preview) {
+      return {
+        error: dryRun.error || 'Preview could not be created',
+        ...('matchingRows' in dryRun && { matchingRows: dryRun.matchingRows }),
+      }
+    }
+
+    const action = createPendingAction({
+      kind: 'DELETE',
+      tableName: args.tableName,
+      filters: args.filters,
+      expectedCount: args.expectedCount,
+      previewRows: dryRun.data.rows,
+      preview: dryRun.data.preview,
+      clientId: context.clientId,
+    })
+    return {
+      pendingAction: summarizePendingAction(action),
+      message: 'Die Löschung wurde vorbereitet, aber noch nicht ausgeführt. Bitte den Nutzer um Bestätigung.',
+    }
+  },
+}
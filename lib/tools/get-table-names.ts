@@ -0,0 +1,16 @@
+import { getTableNames } from '@/lib/supabase-query'
+import type { ToolDefinition } from './types'
+
+export const getTableNamesTool: ToolDefinition<Record<string, never>> = {
+  name: 'getTableNames',
+  description: 'Get a list of available table names in the database',
+  parameters: {
+    type: 'object',
+    properties: {},
+    required: [],
+  },
+  permission: 'read',
+  validate: () => ({ valid: true, args: {} }),
+  describe: () => 'Lade Tabellenübersicht',
+  execute: async () => getTableNames(),
+}
@@ -0,0 +1,36 @@
+import { getTableStructure } from '@/lib/supabase-query'
+import { tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { requireString } from './validators'
+
+interface GetTableStructureArgs {
+  tableName: string
+}
+
+export const getTableStructureTool: ToolDefinition<GetTableStructureArgs> = {
+  name: 'getTableStructure',
+  description:
+    'Get the structure (column names) of a specific table or view. IMPORTANT: Many pre-built views exist (v_morningplan_full, v_project_full, v_employee_kpi, etc.) - check these first before manual JOINs!',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description: 'The name of the table or view to get structure for (e.g., "v_morningplan_full", "t_employees")',
+      },
+    },
+    required: ['tableName'],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    if (!tableName) {
+      return { valid: false, error: 'tableName is required for getTableStructure.' }
+    }
+    return { valid: true, args: { tableName } }
+  },
+  // The result includes a sample row, so it is read (and masked) like a query
+  access: (args) => [{ tableName: args.tableName, action: 'read' }],
+  describe: (args) => `Prüfe Aufbau von ${tableLabel(args.tableName)}`,
+  execute: async (args) => getTableStructure(args.tableName),
+}
@@ -0,0 +1,102 @@
+import { getBerlinToday, parseGermanDate } from '@/lib/date-parser'
+import {
+  GERMAN_STATES,
+  getCompanyState,
+  isGermanState,
+  summarizeWorkingDays,
+  type GermanState,
+} from '@/lib/holidays'
+import type { ToolDefinition } from './types'
+import { requireString } from './validators'
+
+interface GetWorkingDaysArgs {
+  expression?: string
+  start?: string
+  end?: string
+  state: GermanState
+}
+
+const ISO_DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const MAX_RANGE_DAYS = 366
+
+export const getWorkingDaysTool: ToolDefinition<GetWorkingDaysArgs> = {
+  name: 'getWorkingDays',
+  description:
+    'Public holidays and working days (Monday–Friday without holidays) for a period, based on the German federal state of the company. Use it for "Wie viele Arbeitstage hat der Dezember?", "Ist der 24.12. ein Feiertag?" or before planning on a specific day. Pass either a German expression ("Dezember", "nächste Woche", "KW 51") or start and end (YYYY-MM-DD).',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'German period or day, e.g. "Dezember", "nächste Woche", "24.12."',
+      },
+      start: {
+        type: 'string',
+        description: 'First day (YYYY-MM-DD), alternative to expression',
+      },
+      end: {
+        type: 'string',
+        description: 'Last day (YYYY-MM-DD, inclusive); defaults to start',
+      },
+      state: {
+        type: 'string',
+        enum: Object.keys(GERMAN_STATES),
+        description: 'Optional: federal state code; defaults to the company state',
+      },
+    },
+    required: [],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const expression = requireString(args, 'expression')
+    const start = requireString(args, 'start')
+    const end = requireString(args, 'end')
+    if (!expression && !start) {
+      return { valid: false, error: 'Either expression or start is required for getWorkingDays.' }
+    }
+    if ((start && !ISO_DAY_PATTERN.test(start)) || (end && !ISO_DAY_PATTERN.test(end))) {
+      return { valid: false, error: 'start and end must be dates in the format YYYY-MM-DD.' }
+    }
+    const state = requireString(args, 'state')?.toUpperCase()
+    if (state && !isGermanState(state)) {
+      return { valid: false, error: `state must be one of: ${Object.keys(GERMAN_STATES).join(', ')}.` }
+    }
+    return {
+      valid: true,
+      args: {
+        ...(expression ? { expression } : {}),
+        ...(start ? { start, end: end || start } : {}),
+        state: state && isGermanState(state) ? state : getCompanyState(),
+      },
+    }
+  },
+  describe: (args) => `Prüfe Arbeitstage${args.expression ? ` für „${args.expression}“` : ''}`,
+  execute: async (args) => {
+    let start = args.start
+    let end = args.end
+    if (!start && args.expression) {
+      const parsed = parseGermanDate(args.expression, { today: getBerlinToday() })
+      if (!parsed) {
+        return { error: `Kein Zeitraum erkannt in „${args.expression}“.` }
+      }
+      start = parsed.start
+      end = parsed.end || parsed.start
+    }
+    if (!start || !end || end < start) {
+      return { error: 'Ungültiger Zeitraum.' }
+    }
+    if (Date.parse(end) - Date.parse(start) > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return { error: 'Der Zeitraum darf höchstens ein Jahr umfassen.' }
+    }
+
+    const { workingDays, holidays } = summarizeWorkingDays(start, end, args.state)
+    return {
+      start,
+      end,
+      state: args.state,
+      stateName: GERMAN_STATES[args.state],
+      workingDays,
+      holidays: holidays.map(({ date, name }) => ({ date, name })),
+    }
+  },
+}
@@ -0,0 +1,39 @@
+/**
+ * Chat tools available to the assistant
+ * To add a tool, declare it in its own file and register it here
+ */
+
+import { registerTool } from './registry'
+import { queryTableTool } from './query-table'
+import { queryTableWithJoinTool } from './query-table-with-join'
+import { aggregateTableTool } from './aggregate-table'
+import { getTableNamesTool } from './get-table-names'
+import { getTableStructureTool } from './get-table-structure'
+import { resolveEntityTool } from './resolve-entity'
+import { queryAuditLogTool } from './query-audit-log'
+import { resolveDateTool } from './resolve-date'
+import { getWorkingDaysTool } from './get-working-days'
+import { checkConflictsTool } from './check-conflicts'
+import { insertRowTool } from './insert-row'
+import { updateRowTool } from './update-row'
+import { deleteRowTool } from './delete-row'
+import { createMorningPlanTool } from './create-morning-plan'
+
+registerTool(queryTableTool)
+registerTool(queryTableWithJoinTool)
+registerTool(aggregateTableTool)
+registerTool(getTableNamesTool)
+registerTool(getTableStructureTool)
+registerTool(resolveEntityTool)
+registerTool(queryAuditLogTool)
+registerTool(resolveDateTool)
+registerTool(getWorkingDaysTool)
+registerTool(checkConflictsTool)
+registerTool(insertRowTool)
+registerTool(updateRowTool)
+registerTool(deleteRowTool)
+registerTool(createMorningPlanTool)
+
+export { getTool, getRegisteredTools, getToolDefinitions, describeToolCall, executeToolCall } from './registry'
+export { summarizeToolResult } from './progress'
+export type { ToolContext, ToolDefinition, ToolPermission } from './types'
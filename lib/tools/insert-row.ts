@@ -0,0 +1,132 @@
+import { getConflictWarnings, toPlanDrafts } from '@/lib/conflicts'
+import { getWorkdayWarnings } from '@/lib/holidays'
+import { createPendingAction, summarizePendingAction } from '@/lib/pending-actions'
+import { buildWritePreview } from '@/lib/write-preview'
+import { tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, isWritableTable, requireString } from './validators'
+
+interface InsertRowArgs {
+  tableName: string
+  values: Record<string, any>
+}
+
+/**
+ * Apply sensible defaults for missing optional fields
+ */
+export function applyInsertDefaults(tableName: string, values: Record<string, any>) {
+  const valuesWithDefaults = { ...values }
+
+  if (tableName === 't_employees') {
+    // Defaults for employees
+    if (valuesWithDefaults.is_active === undefined) {
+      valuesWithDefaults.is_active = true
+    }
+    if (valuesWithDefaults.role === undefined && !valuesWithDefaults.role) {
+      valuesWithDefaults.role = null
+    }
+    if (valuesWithDefaults.hourly_rate === undefined) {
+      valuesWithDefaults.hourly_rate = 0
+    }
+    // Normalize contract_type: handle any variation (intern, int, extern, etc.)
+    if (valuesWithDefaults.contract_type !== null && valuesWithDefaults.contract_type !== undefined) {
+      const contractTypeLower = String(valuesWithDefaults.contract_type).toLowerCase().trim()
+      if (contractTypeLower.includes('intern') || contractTypeLower === 'int') {
+        valuesWithDefaults.contract_type = 'Intern'
+      } else if (contractTypeLower.includes('extern')) {
+        valuesWithDefaults.contract_type = 'Extern'
+      }
+    } else {
+      // If contract_type is undefined or null, leave it as null (don't set a default)
+      valuesWithDefaults.contract_type = null
+    }
+  } else if (tableName === 't_projects') {
+    // Defaults for projects
+    if (valuesWithDefaults.status === undefined) {
+      valuesWithDefaults.status = 'geplant'
+    }
+    // Auto-generate project_code if missing
+    if (!valuesWithDefaults.project_code) {
+      const now = new Date()
+      const dateStr = now.toISOString().slice(0, 10).replace(/-/g, '')
+      const randomStr = Math.random().toString(36).substring(2, 7).toUpperCase()
+      valuesWithDefaults.project_code = `PRJ-${dateStr}-${randomStr}`
+    }
+  } else if (tableName === 't_materials') {
+    // Defaults for materials
+    if (valuesWithDefaults.is_active === undefined) {
+      valuesWithDefaults.is_active = true
+    }
+    if (valuesWithDefaults.vat_rate === undefined) {
+      valuesWithDefaults.vat_rate = 19
+    }
+    if (valuesWithDefaults.default_quantity === undefined) {
+      valuesWithDefaults.default_quantity = 1
+    }
+    // Auto-generate material_id if missing (format: M-[UPPERCASE_NAME])
+    if (!valuesWithDefaults.material_id && valuesWithDefaults.name) {
+      const nameUpper = String(valuesWithDefaults.name).toUpperCase().replace(/[^A-Z0-9]/g, '').substring(0, 10)
+      const randomStr = Math.random().toString(36).substring(2, 5).toUpperCase()
+      valuesWithDefaults.material_id = `M-${nameUpper}-${randomStr}`
+    }
+  }
+
+  return valuesWithDefaults
+}
+
+export const insertRowTool: ToolDefinition<InsertRowArgs> = {
+  name: 'insertRow',
+  description:
+    'Insert a single row into an allowed table. YOU MUST CALL THIS TOOL IMMEDIATELY - DO NOT JUST SAY YOU WILL DO IT! CRITICAL RULES: 1) When user says "neues projekt" or "projekt hinzufügen" or "neuer Eintrag projekt" or "projekt erstellen" and provides ANY information (even just a name), IMMEDIATELY CALL THIS TOOL with tableName="t_projects" and values MUST be a valid object with at least name field. 2) When user says "neu mitarbeiter" or "neuer arbeiter" or "worker" with ANY information (even just a name), IMMEDIATELY CALL THIS TOOL with tableName="t_employees" and values MUST be a valid object with at least name field. 3) When user says "neues material" or "material hinzufügen" or "material erstellen" and provides ANY information (even just a name), IMMEDIATELY CALL THIS TOOL with tableName="t_materials" and values MUST be a valid object with at least name field. The material_id will be auto-generated if not provided. 4) When user says "EK [price] VK [price]" or mentions Einkaufspreis/Verkaufspreis for a material, IMMEDIATELY CALL THIS TOOL with tableName="t_material_prices". First query t_materials to find material_id by name using queryTable, then call insertRow with values containing material_id, purchase_price (EK value), and sale_price (VK value). 5) NEVER ask for more information - if you have at least a name, call the tool immediately with defaults! 6) If user provides info in multiple messages, COMBINE all info from conversation history. 7) The tool only prepares the insert as a pending action - after calling it, ask the user to confirm. 8) Extract info from ALL previous messages. 9) YOU MUST ACTUALLY CALL THIS TOOL FUNCTION - do NOT just respond with text saying you will create it! 10) The values parameter MUST be a valid JSON object (not null, not undefined, not empty string) with at least the required fields (name for projects/employees/materials, material_id for material_prices).',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description:
+          'Target table name (must be one of: t_projects, t_morningplan, t_morningplan_staff, t_vehicles, t_employees, t_services, t_materials).',
+      },
+      values: {
+        type: 'object',
+        description: 'Column/value pairs for the new row. CRITICAL: Extract ALL information from the ENTIRE conversation history, not just the last message! If user said "neues projekt named ZZZ" in one message and "Köln" in another, combine them: {name: "ZZZ", ort: "Köln"}. For t_projects: name is required, ort is OPTIONAL (can be null). Use defaults for missing optional fields: t_employees (is_active=true, role=null if not specified), t_projects (status="geplant", ort=null if not provided, project_code=auto-generate if missing). Always include at least the name field for projects.',
+        additionalProperties: true,
+      },
+    },
+    required: ['tableName', 'values'],
+  },
+  permission: 'write',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    if (!tableName || !isWritableTable(tableName)) {
+      return { valid: false, error: `Insert not allowed for table: ${args.tableName}` }
+    }
+    if (!isPlainObject(args.values)) {
+      return { valid: false, error: 'Missing values for insertRow.' }
+    }
+    return { valid: true, args: { tableName, values: args.values } }
+  },
+  access: (args) => [
+    { tableName: args.tableName, action: 'insert', columns: Object.keys(applyInsertDefaults(args.tableName, args.values)) },
+  ],
+  describe: (args) => `Bereite neuen Eintrag in ${tableLabel(args.tableName)} vor`,
+  execute: async (args, context) => {
+    const valuesWithDefaults = applyInsertDefaults(args.tableName, args.values)
+    const warnings = [
+      ...getWorkdayWarnings(args.tableName, valuesWithDefaults),
+      ...(await getConflictWarnings(toPlanDrafts(args.tableName, valuesWithDefaults))),
+    ]
+    const action = createPendingAction({
+      kind: 'INSERT',
+      tableName: args.tableName,
+      values: valuesWithDefaults,
+      previewRows: [valuesWithDefaults],
+      preview: buildWritePreview('INSERT', args.tableName, [valuesWithDefaults], { warnings }),
+      clientId: context.clientId,
+    })
+    return {
+      pendingAction: summarizePendingAction(action),
+      message: 'Der Eintrag wurde vorbereitet, aber noch nicht gespeichert. Bitte den Nutzer um Bestätigung.',
+      ...(warnings.length > 0 && { warnings }),
+    }
+  },
+}
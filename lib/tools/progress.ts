@@ -0,0 +1,135 @@
+/**
+ * Progress labels and result summaries for tool calls, shown while the chat streams
+ */
+
+import type { ToolResultSummary } from '@/types/chat-events'
+import { isPlainObject } from './validators'
+
+const TABLE_LABELS: Record<string, string> = {
+  t_projects: 'Projekte',
+  v_project_full: 'Projekte',
+  v_project_profit: 'Projekte',
+  t_morningplan: 'Einsätze',
+  v_morningplan_full: 'Einsätze',
+  t_morningplan_staff: 'Einsatz-Mitarbeiter',
+  t_employees: 'Mitarbeiter',
+  v_employee_kpi: 'Mitarbeiter',
+  v_employee_costs: 'Mitarbeiterkosten',
+  t_vehicles: 'Fahrzeuge',
+  t_vehicle_rates: 'Fahrzeugraten',
+  t_materials: 'Materialien',
+  v_material_value: 'Materialien',
+  t_material_prices: 'Materialpreise',
+  t_services: 'Dienstleistungen',
+  t_service_prices: 'Dienstleistungspreise',
+  t_inspections: 'Besichtigungen',
+  t_inspection_items: 'Besichtigungen',
+  v_inspection_detail_complete: 'Besichtigungen',
+  t_time_pairs: 'Zeiterfassungen',
+  v_time_pairs_enriched: 'Zeiterfassungen',
+  v_costs_by_phase: 'Kosten',
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})/
+
+/**
+ * German name of a table or view for progress messages
+ */
+export function tableLabel(tableName: string): string {
+  return TABLE_LABELS[tableName] || tableName
+}
+
+function formatShortDate(value: unknown): string | null {
+  const match = typeof value === 'string' ? value.match(ISO_DATE_PATTERN) : null
+  return match ? `${match[3]}.${match[2]}.` : null
+}
+
+/**
+ * Date part of a progress label, e.g. " für 12.12." or " vom 01.12. bis 07.12."
+ */
+export function describeDateFilters(filters: Record<string, any> | undefined): string {
+  const parts: string[] = []
+  for (const filter of Object.values(filters || {})) {
+    const exact = formatShortDate(filter)
+    if (exact) {
+      parts.push(`für ${exact}`)
+      continue
+    }
+    if (!isPlainObject(filter)) {
+      continue
+    }
+
+    if (filter.type === 'between' && Array.isArray(filter.value)) {
+      const [from, to] = filter.value.map(formatShortDate)
+      if (from && to) {
+        parts.push(`vom ${from} bis ${to}`)
+      }
+      continue
+    }
+
+    const date = formatShortDate(filter.value)
+    if (!date) {
+      continue
+    }
+    if (filter.type === 'eq') {
+      parts.push(`für ${date}`)
+    } else if (filter.type === 'gte' || filter.type === 'gt') {
+      parts.push(`ab ${date}`)
+    } else if (filter.type === 'lte' || filter.type === 'lt') {
+      parts.push(`bis ${date}`)
+    }
+  }
+  return parts.length > 0 ? ` ${parts.join(' ')}` : ''
+}
+
+/**
+ * Short German summary of a tool result for the progress display
+ */
+export function summarizeToolResult(result: any): ToolResultSummary {
+  if (!isPlainObject(result)) {
+    return { ok: true, text: 'Fertig' }
+  }
+
+  if (result.error) {
+    if (result.permissionDenied) {
+      return { ok: false, text: 'Keine Berechtigung' }
+    }
+    if (result.rateLimited) {
+      return { ok: false, text: 'Limit erreicht' }
+    }
+    return { ok: false, text: 'Fehlgeschlagen' }
+  }
+
+  if (result.pendingAction) {
+    return { ok: true, text: 'Änderung vorbereitet' }
+  }
+
+  if (Array.isArray(result.data)) {
+    const rowCount = result.data.length
+    const total = Number(result.pagination?.total)
+    if (rowCount === 0) {
+      return { ok: true, text: 'Keine Treffer', rowCount }
+    }
+    if (Number.isFinite(total) && total > rowCount) {
+      return { ok: true, text: `${rowCount} von ${total} Treffern`, rowCount }
+    }
+    return { ok: true, text: rowCount === 1 ? '1 Treffer' : `${rowCount} Treffer`, rowCount }
+  }
+
+  if (result.status === 'resolved') {
+    return { ok: true, text: 'Eindeutig gefunden' }
+  }
+  if (result.status === 'ambiguous') {
+    return { ok: true, text: 'Mehrere Treffer' }
+  }
+  if (result.status === 'not_found') {
+    return { ok: true, text: 'Nicht gefunden' }
+  }
+
+  if (Array.isArray(result.conflicts)) {
+    const count = result.conflicts.length
+    return { ok: true, text: count === 0 ? 'Keine Konflikte' : count === 1 ? '1 Konflikt' : `${count} Konflikte` }
+  }
+
+  return { ok: true, text: 'Fertig' }
+}
@@ -0,0 +1,95 @@
+import { queryAuditLog, redactAuditLogEntries, type AuditLogAction, type AuditLogQuery } from '@/lib/audit-log'
+import { tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, readLimit, requireString } from './validators'
+
+const WRITE_ACTIONS: AuditLogAction[] = ['INSERT', 'UPDATE', 'DELETE']
+const MAX_TOOL_ENTRIES = 50
+
+function readDate(args: Record<string, any>, key: string): Date | null | undefined {
+  const value = requireString(args, key)
+  if (!value) {
+    return undefined
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export const queryAuditLogTool: ToolDefinition<AuditLogQuery> = {
+  name: 'queryAuditLog',
+  description:
+    'Search the audit log of past writes (who inserted, changed or deleted what, and when). Use this for questions like "Wer hat Projekt X zuletzt geändert?" or "Was wurde heute an den Fahrzeugen geändert?". To find changes of one row, first get its id (e.g. resolveEntity → project_id), then pass tableName and record: {project_id: <id>}. Entries are returned newest first and contain userId (who; ipAddress only for admins), timestamp, values, and the row state before and after the write.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description: 'Optional: only writes to this table, e.g. "t_projects"',
+      },
+      action: {
+        type: 'string',
+        enum: WRITE_ACTIONS,
+        description: 'Optional: only this kind of write',
+      },
+      result: {
+        type: 'string',
+        enum: ['SUCCESS', 'FAILURE'],
+        description: 'Optional: only successful or failed writes. Use SUCCESS for "wer hat ... geändert".',
+      },
+      record: {
+        type: 'object',
+        description: 'Optional: column values identifying the row, e.g. {"project_id": 42}',
+        additionalProperties: true,
+      },
+      from: {
+        type: 'string',
+        description: 'Optional: earliest timestamp (ISO 8601, e.g. "2024-05-01" or "2024-05-01T08:00:00Z")',
+      },
+      to: {
+        type: 'string',
+        description: 'Optional: latest timestamp (ISO 8601)',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of entries (default: 10, max: 50). Use 1 for "zuletzt".',
+        default: 10,
+      },
+    },
+  },
+  permission: 'read',
+  validate: (args) => {
+    if (args.action !== undefined && !WRITE_ACTIONS.includes(args.action)) {
+      return { valid: false, error: `action must be one of: ${WRITE_ACTIONS.join(', ')}.` }
+    }
+    if (args.result !== undefined && args.result !== 'SUCCESS' && args.result !== 'FAILURE') {
+      return { valid: false, error: 'result must be SUCCESS or FAILURE.' }
+    }
+    if (args.record !== undefined && !isPlainObject(args.record)) {
+      return { valid: false, error: 'record must be an object of column values.' }
+    }
+    const from = readDate(args, 'from')
+    const to = readDate(args, 'to')
+    if (from === null || to === null) {
+      return { valid: false, error: 'from and to must be valid ISO 8601 dates.' }
+    }
+    return {
+      valid: true,
+      args: {
+        tableName: requireString(args, 'tableName') || undefined,
+        action: args.action,
+        result: args.result,
+        record: args.record,
+        from,
+        to,
+        limit: Math.min(readLimit(args, 10), MAX_TOOL_ENTRIES),
+      },
+    }
+  },
+  describe: (args) =>
+    `Durchsuche Änderungsprotokoll${args.tableName ? ` für ${tableLabel(args.tableName)}` : ''}`,
+  execute: async (args, context) => {
+    const result = await queryAuditLog(args)
+    // Who changed what stays visible; IP addresses only to admins
+    return result.data ? { ...result, data: redactAuditLogEntries(result.data, context.role) } : result
+  },
+}
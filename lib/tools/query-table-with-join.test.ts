@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { queryTableWithJoinTool } from './query-table-with-join'
+
+describe('queryTableWithJoin validate', () => {
+  const rejected: Array<[string, Record<string, any>]> = [
+    ['embedded relation in joinColumn', { joinColumn: 'material_id(*),x:t_employees(*)' }],
+    ['alias in joinColumn', { joinColumn: 'rate:hourly_rate' }],
+    ['relation syntax in joinTable', { joinTable: 't_material_prices(*),t_employees' }],
+    ['spaces in tableName', { tableName: 't_materials, t_employees' }],
+  ]
+
+  it.each(rejected)('rejects %s', (_label, overrides) => {
+    const result = queryTableWithJoinTool.validate({
+      tableName: 't_materials',
+      joinTable: 't_material_prices',
+      ...overrides,
+    })
+    expect(result.valid).toBe(false)
+  })
+
+  it('accepts plain names', () => {
+    const result = queryTableWithJoinTool.validate({
+      tableName: 't_materials',
+      joinTable: 't_material_prices',
+      joinColumn: 'material_id',
+    })
+    expect(result).toMatchObject({ valid: true, args: { joinColumn: 'material_id' } })
+  })
+})
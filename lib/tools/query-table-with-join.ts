@@ -0,0 +1,85 @@
+import { isIdentifier, queryTableWithJoin } from '@/lib/supabase-query'
+import { getFilterColumns } from '@/lib/filters'
+import { describeDateFilters, tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, readLimit, requireString } from './validators'
+
+interface QueryTableWithJoinArgs {
+  tableName: string
+  joinTable: string
+  joinColumn?: string
+  filters: Record<string, any>
+  limit: number
+}
+
+export const queryTableWithJoinTool: ToolDefinition<QueryTableWithJoinArgs> = {
+  name: 'queryTableWithJoin',
+  description:
+    'Query a table with a join to a related table. Use this when data is spread across multiple tables. For "Einkaufspreise der Materialien", use queryTableWithJoin with t_materials and t_material_prices. The function automatically tries multiple join patterns, so you can call it directly without checking structure first.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description: 'The name of the main table to query (e.g., "t_materials", "materials")',
+      },
+      joinTable: {
+        type: 'string',
+        description:
+          'The name of the related table to join (e.g., "t_material_prices", "material_prices", "prices")',
+      },
+      joinColumn: {
+        type: 'string',
+        description:
+          'Optional: The foreign key column name. For materials/prices, typically "material_id". If not provided, the function will try to auto-detect.',
+      },
+      filters: {
+        type: 'object',
+        description: 'Optional filters to apply to the main table, same syntax as queryTable (key-value pairs, filter objects, "or" groups)',
+        additionalProperties: true,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results to return (default: 100)',
+        default: 100,
+      },
+    },
+    required: ['tableName', 'joinTable'],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    const joinTable = requireString(args, 'joinTable')
+    if (!tableName || !joinTable) {
+      return { valid: false, error: 'tableName and joinTable are required for queryTableWithJoin.' }
+    }
+    const joinColumn = requireString(args, 'joinColumn') || undefined
+    const invalidName = [tableName, joinTable, ...(joinColumn ? [joinColumn] : [])].find((name) => !isIdentifier(name))
+    if (invalidName) {
+      return { valid: false, error: `Invalid table or column name: ${invalidName}. Use plain names like "material_id".` }
+    }
+    if (args.filters !== undefined && !isPlainObject(args.filters)) {
+      return { valid: false, error: 'filters must be an object.' }
+    }
+    return {
+      valid: true,
+      args: {
+        tableName,
+        joinTable,
+        joinColumn,
+        filters: args.filters || {},
+        limit: readLimit(args),
+      },
+    }
+  },
+  access: (args) => [
+    { tableName: args.tableName, action: 'read', columns: getFilterColumns(args.filters) },
+    { tableName: args.joinTable, action: 'read' },
+  ],
+  describe: (args) =>
+    `Suche ${tableLabel(args.tableName)} mit ${tableLabel(args.joinTable)}${describeDateFilters(args.filters)}`,
+  execute: async (args, context) => {
+    const filters = context.applyContextFilters(args.tableName, args.filters)
+    return queryTableWithJoin(args.tableName, args.joinTable, args.joinColumn, filters, args.limit)
+  },
+}
@@ -0,0 +1,175 @@
+import { parseJoinSelect, queryTable, type OrderByClause } from '@/lib/supabase-query'
+import { getFilterColumns } from '@/lib/filters'
+import { describeDateFilters, tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, readLimit, requireString } from './validators'
+
+interface QueryTableArgs {
+  tableName: string
+  filters: Record<string, any>
+  limit: number
+  joins?: string[]
+  columns?: string[]
+  orderBy?: OrderByClause[]
+  offset?: number
+}
+
+/**
+ * Normalize orderBy arguments, accepting plain column names as ascending sorts
+ */
+function readOrderBy(value: unknown): OrderByClause[] | null {
+  if (value === undefined) {
+    return []
+  }
+  if (!Array.isArray(value)) {
+    return null
+  }
+
+  const clauses: OrderByClause[] = []
+  for (const entry of value) {
+    if (typeof entry === 'string' && entry.trim()) {
+      clauses.push({ column: entry.trim() })
+      continue
+    }
+    const column = isPlainObject(entry) ? requireString(entry, 'column') : null
+    if (!column) {
+      return null
+    }
+    if (entry.direction !== undefined && entry.direction !== 'asc' && entry.direction !== 'desc') {
+      return null
+    }
+    if (entry.nulls !== undefined && entry.nulls !== 'first' && entry.nulls !== 'last') {
+      return null
+    }
+    clauses.push({ column, direction: entry.direction, nulls: entry.nulls })
+  }
+  return clauses
+}
+
+export const queryTableTool: ToolDefinition<QueryTableArgs> = {
+  name: 'queryTable',
+  description:
+    'Query a table in the Supabase database with optional filters, sorting, column selection and pagination. Use this for simple queries on a single table. For future dates, use filters like {plan_date: {type: "gte", value: "YYYY-MM-DD"}} with today\'s date. For "die nächsten 5 Einsätze" sort by the date column ascending and set limit 5. Select only the columns you need on wide views. The result contains pagination.hasMore and pagination.total; request the next page with offset.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description: 'The name of the table to query',
+      },
+      filters: {
+        type: 'object',
+        description: 'Optional filters to apply. Can be simple key-value pairs (defaults to eq) or objects with type: "eq", "neq", "gte", "lte", "gt", "lt", "between", "like", "ilike", "in", "not_in", "is_null", "not_null" or "not" (wraps another filter, e.g. {type: "not", value: {type: "ilike", value: "storniert"}}). Use the key "or" with an array of filter objects for alternatives, e.g. {or: [{status: "geplant"}, {status: "in Arbeit"}]}. For future dates, use {type: "gte", value: "YYYY-MM-DD"} with today\'s date.',
+        additionalProperties: true,
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of results to return (default: 100)',
+        default: 100,
+      },
+      joins: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description:
+          'Optional array of related tables to join. Use Supabase join syntax like ["prices(*)", "categories(name, code)"]; aliases ("x:column") are not allowed.',
+      },
+      columns: {
+        type: 'array',
+        items: {
+          type: 'string',
+        },
+        description: 'Optional list of columns to return (default: all columns). Unknown columns are rejected with the list of available columns.',
+      },
+      orderBy: {
+        type: 'array',
+        description: 'Optional sort order, applied in sequence, e.g. [{"column": "plan_date", "direction": "asc"}, {"column": "start_time", "nulls": "last"}]',
+        items: {
+          type: 'object',
+          properties: {
+            column: {
+              type: 'string',
+              description: 'Column to sort by',
+            },
+            direction: {
+              type: 'string',
+              enum: ['asc', 'desc'],
+              description: 'Sort direction (default: asc)',
+            },
+            nulls: {
+              type: 'string',
+              enum: ['first', 'last'],
+              description: 'Where to place empty values',
+            },
+          },
+          required: ['column'],
+        },
+      },
+      offset: {
+        type: 'number',
+        description: 'Number of rows to skip for pagination (default: 0)',
+        default: 0,
+      },
+    },
+    required: ['tableName'],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    if (!tableName) {
+      return { valid: false, error: 'tableName is required for queryTable.' }
+    }
+    if (args.filters !== undefined && !isPlainObject(args.filters)) {
+      return { valid: false, error: 'filters must be an object.' }
+    }
+    const orderBy = readOrderBy(args.orderBy)
+    if (!orderBy) {
+      return { valid: false, error: 'orderBy must be an array of {column, direction?, nulls?} objects.' }
+    }
+    if (args.columns !== undefined && !Array.isArray(args.columns)) {
+      return { valid: false, error: 'columns must be an array of column names.' }
+    }
+    const joins = args.joins
+    if (
+      joins !== undefined &&
+      (!Array.isArray(joins) || joins.some((join: unknown) => typeof join !== 'string' || !parseJoinSelect(join)))
+    ) {
+      return { valid: false, error: 'joins must be an array like ["related_table(*)"] or ["related_table(column1, column2)"] without aliases.' }
+    }
+    const offset = Number(args.offset ?? 0)
+    return {
+      valid: true,
+      args: {
+        tableName,
+        filters: args.filters || {},
+        limit: readLimit(args),
+        joins,
+        columns: Array.isArray(args.columns) ? args.columns.filter((column: unknown) => typeof column === 'string') : undefined,
+        orderBy,
+        offset: Number.isFinite(offset) && offset > 0 ? Math.floor(offset) : 0,
+      },
+    }
+  },
+  access: (args) => [
+    {
+      tableName: args.tableName,
+      action: 'read',
+      columns: [...getFilterColumns(args.filters), ...(args.orderBy || []).map((clause) => clause.column)],
+    },
+    // Joined tables are read too; selecting a hidden column of one by name is denied
+    ...(args.joins || []).map((join) => {
+      const { tableName, columns } = parseJoinSelect(join)!
+      return { tableName, action: 'read' as const, columns }
+    }),
+  ],
+  describe: (args) => `Suche ${tableLabel(args.tableName)}${describeDateFilters(args.filters)}`,
+  execute: async (args, context) => {
+    const filters = context.applyContextFilters(args.tableName, args.filters)
+    return queryTable(args.tableName, filters, args.limit, args.joins, {
+      columns: args.columns,
+      orderBy: args.orderBy,
+      offset: args.offset,
+    })
+  },
+}
@@ -0,0 +1,134 @@
+/**
+ * Tool registry shared by the streaming and non-streaming chat handlers
+ */
+
+import { addLocalTimes } from '@/lib/date-fields'
+import type { LLMToolDefinition } from '@/lib/llm/types'
+import { maskSensitiveData } from '@/lib/masking'
+import { checkPermission } from '@/lib/permissions'
+import { checkRateLimit } from '@/lib/rate-limit'
+import type { ToolContext, ToolDefinition } from './types'
+import { isPlainObject } from './validators'
+
+const toolRegistry = new Map<string, ToolDefinition<any>>()
+
+/**
+ * Register a tool; names must be unique
+ */
+export function registerTool<TArgs>(tool: ToolDefinition<TArgs>): void {
+  if (toolRegistry.has(tool.name)) {
+    throw new Error(`Tool "${tool.name}" is already registered`)
+  }
+  toolRegistry.set(tool.name, tool)
+}
+
+/**
+ * Get a registered tool by name
+ */
+export function getTool(name: string): ToolDefinition<any> | undefined {
+  return toolRegistry.get(name)
+}
+
+/**
+ * Get all registered tools in registration order
+ */
+export function getRegisteredTools(): ToolDefinition<any>[] {
+  return Array.from(toolRegistry.values())
+}
+
+/**
+ * Get the tool definitions in the format expected by the chat completion API
+ */
+export function getToolDefinitions(): LLMToolDefinition[] {
+  return getRegisteredTools().map((tool) => ({
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    },
+  }))
+}
+
+/**
+ * German progress label for a tool call; falls back to a generic label for invalid arguments
+ */
+export function describeToolCall(name: string, rawArguments: string | undefined): string {
+  const tool = toolRegistry.get(name)
+  let parsedArgs: unknown
+  try {
+    parsedArgs = JSON.parse(rawArguments || '{}')
+  } catch {
+    parsedArgs = null
+  }
+
+  const validation = tool && isPlainObject(parsedArgs) ? tool.validate(parsedArgs) : null
+  if (!tool?.describe || !validation?.valid) {
+    return 'Rufe Daten ab'
+  }
+  return tool.describe(validation.args)
+}
+
+/**
+ * Parse, validate, authorize and execute a tool call
+ * Columns the caller's role may not see are masked in the result, and timestamp
+ * date columns get their Berlin time alongside
+ * Errors are returned as `{ error }` so the model can react to them
+ */
+export async function executeToolCall(
+  name: string,
+  rawArguments: string | undefined,
+  context: ToolContext
+): Promise<any> {
+  const tool = toolRegistry.get(name)
+  if (!tool) {
+    return { error: `Unknown function: ${name}` }
+  }
+
+  let parsedArgs: Record<string, any>
+  try {
+    parsedArgs = JSON.parse(rawArguments || '{}')
+  } catch (error) {
+    return { error: `Invalid JSON arguments for ${name}` }
+  }
+
+  if (!parsedArgs || typeof parsedArgs !== 'object' || Array.isArray(parsedArgs)) {
+    return { error: `Arguments for ${name} must be an object` }
+  }
+
+  const validation = tool.validate(parsedArgs)
+  if (!validation.valid) {
+    return { error: validation.error || `Invalid arguments for ${name}` }
+  }
+
+  const accesses = tool.access?.(validation.args) || []
+  for (const access of accesses) {
+    const permission = checkPermission(context.role, access.action, access.tableName, access.columns)
+    if (!permission.allowed) {
+      return { error: permission.reason, permissionDenied: true }
+    }
+  }
+
+  // Proposed writes have their own, tighter budget per user
+  if (tool.permission === 'write') {
+    const budget = await checkRateLimit('tool:write', context.clientId)
+    if (!budget.allowed) {
+      const minutes = Math.max(1, Math.ceil((budget.resetTime - Date.now()) / 60000))
+      return {
+        error: `Du hast in kurzer Zeit sehr viele Änderungen angestoßen. Bitte warte etwa ${minutes} Minute(n), bevor du weitere Änderungen vornimmst.`,
+        rateLimited: true,
+      }
+    }
+  }
+
+  try {
+    const result = await tool.execute(validation.args, context)
+    const tables = accesses.map((access) => access.tableName)
+    return addLocalTimes(maskSensitiveData(result, context.role, tables), tables)
+  } catch (error) {
+    console.error(`Tool ${name} failed:`, error)
+    return {
+      error: error instanceof Error ? error.message : `Tool ${name} failed`,
+    }
+  }
+}
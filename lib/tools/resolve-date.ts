@@ -0,0 +1,91 @@
+import { buildDateRangeFilter } from '@/lib/date-fields'
+import { getBerlinToday, parseGermanDates, type ParsedDateExpression } from '@/lib/date-parser'
+import { getDateField } from '@/lib/table-metadata'
+import type { ToolDefinition } from './types'
+import { requireString } from './validators'
+
+interface ResolveDateArgs {
+  expression: string
+  tableName?: string
+}
+
+const dayLabelFormat = new Intl.DateTimeFormat('de-DE', {
+  timeZone: 'UTC',
+  weekday: 'long',
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+})
+
+function dayLabel(isoDay: string): string {
+  return dayLabelFormat.format(new Date(`${isoDay}T00:00:00Z`))
+}
+
+/**
+ * German description of a parsed expression, e.g. "Montag, 26.10.2026 bis Sonntag, 01.11.2026"
+ */
+function describeExpression(expression: ParsedDateExpression): string {
+  const time = expression.time ? ` um ${expression.time} Uhr` : ''
+  if (expression.end === null) {
+    return `ab ${dayLabel(expression.start)}`
+  }
+  if (expression.end === expression.start) {
+    return `${dayLabel(expression.start)}${time}`
+  }
+  return `${dayLabel(expression.start)} bis ${dayLabel(expression.end)}`
+}
+
+export const resolveDateTool: ToolDefinition<ResolveDateArgs> = {
+  name: 'resolveDate',
+  description:
+    'Convert a German date or time expression into exact dates (Europe/Berlin), e.g. "morgen", "nächsten Dienstag", "Freitag nächste Woche", "KW 51", "Ende des Monats", "in zwei Wochen", "vom 3. bis 7. März", "morgen um 8 Uhr". Returns each recognized expression with start and end (YYYY-MM-DD, inclusive; end null for open ranges like "ab Montag") and an optional time (HH:MM). With tableName, each expression also carries ready-to-use filters on the date column of that table (timestamp columns are converted to UTC bounds). Use it before filtering or writing dates instead of calculating them yourself.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        description: 'The wording used by the user, e.g. "nächsten Dienstag um 7:30"',
+      },
+      tableName: {
+        type: 'string',
+        description: 'Optional: table or view to build date filters for, e.g. "v_morningplan_full" or "t_time_pairs"',
+      },
+    },
+    required: ['expression'],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const expression = requireString(args, 'expression')
+    if (!expression) {
+      return { valid: false, error: 'expression is required for resolveDate.' }
+    }
+    const tableName = requireString(args, 'tableName')
+    if (tableName && !getDateField(tableName)) {
+      return { valid: false, error: `${tableName} has no date column. Omit tableName or use a dated table.` }
+    }
+    return { valid: true, args: { expression, ...(tableName ? { tableName } : {}) } }
+  },
+  describe: (args) => `Bestimme Datum für „${args.expression}“`,
+  execute: async (args) => {
+    const today = getBerlinToday()
+    const expressions = parseGermanDates(args.expression, { today })
+    if (expressions.length === 0) {
+      return {
+        today,
+        expressions: [],
+        message: 'Kein Datum erkannt. Frage nach, welcher Tag gemeint ist.',
+      }
+    }
+    return {
+      today,
+      expressions: expressions.map((expression) => {
+        const rangeFilter = args.tableName ? buildDateRangeFilter(args.tableName, expression) : null
+        return {
+          ...expression,
+          description: describeExpression(expression),
+          ...(rangeFilter ? { filters: { [rangeFilter.column]: rangeFilter.filter } } : {}),
+        }
+      }),
+    }
+  },
+}
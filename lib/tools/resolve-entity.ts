@@ -0,0 +1,55 @@
+import { resolveEntity, ENTITY_TYPES, type EntityType } from '@/lib/entity-resolver'
+import type { ToolDefinition } from './types'
+import { readLimit, requireString } from './validators'
+
+interface ResolveEntityArgs {
+  query: string
+  types: EntityType[]
+  limit: number
+}
+
+export const resolveEntityTool: ToolDefinition<ResolveEntityArgs> = {
+  name: 'resolveEntity',
+  description:
+    'Find employees, projects or vehicles by a name the user mentioned, tolerating partial names ("Jonas" → "Jonas Müller"), umlaut spellings ("Mueller") and speech-to-text typos. Returns status "resolved" with the match (including its id), "ambiguous" with a ranked candidate list, or "not_found". Use this to get employee_id, project_id or vehicle_id before any write. If the status is "ambiguous", present the candidates to the user and ask which one is meant – never guess.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: {
+        type: 'string',
+        description: 'The name or wording used by the user, e.g. "Jonas", "Projekt Umzug Meier", "Sprinter 2"',
+      },
+      entityType: {
+        type: 'string',
+        enum: ENTITY_TYPES,
+        description: 'Optional: restrict the search to employees, projects or vehicles',
+      },
+      limit: {
+        type: 'number',
+        description: 'Maximum number of candidates to return (default: 5)',
+        default: 5,
+      },
+    },
+    required: ['query'],
+  },
+  permission: 'read',
+  validate: (args) => {
+    const query = requireString(args, 'query')
+    if (!query) {
+      return { valid: false, error: 'query is required for resolveEntity.' }
+    }
+    if (args.entityType !== undefined && !ENTITY_TYPES.includes(args.entityType)) {
+      return { valid: false, error: `entityType must be one of: ${ENTITY_TYPES.join(', ')}.` }
+    }
+    return {
+      valid: true,
+      args: {
+        query,
+        types: args.entityType ? [args.entityType] : ENTITY_TYPES,
+        limit: Math.min(readLimit(args, 5), 20),
+      },
+    }
+  },
+  describe: (args) => `Suche „${args.query}“`,
+  execute: async (args) => resolveEntity(args.query, args.types, args.limit),
+}
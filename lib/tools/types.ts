@@ -0,0 +1,67 @@
+/**
+ * Shared types for chat tools (function calling)
+ */
+
+import type { Role, TableAction } from '@/lib/permissions'
+
+/**
+ * Permission level of a tool
+ * - read: only reads data and may run without confirmation
+ * - write: proposes a change that must be confirmed by the user
+ */
+export type ToolPermission = 'read' | 'write'
+
+/**
+ * Per-request context passed to every tool executor
+ */
+export interface ToolContext {
+  /** Key that ties pending actions to the session that proposed them */
+  clientId: string
+  userId?: string
+  ipAddress?: string
+  role: Role
+  lastUserMessage: string
+  /**
+   * Add filters inferred from the user's message (date ranges, project names)
+   */
+  applyContextFilters: (tableName: string, filters: Record<string, any>) => Record<string, any>
+}
+
+/**
+ * A table access a tool call performs, checked against the role's policy before it runs
+ */
+export interface ToolAccess {
+  tableName: string
+  action: TableAction
+  /** Columns written by an insert or update */
+  columns?: string[]
+}
+
+export interface ToolValidationResult<TArgs> {
+  valid: boolean
+  args?: TArgs
+  error?: string
+}
+
+/**
+ * A tool declared once with its schema, validator, permission level and executor
+ */
+export interface ToolDefinition<TArgs = Record<string, any>> {
+  name: string
+  description: string
+  /**
+   * JSON schema of the tool arguments
+   */
+  parameters: Record<string, unknown>
+  permission: ToolPermission
+  validate: (args: Record<string, any>) => ToolValidationResult<TArgs>
+  /**
+   * Tables touched by a call with these (validated) arguments
+   */
+  access?: (args: TArgs) => ToolAccess[]
+  /**
+   * German progress label shown while the call runs, e.g. "Suche Einsätze für 12.12."
+   */
+  describe?: (args: TArgs) => string
+  execute: (args: TArgs, context: ToolContext) => Promise<any>
+}
@@ -0,0 +1,100 @@
+import { getConflictWarnings, toPlanDrafts } from '@/lib/conflicts'
+import { getWorkdayWarnings } from '@/lib/holidays'
+import { createPendingAction, summarizePendingAction } from '@/lib/pending-actions'
+import { updateRow } from '@/lib/supabase-query'
+import { tableLabel } from './progress'
+import type { ToolDefinition } from './types'
+import { isPlainObject, isWritableTable, readExpectedCount, requireString } from './validators'
+
+interface UpdateRowArgs {
+  tableName: string
+  filters: Record<string, any>
+  expectedCount?: number
+  values: Record<string, any>
+}
+
+export const updateRowTool: ToolDefinition<UpdateRowArgs> = {
+  name: 'updateRow',
+  description:
+    'Update existing row(s) in an allowed table. Use when user says "umbenennen", "ändern", "update", "setze", "aktualisiere", "rename", "change", "modify" or similar. CRITICAL: 1) Extract the identifier from user message (e.g., if user says "projekt zzz umbenennen", use filters: {name: "ZZZ"} to find the project). 2) Extract the new values (e.g., "in aaaa" means values: {name: "AAAA"}). 3) IMMEDIATELY call this tool with tableName, filters, and values. 4) For projects, use filters: {name: "ProjectName"} to find by name. 5) CRITICAL FOR EMPLOYEE START TIMES: When user says "startzeit [EmployeeName] [Time]" or mentions setting an employee start time for a project, you MUST update t_morningplan_staff table with individual_start_time field. First query to find plan_id (from t_morningplan using project name) and employee_id (from t_employees using employee name), then use both as filters: filters: {plan_id: "...", employee_id: "..."} and values: {individual_start_time: "HH:MM:SS"}. 6) Do NOT create a new row - this is for UPDATING existing data! 7) The update is NOT executed by this tool: it returns a pendingAction with the affected rows. Ask the user to confirm - the server executes the update when the user confirms.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tableName: {
+        type: 'string',
+        description:
+          'Target table name (must be one of: t_projects, t_morningplan, t_morningplan_staff, t_vehicles, t_employees, t_services, t_materials).',
+      },
+      filters: {
+        type: 'object',
+        description: 'Filters to identify which row(s) to update. CRITICAL: Extract the identifier from the user message! If user says "projekt zzz umbenennen", use filters: {name: "ZZZ"} to find the project. Use unique identifiers like project_code, employee_id, name, etc. Can be simple key-value pairs (defaults to eq, names match case-insensitively) or filter objects as in queryTable. If several rows match, the tool returns them so you can ask the user which one is meant. Example: {name: "ZZZ"} to find project named "ZZZ", or {project_code: "PROJ123"}.',
+        additionalProperties: true,
+      },
+      values: {
+        type: 'object',
+        description: 'Column/value pairs to update. Only include fields that should be changed. Example: {hourly_rate: 10} or {strasse: "Beispielstreet 8"}.',
+        additionalProperties: true,
+      },
+      expectedCount: {
+        type: 'number',
+        description: 'Only for intentional multi-row updates: the exact number of rows the filters match (e.g. 3 for "alle drei Einsätze am Montag"). Omit for single-row updates - then the filters must match exactly one row.',
+      },
+    },
+    required: ['tableName', 'filters', 'values'],
+  },
+  permission: 'write',
+  validate: (args) => {
+    const tableName = requireString(args, 'tableName')
+    if (!tableName || !isWritableTable(tableName)) {
+      return { valid: false, error: `Update not allowed for table: ${args.tableName}` }
+    }
+    if (!isPlainObject(args.filters)) {
+      return { valid: false, error: 'Missing filters for updateRow. Filters are required to identify which row(s) to update.' }
+    }
+    if (!isPlainObject(args.values)) {
+      return { valid: false, error: 'Missing values for updateRow.' }
+    }
+    const expectedCount = readExpectedCount(args)
+    if (expectedCount === null) {
+      return { valid: false, error: 'expectedCount must be a positive integer.' }
+    }
+    return { valid: true, args: { tableName, filters: args.filters, values: args.values, expectedCount } }
+  },
+  access: (args) => [{ tableName: args.tableName, action: 'update', columns: Object.keys(args.values) }],
+  describe: (args) => `Bereite Änderung an ${tableLabel(args.tableName)} vor`,
+  execute: async (args, context) => {
+    // Dry run: same validation and row count check as the real write, nothing is changed
+    const dryRun = await updateRow(args.tableName, args.filters, args.values, {
+      expectedCount: args.expectedCount,
+      userId: context.userId,
+      ipAddress: context.ipAddress,
+      dryRun: true,
+    })
+    if (dryRun.error || !dryRun.data?.preview) {
+      return {
+        error: dryRun.error || 'Preview could not be created',
+        ...('matchingRows' in dryRun && { matchingRows: dryRun.matchingRows }),
+      }
+    }
+
+    const warnings = [
+      ...getWorkdayWarnings(args.tableName, args.values),
+      ...(await getConflictWarnings(toPlanDrafts(args.tableName, args.values, dryRun.data.rows))),
+    ]
+    const action = createPendingAction({
+      kind: 'UPDATE',
+      tableName: args.tableName,
+      filters: args.filters,
+      values: args.values,
+      expectedCount: args.expectedCount,
+      previewRows: dryRun.data.rows,
+      preview: warnings.length > 0 ? { ...dryRun.data.preview, warnings } : dryRun.data.preview,
+      clientId: context.clientId,
+    })
+    return {
+      pendingAction: summarizePendingAction(action),
+      message: 'Die Änderung wurde vorbereitet, aber noch nicht gespeichert. Bitte den Nutzer um Bestätigung.',
+      ...(warnings.length > 0 && { warnings }),
+    }
+  },
+}
@@ -0,0 +1,44 @@
+/**
+ * Argument validation helpers shared by the tool definitions
+ */
+
+import { INSERT_ALLOWED_TABLES } from '@/lib/constants'
+
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Require a non-empty string argument
+ */
+export function requireString(args: Record<string, any>, key: string): string | null {
+  const value = args[key]
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/**
+ * Read an optional limit argument, falling back to the default
+ */
+export function readLimit(args: Record<string, any>, defaultLimit = 100): number {
+  const value = Number(args.limit)
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : defaultLimit
+}
+
+/**
+ * Read the optional expectedCount of a multi-row write
+ * Returns undefined when absent and null when the value is invalid
+ */
+export function readExpectedCount(args: Record<string, any>): number | undefined | null {
+  if (args.expectedCount === undefined || args.expectedCount === null) {
+    return undefined
+  }
+  const value = Number(args.expectedCount)
+  return Number.isInteger(value) && value >= 1 && value <= 1000 ? value : null
+}
+
+/**
+ * Check that a table is allowed for write operations
+ */
+export function isWritableTable(tableName: string): boolean {
+  return INSERT_ALLOWED_TABLES.has(tableName)
+}
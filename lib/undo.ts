@@ -0,0 +1,338 @@
+/**
+ * Undo for confirmed writes
+ * Keeps the row snapshots from successful audit entries for a short time and
+ * restores them on request, refusing if the rows have changed since.
+ * Note: For production, use a shared store (e.g. Redis) so history survives across instances
+ */
+
+import { randomUUID } from 'crypto'
+import { onAuditLog, type AuditLogAction, type AuditLogEntry } from './audit-log'
+import { checkPermission, type Role, type TableAction } from './permissions'
+import { deleteRow, findAffectedRows, insertRow, updateRow } from './supabase-query'
+import { getTableMetadata } from './table-metadata'
+import { isSameValue } from './write-preview'
+
+export const UNDO_WINDOW_MS = 10 * 60 * 1000 // 10 minutes
+const MAX_UNDO_HISTORY = 10
+
+interface UndoableWrite {
+  id: string
+  action: Exclude<AuditLogAction, 'QUERY'>
+  tableName: string
+  beforeRows: Record<string, any>[]
+  afterRows: Record<string, any>[]
+  createdAt: number
+  expiresAt: number
+  status: 'available' | 'undone'
+  /** Writes of one confirmed action (e.g. a plan and its staff) share a batch id and are undone together */
+  batchId?: string
+}
+
+interface UndoStep {
+  filters: Record<string, any>
+  before?: Record<string, any>
+  after?: Record<string, any>
+}
+
+// In-memory history per actor (user id or client identifier), newest last
+const undoHistory = new Map<string, UndoableWrite[]>()
+
+function getActorId(entry: Pick<AuditLogEntry, 'userId' | 'ipAddress'>): string | null {
+  return entry.userId || entry.ipAddress || null
+}
+
+/**
+ * Remember a successful write so it can be undone
+ */
+function recordUndoableWrite(entry: AuditLogEntry) {
+  if (entry.result !== 'SUCCESS' || entry.action === 'QUERY' || entry.metadata?.undo || entry.metadata?.rollback) {
+    return
+  }
+
+  const actorId = getActorId(entry)
+  if (!actorId) {
+    return
+  }
+
+  const now = Date.now()
+  const history = (undoHistory.get(actorId) || []).filter((write) => write.expiresAt > now)
+  history.push({
+    id: randomUUID(),
+    action: entry.action,
+    tableName: entry.tableName,
+    beforeRows: entry.beforeRows || [],
+    afterRows: entry.afterRows || [],
+    createdAt: now,
+    expiresAt: now + UNDO_WINDOW_MS,
+    status: 'available',
+    ...(entry.metadata?.batchId ? { batchId: entry.metadata.batchId } : {}),
+  })
+  undoHistory.set(actorId, trimHistory(history))
+}
+
+/**
+ * Keep the writes of the latest MAX_UNDO_HISTORY actions; a batch counts as one action
+ */
+function trimHistory(history: UndoableWrite[]): UndoableWrite[] {
+  const keptGroups = new Set<string>()
+  let firstKept = history.length
+  for (let index = history.length - 1; index >= 0; index--) {
+    const group = history[index].batchId || history[index].id
+    if (!keptGroups.has(group)) {
+      if (keptGroups.size === MAX_UNDO_HISTORY) {
+        break
+      }
+      keptGroups.add(group)
+    }
+    firstKept = index
+  }
+  return history.slice(firstKept)
+}
+
+onAuditLog(recordUndoableWrite)
+
+/**
+ * Forget the writes of a batch, e.g. after it was rolled back because one of its inserts failed
+ */
+export function discardUndoableBatch(batchId: string) {
+  for (const [actorId, history] of undoHistory.entries()) {
+    undoHistory.set(actorId, history.filter((write) => write.batchId !== batchId))
+  }
+}
+
+function getLatestUndoableWrite(actorId: string): UndoableWrite | undefined {
+  const history = undoHistory.get(actorId) || []
+  return [...history].reverse().find((write) => write.status === 'available')
+}
+
+/**
+ * The latest write and, if it belongs to a batch, the other writes of that batch, newest first
+ */
+function getLatestUndoableWrites(actorId: string): UndoableWrite[] {
+  const latest = getLatestUndoableWrite(actorId)
+  if (!latest?.batchId) {
+    return latest ? [latest] : []
+  }
+  const history = undoHistory.get(actorId) || []
+  return [...history]
+    .reverse()
+    .filter((write) => write.status === 'available' && write.batchId === latest.batchId)
+}
+
+/**
+ * Expiry of the write that "mach das rückgängig" would currently revert, if any
+ */
+export function getUndoAvailability(actor: { userId?: string; ipAddress?: string }): { expiresAt: string } | null {
+  const actorId = getActorId(actor)
+  const write = actorId ? getLatestUndoableWrite(actorId) : undefined
+  if (!write || write.expiresAt < Date.now()) {
+    return null
+  }
+  return { expiresAt: new Date(write.expiresAt).toISOString() }
+}
+
+function primaryKeyFilters(primaryKey: string[], row: Record<string, any>): Record<string, any> | null {
+  const filters: Record<string, any> = {}
+  for (const column of primaryKey) {
+    if (row[column] === undefined || row[column] === null) {
+      return null
+    }
+    filters[column] = row[column]
+  }
+  return filters
+}
+
+function hasChangedSince(expected: Record<string, any>, current: Record<string, any>): boolean {
+  return Object.keys(expected).some((column) => !isSameValue(expected[column], current[column]))
+}
+
+// Undoing a write performs the opposite action, which the role must be allowed to do
+const INVERSE_ACTIONS: Record<UndoableWrite['action'], TableAction> = {
+  INSERT: 'delete',
+  UPDATE: 'update',
+  DELETE: 'insert',
+}
+
+/**
+ * Previous values of the columns an update changed
+ */
+function previousValuesOf(step: UndoStep): Record<string, any> {
+  const previousValues: Record<string, any> = {}
+  for (const column of Object.keys(step.after!)) {
+    if (!isSameValue(step.before![column], step.after![column])) {
+      previousValues[column] = step.before![column] ?? null
+    }
+  }
+  return previousValues
+}
+
+/**
+ * Columns the compensating writes of a step list touch (none for deletes)
+ */
+function undoColumns(write: UndoableWrite, steps: UndoStep[]): string[] {
+  if (write.action === 'INSERT') {
+    return []
+  }
+  const columns = steps.flatMap((step) =>
+    Object.keys(write.action === 'DELETE' ? step.before! : previousValuesOf(step))
+  )
+  return Array.from(new Set(columns))
+}
+
+/**
+ * Check the rows of a write against the database and plan the steps that revert it
+ * Returns a German message instead if the write can no longer be reverted safely
+ */
+async function prepareUndo(write: UndoableWrite): Promise<{ steps?: UndoStep[]; message?: string }> {
+  const metadata = getTableMetadata(write.tableName)
+  if (!metadata || metadata.primaryKey.length === 0) {
+    return { message: `Änderungen in ${write.tableName} können nicht automatisch rückgängig gemacht werden.` }
+  }
+
+  const rowsToCheck = write.action === 'DELETE' ? write.beforeRows : write.afterRows
+  const steps: UndoStep[] = []
+
+  for (const row of rowsToCheck) {
+    const filters = primaryKeyFilters(metadata.primaryKey, row)
+    if (!filters) {
+      return {
+        message: 'Die betroffene Zeile lässt sich nicht eindeutig zuordnen, daher kann ich die Änderung nicht rückgängig machen.',
+      }
+    }
+
+    const current = await findAffectedRows(write.tableName, filters, 1)
+    if (current.error) {
+      return { message: `Die Änderung konnte nicht geprüft werden: ${current.error}` }
+    }
+
+    if (write.action === 'DELETE') {
+      if (current.count > 0) {
+        return { message: 'Der gelöschte Eintrag existiert inzwischen wieder, daher stelle ich ihn nicht erneut her.' }
+      }
+      steps.push({ filters, before: row })
+      continue
+    }
+
+    if (current.count === 0) {
+      return { message: 'Der Eintrag existiert nicht mehr, daher kann ich die Änderung nicht rückgängig machen.' }
+    }
+    if (hasChangedSince(row, current.rows[0])) {
+      return {
+        message: 'Der Eintrag wurde seitdem erneut geändert. Ich mache die Änderung nicht rückgängig, um nichts zu überschreiben.',
+      }
+    }
+
+    const before = write.action === 'UPDATE'
+      ? write.beforeRows.find((candidate) => !hasChangedSince(filters, candidate))
+      : undefined
+    if (write.action === 'UPDATE' && !before) {
+      return { message: 'Der vorherige Zustand der Zeile ist nicht bekannt.' }
+    }
+    steps.push({ filters, before, after: row })
+  }
+
+  return { steps }
+}
+
+/**
+ * Run the planned steps of a write; returns the first error, if any
+ */
+async function applyUndo(
+  write: UndoableWrite,
+  steps: UndoStep[],
+  options: { userId?: string; ipAddress?: string; auditMetadata: Record<string, any> }
+): Promise<string | null> {
+  for (const step of steps) {
+    let result: { error: string | null }
+    if (write.action === 'INSERT') {
+      result = await deleteRow(write.tableName, step.filters, options)
+    } else if (write.action === 'DELETE') {
+      result = await insertRow(write.tableName, step.before!, options)
+    } else {
+      const previousValues = previousValuesOf(step)
+      if (Object.keys(previousValues).length === 0) {
+        continue
+      }
+      result = await updateRow(write.tableName, step.filters, previousValues, options)
+    }
+
+    if (result.error) {
+      return result.error
+    }
+  }
+  return null
+}
+
+/**
+ * Revert the latest write of this actor
+ * - INSERT: delete the inserted row
+ * - UPDATE: restore the previous values of the changed columns
+ * - DELETE: re-insert the deleted row
+ * Writes of a batch are reverted together, newest first. All rows and the role's permission
+ * for the opposite action are checked before the first write
+ */
+export async function undoLastWrite(actor: {
+  userId?: string
+  ipAddress?: string
+  role: Role
+}): Promise<{ success: boolean; message: string }> {
+  const actorId = getActorId(actor)
+  const writes = actorId ? getLatestUndoableWrites(actorId) : []
+
+  if (writes.length === 0) {
+    return {
+      success: false,
+      message: 'Es gibt keine Änderung, die ich rückgängig machen kann.',
+    }
+  }
+
+  if (writes.some((write) => write.expiresAt < Date.now())) {
+    return {
+      success: false,
+      message: `Die letzte Änderung ist älter als ${UNDO_WINDOW_MS / 60000} Minuten und kann nicht mehr automatisch rückgängig gemacht werden.`,
+    }
+  }
+
+  const plans: Array<{ write: UndoableWrite; steps: UndoStep[] }> = []
+  for (const write of writes) {
+    const { steps, message } = await prepareUndo(write)
+    if (!steps) {
+      return { success: false, message: message! }
+    }
+    const permission = checkPermission(
+      actor.role,
+      INVERSE_ACTIONS[write.action],
+      write.tableName,
+      undoColumns(write, steps)
+    )
+    if (!permission.allowed) {
+      return { success: false, message: `Die Änderung kann nicht rückgängig gemacht werden. ${permission.reason}` }
+    }
+    plans.push({ write, steps })
+  }
+
+  const { role, ...options } = actor
+  for (const { write, steps } of plans) {
+    const error = await applyUndo(write, steps, {
+      ...options,
+      auditMetadata: { undo: true, undoneWriteId: write.id },
+    })
+    if (error) {
+      return { success: false, message: `Die Änderung konnte nicht rückgängig gemacht werden: ${error}` }
+    }
+    write.status = 'undone'
+  }
+
+  const messages: Record<UndoableWrite['action'], string> = {
+    INSERT: 'Erledigt: Der neu angelegte Eintrag wurde wieder entfernt.',
+    UPDATE: 'Erledigt: Die vorherigen Werte wurden wiederhergestellt.',
+    DELETE: 'Erledigt: Der gelöschte Eintrag wurde wiederhergestellt.',
+  }
+  const batchMessages: Record<UndoableWrite['action'], string> = {
+    INSERT: 'Erledigt: Die neu angelegten Einträge wurden wieder entfernt.',
+    UPDATE: 'Erledigt: Die vorherigen Werte wurden wiederhergestellt.',
+    DELETE: 'Erledigt: Die gelöschten Einträge wurden wiederhergestellt.',
+  }
+  const action = writes[writes.length - 1].action
+  return { success: true, message: writes.length > 1 ? batchMessages[action] : messages[action] }
+}
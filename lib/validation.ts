@@ -2,6 +2,8 @@
  * Input validation and sanitization utilities for database operations
  */
 
+import { getIdentifyingColumns } from './table-metadata'
+
 /**
  * Validate table name against whitelist
  */
@@ -25,6 +27,12 @@ export function validateTableName(tableName: string, allowedTables: Set<string>)
   return { valid: true }
 }
 
+const ALLOWED_FILTER_TYPES = [
+  'eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'like', 'ilike', 'in',
+  'not_in', 'is_null', 'not_null', 'not',
+]
+const MAX_OR_GROUPS = 20
+
 /**
  * Sanitize and validate filter values
  */
@@ -38,11 +46,28 @@ export function sanitizeFilterValue(value: any): any {
     const sanitized = { ...value }
     
     // Validate filter type
-    const allowedTypes = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'like', 'ilike', 'in']
-    if (!allowedTypes.includes(value.type)) {
+    if (!ALLOWED_FILTER_TYPES.includes(value.type)) {
       throw new Error(`Invalid filter type: ${value.type}`)
     }
 
+    if ((value.type === 'in' || value.type === 'not_in') && !Array.isArray(value.value)) {
+      throw new Error(`Filter type ${value.type} requires an array value`)
+    }
+
+    // Null checks carry no value
+    if (value.type === 'is_null' || value.type === 'not_null') {
+      return { type: value.type }
+    }
+
+    // "not" wraps another filter (or a plain value, meaning "not equal")
+    if (value.type === 'not') {
+      if (value.value === null || value.value === undefined) {
+        throw new Error('Filter type not requires a value')
+      }
+      sanitized.value = sanitizeFilterValue(value.value)
+      return sanitized
+    }
+
     // Sanitize the actual value
     sanitized.value = sanitizeValue(value.value)
     return sanitized
@@ -138,6 +163,26 @@ export function sanitizeFilters(filters: Record<string, any>): {
         return { valid: false, error: 'Too many filters' }
       }
 
+      // "or" holds a list of alternative filter maps
+      if (key === 'or') {
+        if (!Array.isArray(value) || value.length === 0 || value.length > MAX_OR_GROUPS) {
+          return { valid: false, error: `"or" must be an array of 1 to ${MAX_OR_GROUPS} filter objects` }
+        }
+        const groups: Record<string, any>[] = []
+        for (const group of value) {
+          if (!group || typeof group !== 'object' || Array.isArray(group)) {
+            return { valid: false, error: '"or" must be an array of filter objects' }
+          }
+          const groupValidation = sanitizeFilters(group)
+          if (!groupValidation.valid) {
+            return groupValidation
+          }
+          groups.push(groupValidation.sanitized!)
+        }
+        sanitized[key] = groups
+        continue
+      }
+
       sanitized[key] = sanitizeFilterValue(value)
     }
 
@@ -189,9 +234,11 @@ export function sanitizeValues(values: Record<string, any>): {
 }
 
 /**
- * Validate that filters identify exactly one row (for updates/deletes)
+ * Validate that filters reference an identifying column of the table (for updates/deletes)
+ * This only checks the shape of the filters; whether they match exactly one row is
+ * decided by counting against the table before the write
  */
-export function validateSingleRowFilters(filters: Record<string, any>): {
+export function validateSingleRowFilters(tableName: string, filters: Record<string, any>): {
   valid: boolean
   error?: string
 } {
@@ -199,21 +246,16 @@ export function validateSingleRowFilters(filters: Record<string, any>): {
     return { valid: false, error: 'Filters are required' }
   }
 
-  // Check if we have at least one unique identifier
-  // Common unique identifiers in the schema
-  const uniqueIdentifiers = [
-    'project_id', 'employee_id', 'vehicle_id', 'plan_id',
-    'project_code', 'name', 'employee_code', 'vehicle_nickname'
-  ]
-
-  const hasUniqueIdentifier = Object.keys(filters).some(key => 
-    uniqueIdentifiers.includes(key.toLowerCase())
-  )
+  const identifyingColumns = getIdentifyingColumns(tableName)
+  if (identifyingColumns.length === 0) {
+    return { valid: true }
+  }
 
-  if (!hasUniqueIdentifier) {
+  const hasIdentifyingColumn = Object.keys(filters).some(key => identifyingColumns.includes(key))
+  if (!hasIdentifyingColumn) {
     return {
       valid: false,
-      error: 'Filters must include at least one unique identifier (e.g., project_id, employee_id, project_code, name)'
+      error: `Filters must include at least one identifying column of ${tableName} (${identifyingColumns.join(', ')})`
     }
   }
 
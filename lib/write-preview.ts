@@ -0,0 +1,76 @@
+/**
+ * Before/after previews of proposed writes
+ */
+
+import type { FieldChange, RowChange, WriteActionKind, WritePreview } from '@/types'
+import { describeRow } from './table-metadata'
+
+/**
+ * Compare two column values, treating 10 and "10" as equal
+ */
+export function isSameValue(before: unknown, after: unknown): boolean {
+  if (before === null || before === undefined || after === null || after === undefined) {
+    return (before ?? null) === (after ?? null)
+  }
+  if (typeof before === 'object' || typeof after === 'object') {
+    return JSON.stringify(before) === JSON.stringify(after)
+  }
+  return String(before) === String(after)
+}
+
+/**
+ * Columns of a row that are worth showing (skips embedded relations)
+ */
+function displayColumns(row: Record<string, any>): string[] {
+  return Object.keys(row).filter((column) => {
+    const value = row[column]
+    return value === null || typeof value !== 'object' || Array.isArray(value)
+  })
+}
+
+/**
+ * Build the field-by-field diff of a proposed write
+ * - INSERT: every value goes from empty to the new value
+ * - UPDATE: only columns whose value actually changes, per matched row
+ * - DELETE: every non-empty column of each matched row goes to empty
+ */
+export function buildWritePreview(
+  kind: WriteActionKind,
+  tableName: string,
+  rows: Record<string, any>[],
+  options: {
+    values?: Record<string, any>
+    rowCount?: number
+    warnings?: string[]
+  } = {}
+): WritePreview {
+  const values = options.values || {}
+
+  const rowChanges: RowChange[] = rows.map((row) => {
+    let changes: FieldChange[]
+
+    if (kind === 'INSERT') {
+      changes = displayColumns(row)
+        .filter((column) => row[column] !== null && row[column] !== undefined)
+        .map((column) => ({ column, before: null, after: row[column] }))
+    } else if (kind === 'UPDATE') {
+      changes = Object.keys(values)
+        .filter((column) => !isSameValue(row[column], values[column]))
+        .map((column) => ({ column, before: row[column] ?? null, after: values[column] ?? null }))
+    } else {
+      changes = displayColumns(row)
+        .filter((column) => row[column] !== null && row[column] !== undefined && row[column] !== '')
+        .map((column) => ({ column, before: row[column], after: null }))
+    }
+
+    return { label: describeRow(tableName, row), changes }
+  })
+
+  return {
+    kind,
+    tableName,
+    rowCount: options.rowCount ?? rows.length,
+    rows: rowChanges,
+    ...(options.warnings?.length ? { warnings: options.warnings } : {}),
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Server-sent events of the streamed chat response (POST /api/chat)
+ *
+ * Every event is one `data: <JSON>` line followed by a blank line. A turn looks like:
+ *
+ *   token*                      answer text, or an announcement before tool calls
+ *   tool_calls                  the model's tool calls, kept in the client history
+ *   (tool_call_started          a tool starts running, with a progress label
+ *    tool_call_result)*         its result: full content for the history, summary for display
+ *   confirmation_required?      a write was prepared and waits for the user's confirmation
+ *   token*                      the final answer
+ *   usage?                      token usage of all completions of the turn
+ *   done
+ *
+ * Confirming a pending write sends write_committed, the answer as token and done.
+ * If anything fails, error ends the stream instead of done.
+ */
+
+import type { ConfirmationRequest, Message, WriteActionKind } from './index'
+
+export type ChatToolCall = NonNullable<Message['tool_calls']>[number]
+
+export interface UndoAvailability {
+  expiresAt: string
+}
+
+/**
+ * Display summary of a tool result
+ */
+export interface ToolResultSummary {
+  ok: boolean
+  /** German one-liner, e.g. "5 Treffer" */
+  text: string
+  rowCount?: number
+}
+
+export interface TokenEvent {
+  type: 'token'
+  content: string
+}
+
+export interface ToolCallsEvent {
+  type: 'tool_calls'
+  tool_calls: ChatToolCall[]
+}
+
+export interface ToolCallStartedEvent {
+  type: 'tool_call_started'
+  toolCallId: string
+  name: string
+  /** German progress label, e.g. "Suche Einsätze für 12.12." */
+  label: string
+}
+
+export interface ToolCallResultEvent {
+  type: 'tool_call_result'
+  toolCallId: string
+  name: string
+  /** Serialized result, sent back with the history of the next request */
+  content: string
+  summary: ToolResultSummary
+}
+
+export interface ConfirmationRequiredEvent {
+  type: 'confirmation_required'
+  confirmation: ConfirmationRequest
+}
+
+export interface WriteCommittedEvent {
+  type: 'write_committed'
+  actionId: string
+  kind: WriteActionKind
+  tableName: string
+  success: boolean
+  message: string
+}
+
+export interface UsageEvent {
+  type: 'usage'
+  usage: {
+    promptTokens: number
+    completionTokens: number
+    totalTokens: number
+  }
+}
+
+export interface ErrorEvent {
+  type: 'error'
+  message: string
+}
+
+export interface DoneEvent {
+  type: 'done'
+  /** Pending action that was confirmed, cancelled or expired by this turn */
+  resolvedActionId?: string
+  /** Present when undo availability changed; null if nothing can be undone */
+  undo?: UndoAvailability | null
+}
+
+export type ChatStreamEvent =
+  | TokenEvent
+  | ToolCallsEvent
+  | ToolCallStartedEvent
+  | ToolCallResultEvent
+  | ConfirmationRequiredEvent
+  | WriteCommittedEvent
+  | UsageEvent
+  | ErrorEvent
+  | DoneEvent
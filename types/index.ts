@@ -19,6 +19,59 @@ export interface Message {
 
 export interface ChatRequest {
   messages: Message[]
+  pendingActionId?: string
+}
+
+export type WriteActionKind = 'INSERT' | 'UPDATE' | 'DELETE'
+
+/**
+ * One column of a row before and after a proposed write
+ */
+export interface FieldChange {
+  column: string
+  before: unknown
+  after: unknown
+}
+
+export interface RowChange {
+  label: string
+  changes: FieldChange[]
+}
+
+/**
+ * Field-by-field preview of a proposed write, shown to the user before confirming
+ */
+export interface WritePreview {
+  kind: WriteActionKind
+  tableName: string
+  rowCount: number
+  rows: RowChange[]
+  /** German notes the user should see before confirming, e.g. a plan on a holiday */
+  warnings?: string[]
+}
+
+/**
+ * A proposed write awaiting the user's confirmation
+ */
+export interface ConfirmationRequest {
+  actionId: string
+  expiresAt: string
+  preview: WritePreview
+}
+
+/**
+ * A saved chat thread
+ */
+export interface ConversationSummary {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+  messageCount: number
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: Message[]
 }
 
 export interface STTResponse {